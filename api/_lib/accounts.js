@@ -0,0 +1,181 @@
+// ── Accounts and watchlists ──────────────────────────────────────────────────
+//
+// Local username/password accounts. Logging in issues an opaque bearer token
+// (only its SHA-256 is stored) that the browser — or a script — sends as
+// `Authorization: Bearer <token>`.
+//
+// Each user has their own watchlist. `coins` stays the shared registry of
+// every instrument that has history; adding a coin inserts into both, while
+// removing one only drops the user's watchlist row, so shared market data is
+// never deleted. Ingestion runs on the union of all watchlists.
+
+import { createHash, randomBytes, scrypt as scryptCb, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { log } from './log.js';
+
+const scrypt = promisify(scryptCb);
+
+const KEY_LENGTH = 64;
+const USERNAME_RE = /^[a-z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export function toUser(r) {
+  return { id: r.id, username: r.username, createdAt: r.created_at };
+}
+
+async function hashPassword(password) {
+  const salt = randomBytes(16).toString('hex');
+  const key = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${key.toString('hex')}`;
+}
+
+async function verifyPassword(password, stored) {
+  const [scheme, salt, hex] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hex) return false;
+  const expected = Buffer.from(hex, 'hex');
+  const key = await scrypt(password, salt, expected.length);
+  return timingSafeEqual(key, expected);
+}
+
+const hashToken = token => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Checks a register/login body. Returns { username, password } or { error }.
+ * Usernames are case-insensitive and stored lowercased.
+ */
+export function validateCredentials(body) {
+  const username = typeof body?.username === 'string' ? body.username.trim().toLowerCase() : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+  if (!USERNAME_RE.test(username)) {
+    return { error: 'username must be 3-32 characters of letters, digits, ".", "_" or "-"' };
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return { error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+  return { username, password };
+}
+
+/**
+ * Creates an account. Returns the user, or null when the name is taken. The
+ * very first account adopts the existing shared coin list as its watchlist,
+ * and any alert rules made before accounts, so upgrading an install doesn't
+ * leave its coins unwatched.
+ */
+export async function createUser(pool, { username, password }) {
+  const passwordHash = await hashPassword(password);
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    // Serialises concurrent sign-ups so exactly one of them is "first"
+    await client.query('LOCK TABLE users IN SHARE ROW EXCLUSIVE MODE');
+    const { rows: [{ count }] } = await client.query('SELECT count(*)::int AS count FROM users');
+    const { rows } = await client.query(
+      `INSERT INTO users(username, password_hash) VALUES($1,$2)
+       ON CONFLICT (username) DO NOTHING RETURNING *`,
+      [username, passwordHash]
+    );
+    if (rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    if (count === 0) {
+      await client.query(
+        `INSERT INTO watchlist_items(user_id, venue, symbol, added_at)
+         SELECT $1, venue, symbol, added_at FROM coins`,
+        [rows[0].id]
+      );
+      await client.query('UPDATE alert_rules SET user_id = $1 WHERE user_id IS NULL', [rows[0].id]);
+      await client.query('UPDATE alert_events SET user_id = $1 WHERE user_id IS NULL', [rows[0].id]);
+    }
+    await client.query('COMMIT');
+    return toUser(rows[0]);
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** The user for a username/password pair, or null. */
+export async function authenticateUser(pool, { username, password }) {
+  const { rows } = await pool.query('SELECT * FROM users WHERE username = $1', [username]);
+  if (rows.length === 0 || !(await verifyPassword(password, rows[0].password_hash))) return null;
+  return toUser(rows[0]);
+}
+
+/** Issues a new bearer token for `userId`, valid for `ttlMs`. */
+export async function createSession(pool, userId, ttlMs) {
+  const token = randomBytes(32).toString('base64url');
+  await pool.query(
+    `INSERT INTO user_sessions(token_hash, user_id, expires_at)
+     VALUES($1, $2, now() + $3 * interval '1 millisecond')`,
+    [hashToken(token), userId, ttlMs]
+  );
+  return token;
+}
+
+export async function deleteSession(pool, token) {
+  await pool.query('DELETE FROM user_sessions WHERE token_hash = $1', [hashToken(token)]);
+}
+
+/** Expired tokens are only ever rejected by lookups; this clears them out. */
+export async function pruneSessions(pool) {
+  const { rowCount } = await pool.query('DELETE FROM user_sessions WHERE expires_at <= now()');
+  return rowCount;
+}
+
+export function bearerToken(req) {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') ?? '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Express middleware: resolves the bearer token to `req.user` (and keeps the
+ * token on `req.authToken`), or answers 401. With `allowQueryToken` the token
+ * may also come as `?access_token=`, for plain download links that can't set
+ * a header.
+ */
+export function requireUser(pool, { allowQueryToken = false } = {}) {
+  return async (req, res, next) => {
+    const queryToken = allowQueryToken && typeof req.query.access_token === 'string' ? req.query.access_token : null;
+    const token = bearerToken(req) ?? queryToken;
+    if (!token) return res.status(401).json({ error: 'login required' });
+    try {
+      const { rows } = await pool.query(
+        `SELECT u.* FROM user_sessions s JOIN users u ON u.id = s.user_id
+         WHERE s.token_hash = $1 AND s.expires_at > now()`,
+        [hashToken(token)]
+      );
+      if (rows.length === 0) return res.status(401).json({ error: 'session expired' });
+      req.user = toUser(rows[0]);
+      req.authToken = token;
+      next();
+    } catch (err) {
+      log.error('session lookup failed', { err });
+      res.status(500).json({ error: 'internal server error' });
+    }
+  };
+}
+
+/** The coins on `userId`'s watchlist as { venue, symbol }. */
+export async function listUserCoins(pool, userId) {
+  const { rows } = await pool.query(
+    'SELECT venue, symbol FROM watchlist_items WHERE user_id = $1 ORDER BY added_at',
+    [userId]
+  );
+  return rows;
+}
+
+/**
+ * Coins to ingest: everything on at least one watchlist. Until the first
+ * account exists the whole shared list is ingested, as before accounts.
+ */
+export async function listWatchedCoins(pool) {
+  const { rows } = await pool.query(
+    `SELECT c.venue, c.symbol FROM coins c
+     WHERE EXISTS (SELECT 1 FROM watchlist_items w WHERE w.venue = c.venue AND w.symbol = c.symbol)
+        OR NOT EXISTS (SELECT 1 FROM users)`
+  );
+  return rows;
+}
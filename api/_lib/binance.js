@@ -0,0 +1,276 @@
+// ── Binance HTTP client ──────────────────────────────────────────────────────
+//
+// Every REST request to fapi.binance.com goes through binanceGet(), so the
+// whole process shares one view of Binance's limits:
+//
+//   • request weight — Binance counts weight per IP per minute and reports
+//     the running total in X-MBX-USED-WEIGHT-1M. A request whose weight would
+//     take that past WEIGHT_BUDGET of the limit waits for the next minute
+//   • concurrency — at most `maxConcurrency` requests are in flight; the
+//     rest queue in order
+//   • retries — network errors, timeouts, 5xx and 429 are retried up to
+//     MAX_RETRIES times with jittered exponential backoff. A Retry-After
+//     header replaces the backoff and pauses every request, not just the one
+//     that got it
+//   • circuit breaker — FAILURE_THRESHOLD requests in a row that still fail
+//     after their retries open the circuit. Requests then fail fast for
+//     CIRCUIT_COOLDOWN_MS, after which one probe is let through; it closes
+//     the circuit or reopens it. A 418 (IP ban) opens it straight away for
+//     as long as Retry-After says
+//
+// Other 4xx responses (unknown symbol, bad parameters) are the caller's
+// problem: thrown at once, not retried and not counted against the breaker.
+// Errors carry `status` (HTTP status, or null for network failures).
+
+import {
+  binanceCircuitOpen, binanceDuration, binanceRateLimited, binanceRequests, binanceUsedWeight, onCollect,
+} from './metrics.js';
+import { log } from './log.js';
+
+const DEFAULT_BASE_URL = 'https://fapi.binance.com';
+
+const MINUTE = 60 * 1000;
+
+// Leave headroom for whatever else shares the IP
+const WEIGHT_BUDGET = 0.8;
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 10 * 1000;
+
+const FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 30 * 1000;
+
+const config = {
+  baseUrl: DEFAULT_BASE_URL,
+  weightLimit: 2400, // REQUEST_WEIGHT per minute on USDⓈ-M futures
+  maxConcurrency: 8,
+};
+
+const state = {
+  usedWeight: 0,
+  weightMinute: 0,      // minute (epoch / 60 s) usedWeight belongs to
+  inFlight: 0,
+  queue: [],            // resolvers waiting for a concurrency slot
+  pausedUntil: 0,       // set from Retry-After
+  consecutiveFailures: 0,
+  circuit: 'closed',    // closed | open | half-open
+  openUntil: 0,
+  probing: false,
+  requests: 0,
+  retries: 0,
+  rateLimited: 0,
+};
+
+/**
+ * Overrides the weight limit, concurrency or base URL (e.g. a local stand-in
+ * in tests); unset fields keep their value.
+ */
+export function configureBinanceClient({ baseUrl, weightLimit, maxConcurrency } = {}) {
+  if (baseUrl) config.baseUrl = baseUrl.replace(/\/$/, '');
+  if (weightLimit > 0) config.weightLimit = weightLimit;
+  if (maxConcurrency > 0) config.maxConcurrency = maxConcurrency;
+}
+
+/** Snapshot of the client's limits, load and circuit, for health and metrics. */
+export function binanceClientState() {
+  return {
+    circuit: state.circuit,
+    openUntil: state.circuit === 'open' ? state.openUntil : null,
+    usedWeight: Math.floor(Date.now() / MINUTE) === state.weightMinute ? state.usedWeight : 0,
+    weightLimit: config.weightLimit,
+    inFlight: state.inFlight,
+    queued: state.queue.length,
+    consecutiveFailures: state.consecutiveFailures,
+    requests: state.requests,
+    retries: state.retries,
+    rateLimited: state.rateLimited,
+  };
+}
+
+onCollect(() => {
+  const { circuit, usedWeight } = binanceClientState();
+  binanceCircuitOpen.set({}, circuit === 'open' ? 1 : 0);
+  binanceUsedWeight.set({}, usedWeight);
+});
+
+/** Binance's published weight for the endpoints we call; 1 for the rest. */
+function requestWeight(path, params) {
+  const withSymbol = params.symbol != null;
+  switch (path) {
+    case '/fapi/v1/ticker/price': return withSymbol ? 1 : 2;
+    case '/fapi/v1/ticker/24hr': return withSymbol ? 1 : 40;
+    case '/fapi/v1/premiumIndex': return withSymbol ? 1 : 10;
+    case '/fapi/v1/klines': {
+      const limit = params.limit ?? 500;
+      return limit < 100 ? 1 : limit < 500 ? 2 : limit <= 1000 ? 5 : 10;
+    }
+    default: return 1;
+  }
+}
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+function backoffMs(attempt) {
+  const base = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return base / 2 + Math.random() * base; // ±50% jitter
+}
+
+function retryAfterMs(res) {
+  const seconds = Number(res.headers.get('retry-after'));
+  return seconds > 0 ? seconds * 1000 : null;
+}
+
+function checkCircuit() {
+  const now = Date.now();
+  if (state.circuit === 'open' && now >= state.openUntil) {
+    state.circuit = 'half-open';
+    state.probing = false;
+  }
+  if (state.circuit === 'closed') return;
+  if (state.circuit === 'open' || state.probing) {
+    const until = state.circuit === 'open' ? state.openUntil : now;
+    throw Object.assign(
+      new Error(`Binance circuit open — requests paused until ${new Date(until).toISOString()}`),
+      { status: null }
+    );
+  }
+  state.probing = true; // this request is the half-open probe
+}
+
+function openCircuit(ms) {
+  state.circuit = 'open';
+  state.openUntil = Math.max(state.openUntil, Date.now() + ms);
+  state.probing = false;
+  log.error('binance circuit open', { seconds: Math.round(ms / 1000), failures: state.consecutiveFailures });
+}
+
+function recordOutcome(ok) {
+  if (ok) {
+    if (state.circuit !== 'closed') log.info('binance circuit closed');
+    state.consecutiveFailures = 0;
+    state.circuit = 'closed';
+    state.probing = false;
+    return;
+  }
+  state.consecutiveFailures++;
+  if (state.circuit === 'half-open' || state.consecutiveFailures >= FAILURE_THRESHOLD) {
+    openCircuit(CIRCUIT_COOLDOWN_MS);
+  }
+}
+
+async function acquire(weight) {
+  if (state.inFlight >= config.maxConcurrency) {
+    // release() hands its slot over, already counted
+    await new Promise(resolve => state.queue.push(resolve));
+  } else {
+    state.inFlight++;
+  }
+  for (;;) {
+    const now = Date.now();
+    if (state.pausedUntil > now) {
+      await sleep(state.pausedUntil - now);
+      continue;
+    }
+    const minute = Math.floor(now / MINUTE);
+    if (minute !== state.weightMinute) {
+      state.weightMinute = minute;
+      state.usedWeight = 0;
+    }
+    if (state.usedWeight + weight <= config.weightLimit * WEIGHT_BUDGET) break;
+    // Binance's window is the calendar minute
+    await sleep((minute + 1) * MINUTE - now + 50);
+  }
+  state.usedWeight += weight;
+}
+
+function release() {
+  state.inFlight--;
+  // Hand the slot straight to the next waiter
+  const next = state.queue.shift();
+  if (next) {
+    state.inFlight++;
+    next();
+  }
+}
+
+function trackWeight(res) {
+  const used = Number(res.headers.get('x-mbx-used-weight-1m'));
+  if (!Number.isFinite(used) || used <= 0) return;
+  const minute = Math.floor(Date.now() / MINUTE);
+  if (minute === state.weightMinute) state.usedWeight = Math.max(state.usedWeight, used);
+}
+
+/** One attempt; resolves to parsed JSON or throws an error with `status` and `retryable`. */
+async function attempt(path, url, weight) {
+  await acquire(weight);
+  const end = binanceDuration.startTimer({ endpoint: path });
+  let status = 'error';
+  try {
+    state.requests++;
+    const res = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    status = res.status;
+    trackWeight(res);
+    if (res.ok) return await res.json();
+
+    const body = await res.text().catch(() => '');
+    let msg = '';
+    try { msg = JSON.parse(body).msg ?? ''; } catch { /* not JSON */ }
+    const err = Object.assign(new Error(`${url} → ${res.status}${msg ? ` ${msg}` : ''}`), {
+      status: res.status,
+      retryable: res.status === 429 || res.status >= 500,
+    });
+    const retryAfter = retryAfterMs(res);
+    if (res.status === 429 || res.status === 418) {
+      state.rateLimited++;
+      binanceRateLimited.inc();
+      state.pausedUntil = Math.max(state.pausedUntil, Date.now() + (retryAfter ?? MINUTE));
+    }
+    if (res.status === 418) openCircuit(retryAfter ?? 2 * MINUTE);
+    throw err;
+  } catch (err) {
+    if (err.status !== undefined) throw err;
+    // fetch itself failed: DNS, reset connection, timeout
+    throw Object.assign(new Error(`${url} → ${err?.message ?? err}`), { status: null, retryable: true });
+  } finally {
+    end();
+    binanceRequests.inc({ endpoint: path, status });
+    release();
+  }
+}
+
+/**
+ * GET `path` on the Binance futures API with `params` as the query string
+ * and return the parsed JSON, subject to the limits above.
+ */
+export async function binanceGet(path, params = {}) {
+  const query = new URLSearchParams(
+    Object.entries(params).filter(([, v]) => v != null).map(([k, v]) => [k, String(v)])
+  ).toString();
+  const url = `${config.baseUrl}${path}${query ? `?${query}` : ''}`;
+  const weight = requestWeight(path, params);
+
+  checkCircuit();
+  for (let i = 0; ; i++) {
+    try {
+      const data = await attempt(path, url, weight);
+      recordOutcome(true);
+      return data;
+    } catch (err) {
+      if (!err.retryable) {
+        // A client error still proves Binance is answering; a 418 already
+        // opened the circuit
+        if (err.status !== 418) recordOutcome(true);
+        throw err;
+      }
+      if (i >= MAX_RETRIES || state.circuit === 'open') {
+        recordOutcome(false);
+        throw err;
+      }
+      state.retries++;
+      // A 429 already paused everyone until Retry-After; back off on top of that
+      await sleep(backoffMs(i));
+    }
+  }
+}
@@ -0,0 +1,540 @@
+// ── Exchange adapters ────────────────────────────────────────────────────────
+//
+// Every venue we can track implements the same adapter shape so the fetch
+// cycle, the routes and the cron handler never need to know which exchange a
+// coin lives on:
+//
+//   id                         – stable key stored in the `venue` column
+//   label                      – display name for the UI
+//   fetchPrice(symbol)         → last traded price
+//   fetchOpenInterest(symbol)  → open interest in base-asset units (coins)
+//   fetchFundingRate(symbol)   → current (predicted) funding rate
+//   fetchSnapshot(symbol)      → { timestamp, price, openInterest, fundingRate,
+//                                  markPrice, indexPrice, nextFundingTime,
+//                                  interestRate }; the last four are null
+//                                  where the venue doesn't report them
+//   fetchSnapshotBatch(symbols, errors?)
+//                              → Map<SYMBOL, snapshot>; symbols that fail are
+//                                simply missing from the map, with the reason
+//                                set in `errors` (Map<SYMBOL, message>) if given
+//   fetchHistory(symbol, start, end) (optional)
+//                              → snapshots in [start, end] rebuilt from the
+//                                exchange's history endpoints, ascending;
+//                                venues without it can't be backfilled
+//   historyChunkMs             – widest [start, end] one fetchHistory call covers
+//   fetchSymbols()             → every listed linear contract as
+//                                { symbol, baseAsset, quoteAsset, contractType,
+//                                  status, onboardDate }; contractType is
+//                                'PERPETUAL' for perps, status 'TRADING' when
+//                                the contract can be traded
+//   fetchMarketOverview() (optional)
+//                              → one row per listed symbol from the venue's
+//                                all-symbol endpoints: { symbol, price,
+//                                priceChangePct (24h), quoteVolume (24h),
+//                                fundingRate (predicted), settledFundingRate
+//                                (last settlement, or null) }
+//   fetchOpenInterestChange(symbol, lookbackMs) (optional)
+//                              → % change in open interest over lookbackMs
+//   fetchFundingIntervals() (optional)
+//                              → Map<SYMBOL, funding interval in ms>; symbols
+//                                missing from it settle every 8 hours
+//   fetchFundingSettlements(symbol, start, end) (optional)
+//                              → settled funding in [start, end] as
+//                                { time, rate, markPrice }, ascending — one
+//                                page; call again from the last time + 1
+//   fetchPositioning(symbol, start, end) (optional)
+//                              → 5-minute positioning rows in [start, end],
+//                                ascending: { timestamp, globalLongShortRatio,
+//                                globalLongAccount, topLongShortRatio,
+//                                topLongAccount, takerBuySellRatio,
+//                                takerBuyVolume, takerSellVolume }; a field is
+//                                null when its endpoint had no row then
+//   positioningPeriodMs        – granularity of fetchPositioning
+//
+// Symbols are always the exchange's own linear-perp symbol (e.g. BTCUSDT).
+
+import { binanceGet } from './binance.js';
+import { log } from './log.js';
+
+export const DEFAULT_VENUE = 'binance';
+
+async function getJson(url) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} → ${res.status}`);
+  return res.json();
+}
+
+// ── Binance USDⓈ-M futures ───────────────────────────────────────────────────
+
+// Every request goes through binanceGet (binance.js), which owns the weight
+// budget, concurrency, retries and the circuit breaker
+
+/** Funding rate plus the premium-index fields of a /fapi/v1/premiumIndex entry. */
+function binancePremiumFields(f) {
+  const number = v => (v == null || v === '' ? null : parseFloat(v));
+  return {
+    fundingRate:     number(f?.lastFundingRate) ?? 0,
+    markPrice:       number(f?.markPrice),
+    indexPrice:      number(f?.indexPrice),
+    // Zero for contracts without funding
+    nextFundingTime: f?.nextFundingTime ? Number(f.nextFundingTime) : null,
+    interestRate:    number(f?.interestRate),
+  };
+}
+
+/**
+ * Batch fetch for all symbols: 2 shared requests (prices + funding rates for
+ * every futures symbol at once) + N individual open-interest requests.
+ * Reduces total Binance API calls from N×3 → 2+N per cycle; the client paces
+ * the N so a large watchlist can't burst past the weight limit.
+ */
+async function fetchBinanceDataBatch(symbols, errors = null) {
+  if (symbols.length === 0) return new Map();
+
+  const symbolSet = new Set(symbols.map(s => s.toUpperCase()));
+
+  // Two requests that cover ALL futures symbols at once
+  const [allPrices, allFunding] = await Promise.all([
+    binanceGet('/fapi/v1/ticker/price'),
+    binanceGet('/fapi/v1/premiumIndex'),
+  ]);
+
+  const priceMap   = new Map(allPrices.map(p  => [p.symbol, parseFloat(p.price)]));
+  const premiumMap = new Map(allFunding.map(f => [f.symbol, f]));
+
+  // Open interest has no batch endpoint — still one request per symbol
+  const now = Date.now();
+  const oiResults = await Promise.allSettled(
+    symbols.map(symbol =>
+      binanceGet('/fapi/v1/openInterest', { symbol })
+        .then(d => ({ symbol: symbol.toUpperCase(), openInterest: parseFloat(d.openInterest) }))
+    )
+  );
+
+  const result = new Map();
+  oiResults.forEach((outcome, i) => {
+    if (outcome.status === 'rejected') {
+      log.error('binance OI fetch failed', { symbol: symbols[i], err: outcome.reason });
+      errors?.set(symbols[i].toUpperCase(), outcome.reason?.message ?? String(outcome.reason));
+      return;
+    }
+    const { symbol, openInterest } = outcome.value;
+    if (!symbolSet.has(symbol)) return;
+    result.set(symbol, {
+      timestamp: now,
+      price:        priceMap.get(symbol) ?? 0,
+      openInterest,
+      ...binancePremiumFields(premiumMap.get(symbol)),
+    });
+  });
+  return result;
+}
+
+async function fetchBinanceData(symbol) {
+  const [priceData, oiData, fundData] = await Promise.all([
+    binanceGet('/fapi/v1/ticker/price', { symbol }),
+    binanceGet('/fapi/v1/openInterest', { symbol }),
+    binanceGet('/fapi/v1/premiumIndex', { symbol }),
+  ]);
+  return {
+    timestamp:    Date.now(),
+    price:        parseFloat(priceData.price),
+    openInterest: parseFloat(oiData.openInterest),
+    ...binancePremiumFields(fundData),
+  };
+}
+
+const HISTORY_PERIOD_MS = 5 * 60 * 1000;
+
+// openInterestHist returns at most 500 periods per call
+const BINANCE_HISTORY_CHUNK_MS = 500 * HISTORY_PERIOD_MS;
+
+/**
+ * Rebuilds 5-minute snapshots from Binance's history endpoints:
+ * openInterestHist (the 5m grid — Binance keeps about 30 days of it),
+ * 5m klines for price and settled funding from fundingRate. Funding at each
+ * point is the last settlement at or before it, so it is the realised rate
+ * rather than the predicted one the live cycle stores.
+ */
+async function fetchBinanceHistory(symbol, start, end) {
+  const [oiHist, klines, funding] = await Promise.all([
+    binanceGet('/futures/data/openInterestHist', { symbol, period: '5m', startTime: start, endTime: end, limit: 500 }),
+    // One extra period on the left so the first OI point has a closed candle
+    binanceGet('/fapi/v1/klines', { symbol, interval: '5m', startTime: start - HISTORY_PERIOD_MS, endTime: end, limit: 501 }),
+    // Settlements are at most 8h apart — look back a day to seed the first point
+    binanceGet('/fapi/v1/fundingRate', { symbol, startTime: start - 24 * 60 * 60 * 1000, endTime: end, limit: 1000 }),
+  ]);
+
+  // OI at t is a snapshot at the period boundary: price = close of the candle ending at t
+  const closeByOpenTime = new Map(klines.map(k => [k[0], parseFloat(k[4])]));
+  const settlements = funding
+    .map(f => ({ time: f.fundingTime, rate: parseFloat(f.fundingRate) }))
+    .sort((a, b) => a.time - b.time);
+
+  const points = [];
+  let f = -1;
+  for (const o of [...oiHist].sort((a, b) => a.timestamp - b.timestamp)) {
+    const price = closeByOpenTime.get(o.timestamp - HISTORY_PERIOD_MS);
+    if (price == null) continue;
+    while (f + 1 < settlements.length && settlements[f + 1].time <= o.timestamp) f++;
+    points.push({
+      timestamp: o.timestamp,
+      price,
+      openInterest: parseFloat(o.sumOpenInterest),
+      fundingRate: f >= 0 ? settlements[f].rate : 0,
+    });
+  }
+  return points;
+}
+
+async function fetchBinanceSymbols() {
+  const info = await binanceGet('/fapi/v1/exchangeInfo');
+  return info.symbols.map(s => ({
+    symbol: s.symbol,
+    baseAsset: s.baseAsset,
+    quoteAsset: s.quoteAsset,
+    contractType: s.contractType,
+    status: s.status,
+    onboardDate: s.onboardDate ?? null,
+  }));
+}
+
+/**
+ * Every futures symbol in three requests: 24h tickers, premium index
+ * (predicted funding) and the most recent funding settlements across all
+ * symbols — 1000 rows covers at least the last one for each.
+ */
+async function fetchBinanceMarketOverview() {
+  const [tickers, premium, settlements] = await Promise.all([
+    binanceGet('/fapi/v1/ticker/24hr'),
+    binanceGet('/fapi/v1/premiumIndex'),
+    binanceGet('/fapi/v1/fundingRate', { limit: 1000 }),
+  ]);
+
+  const fundingMap = new Map(premium.map(f => [f.symbol, parseFloat(f.lastFundingRate)]));
+  const settledMap = new Map();
+  for (const f of [...settlements].sort((a, b) => a.fundingTime - b.fundingTime)) {
+    settledMap.set(f.symbol, parseFloat(f.fundingRate));
+  }
+
+  return tickers
+    .filter(t => fundingMap.has(t.symbol))
+    .map(t => ({
+      symbol: t.symbol,
+      price: parseFloat(t.lastPrice),
+      priceChangePct: parseFloat(t.priceChangePercent),
+      quoteVolume: parseFloat(t.quoteVolume),
+      fundingRate: fundingMap.get(t.symbol),
+      settledFundingRate: settledMap.get(t.symbol) ?? null,
+    }));
+}
+
+/** OI change from openInterestHist, at 5m resolution up to 1h beyond that. */
+async function fetchBinanceOpenInterestChange(symbol, lookbackMs) {
+  const period = lookbackMs > 24 * 60 * 60 * 1000 ? '1h' : '5m';
+  const periodMs = period === '1h' ? 60 * 60 * 1000 : HISTORY_PERIOD_MS;
+  const limit = Math.min(500, Math.ceil(lookbackMs / periodMs) + 1);
+  const hist = await binanceGet('/futures/data/openInterestHist', { symbol, period, limit });
+  if (hist.length < 2) return null;
+  const sorted = [...hist].sort((a, b) => a.timestamp - b.timestamp);
+  const from = parseFloat(sorted[0].sumOpenInterest);
+  const to = parseFloat(sorted[sorted.length - 1].sumOpenInterest);
+  return from === 0 ? null : ((to - from) / from) * 100;
+}
+
+/** fundingInfo only lists symbols whose interval or caps were adjusted from the defaults. */
+async function fetchBinanceFundingIntervals() {
+  const info = await binanceGet('/fapi/v1/fundingInfo');
+  return new Map(
+    info
+      .filter(f => f.fundingIntervalHours)
+      .map(f => [f.symbol, f.fundingIntervalHours * 60 * 60 * 1000])
+  );
+}
+
+async function fetchBinanceFundingSettlements(symbol, start, end) {
+  const rows = await binanceGet('/fapi/v1/fundingRate', { symbol, startTime: start, endTime: end, limit: 1000 });
+  return rows
+    .map(f => ({
+      time: f.fundingTime,
+      rate: parseFloat(f.fundingRate),
+      markPrice: f.markPrice ? parseFloat(f.markPrice) : null,
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// The futures/data ratio endpoints return at most 500 periods per call
+const BINANCE_POSITIONING_LIMIT = 500;
+
+/**
+ * Account long/short ratio across all users, top traders' position ratio and
+ * taker buy/sell volume, merged by period. The three endpoints are fetched
+ * together; one failing fails the call so the caller retries the same range.
+ */
+async function fetchBinancePositioning(symbol, start, end) {
+  const params = { symbol, period: '5m', startTime: start, endTime: end, limit: BINANCE_POSITIONING_LIMIT };
+  const [global, top, taker] = await Promise.all([
+    binanceGet('/futures/data/globalLongShortAccountRatio', params),
+    binanceGet('/futures/data/topLongShortPositionRatio', params),
+    binanceGet('/futures/data/takerlongshortRatio', params),
+  ]);
+
+  const rows = new Map();
+  const row = ts => {
+    if (!rows.has(ts)) {
+      rows.set(ts, {
+        timestamp: ts,
+        globalLongShortRatio: null, globalLongAccount: null,
+        topLongShortRatio: null, topLongAccount: null,
+        takerBuySellRatio: null, takerBuyVolume: null, takerSellVolume: null,
+      });
+    }
+    return rows.get(ts);
+  };
+  for (const g of global) {
+    Object.assign(row(Number(g.timestamp)), {
+      globalLongShortRatio: parseFloat(g.longShortRatio), globalLongAccount: parseFloat(g.longAccount),
+    });
+  }
+  for (const t of top) {
+    Object.assign(row(Number(t.timestamp)), {
+      topLongShortRatio: parseFloat(t.longShortRatio), topLongAccount: parseFloat(t.longAccount),
+    });
+  }
+  for (const t of taker) {
+    Object.assign(row(Number(t.timestamp)), {
+      takerBuySellRatio: parseFloat(t.buySellRatio),
+      takerBuyVolume: parseFloat(t.buyVol),
+      takerSellVolume: parseFloat(t.sellVol),
+    });
+  }
+  return [...rows.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+const binance = {
+  id: 'binance',
+  label: 'Binance',
+
+  async fetchPrice(symbol) {
+    const d = await binanceGet('/fapi/v1/ticker/price', { symbol });
+    return parseFloat(d.price);
+  },
+
+  async fetchOpenInterest(symbol) {
+    const d = await binanceGet('/fapi/v1/openInterest', { symbol });
+    return parseFloat(d.openInterest);
+  },
+
+  async fetchFundingRate(symbol) {
+    const d = await binanceGet('/fapi/v1/premiumIndex', { symbol });
+    return parseFloat(d.lastFundingRate);
+  },
+
+  fetchSnapshot: fetchBinanceData,
+  fetchSnapshotBatch: fetchBinanceDataBatch,
+  fetchHistory: fetchBinanceHistory,
+  historyChunkMs: BINANCE_HISTORY_CHUNK_MS,
+  fetchSymbols: fetchBinanceSymbols,
+  fetchMarketOverview: fetchBinanceMarketOverview,
+  fetchOpenInterestChange: fetchBinanceOpenInterestChange,
+  fetchFundingIntervals: fetchBinanceFundingIntervals,
+  fetchFundingSettlements: fetchBinanceFundingSettlements,
+  fetchPositioning: fetchBinancePositioning,
+  positioningPeriodMs: HISTORY_PERIOD_MS,
+};
+
+// ── Bybit linear perpetuals ──────────────────────────────────────────────────
+
+const BYBIT_API = 'https://api.bybit.com';
+
+/**
+ * Bybit's v5 tickers endpoint carries price, open interest (in coins) and the
+ * predicted funding rate in one payload, so a single request covers every
+ * linear symbol — no per-symbol fan-out like Binance's open interest.
+ */
+async function fetchBybitTickers(symbol) {
+  const query = symbol ? `&symbol=${encodeURIComponent(symbol)}` : '';
+  const body = await getJson(`${BYBIT_API}/v5/market/tickers?category=linear${query}`);
+  if (body.retCode !== 0) throw new Error(`Bybit tickers failed: ${body.retMsg}`);
+  return body.result.list;
+}
+
+function bybitTickerToPoint(t, timestamp) {
+  return {
+    timestamp,
+    price:           parseFloat(t.lastPrice),
+    openInterest:    parseFloat(t.openInterest),
+    fundingRate:     parseFloat(t.fundingRate) || 0,
+    markPrice:       t.markPrice ? parseFloat(t.markPrice) : null,
+    indexPrice:      t.indexPrice ? parseFloat(t.indexPrice) : null,
+    nextFundingTime: Number(t.nextFundingTime) || null,
+    interestRate:    null,
+  };
+}
+
+async function fetchBybitTicker(symbol) {
+  const [ticker] = await fetchBybitTickers(symbol);
+  if (!ticker) throw new Error(`Bybit has no linear ticker for ${symbol}`);
+  return ticker;
+}
+
+/** Every linear instrument, following Bybit's cursor pagination. */
+async function fetchBybitInstruments() {
+  const instruments = [];
+  let cursor = '';
+  do {
+    const query = cursor ? `&cursor=${encodeURIComponent(cursor)}` : '';
+    const body = await getJson(`${BYBIT_API}/v5/market/instruments-info?category=linear&limit=1000${query}`);
+    if (body.retCode !== 0) throw new Error(`Bybit instruments failed: ${body.retMsg}`);
+    instruments.push(...body.result.list);
+    cursor = body.result.nextPageCursor;
+  } while (cursor);
+  return instruments;
+}
+
+async function fetchBybitSymbols() {
+  return (await fetchBybitInstruments()).map(s => ({
+    symbol: s.symbol,
+    baseAsset: s.baseCoin,
+    quoteAsset: s.quoteCoin,
+    contractType: s.contractType === 'LinearPerpetual' ? 'PERPETUAL' : s.contractType,
+    status: s.status === 'Trading' ? 'TRADING' : s.status.toUpperCase(),
+    onboardDate: s.launchTime ? Number(s.launchTime) : null,
+  }));
+}
+
+/** instruments-info carries each contract's interval in minutes. */
+async function fetchBybitFundingIntervals() {
+  return new Map(
+    (await fetchBybitInstruments())
+      .filter(s => Number(s.fundingInterval) > 0)
+      .map(s => [s.symbol, Number(s.fundingInterval) * 60 * 1000])
+  );
+}
+
+const BYBIT_FUNDING_PAGE = 200;
+
+/**
+ * funding/history returns the newest BYBIT_FUNDING_PAGE settlements of the
+ * range, so pages are walked backwards until the whole range is covered.
+ */
+async function fetchBybitFundingSettlements(symbol, start, end) {
+  const settlements = [];
+  let upper = end;
+  for (;;) {
+    const body = await getJson(
+      `${BYBIT_API}/v5/market/funding/history?category=linear&symbol=${encodeURIComponent(symbol)}&startTime=${start}&endTime=${upper}&limit=${BYBIT_FUNDING_PAGE}`
+    );
+    if (body.retCode !== 0) throw new Error(`Bybit funding history failed: ${body.retMsg}`);
+    const page = body.result.list.map(f => ({
+      time: Number(f.fundingRateTimestamp), rate: parseFloat(f.fundingRate), markPrice: null,
+    }));
+    settlements.push(...page);
+    if (page.length < BYBIT_FUNDING_PAGE) break;
+    upper = Math.min(...page.map(f => f.time)) - 1;
+    if (upper < start) break;
+  }
+  return settlements.sort((a, b) => a.time - b.time);
+}
+
+const bybit = {
+  id: 'bybit',
+  label: 'Bybit',
+
+  async fetchPrice(symbol) {
+    return parseFloat((await fetchBybitTicker(symbol)).lastPrice);
+  },
+
+  async fetchOpenInterest(symbol) {
+    return parseFloat((await fetchBybitTicker(symbol)).openInterest);
+  },
+
+  async fetchFundingRate(symbol) {
+    return parseFloat((await fetchBybitTicker(symbol)).fundingRate) || 0;
+  },
+
+  async fetchSnapshot(symbol) {
+    return bybitTickerToPoint(await fetchBybitTicker(symbol), Date.now());
+  },
+
+  async fetchSnapshotBatch(symbols, errors = null) {
+    if (symbols.length === 0) return new Map();
+    const symbolSet = new Set(symbols.map(s => s.toUpperCase()));
+    const now = Date.now();
+    const result = new Map();
+    for (const t of await fetchBybitTickers()) {
+      if (symbolSet.has(t.symbol)) result.set(t.symbol, bybitTickerToPoint(t, now));
+    }
+    for (const symbol of symbolSet) {
+      if (!result.has(symbol)) errors?.set(symbol, 'missing from Bybit tickers');
+    }
+    return result;
+  },
+
+  fetchSymbols: fetchBybitSymbols,
+  fetchFundingIntervals: fetchBybitFundingIntervals,
+  fetchFundingSettlements: fetchBybitFundingSettlements,
+};
+
+// ── Registry ─────────────────────────────────────────────────────────────────
+
+const ADAPTERS = new Map([binance, bybit].map(a => [a.id, a]));
+
+/** Returns the adapter for `venue`, or undefined for an unknown venue. */
+export function getAdapter(venue) {
+  return ADAPTERS.get(venue);
+}
+
+/** Public list of venues for the UI's venue picker. */
+export function listVenues() {
+  return [...ADAPTERS.values()].map(({ id, label }) => ({ id, label }));
+}
+
+/**
+ * Normalise a `venue` request parameter: missing → DEFAULT_VENUE, known id →
+ * that id (lower-cased), anything else → null so the route can 400.
+ */
+export function parseVenue(raw) {
+  if (raw == null || raw === '') return DEFAULT_VENUE;
+  const venue = String(raw).toLowerCase();
+  return ADAPTERS.has(venue) ? venue : null;
+}
+
+/**
+ * Groups `{ venue, symbol }` rows by venue and runs each adapter's batch
+ * fetch. Returns Map<venue, Map<SYMBOL, snapshot>>; a venue whose batch
+ * throws is logged and comes back as an empty map so other venues still
+ * get stored. `errors`, when given, collects `venue:SYMBOL` → reason for
+ * every coin that came back without a snapshot.
+ */
+export async function fetchSnapshotsByVenue(coins, errors = null) {
+  const byVenue = new Map();
+  for (const { venue, symbol } of coins) {
+    if (!byVenue.has(venue)) byVenue.set(venue, []);
+    byVenue.get(venue).push(symbol);
+  }
+
+  const result = new Map();
+  await Promise.all(
+    [...byVenue].map(async ([venue, symbols]) => {
+      const adapter = getAdapter(venue);
+      const failAll = message => symbols.forEach(s => errors?.set(`${venue}:${s.toUpperCase()}`, message));
+      if (!adapter) {
+        log.error('unknown venue, skipping coins', { venue, coins: symbols.length });
+        failAll(`unknown venue "${venue}"`);
+        result.set(venue, new Map());
+        return;
+      }
+      try {
+        const symbolErrors = new Map();
+        result.set(venue, await adapter.fetchSnapshotBatch(symbols, symbolErrors));
+        for (const [symbol, message] of symbolErrors) errors?.set(`${venue}:${symbol}`, message);
+      } catch (e) {
+        log.error('snapshot batch failed', { venue, err: e });
+        failAll(`${venue} batch failed: ${e?.message ?? e}`);
+        result.set(venue, new Map());
+      }
+    })
+  );
+  return result;
+}
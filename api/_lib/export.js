@@ -0,0 +1,199 @@
+// ── Bulk export ──────────────────────────────────────────────────────────────
+//
+// Streams stored market data for many coins over a time range as CSV, NDJSON
+// or Parquet, for research notebooks rather than the UI:
+//
+//   • without an interval: raw rows from market_data (whatever the raw tier
+//     still retains)
+//   • with an interval: the market_candles rollup at that interval
+//
+// Rows come through a server-side cursor inside one read-only REPEATABLE
+// READ transaction, EXPORT_FETCH_SIZE at a time and one coin after another,
+// and each batch is written out before the next is fetched — so a week of
+// 200 coins never sits in memory, and a slow client holds back the fetching
+// instead of piling up buffers. The export stops when the client goes away.
+
+import { once } from 'events';
+import { CANDLE_INTERVALS_MS } from './candles.js';
+import { createParquetWriter } from './parquet.js';
+import { log } from './log.js';
+
+const EXPORT_FETCH_SIZE = 5000;
+
+/** Most coins one export may list. */
+export const MAX_EXPORT_COINS = 500;
+
+export const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  parquet: { contentType: 'application/vnd.apache.parquet', extension: 'parquet' },
+};
+
+// Output column → [source column, type]; names match the API's JSON fields
+const RAW_COLUMNS = [
+  ['venue', 'venue', 'string'],
+  ['symbol', 'symbol', 'string'],
+  ['timestamp', 'timestamp', 'timestamp'],
+  ['price', 'price', 'double'],
+  ['openInterest', 'open_interest', 'double'],
+  ['fundingRate', 'funding_rate', 'double'],
+  ['markPrice', 'mark_price', 'double'],
+  ['indexPrice', 'index_price', 'double'],
+  ['nextFundingTime', 'next_funding_time', 'timestamp'],
+  ['interestRate', 'interest_rate', 'double'],
+  ['fundingIntervalMs', 'funding_interval_ms', 'int'],
+];
+
+const CANDLE_COLUMNS = [
+  ['venue', 'venue', 'string'],
+  ['symbol', 'symbol', 'string'],
+  ['timestamp', 'bucket', 'timestamp'],
+  ['intervalMs', 'interval_ms', 'int'],
+  ['priceOpen', 'price_open', 'double'],
+  ['priceHigh', 'price_high', 'double'],
+  ['priceLow', 'price_low', 'double'],
+  ['priceClose', 'price_close', 'double'],
+  ['oiOpen', 'oi_open', 'double'],
+  ['oiHigh', 'oi_high', 'double'],
+  ['oiLow', 'oi_low', 'double'],
+  ['oiClose', 'oi_close', 'double'],
+  ['fundingAvg', 'funding_avg', 'double'],
+  ['fundingLast', 'funding_last', 'double'],
+  ['basisAvg', 'basis_avg', 'double'],
+  ['fundingIntervalMs', 'funding_interval_ms', 'int'],
+  ['samples', 'samples', 'int'],
+];
+
+/**
+ * Validates export parameters. `coins` is a parsed coin list; `interval`
+ * is null for raw rows or one of the rollup intervals. Returns an error
+ * message or null.
+ */
+export function validateExport({ coins, start, end, interval, format }) {
+  if (!EXPORT_FORMATS[format]) return `format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}`;
+  if (coins.length === 0) return 'at least one symbol is required';
+  if (coins.length > MAX_EXPORT_COINS) return `at most ${MAX_EXPORT_COINS} symbols per export`;
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return 'start and end timestamps required';
+  if (start >= end) return 'start must be less than end';
+  if (interval != null && !CANDLE_INTERVALS_MS.includes(interval)) {
+    return `interval must be one of ${CANDLE_INTERVALS_MS.join(', ')} (ms), or omitted for raw rows`;
+  }
+  return null;
+}
+
+const toValue = (type, v) => {
+  if (v == null) return null;
+  if (type === 'string') return v;
+  return type === 'double' ? parseFloat(v) : Number(v);
+};
+
+function csvField(v) {
+  if (v == null) return '';
+  const s = String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Per-format encoder: header(), rows(batch) and end() each return a chunk or null. */
+function createEncoder(format, columns) {
+  const names = columns.map(([name]) => name);
+  if (format === 'csv') {
+    return {
+      header: () => names.join(',') + '\n',
+      rows: batch => batch.map(r => names.map(n => csvField(r[n])).join(',') + '\n').join(''),
+      end: () => null,
+    };
+  }
+  if (format === 'ndjson') {
+    return {
+      header: () => null,
+      rows: batch => batch.map(r => JSON.stringify(r) + '\n').join(''),
+      end: () => null,
+    };
+  }
+  const writer = createParquetWriter(columns.map(([name, , type]) => ({ name, type })));
+  return {
+    header: () => null,
+    rows: batch => {
+      const groups = batch.map(r => writer.push(r)).filter(Boolean);
+      return groups.length > 0 ? Buffer.concat(groups) : null;
+    },
+    end: () => writer.finish(),
+  };
+}
+
+/** Attachment name: market_data_20240101-20240108.csv, candles_5m_20240101-20240108.parquet, … */
+export function exportFilename({ start, end, interval, format }) {
+  const day = ms => new Date(ms).toISOString().slice(0, 10).replace(/-/g, '');
+  const kind = interval == null ? 'market_data' : `candles_${interval / 60_000}m`;
+  return `${kind}_${day(start)}-${day(end)}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Streams the export described by `params` (see validateExport) into `res`,
+ * setting the content type and attachment headers. `end` is exclusive.
+ * Errors before the first byte are thrown; after that the response is cut
+ * off, so a truncated file never looks complete. Returns the rows written.
+ */
+export async function streamExport(pool, res, { coins, start, end, interval, format }) {
+  const columns = interval == null ? RAW_COLUMNS : CANDLE_COLUMNS;
+  const query = interval == null
+    ? `SELECT ${columns.map(([, source]) => source).join(', ')} FROM market_data
+       WHERE venue = $1 AND symbol = $2 AND timestamp >= $3 AND timestamp < $4
+       ORDER BY timestamp ASC`
+    : `SELECT ${columns.map(([, source]) => source).join(', ')} FROM market_candles
+       WHERE venue = $1 AND symbol = $2 AND interval_ms = $5 AND bucket >= $3 AND bucket < $4
+       ORDER BY bucket ASC`;
+
+  let closed = false;
+  res.on('close', () => { closed = true; });
+  const write = async chunk => {
+    if (chunk == null || closed) return;
+    if (!res.write(chunk)) await Promise.race([once(res, 'drain'), once(res, 'close')]);
+  };
+
+  const encoder = createEncoder(format, columns);
+  const client = await pool.connect();
+  let rows = 0;
+  try {
+    await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+    res.set({
+      'Content-Type': EXPORT_FORMATS[format].contentType,
+      'Content-Disposition': `attachment; filename="${exportFilename({ start, end, interval, format })}"`,
+      'Cache-Control': 'no-store',
+    });
+    await write(encoder.header());
+
+    for (const { venue, symbol } of coins) {
+      if (closed) break;
+      const params = [venue, symbol, start, end];
+      if (interval != null) params.push(interval);
+      await client.query(`DECLARE export_cursor NO SCROLL CURSOR FOR ${query}`, params);
+      for (;;) {
+        const { rows: batch } = await client.query(`FETCH FORWARD ${EXPORT_FETCH_SIZE} FROM export_cursor`);
+        if (batch.length === 0 || closed) break;
+        await write(encoder.rows(batch.map(r => {
+          const row = {};
+          for (const [name, source, type] of columns) row[name] = toValue(type, r[source]);
+          return row;
+        })));
+        rows += batch.length;
+      }
+      await client.query('CLOSE export_cursor');
+    }
+    await write(encoder.end());
+    await client.query('COMMIT');
+    if (!closed) res.end();
+    return rows;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    if (!res.headersSent) {
+      res.removeHeader('Content-Disposition');
+      throw err;
+    }
+    log.error('export failed mid-stream', { rows, err });
+    res.destroy(err);
+    return rows;
+  } finally {
+    client.release();
+  }
+}
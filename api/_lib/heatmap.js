@@ -0,0 +1,75 @@
+// ── Heatmap ──────────────────────────────────────────────────────────────────
+//
+// Funding rate and open-interest change for a whole watchlist as a matrix:
+// one row per coin, one column per time bucket. Served in a single query from
+// a `market_candles` rollup whose interval divides the requested one, so the
+// cost doesn't grow with the number of coins the way per-coin candle requests
+// would.
+
+import { RAW_INTERVAL_MS } from './retention.js';
+
+/** Hard cap on columns so a tiny interval over a huge range can't OOM us. */
+export const MAX_HEATMAP_BUCKETS = 500;
+
+/**
+ * The rollup tier to aggregate `interval` buckets from: the finest one that
+ * divides `interval` and still covers `start`, else the longest-kept one that
+ * divides it. Null when no rollup divides `interval`.
+ */
+function sourceTier(tiers, interval, start, now) {
+  const candidates = tiers.filter(t => t.interval !== RAW_INTERVAL_MS && interval % t.interval === 0);
+  if (candidates.length === 0) return null;
+  const covering = candidates.find(t => t.retentionMs === Infinity || now - t.retentionMs <= start);
+  return covering ?? candidates.reduce((a, b) => (b.retentionMs >= a.retentionMs ? b : a));
+}
+
+/** Checks `interval` against the configured rollups; returns an error string or null. */
+export function validateHeatmapInterval(tiers, interval) {
+  if (!Number.isInteger(interval) || interval <= 0 || !sourceTier(tiers, interval, 0, Date.now())) {
+    const rollups = tiers.filter(t => t.interval !== RAW_INTERVAL_MS).map(t => t.interval / 60_000 + 'm').join(', ');
+    return `interval must be a multiple of a rollup interval (${rollups})`;
+  }
+  return null;
+}
+
+const pct = (from, to) => (from === 0 ? null : ((to - from) / from) * 100);
+
+/**
+ * `{ interval, buckets, coins }` for `coins` ([{ venue, symbol }]) over
+ * [start, end]. `buckets` holds each column's start; every coin carries
+ * `fundingRate` (average over the bucket) and `oiChangePct` (open to close)
+ * arrays aligned with it, null where the coin has no data.
+ */
+export async function readHeatmap(pool, tiers, { coins, interval, start, end }) {
+  const first = Math.floor(start / interval) * interval;
+  const buckets = [];
+  for (let t = first; t <= end; t += interval) buckets.push(t);
+
+  const tier = sourceTier(tiers, interval, first, Date.now());
+  const { rows } = coins.length === 0 ? { rows: [] } : await pool.query(
+    `SELECT m.venue, m.symbol, (m.bucket / $4::bigint) * $4::bigint AS bucket,
+       (array_agg(m.oi_open ORDER BY m.bucket))[1]       AS oi_open,
+       (array_agg(m.oi_close ORDER BY m.bucket DESC))[1] AS oi_close,
+       sum(m.funding_avg * m.samples) / sum(m.samples)   AS funding_avg
+     FROM unnest($1::text[], $2::text[]) AS c(venue, symbol)
+     JOIN market_candles m ON m.venue = c.venue AND m.symbol = c.symbol
+     WHERE m.interval_ms = $3 AND m.bucket >= $5 AND m.bucket <= $6
+     GROUP BY 1, 2, 3`,
+    [coins.map(c => c.venue), coins.map(c => c.symbol), tier.interval, interval, first, end]
+  );
+
+  const byCoin = new Map(coins.map(c => [`${c.venue}:${c.symbol}`, {
+    venue: c.venue,
+    symbol: c.symbol,
+    fundingRate: buckets.map(() => null),
+    oiChangePct: buckets.map(() => null),
+  }]));
+  for (const r of rows) {
+    const row = byCoin.get(`${r.venue}:${r.symbol}`);
+    const i = (Number(r.bucket) - first) / interval;
+    if (!row || i < 0 || i >= buckets.length) continue;
+    row.fundingRate[i] = parseFloat(r.funding_avg);
+    row.oiChangePct[i] = pct(parseFloat(r.oi_open), parseFloat(r.oi_close));
+  }
+  return { interval, buckets, coins: [...byCoin.values()] };
+}
@@ -0,0 +1,262 @@
+// ── Ingestion health ─────────────────────────────────────────────────────────
+//
+// What used to be a log line per failed coin, kept where it can be read:
+//
+//   • recordIngestion() stores each coin's outcome after every ingestion pass
+//     (REST cycle, cron run, collector flush) in `ingestion_status`: last
+//     success, last attempt, consecutive failures and the last error
+//   • detectGaps() scans the last GAP_LOOKBACK_MS of market_data for points
+//     more than GAP_THRESHOLD_MS apart and records each stretch in
+//     `ingestion_gaps`
+//   • repairGaps() refills open gaps from the venue's history endpoints
+//     (adapter.fetchHistory — 5-minute points on Binance, so a repaired gap
+//     is coarser than live data but no longer empty). Venues without history
+//     keep their gaps open.
+//
+// readIngestionStatus() joins the three for /api/ingestion/status and the
+// readiness check.
+
+import { getAdapter, listVenues } from './exchanges.js';
+import { storeHistory } from './backfill.js';
+import { refreshCandles } from './candles.js';
+import { log } from './log.js';
+import { ingestionCoins } from './metrics.js';
+
+const MINUTE = 60 * 1000;
+
+// Raw points land once a minute (more often in collector mode); a missed
+// cycle leaves ~2 minutes between points, jitter never gets close to 90 s
+const GAP_THRESHOLD_MS = 90 * 1000;
+
+/** How far back detectGaps() looks and the status endpoint lists gaps. */
+export const GAP_LOOKBACK_MS = 24 * 60 * MINUTE;
+
+// Gap rows are bookkeeping; a week covers any repair worth retrying
+const GAP_RETENTION_MS = 7 * 24 * 60 * MINUTE;
+
+// A coin whose newest point is older than this is stale
+const STALE_AFTER_MS = 3 * MINUTE;
+// ...and failing once this many passes in a row failed for it
+const FAILING_AFTER = 3;
+
+const MAX_REPAIR_ATTEMPTS = 5;
+// Gaps claimed per repairGaps() call, newest first
+const REPAIR_BATCH = 20;
+
+/**
+ * Records one ingestion pass: `succeeded` is a list of { venue, symbol },
+ * `failed` a list of { venue, symbol, error }. A success resets the coin's
+ * failure streak; a failure extends it and keeps the message.
+ */
+export async function recordIngestion(pool, { succeeded = [], failed = [] }) {
+  for (const c of succeeded) ingestionCoins.inc({ venue: c.venue, outcome: 'stored' });
+  for (const c of failed) ingestionCoins.inc({ venue: c.venue, outcome: 'failed' });
+  if (succeeded.length > 0) {
+    await pool.query(
+      `INSERT INTO ingestion_status(venue, symbol, last_success_at, last_attempt_at, consecutive_failures)
+       SELECT t.venue, t.symbol, now(), now(), 0
+       FROM unnest($1::text[], $2::text[]) AS t(venue, symbol)
+       ON CONFLICT (venue, symbol) DO UPDATE SET
+         last_success_at = now(), last_attempt_at = now(), consecutive_failures = 0`,
+      [succeeded.map(c => c.venue), succeeded.map(c => c.symbol)]
+    );
+  }
+  if (failed.length > 0) {
+    await pool.query(
+      `INSERT INTO ingestion_status(venue, symbol, last_attempt_at, consecutive_failures, last_error, last_error_at)
+       SELECT t.venue, t.symbol, now(), 1, t.error, now()
+       FROM unnest($1::text[], $2::text[], $3::text[]) AS t(venue, symbol, error)
+       ON CONFLICT (venue, symbol) DO UPDATE SET
+         last_attempt_at = now(),
+         consecutive_failures = ingestion_status.consecutive_failures + 1,
+         last_error = EXCLUDED.last_error,
+         last_error_at = now()`,
+      [failed.map(c => c.venue), failed.map(c => c.symbol), failed.map(c => String(c.error))]
+    );
+  }
+}
+
+/**
+ * Records every stretch in the last GAP_LOOKBACK_MS where consecutive points
+ * of a watched coin are more than GAP_THRESHOLD_MS apart. Time before the
+ * coin was added (backfilled 5-minute history) and stretches inside an
+ * already-recorded gap (what a repair leaves between its coarser points)
+ * don't count. Returns the number of new gaps.
+ */
+export async function detectGaps(pool, coins) {
+  if (coins.length === 0) return 0;
+  const { rowCount } = await pool.query(
+    `WITH points AS (
+       SELECT m.venue, m.symbol, m.timestamp,
+         lag(m.timestamp) OVER (PARTITION BY m.venue, m.symbol ORDER BY m.timestamp) AS prev
+       FROM unnest($1::text[], $2::text[]) AS w(venue, symbol)
+       JOIN coins c ON c.venue = w.venue AND c.symbol = w.symbol
+       JOIN market_data m ON m.venue = w.venue AND m.symbol = w.symbol
+       WHERE m.timestamp >= greatest($3::bigint, (extract(epoch FROM c.added_at) * 1000)::bigint)
+     )
+     INSERT INTO ingestion_gaps(venue, symbol, gap_start, gap_end)
+     SELECT p.venue, p.symbol, p.prev, p.timestamp
+     FROM points p
+     WHERE p.prev IS NOT NULL AND p.timestamp - p.prev > $4
+       AND NOT EXISTS (
+         SELECT 1 FROM ingestion_gaps g
+         WHERE g.venue = p.venue AND g.symbol = p.symbol
+           AND g.gap_start <= p.prev AND g.gap_end >= p.timestamp
+       )
+     ON CONFLICT (venue, symbol, gap_start) DO NOTHING`,
+    [coins.map(c => c.venue), coins.map(c => c.symbol), Date.now() - GAP_LOOKBACK_MS, GAP_THRESHOLD_MS]
+  );
+  return rowCount ?? 0;
+}
+
+async function repairGap(pool, gap) {
+  const adapter = getAdapter(gap.venue);
+  // The gap's own endpoints are stored points; fill strictly between them
+  const start = Number(gap.gap_start) + 1;
+  const end = Number(gap.gap_end) - 1;
+  let stored = 0;
+  for (let from = start; from <= end; from += adapter.historyChunkMs) {
+    const points = await adapter.fetchHistory(gap.symbol, from, Math.min(end, from + adapter.historyChunkMs - 1));
+    stored += await storeHistory(pool, gap.venue, gap.symbol, points);
+  }
+  if (stored > 0) await refreshCandles(pool, start, { venue: gap.venue, symbol: gap.symbol });
+  return stored;
+}
+
+/**
+ * Refills up to REPAIR_BATCH open gaps, newest first, until `budgetMs` has
+ * elapsed. A gap is marked repaired once its range has been fetched, even if
+ * the venue had no points inside it; a failing one is retried on later runs
+ * and given up after MAX_REPAIR_ATTEMPTS. Returns the number repaired.
+ */
+export async function repairGaps(pool, { budgetMs = Infinity } = {}) {
+  const deadline = Date.now() + budgetMs;
+  const { rows } = await pool.query(
+    `SELECT * FROM ingestion_gaps
+     WHERE status = 'open' AND venue = ANY($1::text[])
+     ORDER BY gap_end DESC
+     LIMIT $2`,
+    [listVenues().map(v => v.id).filter(id => getAdapter(id).fetchHistory), REPAIR_BATCH]
+  );
+
+  let repaired = 0;
+  for (const gap of rows) {
+    if (Date.now() >= deadline) break;
+    try {
+      const stored = await repairGap(pool, gap);
+      await pool.query(
+        `UPDATE ingestion_gaps
+         SET status = 'repaired', points_added = $4, error = NULL, repaired_at = now()
+         WHERE venue = $1 AND symbol = $2 AND gap_start = $3`,
+        [gap.venue, gap.symbol, gap.gap_start, stored]
+      );
+      repaired++;
+    } catch (err) {
+      log.error('gap repair failed', { venue: gap.venue, symbol: gap.symbol, gapStart: Number(gap.gap_start), err });
+      await pool.query(
+        `UPDATE ingestion_gaps
+         SET attempts = attempts + 1,
+             status = CASE WHEN attempts + 1 >= $4 THEN 'failed' ELSE 'open' END,
+             error = $5
+         WHERE venue = $1 AND symbol = $2 AND gap_start = $3`,
+        [gap.venue, gap.symbol, gap.gap_start, MAX_REPAIR_ATTEMPTS, String(err?.message ?? err)]
+      );
+    }
+  }
+  return repaired;
+}
+
+/** Deletes gap rows that ended more than GAP_RETENTION_MS ago. Returns rows deleted. */
+export async function pruneGaps(pool) {
+  const { rowCount } = await pool.query(
+    'DELETE FROM ingestion_gaps WHERE gap_end < $1',
+    [Date.now() - GAP_RETENTION_MS]
+  );
+  return rowCount ?? 0;
+}
+
+const toTime = v => (v == null ? null : new Date(v).getTime());
+
+/**
+ * Ingestion status of each coin in `coins`: the recorded outcome, the newest
+ * stored point, and the gaps of the last GAP_LOOKBACK_MS. `health` is
+ * 'failing' after FAILING_AFTER failures in a row, else 'stale' when the
+ * newest point is older than STALE_AFTER_MS (or there is none), else 'ok'.
+ */
+export async function readIngestionStatus(pool, coins) {
+  if (coins.length === 0) return [];
+  const venues = coins.map(c => c.venue);
+  const symbols = coins.map(c => c.symbol);
+  const [{ rows }, { rows: gapRows }] = await Promise.all([
+    pool.query(
+      `SELECT w.venue, w.symbol, s.last_success_at, s.last_attempt_at, s.consecutive_failures,
+         s.last_error, s.last_error_at,
+         (SELECT max(m.timestamp) FROM market_data m WHERE m.venue = w.venue AND m.symbol = w.symbol) AS last_point
+       FROM unnest($1::text[], $2::text[]) AS w(venue, symbol)
+       LEFT JOIN ingestion_status s ON s.venue = w.venue AND s.symbol = w.symbol
+       ORDER BY w.venue, w.symbol`,
+      [venues, symbols]
+    ),
+    pool.query(
+      `SELECT g.* FROM ingestion_gaps g
+       JOIN unnest($1::text[], $2::text[]) AS w(venue, symbol) ON g.venue = w.venue AND g.symbol = w.symbol
+       WHERE g.gap_end >= $3
+       ORDER BY g.gap_start ASC`,
+      [venues, symbols, Date.now() - GAP_LOOKBACK_MS]
+    ),
+  ]);
+
+  const gapsByCoin = new Map();
+  for (const g of gapRows) {
+    const key = `${g.venue}:${g.symbol}`;
+    if (!gapsByCoin.has(key)) gapsByCoin.set(key, []);
+    gapsByCoin.get(key).push({
+      start: Number(g.gap_start),
+      end: Number(g.gap_end),
+      status: g.status,
+      pointsAdded: g.points_added == null ? null : Number(g.points_added),
+      error: g.error,
+    });
+  }
+
+  const now = Date.now();
+  return rows.map(r => {
+    const lastPointAt = r.last_point == null ? null : Number(r.last_point);
+    const consecutiveFailures = r.consecutive_failures ?? 0;
+    const stale = lastPointAt == null || now - lastPointAt > STALE_AFTER_MS;
+    const gaps = gapsByCoin.get(`${r.venue}:${r.symbol}`) ?? [];
+    return {
+      venue: r.venue,
+      symbol: r.symbol,
+      health: consecutiveFailures >= FAILING_AFTER ? 'failing' : stale ? 'stale' : 'ok',
+      lastPointAt,
+      lastSuccessAt: toTime(r.last_success_at),
+      lastAttemptAt: toTime(r.last_attempt_at),
+      consecutiveFailures,
+      lastError: r.last_error,
+      lastErrorAt: toTime(r.last_error_at),
+      openGaps: gaps.filter(g => g.status === 'open').length,
+      // Minutes between the gap's two points that no cycle stored
+      missingMinutes: gaps
+        .filter(g => g.status !== 'repaired')
+        .reduce((sum, g) => sum + Math.round((g.end - g.start) / MINUTE) - 1, 0),
+      gaps,
+    };
+  });
+}
+
+/**
+ * Readiness: ingestion counts as running when any watched coin has a point
+ * newer than STALE_AFTER_MS. One stale coin (a delisted contract, say) is
+ * reported but doesn't make the deployment unready.
+ */
+export function summarizeReadiness(statuses) {
+  const coinsWith = health => statuses.filter(s => s.health === health).map(s => `${s.venue}:${s.symbol}`);
+  const now = Date.now();
+  return {
+    ready: statuses.length === 0 || statuses.some(s => s.lastPointAt != null && now - s.lastPointAt <= STALE_AFTER_MS),
+    coins: statuses.length,
+    stale: coinsWith('stale'),
+    failing: coinsWith('failing'),
+  };
+}
@@ -0,0 +1,95 @@
+// ── Liquidations ─────────────────────────────────────────────────────────────
+//
+// Forced liquidations from Binance's all-market `!forceOrder@arr` stream,
+// stored per order in `liquidations` for coins on any watchlist. The stream
+// pushes at most one order per symbol per second (the latest in that second),
+// so cascades are undercounted but their shape and timing survive.
+//
+// The WebSocket side lives in collector.js (the backend's long-running
+// process); this module parses, stores and aggregates, so the serverless API
+// can serve what the backend collected.
+//
+// A liquidation is filed under the side that was closed out: a SELL order
+// liquidates a long, a BUY order a short.
+
+/** Hard cap on buckets per request, like MAX_CANDLES_PER_REQUEST for candles. */
+export const MAX_LIQUIDATION_BUCKETS = 5000;
+
+/**
+ * One `forceOrder` event as { symbol, time, side, price, quantity }, where
+ * side is the liquidated side ('long' | 'short'); null for anything else.
+ * Price is the average fill price and quantity the filled amount.
+ */
+export function parseForceOrder(msg) {
+  const o = msg?.e === 'forceOrder' ? msg.o : null;
+  if (!o?.s || (o.S !== 'BUY' && o.S !== 'SELL')) return null;
+  const price = parseFloat(o.ap) || parseFloat(o.p);
+  const quantity = parseFloat(o.z) || parseFloat(o.q);
+  if (!(price > 0) || !(quantity > 0)) return null;
+  return {
+    symbol: o.s,
+    time: Number(o.T ?? msg.E),
+    side: o.S === 'SELL' ? 'long' : 'short',
+    price,
+    quantity,
+  };
+}
+
+/** Inserts parsed liquidations for `venue`. Returns rows stored. */
+export async function storeLiquidations(pool, venue, orders) {
+  if (orders.length === 0) return 0;
+  const { rowCount } = await pool.query(
+    `INSERT INTO liquidations(venue, symbol, trade_time, side, price, quantity)
+     SELECT $1, t.symbol, t.trade_time, t.side, t.price, t.quantity
+     FROM unnest($2::text[], $3::bigint[], $4::text[], $5::numeric[], $6::numeric[])
+       AS t(symbol, trade_time, side, price, quantity)
+     JOIN coins c ON c.venue = $1 AND c.symbol = t.symbol`,
+    [
+      venue,
+      orders.map(o => o.symbol),
+      orders.map(o => o.time),
+      orders.map(o => o.side),
+      orders.map(o => o.price),
+      orders.map(o => o.quantity),
+    ]
+  );
+  return rowCount ?? 0;
+}
+
+/**
+ * Liquidations for one coin in [start, end] summed into `interval` buckets,
+ * ascending. Only buckets with at least one liquidation are returned; each
+ * has long and short notional (price × quantity, in quote currency) and
+ * order counts.
+ */
+export async function readLiquidations(pool, { venue, symbol, interval, start, end }) {
+  const { rows } = await pool.query(
+    `SELECT (trade_time / $3::bigint) * $3::bigint AS bucket,
+       coalesce(sum(price * quantity) FILTER (WHERE side = 'long'), 0) AS long_notional,
+       coalesce(sum(price * quantity) FILTER (WHERE side = 'short'), 0) AS short_notional,
+       count(*) FILTER (WHERE side = 'long') AS long_count,
+       count(*) FILTER (WHERE side = 'short') AS short_count
+     FROM liquidations
+     WHERE venue = $1 AND symbol = $2 AND trade_time >= $4 AND trade_time <= $5
+     GROUP BY 1
+     ORDER BY 1 ASC`,
+    [venue, symbol, interval, start, end]
+  );
+  return rows.map(r => ({
+    timestamp: Number(r.bucket),
+    longNotional: parseFloat(r.long_notional),
+    shortNotional: parseFloat(r.short_notional),
+    longCount: Number(r.long_count),
+    shortCount: Number(r.short_count),
+  }));
+}
+
+/** Deletes liquidations older than `retentionMs` (Infinity keeps everything). Returns rows deleted. */
+export async function pruneLiquidations(pool, retentionMs) {
+  if (retentionMs === Infinity) return 0;
+  const { rowCount } = await pool.query(
+    'DELETE FROM liquidations WHERE trade_time < $1',
+    [Date.now() - retentionMs]
+  );
+  return rowCount ?? 0;
+}
@@ -0,0 +1,80 @@
+// ── Structured logging ───────────────────────────────────────────────────────
+//
+// One JSON object per line on stdout (stderr for warn/error):
+//
+//   {"time":"…","level":"error","msg":"fetch cycle failed","requestId":"…","err":"…"}
+//
+// requestLogger() gives every HTTP request an id — the caller's X-Request-Id
+// when it sent a sane one, a fresh UUID otherwise — echoes it back in the
+// response header and keeps it in AsyncLocalStorage, so anything logged while
+// handling the request carries it without being passed down. It logs one
+// `request` line per response with the route, status and duration.
+//
+// LOG_LEVEL (debug | info | warn | error, default info) drops lower levels.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+const minLevel = LEVELS[process.env.LOG_LEVEL] ?? LEVELS.info;
+
+const context = new AsyncLocalStorage();
+
+// Accept upstream ids (load balancer, another service) but not arbitrary text
+const REQUEST_ID_RE = /^[\w.:-]{1,128}$/;
+
+function write(level, msg, fields = {}) {
+  if (LEVELS[level] < minLevel) return;
+  const entry = { time: new Date().toISOString(), level, msg };
+  const requestId = context.getStore()?.requestId;
+  if (requestId) entry.requestId = requestId;
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    if (value instanceof Error) {
+      // Errors become their message; error-level lines also keep the stack
+      entry[key] = value.message;
+      if (level === 'error' && value.stack) entry[`${key}Stack`] = value.stack;
+    } else {
+      entry[key] = value;
+    }
+  }
+  const line = JSON.stringify(entry);
+  if (LEVELS[level] >= LEVELS.warn) process.stderr.write(line + '\n');
+  else process.stdout.write(line + '\n');
+}
+
+export const log = {
+  debug: (msg, fields) => write('debug', msg, fields),
+  info: (msg, fields) => write('info', msg, fields),
+  warn: (msg, fields) => write('warn', msg, fields),
+  error: (msg, fields) => write('error', msg, fields),
+};
+
+/** The route pattern a request matched ("/api/coins/:symbol"), or null. */
+export function routeOf(req) {
+  return req.route?.path ? `${req.baseUrl ?? ''}${req.route.path}` : null;
+}
+
+/** Express middleware: request id, request-scoped log context, access log. */
+export function requestLogger() {
+  return (req, res, next) => {
+    const incoming = req.get('x-request-id');
+    req.id = incoming && REQUEST_ID_RE.test(incoming) ? incoming : randomUUID();
+    res.set('X-Request-Id', req.id);
+
+    const started = process.hrtime.bigint();
+    res.on('finish', () => {
+      const durationMs = Number(process.hrtime.bigint() - started) / 1e6;
+      const level = res.statusCode >= 500 ? 'error' : 'info';
+      context.run({ requestId: req.id }, () => write(level, 'request', {
+        method: req.method,
+        route: routeOf(req) ?? undefined,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Math.round(durationMs * 10) / 10,
+        userId: req.user?.id,
+      }));
+    });
+    context.run({ requestId: req.id }, next);
+  };
+}
@@ -0,0 +1,127 @@
+// ── Positioning ──────────────────────────────────────────────────────────────
+//
+// Who is positioned, not just how much: the account long/short ratio across
+// all users, top traders' long/short position ratio and taker buy/sell
+// volume, stored per coin in `positioning_data` at the venue's native
+// granularity (adapter.positioningPeriodMs — 5 minutes on Binance).
+//
+// syncPositioning() runs with every ingestion cycle but only asks the venue
+// for a coin once a new period can have closed since its newest stored row,
+// so a 1-minute cycle costs the venue's rate limit one round per period.
+
+import { getAdapter } from './exchanges.js';
+import { log } from './log.js';
+
+// A coin's first sync reaches this far back; later ones resume from the newest stored
+const INITIAL_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/** Hard cap on rows per request, like MAX_CANDLES_PER_REQUEST for candles. */
+export const MAX_POSITIONING_BUCKETS = 5000;
+
+const COLUMNS = [
+  ['globalLongShortRatio', 'global_long_short_ratio'],
+  ['globalLongAccount', 'global_long_account'],
+  ['topLongShortRatio', 'top_long_short_ratio'],
+  ['topLongAccount', 'top_long_account'],
+  ['takerBuySellRatio', 'taker_buy_sell_ratio'],
+  ['takerBuyVolume', 'taker_buy_volume'],
+  ['takerSellVolume', 'taker_sell_volume'],
+];
+
+// Volumes add up over a bucket; ratios and shares are averaged
+const isVolume = column => column.endsWith('_volume');
+
+export function supportsPositioning(venue) {
+  return Boolean(getAdapter(venue)?.fetchPositioning);
+}
+
+/** The native period of `venue`'s positioning data in ms, or null without any. */
+export function positioningPeriodMs(venue) {
+  return getAdapter(venue)?.positioningPeriodMs ?? null;
+}
+
+async function storeRows(pool, venue, symbol, rows) {
+  const params = [venue, symbol, rows.map(r => r.timestamp)];
+  for (const [field] of COLUMNS) params.push(rows.map(r => r[field]));
+  const { rowCount } = await pool.query(
+    `INSERT INTO positioning_data(venue, symbol, timestamp, ${COLUMNS.map(([, c]) => c).join(', ')})
+     SELECT $1, $2, t.*
+     FROM unnest($3::bigint[], ${COLUMNS.map((_, i) => `$${i + 4}::numeric[]`).join(', ')})
+       AS t(timestamp, ${COLUMNS.map(([, c]) => c).join(', ')})
+     ON CONFLICT (venue, symbol, timestamp) DO UPDATE SET
+       ${COLUMNS.map(([, c]) => `${c} = coalesce(EXCLUDED.${c}, positioning_data.${c})`).join(',\n       ')}`,
+    params
+  );
+  return rowCount ?? 0;
+}
+
+/**
+ * Fetches and stores the periods each coin is missing. Coins whose newest row
+ * is less than a period old are skipped without a request; a failing coin is
+ * logged and retried from the same point next time. Returns rows stored.
+ */
+export async function syncPositioning(pool, coins) {
+  const supported = coins.filter(c => supportsPositioning(c.venue));
+  if (supported.length === 0) return 0;
+
+  const { rows: latest } = await pool.query(
+    `SELECT c.venue, c.symbol, max(p.timestamp) AS last
+     FROM unnest($1::text[], $2::text[]) AS c(venue, symbol)
+     LEFT JOIN positioning_data p ON p.venue = c.venue AND p.symbol = c.symbol
+     GROUP BY c.venue, c.symbol`,
+    [supported.map(c => c.venue), supported.map(c => c.symbol)]
+  );
+
+  let stored = 0;
+  const now = Date.now();
+  for (const { venue, symbol, last } of latest) {
+    const adapter = getAdapter(venue);
+    const period = adapter.positioningPeriodMs;
+    // The newest period closes `period` after it starts
+    if (last != null && now - Number(last) < 2 * period) continue;
+    try {
+      let from = last != null ? Number(last) + 1 : now - INITIAL_LOOKBACK_MS;
+      while (from <= now) {
+        const rows = await adapter.fetchPositioning(symbol, from, now);
+        if (rows.length === 0) break;
+        stored += await storeRows(pool, venue, symbol, rows);
+        from = rows[rows.length - 1].timestamp + 1;
+      }
+    } catch (err) {
+      log.error('positioning sync failed', { venue, symbol, err });
+    }
+  }
+  return stored;
+}
+
+/**
+ * Positioning rows for one coin with timestamp in [start, end], ascending,
+ * merged into `interval` buckets (a multiple of the native period): volumes
+ * are summed, ratios and long-account shares averaged.
+ */
+export async function readPositioning(pool, { venue, symbol, interval, start, end }) {
+  const { rows } = await pool.query(
+    `SELECT (timestamp / $3::bigint) * $3::bigint AS bucket,
+       ${COLUMNS.map(([, c]) => `${isVolume(c) ? 'sum' : 'avg'}(${c}) AS ${c}`).join(',\n       ')}
+     FROM positioning_data
+     WHERE venue = $1 AND symbol = $2 AND timestamp >= $4 AND timestamp <= $5
+     GROUP BY 1
+     ORDER BY 1 ASC`,
+    [venue, symbol, interval, start, end]
+  );
+  return rows.map(r => {
+    const point = { timestamp: Number(r.bucket) };
+    for (const [field, column] of COLUMNS) point[field] = r[column] == null ? null : parseFloat(r[column]);
+    return point;
+  });
+}
+
+/** Deletes rows older than `retentionMs` (Infinity keeps everything). Returns rows deleted. */
+export async function prunePositioning(pool, retentionMs) {
+  if (retentionMs === Infinity) return 0;
+  const { rowCount } = await pool.query(
+    'DELETE FROM positioning_data WHERE timestamp < $1',
+    [Date.now() - retentionMs]
+  );
+  return rowCount ?? 0;
+}
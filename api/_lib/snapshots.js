@@ -0,0 +1,132 @@
+// ── Interval snapshots ───────────────────────────────────────────────────────
+//
+// The coin page's snapshot table: one row every `interval` across the last
+// `period`, each taken from the stored sample closest to the slot (the
+// earlier one on a tie), with changes against the row before it. Computed in
+// one query rather than by shipping the whole range to the browser:
+//
+//   • samples are raw rows where raw is still retained and rollup closes
+//     beyond that (same tiers as readHistory), limited to the period
+//   • slots and samples are merged into one timeline; window functions find
+//     each slot's neighbouring samples and then lag the picked rows
+//   • cumulative funding is the sum of rates actually settled after the
+//     period start, up to and including the slot (funding_settlements)
+
+import { CANDLE_INTERVALS_MS } from './candles.js';
+import { scaledFunding } from './derived.js';
+import { RAW_INTERVAL_MS, historySegments } from './retention.js';
+
+/** Most rows one request may ask for. */
+export const MAX_SNAPSHOT_ROWS = 2000;
+
+/** Returns an error message for bad period/interval, or null. */
+export function validateSnapshotParams({ period, interval }) {
+  if (!Number.isFinite(period) || period <= 0) return 'period must be a positive number of ms';
+  if (!Number.isFinite(interval) || interval < 60_000 || interval % 60_000 !== 0) {
+    return 'interval must be a whole number of minutes in ms';
+  }
+  if (interval > period) return 'interval must not exceed period';
+  if (Math.floor(period / interval) + 1 > MAX_SNAPSHOT_ROWS) return `period / interval exceeds ${MAX_SNAPSHOT_ROWS} rows`;
+  return null;
+}
+
+const num = v => (v == null ? null : parseFloat(v));
+
+/**
+ * Snapshot rows for one coin, ascending, over [end − period, end]. Empty
+ * when nothing is stored in the period.
+ */
+export async function readSnapshots(pool, tiers, { venue, symbol, period, interval, end = Date.now() }) {
+  const start = end - period;
+  const params = [venue, symbol, start, end, interval];
+  const sources = [];
+  for (const segment of historySegments(tiers, Date.now())) {
+    const from = Math.max(segment.from, start);
+    const to = Math.min(segment.to, end + 1);
+    if (from >= to) continue;
+    params.push(from, to);
+    const [a, b] = [params.length - 1, params.length];
+    if (segment.tier.interval === RAW_INTERVAL_MS) {
+      sources.push(
+        `SELECT timestamp AS ts, price, open_interest AS oi, funding_rate AS fr, funding_interval_ms
+         FROM market_data
+         WHERE venue = $1 AND symbol = $2 AND timestamp >= $${a} AND timestamp < $${b}`
+      );
+    } else if (CANDLE_INTERVALS_MS.includes(segment.tier.interval)) {
+      params.push(segment.tier.interval);
+      sources.push(
+        `SELECT bucket AS ts, price_close AS price, oi_close AS oi, funding_avg AS fr, funding_interval_ms
+         FROM market_candles
+         WHERE venue = $1 AND symbol = $2 AND interval_ms = $${params.length}
+           AND bucket >= $${a} AND bucket < $${b}`
+      );
+    }
+  }
+  if (sources.length === 0) return [];
+
+  const { rows } = await pool.query(
+    `WITH samples AS (
+       ${sources.join('\n       UNION ALL\n       ')}
+     ),
+     timeline AS (
+       SELECT ts, NULL::bigint AS slot FROM samples
+       UNION ALL
+       SELECT s, s FROM generate_series($3::bigint, $4::bigint, $5::bigint) AS s
+     ),
+     bracketed AS (
+       -- A sample at the slot's own timestamp sorts first and counts as "before"
+       SELECT slot,
+         max(ts) FILTER (WHERE slot IS NULL)
+           OVER (ORDER BY ts, slot NULLS FIRST ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) AS before_ts,
+         min(ts) FILTER (WHERE slot IS NULL)
+           OVER (ORDER BY ts, slot NULLS FIRST ROWS BETWEEN CURRENT ROW AND UNBOUNDED FOLLOWING) AS after_ts
+       FROM timeline
+     ),
+     picked AS (
+       SELECT slot,
+         CASE WHEN after_ts IS NULL OR (before_ts IS NOT NULL AND slot - before_ts <= after_ts - slot)
+              THEN before_ts ELSE after_ts END AS ts
+       FROM bracketed
+       WHERE slot IS NOT NULL
+     )
+     SELECT p.slot, s.ts AS sampled_at, s.price, s.oi, s.fr, s.funding_interval_ms,
+       s.price - lag(s.price) OVER w AS price_change,
+       (s.price - lag(s.price) OVER w) / NULLIF(lag(s.price) OVER w, 0) * 100 AS price_change_pct,
+       s.oi - lag(s.oi) OVER w AS oi_change,
+       (s.oi - lag(s.oi) OVER w) / NULLIF(lag(s.oi) OVER w, 0) * 100 AS oi_change_pct,
+       s.oi * s.price - lag(s.oi * s.price) OVER w AS oi_usd_change,
+       s.fr - lag(s.fr) OVER w AS funding_change,
+       (SELECT coalesce(sum(f.funding_rate), 0) FROM funding_settlements f
+        WHERE f.venue = $1 AND f.symbol = $2 AND f.funding_time > $3 AND f.funding_time <= p.slot
+       ) AS cumulative_funding
+     FROM picked p
+     JOIN samples s ON s.ts = p.ts
+     WINDOW w AS (ORDER BY p.slot)
+     ORDER BY p.slot`,
+    params
+  );
+
+  return rows.map(r => {
+    const price = parseFloat(r.price);
+    const openInterest = parseFloat(r.oi);
+    const fundingRate = parseFloat(r.fr);
+    const fundingIntervalMs = r.funding_interval_ms == null ? null : Number(r.funding_interval_ms);
+    return {
+      timestamp: Number(r.slot),
+      sampledAt: Number(r.sampled_at),
+      price,
+      priceChange: num(r.price_change),
+      priceChangePct: num(r.price_change_pct),
+      openInterest,
+      oiChange: num(r.oi_change),
+      oiChangePct: num(r.oi_change_pct),
+      openInterestUsd: openInterest * price,
+      oiUsdChange: num(r.oi_usd_change),
+      fundingRate,
+      fundingChange: num(r.funding_change),
+      ...scaledFunding(fundingRate, fundingIntervalMs),
+      fundingIntervalMs,
+      cumulativeFunding: parseFloat(r.cumulative_funding),
+    };
+  });
+}
@@ -0,0 +1,179 @@
+// ── Live stream ──────────────────────────────────────────────────────────────
+//
+// GET /api/stream is a Server-Sent Events feed of newly stored points for the
+// coins a client subscribes to. Writers (the fetch cycle, the cron handler,
+// the market-data routes) call notifyNewPoints() after inserting, which
+// raises a Postgres NOTIFY carrying the earliest new timestamp. Each process
+// keeps ONE listening connection no matter how many browsers are attached:
+// on a notification it reads the new rows once and fans them out, so open
+// tabs no longer cost a query each per refresh. Points carry the same
+// derived fields as the market-data routes.
+//
+// Every event's id is the point's timestamp. EventSource resends the last id
+// as Last-Event-ID when it reconnects, and the handler replays everything at
+// or after it — clients drop the duplicates at the boundary.
+
+import { withDerived } from './derived.js';
+import { FUNDING_COLUMNS, fundingFields } from './funding.js';
+import { log } from './log.js';
+
+const CHANNEL = 'market_data_inserted';
+
+// Resuming from far back is a history load, not a stream catch-up
+const MAX_BACKLOG_MS = 60 * 60 * 1000;
+const MAX_BACKLOG_ROWS = 5000;
+
+const HEARTBEAT_MS = 15 * 1000;
+const RETRY_MS = 5 * 1000;
+
+function toStreamPoint(r) {
+  return {
+    venue: r.venue,
+    symbol: r.symbol,
+    timestamp: Number(r.timestamp),
+    openInterest: parseFloat(r.open_interest),
+    fundingRate: parseFloat(r.funding_rate),
+    price: parseFloat(r.price),
+    ...fundingFields(r),
+  };
+}
+
+/** Tells every stream listener that points at or after `since` were stored. */
+export async function notifyNewPoints(pool, since) {
+  await pool.query('SELECT pg_notify($1, $2)', [CHANNEL, String(since)]);
+}
+
+async function readPointsSince(pool, coins, since) {
+  const { rows } = await pool.query(
+    `SELECT m.venue, m.symbol, m.timestamp, m.open_interest, m.funding_rate, m.price, ${FUNDING_COLUMNS}
+     FROM market_data m
+     JOIN unnest($1::text[], $2::text[]) AS c(venue, symbol)
+       ON m.venue = c.venue AND m.symbol = c.symbol
+     WHERE m.timestamp >= $3
+     ORDER BY m.timestamp ASC
+     LIMIT $4`,
+    [coins.map(c => c.venue), coins.map(c => c.symbol), since, MAX_BACKLOG_ROWS]
+  );
+  return withDerived(pool, rows.map(toStreamPoint));
+}
+
+/**
+ * Per-process fan-out for /api/stream. `open(res, { coins, since })`
+ * turns the response into an SSE stream; `maxDurationMs` ends it early (for
+ * hosts that cap request time) and the browser reconnects and resumes.
+ */
+export function createStreamHub(pool) {
+  const subscribers = new Set();
+  let listener = null;
+  let connecting = null;
+
+  async function dispatch(since) {
+    if (subscribers.size === 0) return;
+    const wanted = new Map();
+    for (const sub of subscribers) {
+      for (const c of sub.coins) wanted.set(`${c.venue}:${c.symbol}`, c);
+    }
+    try {
+      const points = await readPointsSince(pool, [...wanted.values()], since);
+      for (const sub of subscribers) sub.deliver(points);
+    } catch (e) {
+      log.error('stream dispatch failed', { err: e });
+    }
+  }
+
+  function dropListener(client) {
+    if (listener !== client) return;
+    listener = null;
+    client.release(true);
+  }
+
+  async function ensureListener() {
+    if (listener) return;
+    if (!connecting) {
+      connecting = (async () => {
+        const client = await pool.connect();
+        client.on('notification', msg => dispatch(Number(msg.payload)));
+        client.on('error', e => {
+          log.error('stream listener connection lost', { err: e });
+          dropListener(client);
+          // Reconnect while anyone is still watching
+          if (subscribers.size > 0) ensureListener().catch(() => {});
+        });
+        await client.query(`LISTEN ${CHANNEL}`);
+        listener = client;
+      })().finally(() => { connecting = null; });
+    }
+    await connecting;
+  }
+
+  async function releaseListenerIfIdle() {
+    if (subscribers.size > 0 || !listener) return;
+    const client = listener;
+    listener = null;
+    try {
+      await client.query(`UNLISTEN ${CHANNEL}`);
+      client.release();
+    } catch {
+      client.release(true);
+    }
+  }
+
+  async function open(res, { coins, since, maxDurationMs = null }) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    const write = chunk => {
+      res.write(chunk);
+      res.flush?.(); // compression() buffers otherwise
+    };
+    write(`retry: ${RETRY_MS}\n\n`);
+
+    // Newest timestamp sent per coin — drops the replayed boundary and any
+    // overlap between the backlog and a concurrent notification
+    const sent = new Map();
+    const sub = {
+      coins,
+      deliver(points) {
+        for (const p of points) {
+          const key = `${p.venue}:${p.symbol}`;
+          if ((sent.get(key) ?? -Infinity) >= p.timestamp) continue;
+          if (!coins.some(c => c.venue === p.venue && c.symbol === p.symbol)) continue;
+          sent.set(key, p.timestamp);
+          write(`id: ${p.timestamp}\nevent: point\ndata: ${JSON.stringify(p)}\n\n`);
+        }
+      },
+    };
+
+    let closed = false;
+    const timers = [setInterval(() => write(': ping\n\n'), HEARTBEAT_MS)];
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(clearTimeout);
+      subscribers.delete(sub);
+      releaseListenerIfIdle().catch(() => {});
+      res.end();
+    };
+    res.on('close', close); // client went away
+    if (maxDurationMs != null) timers.push(setTimeout(close, maxDurationMs));
+
+    try {
+      await ensureListener();
+      if (closed) return;
+      subscribers.add(sub);
+      if (since != null && coins.length > 0) {
+        const from = Math.max(since, Date.now() - MAX_BACKLOG_MS);
+        sub.deliver(await readPointsSince(pool, coins, from));
+      }
+    } catch (e) {
+      log.error('stream open failed', { err: e });
+      write(`event: error\ndata: ${JSON.stringify({ error: 'stream unavailable' })}\n\n`);
+      close();
+    }
+  }
+
+  return { open };
+}
@@ -1,6 +1,27 @@
-import { pool, fetchBinanceDataBatch } from './index.js';
+import { pool, ensureSchema, RETENTION_TIERS } from './index.js';
+import { fetchSnapshotsByVenue } from './_lib/exchanges.js';
+import { refreshCandles } from './_lib/candles.js';
+import { pruneTiers } from './_lib/retention.js';
+import { runBackfill } from './_lib/backfill.js';
+import { evaluateAlerts } from './_lib/alerts.js';
+import { notifyNewPoints } from './_lib/stream.js';
+import { listWatchedCoins, pruneSessions } from './_lib/accounts.js';
+import { fundingIntervalMs, syncSettlements } from './_lib/funding.js';
+import { prunePositioning, syncPositioning } from './_lib/positioning.js';
+import { pruneLiquidations } from './_lib/liquidations.js';
+import { detectGaps, pruneGaps, recordIngestion, repairGaps } from './_lib/ingestion.js';
+import { log } from './_lib/log.js';
+import { ingestionCycles, ingestionDuration, pruneDuration, prunedRows } from './_lib/metrics.js';
 
-const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Serverless functions only have a writable /tmp, so archiving is opt-in and
+// ARCHIVE_DIR should point at a mounted volume if used here.
+const ARCHIVE_DIR = process.env.ARCHIVE_DIR || null;
+
+// Time each cron run may spend walking backfill jobs back, after ingestion
+const BACKFILL_BUDGET_MS = 20 * 1000;
+
+// ...and refilling ingestion gaps, on the runs that look for them
+const GAP_REPAIR_BUDGET_MS = 10 * 1000;
 
 export default async function handler(req, res) {
   const auth = req.headers.authorization;
@@ -8,60 +29,145 @@ export default async function handler(req, res) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
+  const cycleStart = Date.now();
+  const endCycle = ingestionDuration.startTimer({ source: 'cron' });
   try {
-    const { rows } = await pool.query('SELECT symbol FROM coins');
+    // The cron can fire before any API request on a fresh deploy, so make
+    // sure migrations (venue columns, rollup tables) have run.
+    await ensureSchema();
+
+    // Everything on at least one user's watchlist
+    const rows = await listWatchedCoins(pool);
     if (rows.length === 0) {
+      // Still a completed run, as in the server loop
+      ingestionCycles.inc({ source: 'cron', outcome: 'ok' });
+      log.info('cron run', { updated: 0, message: 'no coins tracked', seconds: endCycle() });
       return res.json({ ok: true, message: 'no coins tracked' });
     }
 
-    const symbols = rows.map(r => r.symbol);
-
-    // 2 + N Binance requests instead of N×3
-    const dataMap = await fetchBinanceDataBatch(symbols);
-
-    if (dataMap.size === 0) {
-      return res.status(500).json({ error: 'no data returned from Binance' });
-    }
+    // One batch per venue (2 + N requests for Binance, 1 for Bybit)
+    const fetchErrors = new Map();
+    const byVenue = await fetchSnapshotsByVenue(rows, fetchErrors);
 
     // Single multi-row INSERT — one DB round-trip for all coins
     const valueClauses = [];
     const params = [];
+    const succeeded = [];
     let idx = 1;
-    for (const [symbol, point] of dataMap) {
-      valueClauses.push(`($${idx++},$${idx++},$${idx++},$${idx++},$${idx++})`);
-      params.push(symbol, point.timestamp, point.openInterest, point.fundingRate, point.price);
+    for (const [venue, dataMap] of byVenue) {
+      for (const [symbol, point] of dataMap) {
+        valueClauses.push(`(${Array.from({ length: 11 }, () => `$${idx++}`).join(',')})`);
+        params.push(
+          venue, symbol, point.timestamp, point.openInterest, point.fundingRate, point.price,
+          point.markPrice, point.indexPrice, point.nextFundingTime, point.interestRate,
+          await fundingIntervalMs(venue, symbol),
+        );
+        succeeded.push(`${venue}:${symbol}`);
+      }
+    }
+
+    // Persist each coin's outcome so /api/ingestion/status can show it
+    const failedCoins = rows.filter(r => !byVenue.get(r.venue)?.has(r.symbol.toUpperCase()));
+    await recordIngestion(pool, {
+      succeeded: rows.filter(r => byVenue.get(r.venue)?.has(r.symbol.toUpperCase())),
+      failed: failedCoins.map(r => ({
+        ...r,
+        error: fetchErrors.get(`${r.venue}:${r.symbol.toUpperCase()}`) ?? 'no snapshot returned',
+      })),
+    }).catch(e => log.error('ingestion status update failed', { err: e }));
+
+    if (valueClauses.length === 0) {
+      ingestionCycles.inc({ source: 'cron', outcome: 'error' });
+      log.error('cron run stored nothing', { failed: failedCoins.length, seconds: endCycle() });
+      return res.status(500).json({ error: 'no data returned from any exchange' });
     }
 
     await pool.query(
-      `INSERT INTO market_data(symbol, timestamp, open_interest, funding_rate, price)
+      `INSERT INTO market_data(venue, symbol, timestamp, open_interest, funding_rate, price,
+         mark_price, index_price, next_funding_time, interest_rate, funding_interval_ms)
        VALUES ${valueClauses.join(',')}
-       ON CONFLICT (symbol, timestamp) DO NOTHING`,
+       ON CONFLICT (venue, symbol, timestamp) DO NOTHING`,
       params
     );
+    await refreshCandles(pool, cycleStart);
+
+    // Wake /api/stream listeners (any instance) so browsers get the points now
+    await notifyNewPoints(pool, cycleStart);
+
+    // Check alert rules against the points just stored; like backfill, a
+    // failure here is logged rather than failing the ingestion run
+    const alerts = await evaluateAlerts(pool, cycleStart).catch(e => {
+      log.error('alert evaluation failed', { err: e });
+      return 0;
+    });
 
     // Prune old rows only at the top of the hour.
     // Vercel functions are stateless so we can't use an in-memory timestamp;
     // checking the clock minute is a cheap stateless equivalent.
-    let pruned = 0;
+    let pruned = { raw: 0, candles: 0, archive: null };
     if (new Date().getMinutes() === 0) {
-      const cutoff = Date.now() - RETENTION_MS;
-      const { rowCount } = await pool.query(
-        'DELETE FROM market_data WHERE timestamp < $1',
-        [cutoff]
-      );
-      pruned = rowCount ?? 0;
-      if (pruned > 0) console.log(`[cron] pruned ${pruned} old rows`);
+      const endPrune = pruneDuration.startTimer({ source: 'cron' });
+      pruned = await pruneTiers(pool, RETENTION_TIERS, { archiveDir: ARCHIVE_DIR });
+      // Positioning rows and liquidations are kept as long as the 5m rollup
+      const fiveMinuteRetentionMs = RETENTION_TIERS.find(t => t.interval === 5 * 60 * 1000).retentionMs;
+      const counts = {
+        market_data: pruned.raw,
+        candles: pruned.candles,
+        positioning: await prunePositioning(pool, fiveMinuteRetentionMs),
+        liquidations: await pruneLiquidations(pool, fiveMinuteRetentionMs),
+        ingestion_gaps: await pruneGaps(pool),
+        user_sessions: await pruneSessions(pool),
+      };
+      for (const [table, n] of Object.entries(counts)) prunedRows.inc({ table }, n);
+      log.info('pruned', { ...counts, archive: pruned.archive ?? undefined, seconds: endPrune() });
+    }
+
+    // Long/short and taker volume; coins already holding the latest 5-minute
+    // period are skipped without a request
+    const positioning = await syncPositioning(pool, rows).catch(e => {
+      log.error('positioning sync failed', { err: e });
+      return 0;
+    });
+
+    // Pull newly settled funding every quarter hour (settlements are 1–8h apart);
+    // syncSettlements logs and skips coins that fail
+    let settlements = 0;
+    if (new Date().getMinutes() % 15 === 0) {
+      settlements = await syncSettlements(pool, rows);
+    }
+
+    // Look for gaps in the raw series every quarter hour (off the settlement
+    // minute) and refill what the budget allows from history endpoints
+    let gapsRepaired = 0;
+    if (new Date().getMinutes() % 15 === 5) {
+      gapsRepaired = await detectGaps(pool, rows)
+        .then(() => repairGaps(pool, { budgetMs: GAP_REPAIR_BUDGET_MS }))
+        .catch(e => {
+          log.error('gap repair failed', { err: e });
+          return 0;
+        });
     }
 
-    // Report which symbols succeeded vs failed
-    const succeeded = [...dataMap.keys()];
-    const failed = symbols
-      .map(s => s.toUpperCase())
-      .filter(s => !dataMap.has(s));
+    // Advance queued backfills; a failure here must not fail the ingestion run
+    const backfillChunks = await runBackfill(pool, { tiers: RETENTION_TIERS, budgetMs: BACKFILL_BUDGET_MS }).catch(e => {
+      log.error('backfill failed', { err: e });
+      return 0;
+    });
+
+    // Report which coins succeeded vs failed, as `venue:SYMBOL`
+    const failed = failedCoins.map(r => `${r.venue}:${r.symbol}`);
 
-    return res.json({ ok: true, updated: succeeded, failed, pruned });
+    ingestionCycles.inc({ source: 'cron', outcome: 'ok' });
+    log.info('cron run', {
+      updated: succeeded.length, failed: failed.length, alerts, settlements, positioning, gapsRepaired,
+      backfillChunks, seconds: endCycle(),
+    });
+    return res.json({
+      ok: true, updated: succeeded, failed, alerts, pruned, settlements, positioning, gapsRepaired, backfillChunks,
+    });
   } catch (err) {
-    console.error('[cron] error:', err);
+    ingestionCycles.inc({ source: 'cron', outcome: 'error' });
+    log.error('cron run failed', { err, seconds: endCycle() });
     return res.status(500).json({ error: err?.message ?? 'internal server error' });
   }
 }
\ No newline at end of file
@@ -4,10 +4,65 @@ import compression from 'compression';
 import pg from 'pg';
 import dotenv from 'dotenv';
 import { setDefaultResultOrder } from 'dns';
+import { getAdapter, listVenues, parseVenue } from './_lib/exchanges.js';
+import { binanceClientState, configureBinanceClient } from './_lib/binance.js';
+import { MAX_CANDLES_PER_REQUEST, refreshCandles, seedCandlesIfEmpty } from './_lib/candles.js';
+import { parseDuration, parseRetentionTiers, rawCutoff, readCandles, readHistory } from './_lib/retention.js';
+import { enqueueBackfill, runBackfill, toBackfillJob } from './_lib/backfill.js';
+import { alertRuleParams, readAlertRules, resolveAlertGroup, toAlertEvent, validateAlertRule } from './_lib/alerts.js';
+import { createStreamHub, notifyNewPoints } from './_lib/stream.js';
+import { candlesWithDerived, withDerived } from './_lib/derived.js';
+import { readSnapshots, validateSnapshotParams } from './_lib/snapshots.js';
+import { FUNDING_COLUMNS, fundingFields, fundingIntervalMs, readSettlements } from './_lib/funding.js';
+import { MAX_POSITIONING_BUCKETS, positioningPeriodMs, readPositioning } from './_lib/positioning.js';
+import { MAX_LIQUIDATION_BUCKETS, readLiquidations } from './_lib/liquidations.js';
+import { getSymbols, validateSymbol } from './_lib/symbols.js';
+import { SCANNER_SORTS, getScan, rankScan, supportsScanner } from './_lib/scanner.js';
+import { createAnalysisProvider, getAnalysis } from './_lib/analysis.js';
+import { MAX_HEATMAP_BUCKETS, readHeatmap, validateHeatmapInterval } from './_lib/heatmap.js';
+import {
+  authenticateUser, createSession, createUser, deleteSession, listUserCoins, listWatchedCoins, requireUser,
+  validateCredentials,
+} from './_lib/accounts.js';
+import { readIngestionStatus, summarizeReadiness } from './_lib/ingestion.js';
+import { createGroup, deleteGroup, listGroups, updateGroup, validateGroup } from './_lib/groups.js';
+import { log, requestLogger } from './_lib/log.js';
+import { streamExport, validateExport } from './_lib/export.js';
+import { IMPORT_CONTENT_TYPES, IMPORT_MAX_BYTES, importFormat, importMarketData } from './_lib/importer.js';
+import { httpMetrics, instrumentPool, renderMetrics } from './_lib/metrics.js';
 
 setDefaultResultOrder('ipv4first');
 dotenv.config();
 
+// Per-tier retention (raw rows and each candle rollup) — see _lib/retention.js
+export const RETENTION_TIERS = parseRetentionTiers(process.env.RETENTION_TIERS || undefined);
+const BACKFILL_LOOKBACK_MS = parseDuration(process.env.BACKFILL_LOOKBACK || '7d');
+
+// How long a login token stays valid
+const SESSION_TTL_MS = parseDuration(process.env.SESSION_TTL || '30d');
+
+// Functions are killed at the platform's max duration, so streams end before
+// that and EventSource reconnects with Last-Event-ID to pick up where it was
+const STREAM_MAX_DURATION_MS = parseInt(process.env.STREAM_MAX_DURATION_MS || '') || 50_000;
+
+// Binance REST limits, per function instance (cron.js shares this module) — see _lib/binance.js
+configureBinanceClient({
+  weightLimit: parseInt(process.env.BINANCE_WEIGHT_LIMIT || '') || undefined,
+  maxConcurrency: parseInt(process.env.BINANCE_MAX_CONCURRENCY || '') || undefined,
+});
+
+// Market analysis provider (gemini | local) and how long a result is reused
+const ANALYSIS_PROVIDER = createAnalysisProvider();
+const ANALYSIS_CACHE_TTL_MS = parseDuration(process.env.ANALYSIS_CACHE_TTL || '15m');
+
+// Bearer token GET /api/metrics requires, when set
+const METRICS_TOKEN = process.env.METRICS_TOKEN || null;
+
+// Market scanner: how many of the highest-volume contracts get an OI change,
+// and over what window
+const SCANNER_OI_SAMPLE = parseInt(process.env.SCANNER_OI_SAMPLE || '') || 40;
+const SCANNER_OI_LOOKBACK_MS = parseDuration(process.env.SCANNER_OI_LOOKBACK || '24h');
+
 const { Pool } = pg;
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -16,6 +71,7 @@ const pool = new Pool({
   idleTimeoutMillis: 30_000,
   max: 5,
 });
+instrumentPool(pool);
 
 let schemaReady = false;
 
@@ -23,137 +79,299 @@ async function ensureSchema() {
   if (schemaReady) return;
   await pool.query(`
     CREATE TABLE IF NOT EXISTS coins (
-      symbol TEXT PRIMARY KEY,
-      added_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+      venue TEXT NOT NULL DEFAULT 'binance',
+      symbol TEXT NOT NULL,
+      added_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+      PRIMARY KEY (venue, symbol)
     );
     CREATE TABLE IF NOT EXISTS market_data (
       id SERIAL PRIMARY KEY,
-      symbol TEXT REFERENCES coins(symbol) ON DELETE CASCADE,
+      venue TEXT NOT NULL DEFAULT 'binance',
+      symbol TEXT NOT NULL,
       timestamp BIGINT NOT NULL,
       open_interest NUMERIC NOT NULL,
       funding_rate NUMERIC NOT NULL,
-      price NUMERIC NOT NULL
+      price NUMERIC NOT NULL,
+      CONSTRAINT market_data_venue_symbol_fkey FOREIGN KEY (venue, symbol)
+        REFERENCES coins(venue, symbol) ON DELETE CASCADE
+    );
+    ALTER TABLE coins ADD COLUMN IF NOT EXISTS venue TEXT NOT NULL DEFAULT 'binance';
+    ALTER TABLE market_data ADD COLUMN IF NOT EXISTS venue TEXT NOT NULL DEFAULT 'binance';
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'market_data_venue_symbol_fkey') THEN
+        ALTER TABLE market_data DROP CONSTRAINT IF EXISTS market_data_symbol_fkey;
+        ALTER TABLE coins DROP CONSTRAINT IF EXISTS coins_pkey;
+        ALTER TABLE coins ADD PRIMARY KEY (venue, symbol);
+        ALTER TABLE market_data ADD CONSTRAINT market_data_venue_symbol_fkey
+          FOREIGN KEY (venue, symbol) REFERENCES coins(venue, symbol) ON DELETE CASCADE;
+      END IF;
+    END $$;
+    CREATE UNIQUE INDEX IF NOT EXISTS uq_market_venue_symbol_timestamp ON market_data(venue, symbol, timestamp);
+    DROP INDEX IF EXISTS uq_market_symbol_timestamp;
+    DROP INDEX IF EXISTS idx_market_symbol_timestamp;
+    CREATE INDEX IF NOT EXISTS idx_market_timestamp ON market_data(timestamp);
+    -- Premium-index fields and the funding interval at the time (_lib/funding.js)
+    ALTER TABLE market_data ADD COLUMN IF NOT EXISTS mark_price NUMERIC;
+    ALTER TABLE market_data ADD COLUMN IF NOT EXISTS index_price NUMERIC;
+    ALTER TABLE market_data ADD COLUMN IF NOT EXISTS next_funding_time BIGINT;
+    ALTER TABLE market_data ADD COLUMN IF NOT EXISTS interest_rate NUMERIC;
+    ALTER TABLE market_data ADD COLUMN IF NOT EXISTS funding_interval_ms BIGINT;
+    CREATE TABLE IF NOT EXISTS market_candles (
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      interval_ms BIGINT NOT NULL,
+      bucket BIGINT NOT NULL,
+      price_open NUMERIC NOT NULL,
+      price_high NUMERIC NOT NULL,
+      price_low NUMERIC NOT NULL,
+      price_close NUMERIC NOT NULL,
+      oi_open NUMERIC NOT NULL,
+      oi_high NUMERIC NOT NULL,
+      oi_low NUMERIC NOT NULL,
+      oi_close NUMERIC NOT NULL,
+      funding_avg NUMERIC NOT NULL,
+      funding_last NUMERIC NOT NULL,
+      samples INTEGER NOT NULL,
+      PRIMARY KEY (venue, symbol, interval_ms, bucket),
+      FOREIGN KEY (venue, symbol) REFERENCES coins(venue, symbol) ON DELETE CASCADE
+    );
+    ALTER TABLE market_candles ADD COLUMN IF NOT EXISTS basis_avg NUMERIC;
+    ALTER TABLE market_candles ADD COLUMN IF NOT EXISTS funding_interval_ms BIGINT;
+    CREATE TABLE IF NOT EXISTS funding_settlements (
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      funding_time BIGINT NOT NULL,
+      funding_rate NUMERIC NOT NULL,
+      mark_price NUMERIC,
+      PRIMARY KEY (venue, symbol, funding_time),
+      FOREIGN KEY (venue, symbol) REFERENCES coins(venue, symbol) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS positioning_data (
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      timestamp BIGINT NOT NULL,
+      global_long_short_ratio NUMERIC,
+      global_long_account NUMERIC,
+      top_long_short_ratio NUMERIC,
+      top_long_account NUMERIC,
+      taker_buy_sell_ratio NUMERIC,
+      taker_buy_volume NUMERIC,
+      taker_sell_volume NUMERIC,
+      PRIMARY KEY (venue, symbol, timestamp),
+      FOREIGN KEY (venue, symbol) REFERENCES coins(venue, symbol) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS liquidations (
+      id BIGSERIAL PRIMARY KEY,
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      trade_time BIGINT NOT NULL,
+      side TEXT NOT NULL CHECK (side IN ('long', 'short')),
+      price NUMERIC NOT NULL,
+      quantity NUMERIC NOT NULL,
+      FOREIGN KEY (venue, symbol) REFERENCES coins(venue, symbol) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_liquidations_venue_symbol_time ON liquidations(venue, symbol, trade_time);
+    CREATE TABLE IF NOT EXISTS ingestion_status (
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      last_success_at TIMESTAMP WITH TIME ZONE,
+      last_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+      consecutive_failures INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      last_error_at TIMESTAMP WITH TIME ZONE,
+      PRIMARY KEY (venue, symbol),
+      FOREIGN KEY (venue, symbol) REFERENCES coins(venue, symbol) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS ingestion_gaps (
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      gap_start BIGINT NOT NULL,
+      gap_end BIGINT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'open',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      points_added INTEGER,
+      error TEXT,
+      detected_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+      repaired_at TIMESTAMP WITH TIME ZONE,
+      PRIMARY KEY (venue, symbol, gap_start),
+      FOREIGN KEY (venue, symbol) REFERENCES coins(venue, symbol) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS backfill_jobs (
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      start_ts BIGINT NOT NULL,
+      end_ts BIGINT NOT NULL,
+      cursor_ts BIGINT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      locked_until TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+      PRIMARY KEY (venue, symbol),
+      FOREIGN KEY (venue, symbol) REFERENCES coins(venue, symbol) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS alert_rules (
+      id SERIAL PRIMARY KEY,
+      name TEXT,
+      venue TEXT,
+      symbol TEXT,
+      group_id TEXT,
+      group_name TEXT,
+      metric TEXT NOT NULL,
+      comparator TEXT NOT NULL,
+      threshold DOUBLE PRECISION NOT NULL,
+      lookback_ms BIGINT NOT NULL,
+      cooldown_ms BIGINT NOT NULL DEFAULT 0,
+      enabled BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+    );
+    -- Group members are looked up at evaluation time (alerts.js)
+    ALTER TABLE alert_rules DROP COLUMN IF EXISTS members;
+
+    -- History outlives its rule (rule_id is nulled) and the coin it fired for
+    CREATE TABLE IF NOT EXISTS alert_events (
+      id BIGSERIAL PRIMARY KEY,
+      rule_id INTEGER REFERENCES alert_rules(id) ON DELETE SET NULL,
+      rule_name TEXT,
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      comparator TEXT NOT NULL,
+      threshold DOUBLE PRECISION NOT NULL,
+      value DOUBLE PRECISION NOT NULL,
+      point_ts BIGINT NOT NULL,
+      fired_at BIGINT NOT NULL
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS uq_alert_events_rule_point ON alert_events(rule_id, venue, symbol, point_ts);
+    CREATE INDEX IF NOT EXISTS idx_alert_events_fired_at ON alert_events(fired_at);
+
+    CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+    );
+    CREATE TABLE IF NOT EXISTS user_sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_user_sessions_expires_at ON user_sessions(expires_at);
+
+    -- Per-user coin lists; \`coins\` is the shared registry they point into
+    CREATE TABLE IF NOT EXISTS watchlist_items (
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      added_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+      PRIMARY KEY (user_id, venue, symbol),
+      FOREIGN KEY (venue, symbol) REFERENCES coins(venue, symbol) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_watchlist_items_coin ON watchlist_items(venue, symbol);
+
+    -- Sidebar groups per user; a coin is in at most one of a user's groups
+    CREATE TABLE IF NOT EXISTS groups (
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      color TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0,
+      collapsed BOOLEAN NOT NULL DEFAULT false,
+      version INTEGER NOT NULL DEFAULT 1,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+      PRIMARY KEY (user_id, id)
+    );
+    CREATE TABLE IF NOT EXISTS group_members (
+      user_id INTEGER NOT NULL,
+      group_id TEXT NOT NULL,
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      PRIMARY KEY (user_id, venue, symbol),
+      FOREIGN KEY (user_id, group_id) REFERENCES groups(user_id, id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id, venue, symbol) REFERENCES watchlist_items(user_id, venue, symbol) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_group_members_group ON group_members(user_id, group_id, position);
+
+    -- Alert rules, and the events they fire, belong to the account that made them
+    ALTER TABLE alert_rules ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
+    CREATE INDEX IF NOT EXISTS idx_alert_rules_user ON alert_rules(user_id);
+    ALTER TABLE alert_events ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
+    CREATE INDEX IF NOT EXISTS idx_alert_events_user_fired_at ON alert_events(user_id, fired_at);
+
+    -- Latest analysis per coin; data_from/data_to is the window it was built from
+    CREATE TABLE IF NOT EXISTS market_analyses (
+      venue TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT,
+      result JSONB NOT NULL,
+      data_from BIGINT NOT NULL,
+      data_to BIGINT NOT NULL,
+      generated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+      PRIMARY KEY (venue, symbol)
     );
-    CREATE INDEX IF NOT EXISTS idx_market_symbol_timestamp ON market_data(symbol, timestamp);
-    CREATE UNIQUE INDEX IF NOT EXISTS uq_market_symbol_timestamp ON market_data(symbol, timestamp);
   `);
+  await seedCandlesIfEmpty(pool);
   schemaReady = true;
 }
 
-function toPoint(r) {
-  return {
-    timestamp: Number(r.timestamp),
-    openInterest: parseFloat(r.open_interest),
-    fundingRate: parseFloat(r.funding_rate),
-    price: parseFloat(r.price),
-  };
-}
-
 function toPointWithSymbol(r) {
   return {
+    venue: r.venue,
     symbol: r.symbol,
     timestamp: Number(r.timestamp),
     openInterest: parseFloat(r.open_interest),
     fundingRate: parseFloat(r.funding_rate),
     price: parseFloat(r.price),
+    ...fundingFields(r),
   };
 }
 
-async function storePoint(symbol, point) {
+async function storePoint(venue, symbol, point) {
   await pool.query(
-    `INSERT INTO market_data(symbol, timestamp, open_interest, funding_rate, price)
-     VALUES($1,$2,$3,$4,$5)
-     ON CONFLICT (symbol, timestamp) DO NOTHING`,
-    [symbol, point.timestamp, point.openInterest, point.fundingRate, point.price]
+    `INSERT INTO market_data(venue, symbol, timestamp, open_interest, funding_rate, price,
+       mark_price, index_price, next_funding_time, interest_rate, funding_interval_ms)
+     VALUES($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)
+     ON CONFLICT (venue, symbol, timestamp) DO NOTHING`,
+    [
+      venue, symbol, point.timestamp, point.openInterest, point.fundingRate, point.price,
+      point.markPrice ?? null, point.indexPrice ?? null, point.nextFundingTime ?? null,
+      point.interestRate ?? null, point.fundingIntervalMs ?? null,
+    ]
   );
 }
 
-// ── Binance helpers ───────────────────────────────────────────────────────────
-
-const BINANCE_API = 'https://fapi.binance.com';
-
-/**
- * Batch fetch for all symbols: 2 shared requests (prices + funding rates for
- * every futures symbol at once) + N individual open-interest requests.
- * Reduces total Binance API calls from N×3 → 2+N per cron cycle.
- *
- * Returns Map<SYMBOL, { timestamp, price, openInterest, fundingRate }>
- */
-export async function fetchBinanceDataBatch(symbols) {
-  if (symbols.length === 0) return new Map();
-
-  const symbolSet = new Set(symbols.map(s => s.toUpperCase()));
-
-  // Two requests that cover ALL futures symbols at once
-  const [priceRes, fundRes] = await Promise.all([
-    fetch(`${BINANCE_API}/fapi/v1/ticker/price`),
-    fetch(`${BINANCE_API}/fapi/v1/premiumIndex`),
-  ]);
-  if (!priceRes.ok) throw new Error(`Binance price batch failed: ${priceRes.status}`);
-  if (!fundRes.ok)  throw new Error(`Binance funding batch failed: ${fundRes.status}`);
-
-  const [allPrices, allFunding] = await Promise.all([priceRes.json(), fundRes.json()]);
-
-  const priceMap   = new Map(allPrices.map(p  => [p.symbol, parseFloat(p.price)]));
-  const fundingMap = new Map(allFunding.map(f => [f.symbol, parseFloat(f.lastFundingRate)]));
-
-  // Open interest has no batch endpoint — still one request per symbol
-  const now = Date.now();
-  const oiResults = await Promise.allSettled(
-    symbols.map(symbol =>
-      fetch(`${BINANCE_API}/fapi/v1/openInterest?symbol=${encodeURIComponent(symbol)}`)
-        .then(r => r.ok ? r.json() : Promise.reject(new Error(`OI ${symbol}: ${r.status}`)))
-        .then(d => ({ symbol: symbol.toUpperCase(), openInterest: parseFloat(d.openInterest) }))
-    )
-  );
-
-  const result = new Map();
-  for (const outcome of oiResults) {
-    if (outcome.status === 'rejected') {
-      console.error('[fetchBatch] OI failed:', outcome.reason?.message ?? outcome.reason);
-      continue;
-    }
-    const { symbol, openInterest } = outcome.value;
-    if (!symbolSet.has(symbol)) continue;
-    result.set(symbol, {
-      timestamp: now,
-      price:        priceMap.get(symbol)   ?? 0,
-      fundingRate:  fundingMap.get(symbol) ?? 0,
-      openInterest,
-    });
-  }
-  return result;
+function requireVenue(raw, res) {
+  const venue = parseVenue(raw);
+  if (!venue) res.status(400).json({ error: `unknown venue "${raw}"` });
+  return venue;
 }
 
-// Single-symbol fetch — used only by the /api/market-data/fetch endpoint
-export async function fetchBinanceData(symbol) {
-  const encoded = encodeURIComponent(symbol);
-  const [priceRes, oiRes, fundRes] = await Promise.all([
-    fetch(`${BINANCE_API}/fapi/v1/ticker/price?symbol=${encoded}`),
-    fetch(`${BINANCE_API}/fapi/v1/openInterest?symbol=${encoded}`),
-    fetch(`${BINANCE_API}/fapi/v1/premiumIndex?symbol=${encoded}`),
-  ]);
-  if (!priceRes.ok || !oiRes.ok || !fundRes.ok) {
-    throw new Error(
-      `Binance request failed — price:${priceRes.status}, oi:${oiRes.status}, fund:${fundRes.status}`
-    );
+// Comma-separated `symbols` param: bare symbols are Binance, others `venue:SYMBOL`.
+function parseCoinList(raw) {
+  const coins = [];
+  for (const entry of raw.split(',').map(s => s.trim()).filter(Boolean)) {
+    const sep = entry.indexOf(':');
+    const venue = parseVenue(sep === -1 ? undefined : entry.slice(0, sep));
+    if (!venue) return null;
+    coins.push({ venue, symbol: entry.slice(sep + 1).toUpperCase() });
   }
-  const [priceData, oiData, fundData] = await Promise.all([
-    priceRes.json(), oiRes.json(), fundRes.json(),
-  ]);
-  return {
-    timestamp:    Date.now(),
-    price:        parseFloat(priceData.price),
-    openInterest: parseFloat(oiData.openInterest),
-    fundingRate:  parseFloat(fundData.lastFundingRate),
-  };
+  return coins;
 }
 
-export { pool, storePoint };
+export { pool, storePoint, ensureSchema };
 
 // ── Express app ───────────────────────────────────────────────────────────────
 
 const app = express();
+app.use(requestLogger());
+app.use(httpMetrics());
 app.use(cors());
 app.use(compression());
 app.use(express.json());
@@ -163,7 +381,7 @@ app.use(async (_req, res, next) => {
     await ensureSchema();
     next();
   } catch (err) {
-    console.error('Schema init failed:', err);
+    log.error('schema init failed', { err });
     res.status(503).json({ error: 'Database not ready' });
   }
 });
@@ -172,73 +390,613 @@ app.use(async (_req, res, next) => {
 
 app.get('/api/health', (_req, res) => res.json({ ok: true }));
 
+// 200 once the database answers and some watched coin has a fresh point (see _lib/ingestion.js)
+app.get('/api/health/ready', async (_req, res) => {
+  try {
+    const summary = summarizeReadiness(await readIngestionStatus(pool, await listWatchedCoins(pool)));
+    res.status(summary.ready ? 200 : 503).json({ ...summary, binance: binanceClientState() });
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(503).json({ ready: false, error: 'database unavailable' });
+  }
+});
+
+// ── Metrics ───────────────────────────────────────────────────────────────────
+
+// Prometheus text format; counters are per function instance — see _lib/metrics.js
+app.get('/api/metrics', (req, res) => {
+  if (METRICS_TOKEN && req.get('Authorization') !== `Bearer ${METRICS_TOKEN}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+});
+
+// ── Venues ────────────────────────────────────────────────────────────────────
+
+app.get('/api/venues', (_req, res) => res.json(listVenues()));
+
+// ── Symbols ───────────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/symbols?venue=binance&q=sol
+ *
+ * The venue's tradable contracts — symbol, base asset, contract type and
+ * onboard date — from the cached exchange info. `q` narrows to symbols or
+ * base assets containing it; the UI fetches the whole list and ranks locally.
+ */
+app.get('/api/symbols', async (req, res) => {
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
+  const q = typeof req.query.q === 'string' ? req.query.q.trim().toUpperCase() : '';
+  try {
+    const symbols = await getSymbols(venue);
+    if (!symbols) return res.json([]);
+    res.json(
+      symbols
+        .filter(s => s.status === 'TRADING')
+        .filter(s => !q || s.symbol.includes(q) || s.baseAsset.includes(q))
+        .map(({ symbol, baseAsset, quoteAsset, contractType, onboardDate }) =>
+          ({ symbol, baseAsset, quoteAsset, contractType, onboardDate }))
+    );
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(502).json({ error: `could not load symbols from ${venue}` });
+  }
+});
+
+// ── Scanner ───────────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/scanner?venue=binance&sort=fundingRate&order=desc&limit=100
+ *
+ * Every trading perpetual on the venue ranked by `sort` (one of
+ * SCANNER_SORTS): predicted funding, funding change since the last
+ * settlement, 24h quote volume, 24h price change or OI change. OI change is
+ * only known for the SCANNER_OI_SAMPLE highest-volume contracts; rows without
+ * the sort value come last. Scans are cached for a minute.
+ */
+app.get('/api/scanner', async (req, res) => {
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
+  if (!supportsScanner(venue)) return res.status(400).json({ error: `the scanner does not support ${venue}` });
+  const sort = req.query.sort ? String(req.query.sort) : 'fundingRate';
+  if (!SCANNER_SORTS.includes(sort)) {
+    return res.status(400).json({ error: `sort must be one of ${SCANNER_SORTS.join(', ')}` });
+  }
+  const order = req.query.order === 'asc' ? 'asc' : 'desc';
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 100, 1), 1000);
+
+  try {
+    const scan = await getScan(venue, { oiSampleSize: SCANNER_OI_SAMPLE, oiLookbackMs: SCANNER_OI_LOOKBACK_MS });
+    res.json(rankScan(scan, { sort, order, limit }));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(502).json({ error: `could not scan ${venue}` });
+  }
+});
+
+// ── Accounts ──────────────────────────────────────────────────────────────────
+
+const authenticated = requireUser(pool);
+// For links the browser follows itself (exports), which can't carry a header
+const authenticatedDownload = requireUser(pool, { allowQueryToken: true });
+
+/**
+ * POST /api/auth/register  { username, password }
+ * POST /api/auth/login     { username, password }
+ *
+ * Both answer { user, token }; send the token as `Authorization: Bearer …`.
+ */
+app.post('/api/auth/register', async (req, res) => {
+  const creds = validateCredentials(req.body);
+  if (creds.error) return res.status(400).json({ error: creds.error });
+  try {
+    const user = await createUser(pool, creds);
+    if (!user) return res.status(409).json({ error: `username "${creds.username}" is taken` });
+    const token = await createSession(pool, user.id, SESSION_TTL_MS);
+    res.status(201).json({ user, token });
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+app.post('/api/auth/login', async (req, res) => {
+  const creds = validateCredentials(req.body);
+  if (creds.error) return res.status(401).json({ error: 'invalid username or password' });
+  try {
+    const user = await authenticateUser(pool, creds);
+    if (!user) return res.status(401).json({ error: 'invalid username or password' });
+    const token = await createSession(pool, user.id, SESSION_TTL_MS);
+    res.json({ user, token });
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+app.post('/api/auth/logout', authenticated, async (req, res) => {
+  try {
+    await deleteSession(pool, req.authToken);
+    res.json({ ok: true });
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+app.get('/api/auth/me', authenticated, (req, res) => res.json(req.user));
+
 // ── Coins ─────────────────────────────────────────────────────────────────────
+// The signed-in user's watchlist. Removing a coin only takes it off that
+// list — its history stays, and ingestion continues while anyone watches it.
 
-app.get('/api/coins', async (_req, res) => {
+app.get('/api/coins', authenticated, async (req, res) => {
   try {
-    const { rows } = await pool.query('SELECT symbol, added_at FROM coins ORDER BY added_at');
+    const { rows } = await pool.query(
+      'SELECT venue, symbol, added_at FROM watchlist_items WHERE user_id = $1 ORDER BY added_at',
+      [req.user.id]
+    );
     res.json(rows);
   } catch (err) {
-    console.error(err);
+    log.error('request failed', { err });
     res.status(500).json({ error: 'internal server error' });
   }
 });
 
-app.post('/api/coins', async (req, res) => {
-  const { symbol } = req.body;
-  if (!symbol || typeof symbol !== 'string') {
+app.post('/api/coins', authenticated, async (req, res) => {
+  if (!req.body.symbol || typeof req.body.symbol !== 'string') {
     return res.status(400).json({ error: 'symbol is required' });
   }
+  const symbol = req.body.symbol.trim().toUpperCase();
+  const venue = requireVenue(req.body.venue, res);
+  if (!venue) return;
   try {
+    // Reject typos and delisted contracts up front instead of failing every cycle
+    const invalid = await validateSymbol(venue, symbol);
+    if (invalid) return res.status(invalid.status).json({ error: invalid.error });
+
+    await pool.query(
+      'INSERT INTO coins(venue, symbol) VALUES($1,$2) ON CONFLICT DO NOTHING',
+      [venue, symbol]
+    );
     await pool.query(
-      'INSERT INTO coins(symbol) VALUES($1) ON CONFLICT DO NOTHING',
-      [symbol.toUpperCase()]
+      'INSERT INTO watchlist_items(user_id, venue, symbol) VALUES($1,$2,$3) ON CONFLICT DO NOTHING',
+      [req.user.id, venue, symbol]
     );
-    res.status(201).json({ symbol });
+    const backfill = await enqueueBackfill(pool, venue, symbol, BACKFILL_LOOKBACK_MS);
+    if (backfill) {
+      // No background work survives the response here: pull the newest chunk
+      // now so the chart isn't empty, and let the cron walk back the rest.
+      await runBackfill(pool, { tiers: RETENTION_TIERS, budgetMs: 0 }).catch(e =>
+        log.error('inline backfill chunk failed', { venue, symbol, err: e }));
+    }
+    res.status(201).json({ venue, symbol, backfill });
   } catch (err) {
-    console.error(err);
+    log.error('request failed', { err });
     res.status(500).json({ error: 'internal server error' });
   }
 });
 
-app.delete('/api/coins/:symbol', async (req, res) => {
+app.delete('/api/coins/:symbol', authenticated, async (req, res) => {
   const { symbol } = req.params;
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
+  try {
+    await pool.query(
+      'DELETE FROM watchlist_items WHERE user_id = $1 AND venue = $2 AND symbol = $3',
+      [req.user.id, venue, symbol]
+    );
+    res.json({ venue, symbol });
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// ── Groups ────────────────────────────────────────────────────────────────────
+
+/**
+ * GET    /api/groups
+ * POST   /api/groups       { id?, name, color, coinSymbols?, order?, collapsed? }
+ * PATCH  /api/groups/:id   { name?, color?, coinSymbols?, order?, collapsed?, version? }
+ * DELETE /api/groups/:id
+ *
+ * The signed-in user's sidebar groups. Every call answers with the full list
+ * (a move changes two groups). A PATCH whose `version` is stale gets a 409
+ * carrying the current list in `groups`.
+ */
+app.get('/api/groups', authenticated, async (req, res) => {
+  try {
+    res.json(await listGroups(pool, req.user.id));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+app.post('/api/groups', authenticated, async (req, res) => {
+  const { group, error } = validateGroup(req.body, { partial: false });
+  if (error) return res.status(400).json({ error });
+  try {
+    const result = await createGroup(pool, req.user.id, group);
+    if (result.error) return res.status(result.status).json({ error: result.error });
+    res.status(201).json(result.groups);
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+app.patch('/api/groups/:id', authenticated, async (req, res) => {
+  const { group, error } = validateGroup(req.body, { partial: true });
+  if (error) return res.status(400).json({ error });
+  try {
+    const result = await updateGroup(pool, req.user.id, req.params.id, group);
+    if (result.error) return res.status(result.status).json({ error: result.error, groups: result.groups });
+    res.json(result.groups);
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+app.delete('/api/groups/:id', authenticated, async (req, res) => {
+  try {
+    const result = await deleteGroup(pool, req.user.id, req.params.id);
+    if (result.error) return res.status(result.status).json({ error: result.error });
+    res.json(result.groups);
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// ── Backfill ──────────────────────────────────────────────────────────────────
+
+app.get('/api/backfill', authenticated, async (req, res) => {
+  try {
+    const { rows } = await pool.query(
+      `SELECT j.* FROM backfill_jobs j
+       JOIN watchlist_items w ON w.venue = j.venue AND w.symbol = j.symbol AND w.user_id = $1
+       ORDER BY j.created_at`,
+      [req.user.id]
+    );
+    res.json(rows.map(toBackfillJob));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// ── Ingestion ─────────────────────────────────────────────────────────────────
+
+app.get('/api/ingestion/status', authenticated, async (req, res) => {
+  try {
+    res.json(await readIngestionStatus(pool, await listUserCoins(pool, req.user.id)));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// ── Alerts ────────────────────────────────────────────────────────────────────
+
+const ALERT_RULE_COLUMNS = `name, venue, symbol, group_id, group_name,
+  metric, comparator, threshold, lookback_ms, cooldown_ms, enabled`;
+
+/**
+ * GET    /api/alerts/rules
+ * POST   /api/alerts/rules
+ * PATCH  /api/alerts/rules/:id — any subset of the POST fields
+ * DELETE /api/alerts/rules/:id
+ *
+ * The signed-in user's rules. A group rule names one of their groups by
+ * `groupId`; its `members` are that group's coins at the time of the call.
+ */
+app.get('/api/alerts/rules', authenticated, async (req, res) => {
+  try {
+    res.json(await readAlertRules(pool, req.user.id));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+app.post('/api/alerts/rules', authenticated, async (req, res) => {
+  const { rule, error } = validateAlertRule(req.body ?? {});
+  if (error) return res.status(400).json({ error });
+  try {
+    const groupError = await resolveAlertGroup(pool, req.user.id, rule);
+    if (groupError) return res.status(400).json({ error: groupError });
+    const { rows } = await pool.query(
+      `INSERT INTO alert_rules(${ALERT_RULE_COLUMNS}, user_id)
+       VALUES($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
+       RETURNING id`,
+      [...alertRuleParams(rule), req.user.id]
+    );
+    const [created] = await readAlertRules(pool, req.user.id, rows[0].id);
+    res.status(201).json(created);
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+app.patch('/api/alerts/rules/:id', authenticated, async (req, res) => {
+  const id = parseInt(req.params.id);
+  if (!Number.isInteger(id)) return res.status(400).json({ error: 'invalid rule id' });
+  try {
+    const [existing] = await readAlertRules(pool, req.user.id, id);
+    if (!existing) return res.status(404).json({ error: 'rule not found' });
+    const { rule, error } = validateAlertRule(req.body ?? {}, existing);
+    if (error) return res.status(400).json({ error });
+    const groupError = await resolveAlertGroup(pool, req.user.id, rule);
+    if (groupError) return res.status(400).json({ error: groupError });
+    const { rowCount } = await pool.query(
+      `UPDATE alert_rules SET (${ALERT_RULE_COLUMNS}) = ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)
+       WHERE id = $12 AND user_id = $13`,
+      [...alertRuleParams(rule), id, req.user.id]
+    );
+    if (!rowCount) return res.status(404).json({ error: 'rule not found' });
+    const [updated] = await readAlertRules(pool, req.user.id, id);
+    res.json(updated);
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+app.delete('/api/alerts/rules/:id', authenticated, async (req, res) => {
+  const id = parseInt(req.params.id);
+  if (!Number.isInteger(id)) return res.status(400).json({ error: 'invalid rule id' });
+  try {
+    const { rowCount } = await pool.query('DELETE FROM alert_rules WHERE id = $1 AND user_id = $2', [id, req.user.id]);
+    if (!rowCount) return res.status(404).json({ error: 'rule not found' });
+    res.json({ id });
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+/**
+ * GET /api/alerts/events?since=<unix_ms>&limit=100
+ *
+ * Alert history, newest first. With `since`, only events fired after it —
+ * the UI polls with its last-seen timestamp.
+ */
+app.get('/api/alerts/events', authenticated, async (req, res) => {
+  const limit = Math.min(parseInt(String(req.query.limit)) || 100, 500);
+  const since = req.query.since ? parseInt(String(req.query.since)) : 0;
+  try {
+    const { rows } = await pool.query(
+      `SELECT * FROM alert_events WHERE user_id = $1 AND fired_at > $2
+       ORDER BY fired_at DESC, id DESC LIMIT $3`,
+      [req.user.id, since, limit]
+    );
+    res.json(rows.map(toAlertEvent));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// ── Analysis ──────────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/analysis/BTCUSDT?venue=binance&refresh=1
+ *
+ * AIAnalysisResult for the coin's last 24h, with the provider that produced
+ * it, when, and the data window it covers. Served from cache for
+ * ANALYSIS_CACHE_TTL; `refresh=1` regenerates (at most once a minute).
+ */
+app.get('/api/analysis/:symbol', authenticated, async (req, res) => {
+  const symbol = req.params.symbol.toUpperCase();
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
+  try {
+    const analysis = await getAnalysis(pool, RETENTION_TIERS, ANALYSIS_PROVIDER, {
+      venue, symbol, ttlMs: ANALYSIS_CACHE_TTL_MS, refresh: req.query.refresh === '1',
+    });
+    if (!analysis) return res.status(404).json({ error: `no market data for ${venue}:${symbol}` });
+    res.json(analysis);
+  } catch (err) {
+    log.error('request failed', { err });
+    if (err.provider) return res.status(502).json({ error: `${err.provider} analysis failed` });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// ── Heatmap ───────────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/heatmap?interval=3600000&start=<unix_ms>&end=<unix_ms>
+ *
+ * Funding rate (bucket average) and open-interest change (bucket open to
+ * close, %) for every coin on the user's watchlist, one column per
+ * `interval` bucket. Defaults to the last 24 buckets up to now.
+ */
+app.get('/api/heatmap', authenticated, async (req, res) => {
+  const interval = req.query.interval ? parseInt(String(req.query.interval)) : 60 * 60 * 1000;
+  const end = req.query.end ? parseInt(String(req.query.end)) : Date.now();
+  const start = req.query.start ? parseInt(String(req.query.start)) : end - 24 * interval;
+
+  const intervalError = validateHeatmapInterval(RETENTION_TIERS, interval);
+  if (intervalError) return res.status(400).json({ error: intervalError });
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start >= end) {
+    return res.status(400).json({ error: 'start must be less than end' });
+  }
+  if ((end - start) / interval > MAX_HEATMAP_BUCKETS) {
+    return res.status(400).json({ error: `range exceeds ${MAX_HEATMAP_BUCKETS} buckets` });
+  }
+
+  try {
+    const { rows: coins } = await pool.query(
+      'SELECT venue, symbol FROM watchlist_items WHERE user_id = $1 ORDER BY added_at',
+      [req.user.id]
+    );
+    res.json(await readHeatmap(pool, RETENTION_TIERS, { coins, interval, start, end }));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// ── Funding ───────────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/funding/settlements?symbol=BTCUSDT&venue=binance&start=<unix_ms>&end=<unix_ms>
+ *
+ * Settled funding events for one coin in [start, end], ascending. The cron
+ * pulls new settlements from the venue every 15 minutes.
+ */
+app.get('/api/funding/settlements', async (req, res) => {
+  const symbol = req.query.symbol;
+  const start = req.query.start ? parseInt(String(req.query.start)) : null;
+  const end = req.query.end ? parseInt(String(req.query.end)) : null;
+
+  if (!symbol || typeof symbol !== 'string') {
+    return res.status(400).json({ error: 'symbol query param required' });
+  }
+  if (start == null || end == null) {
+    return res.status(400).json({ error: 'start and end timestamps required' });
+  }
+  if (start >= end) {
+    return res.status(400).json({ error: 'start must be less than end' });
+  }
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
   try {
-    await pool.query('DELETE FROM coins WHERE symbol = $1', [symbol]);
-    res.json({ symbol });
+    res.json(await readSettlements(pool, { venue, symbol: symbol.toUpperCase(), start, end }));
   } catch (err) {
-    console.error(err);
+    log.error('request failed', { err });
     res.status(500).json({ error: 'internal server error' });
   }
 });
 
+// ── Live stream ───────────────────────────────────────────────────────────────
+
+const streamHub = createStreamHub(pool);
+
+/**
+ * GET /api/stream?symbols=BTCUSDT,bybit:ETHUSDT&since=<unix_ms>
+ *
+ * Server-Sent Events: one `point` event per newly stored point for the listed
+ * coins (same format as latest-batch). `since` — or the Last-Event-ID header
+ * EventSource sends on reconnect — replays points at or after it first.
+ */
+app.get('/api/stream', async (req, res) => {
+  const raw = req.query.symbols;
+  if (!raw || typeof raw !== 'string') {
+    return res.status(400).json({ error: 'symbols query param required' });
+  }
+  const coins = parseCoinList(raw);
+  if (coins === null) return res.status(400).json({ error: 'unknown venue in symbols' });
+  const resume = req.query.since ?? req.get('Last-Event-ID');
+  const since = resume ? parseInt(String(resume)) : null;
+  await streamHub.open(res, {
+    coins,
+    since: Number.isFinite(since) ? since : null,
+    maxDurationMs: STREAM_MAX_DURATION_MS,
+  });
+});
+
 // ── Market data ───────────────────────────────────────────────────────────────
 
-app.post('/api/market-data', async (req, res) => {
-  const { symbol, timestamp, openInterest, fundingRate, price } = req.body;
-  if (!symbol || timestamp == null || openInterest == null || fundingRate == null || price == null) {
+// Every market-data response carries the derived fields (OI notional,
+// annualized funding, OI change) described in _lib/derived.js.
+
+// Clock skew tolerated on a posted point's timestamp
+const MAX_POINT_FUTURE_MS = 5 * 60 * 1000;
+
+app.post('/api/market-data', authenticated, async (req, res) => {
+  const { symbol, openInterest, fundingRate, price } = req.body;
+  if (!symbol || req.body.timestamp == null || openInterest == null || fundingRate == null || price == null) {
     return res.status(400).json({ error: 'missing fields' });
   }
+  const timestamp = Number(req.body.timestamp);
+  if (!Number.isSafeInteger(timestamp)) return res.status(400).json({ error: 'timestamp must be unix milliseconds' });
+  // Anything older lands in rollup buckets whose raw rows may be pruned already
+  const rebuildFrom = rawCutoff(RETENTION_TIERS);
+  if (timestamp < rebuildFrom || timestamp > Date.now() + MAX_POINT_FUTURE_MS) {
+    return res.status(400).json({
+      error: `timestamp must be between ${new Date(rebuildFrom).toISOString()} (raw retention) and now`,
+    });
+  }
+  const venue = requireVenue(req.body.venue, res);
+  if (!venue) return;
+  try {
+    await storePoint(venue, symbol, { timestamp, openInterest, fundingRate, price });
+    await refreshCandles(pool, timestamp, { venue, symbol }, { rebuildFrom });
+    await notifyNewPoints(pool, timestamp);
+    res.status(201).json({ venue, symbol, timestamp });
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+const importBody = express.text({
+  type: [...Object.values(IMPORT_CONTENT_TYPES).flat(), 'text/plain'],
+  limit: IMPORT_MAX_BYTES,
+});
+
+/**
+ * POST /api/market-data/bulk?format=csv|ndjson&venue=
+ *
+ * CSV or NDJSON upload for many coins; see _lib/importer.js. Vercel caps
+ * request bodies at 4.5 MB, so split bigger files.
+ */
+app.post('/api/market-data/bulk', authenticated, (req, res, next) => {
+  importBody(req, res, err => {
+    if (!err) return next();
+    res.status(err.status ?? 400).json({
+      error: err.type === 'entity.too.large' ? `upload exceeds ${IMPORT_MAX_BYTES}` : 'could not read request body',
+    });
+  });
+}, async (req, res) => {
+  const format = importFormat(req.query.format, req.get('Content-Type'));
+  if (!format) {
+    return res.status(400).json({ error: 'format must be csv or ndjson (query param or Content-Type)' });
+  }
+  if (typeof req.body !== 'string') return res.status(400).json({ error: 'request body required' });
+  const defaultVenue = requireVenue(req.query.venue, res);
+  if (!defaultVenue) return;
+
   try {
-    await storePoint(symbol, { timestamp, openInterest, fundingRate, price });
-    res.status(201).json({ symbol, timestamp });
+    const report = await importMarketData(pool, req.body, { format, defaultVenue, tiers: RETENTION_TIERS });
+    if (report.error) return res.status(report.status).json({ error: report.error });
+    log.info('bulk import finished', {
+      format, rows: report.rows, inserted: report.inserted, skipped: report.skipped, rejected: report.rejected,
+    });
+    res.json(report);
   } catch (err) {
-    console.error(err);
+    log.error('request failed', { err });
     res.status(500).json({ error: 'internal server error' });
   }
 });
 
-app.post('/api/market-data/fetch', async (req, res) => {
+app.post('/api/market-data/fetch', authenticated, async (req, res) => {
   const { symbol } = req.body;
   if (!symbol || typeof symbol !== 'string') {
     return res.status(400).json({ error: 'symbol is required' });
   }
+  const venue = requireVenue(req.body.venue, res);
+  if (!venue) return;
   try {
-    const point = await fetchBinanceData(symbol);
-    await storePoint(symbol, point);
-    res.json(point);
+    const [snapshot, intervalMs] = await Promise.all([
+      getAdapter(venue).fetchSnapshot(symbol),
+      fundingIntervalMs(venue, symbol),
+    ]);
+    const point = { ...snapshot, fundingIntervalMs: intervalMs };
+    await storePoint(venue, symbol, point);
+    await refreshCandles(pool, point.timestamp, { venue, symbol });
+    await notifyNewPoints(pool, point.timestamp);
+    const [derived] = await withDerived(pool, [point], { venue, symbol });
+    res.json(derived);
   } catch (err) {
-    console.error('fetch endpoint error', err);
+    log.error('manual fetch failed', { venue, symbol, err });
     res.status(500).json({ error: err?.message ?? 'internal server error' });
   }
 });
@@ -248,20 +1006,22 @@ app.get('/api/market-data/latest-batch', async (req, res) => {
   if (!raw || typeof raw !== 'string') {
     return res.status(400).json({ error: 'symbols query param required' });
   }
-  const symbols = raw.split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
-  if (symbols.length === 0) return res.json([]);
+  const coins = parseCoinList(raw);
+  if (coins === null) return res.status(400).json({ error: 'unknown venue in symbols' });
+  if (coins.length === 0) return res.json([]);
   try {
     const result = await pool.query(
-      `SELECT DISTINCT ON (symbol)
-         symbol, timestamp, open_interest, funding_rate, price
-       FROM market_data
-       WHERE symbol = ANY($1)
-       ORDER BY symbol, timestamp DESC`,
-      [symbols]
+      `SELECT DISTINCT ON (m.venue, m.symbol)
+         m.venue, m.symbol, m.timestamp, m.open_interest, m.funding_rate, m.price, ${FUNDING_COLUMNS}
+       FROM market_data m
+       JOIN unnest($1::text[], $2::text[]) AS c(venue, symbol)
+         ON m.venue = c.venue AND m.symbol = c.symbol
+       ORDER BY m.venue, m.symbol, m.timestamp DESC`,
+      [coins.map(c => c.venue), coins.map(c => c.symbol)]
     );
-    res.json(result.rows.map(toPointWithSymbol));
+    res.json(await withDerived(pool, result.rows.map(toPointWithSymbol)));
   } catch (err) {
-    console.error(err);
+    log.error('request failed', { err });
     res.status(500).json({ error: 'internal server error' });
   }
 });
@@ -274,30 +1034,18 @@ app.get('/api/market-data', async (req, res) => {
   if (!symbol || typeof symbol !== 'string') {
     return res.status(400).json({ error: 'symbol query param required' });
   }
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
   try {
-    let rows;
-    if (before != null) {
-      const result = await pool.query(
-        `SELECT timestamp, open_interest, funding_rate, price
-         FROM market_data
-         WHERE symbol = $1 AND timestamp < $2
-         ORDER BY timestamp DESC LIMIT $3`,
-        [symbol, before, limit]
-      );
-      rows = result.rows.reverse();
-    } else {
-      const result = await pool.query(
-        `SELECT timestamp, open_interest, funding_rate, price
-         FROM market_data
-         WHERE symbol = $1
-         ORDER BY timestamp DESC LIMIT $2`,
-        [symbol, limit]
-      );
-      rows = result.rows.reverse();
-    }
-    res.json(rows.map(toPoint));
+    const points = await readHistory(pool, RETENTION_TIERS, {
+      venue,
+      symbol,
+      end: before != null ? before - 1 : undefined,
+      limit,
+    });
+    res.json(await withDerived(pool, points, { venue, symbol }));
   } catch (err) {
-    console.error(err);
+    log.error('request failed', { err });
     res.status(500).json({ error: 'internal server error' });
   }
 });
@@ -316,17 +1064,174 @@ app.get('/api/market-data/range', async (req, res) => {
   if (start >= end) {
     return res.status(400).json({ error: 'start must be less than end' });
   }
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
   try {
-    const result = await pool.query(
-      `SELECT timestamp, open_interest, funding_rate, price
-       FROM market_data
-       WHERE symbol = $1 AND timestamp >= $2 AND timestamp <= $3
-       ORDER BY timestamp ASC`,
-      [symbol, start, end]
-    );
-    res.json(result.rows.map(toPoint));
+    const points = await readHistory(pool, RETENTION_TIERS, { venue, symbol, start, end });
+    res.json(await withDerived(pool, points, { venue, symbol }));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+app.get('/api/market-data/candles', async (req, res) => {
+  const symbol = req.query.symbol;
+  const interval = parseInt(String(req.query.interval));
+  const start = req.query.start ? parseInt(String(req.query.start)) : null;
+  const end = req.query.end ? parseInt(String(req.query.end)) : null;
+
+  if (!symbol || typeof symbol !== 'string') {
+    return res.status(400).json({ error: 'symbol query param required' });
+  }
+  if (!interval || interval < 60_000 || interval % 60_000 !== 0) {
+    return res.status(400).json({ error: 'interval must be a whole number of minutes in ms' });
+  }
+  if (start == null || end == null) {
+    return res.status(400).json({ error: 'start and end timestamps required' });
+  }
+  if (start >= end) {
+    return res.status(400).json({ error: 'start must be less than end' });
+  }
+  if ((end - start) / interval > MAX_CANDLES_PER_REQUEST) {
+    return res.status(400).json({ error: `range exceeds ${MAX_CANDLES_PER_REQUEST} candles` });
+  }
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
+  try {
+    const candles = await readCandles(pool, RETENTION_TIERS, { venue, symbol, interval, start, end });
+    res.json(await candlesWithDerived(pool, candles, { venue, symbol }, interval));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// Snapshot table rows computed in SQL; see _lib/snapshots.js.
+app.get('/api/snapshots', async (req, res) => {
+  const symbol = req.query.symbol;
+  const period = parseInt(String(req.query.period));
+  const interval = parseInt(String(req.query.interval));
+  const end = req.query.end ? parseInt(String(req.query.end)) : Date.now();
+
+  if (!symbol || typeof symbol !== 'string') {
+    return res.status(400).json({ error: 'symbol query param required' });
+  }
+  const error = validateSnapshotParams({ period, interval });
+  if (error) return res.status(400).json({ error });
+  if (!Number.isFinite(end)) return res.status(400).json({ error: 'end must be a timestamp' });
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
+
+  try {
+    res.json(await readSnapshots(pool, RETENTION_TIERS, { venue, symbol, period, interval, end }));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// Long/short ratios and taker volume; `interval` defaults to the venue's
+// native period and must be a multiple of it (see _lib/positioning.js).
+app.get('/api/market-data/positioning', async (req, res) => {
+  const symbol = req.query.symbol;
+  const start = req.query.start ? parseInt(String(req.query.start)) : null;
+  const end = req.query.end ? parseInt(String(req.query.end)) : null;
+
+  if (!symbol || typeof symbol !== 'string') {
+    return res.status(400).json({ error: 'symbol query param required' });
+  }
+  if (start == null || end == null) {
+    return res.status(400).json({ error: 'start and end timestamps required' });
+  }
+  if (start >= end) {
+    return res.status(400).json({ error: 'start must be less than end' });
+  }
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
+  const period = positioningPeriodMs(venue);
+  if (!period) return res.status(400).json({ error: `positioning data is not available on ${venue}` });
+  const interval = req.query.interval ? parseInt(String(req.query.interval)) : period;
+  if (!interval || interval % period !== 0) {
+    return res.status(400).json({ error: `interval must be a multiple of ${period / 60_000} minutes in ms` });
+  }
+  if ((end - start) / interval > MAX_POSITIONING_BUCKETS) {
+    return res.status(400).json({ error: `range exceeds ${MAX_POSITIONING_BUCKETS} buckets` });
+  }
+
+  try {
+    res.json(await readPositioning(pool, { venue, symbol: symbol.toUpperCase(), interval, start, end }));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// Liquidated notional per bucket. Only the backend's long-running process
+// collects liquidations (see backend/server/collector.js); this serves them.
+app.get('/api/market-data/liquidations', async (req, res) => {
+  const symbol = req.query.symbol;
+  const interval = parseInt(String(req.query.interval));
+  const start = req.query.start ? parseInt(String(req.query.start)) : null;
+  const end = req.query.end ? parseInt(String(req.query.end)) : null;
+
+  if (!symbol || typeof symbol !== 'string') {
+    return res.status(400).json({ error: 'symbol query param required' });
+  }
+  if (!interval || interval < 60_000 || interval % 60_000 !== 0) {
+    return res.status(400).json({ error: 'interval must be a whole number of minutes in ms' });
+  }
+  if (start == null || end == null) {
+    return res.status(400).json({ error: 'start and end timestamps required' });
+  }
+  if (start >= end) {
+    return res.status(400).json({ error: 'start must be less than end' });
+  }
+  if ((end - start) / interval > MAX_LIQUIDATION_BUCKETS) {
+    return res.status(400).json({ error: `range exceeds ${MAX_LIQUIDATION_BUCKETS} buckets` });
+  }
+  const venue = requireVenue(req.query.venue, res);
+  if (!venue) return;
+
+  try {
+    res.json(await readLiquidations(pool, { venue, symbol: symbol.toUpperCase(), interval, start, end }));
+  } catch (err) {
+    log.error('request failed', { err });
+    res.status(500).json({ error: 'internal server error' });
+  }
+});
+
+// ── Export ────────────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/export?symbols=BTCUSDT,bybit:ETHUSDT&start=&end=&format=csv|ndjson|parquet&interval=<ms>
+ *
+ * Raw rows, or candles at `interval`, streamed through a DB cursor. Large
+ * ranges can outlast the function's max duration; the download is cut off
+ * rather than left looking complete.
+ */
+app.get('/api/export', authenticatedDownload, async (req, res) => {
+  const raw = req.query.symbols;
+  if (!raw || typeof raw !== 'string') {
+    return res.status(400).json({ error: 'symbols query param required' });
+  }
+  const coins = parseCoinList(raw);
+  if (coins === null) return res.status(400).json({ error: 'unknown venue in symbols' });
+  const params = {
+    coins,
+    start: parseInt(String(req.query.start)),
+    end: parseInt(String(req.query.end)),
+    interval: req.query.interval ? parseInt(String(req.query.interval)) : null,
+    format: String(req.query.format ?? 'csv'),
+  };
+  const error = validateExport(params);
+  if (error) return res.status(400).json({ error });
+
+  try {
+    const rows = await streamExport(pool, res, params);
+    log.info('export finished', { coins: coins.length, rows, format: params.format, interval: params.interval });
   } catch (err) {
-    console.error(err);
+    log.error('request failed', { err });
     res.status(500).json({ error: 'internal server error' });
   }
 });
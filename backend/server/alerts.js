@@ -0,0 +1,266 @@
+// ── Alert rules ──────────────────────────────────────────────────────────────
+//
+// A rule watches one metric for either a single coin or every member of a
+// CoinGroup, e.g. "open_interest_change_pct above 10 over 1h" or
+// "funding_rate crosses_below 0". The ingestion cycle calls evaluateAlerts()
+// after storing its points; each firing is written to `alert_events`, and a
+// rule stays quiet for `cooldown_ms` per coin after it fires.
+//
+// Rules belong to a user. A group rule targets whatever is in its owner's
+// group when it is evaluated: members are read from group_members, not
+// stored on the rule.
+//
+// Metrics compare either the latest value (price, open_interest,
+// funding_rate) or its change against the point `lookback_ms` earlier
+// (`*_change_pct` in percent, funding_rate_change in absolute rate). The
+// `crosses_*` comparators need a level metric: they fire when the value was
+// on the other side of the threshold at the start of the lookback window.
+
+import { parseVenue } from './exchanges.js';
+
+const METRICS = {
+  price:                    { column: 'price',         change: null },
+  open_interest:            { column: 'open_interest', change: null },
+  funding_rate:             { column: 'funding_rate',  change: null },
+  price_change_pct:         { column: 'price',         change: 'pct' },
+  open_interest_change_pct: { column: 'open_interest', change: 'pct' },
+  funding_rate_change:      { column: 'funding_rate',  change: 'abs' },
+};
+
+export const ALERT_METRICS = Object.keys(METRICS);
+export const ALERT_COMPARATORS = ['above', 'below', 'crosses_above', 'crosses_below'];
+
+const MIN_LOOKBACK_MS = 60 * 1000;
+const MAX_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Map an alert_rules row → API shape */
+export function toAlertRule(r) {
+  return {
+    id: r.id,
+    name: r.name,
+    venue: r.venue,
+    symbol: r.symbol,
+    groupId: r.group_id,
+    groupName: r.group_name,
+    members: r.members ?? [],
+    metric: r.metric,
+    comparator: r.comparator,
+    threshold: Number(r.threshold),
+    lookbackMs: Number(r.lookback_ms),
+    cooldownMs: Number(r.cooldown_ms),
+    enabled: r.enabled,
+    createdAt: r.created_at,
+  };
+}
+
+/** Map an alert_events row → API shape */
+export function toAlertEvent(r) {
+  return {
+    id: Number(r.id),
+    ruleId: r.rule_id,
+    ruleName: r.rule_name,
+    venue: r.venue,
+    symbol: r.symbol,
+    metric: r.metric,
+    comparator: r.comparator,
+    threshold: Number(r.threshold),
+    value: Number(r.value),
+    pointTimestamp: Number(r.point_ts),
+    firedAt: Number(r.fired_at),
+  };
+}
+
+/**
+ * Validates a rule from a request body, layered over `base` (the stored rule
+ * when patching). Returns `{ rule }` in API shape or `{ error }` for a 400.
+ * A rule targets a coin when `symbol` is set and a group when `groupId` is.
+ */
+export function validateAlertRule(body, base = {}) {
+  const input = { ...base, ...body };
+  const rule = {
+    name: input.name == null || input.name === '' ? null : String(input.name).slice(0, 100),
+    venue: null,
+    symbol: null,
+    groupId: null,
+    groupName: null,
+    metric: input.metric,
+    comparator: input.comparator,
+    threshold: Number(input.threshold),
+    lookbackMs: Number(input.lookbackMs),
+    cooldownMs: Number(input.cooldownMs ?? 0),
+    enabled: input.enabled ?? true,
+  };
+
+  // Switching scope in a patch drops the other one. A group's name is filled
+  // in by resolveAlertGroup() from the owner's groups.
+  const groupScoped = body.symbol != null ? false : input.groupId != null;
+  if (groupScoped) {
+    if (typeof input.groupId !== 'string' || !input.groupId) return { error: 'groupId must be a string' };
+    rule.groupId = input.groupId;
+  } else {
+    if (!input.symbol || typeof input.symbol !== 'string') return { error: 'symbol or groupId is required' };
+    const venue = parseVenue(input.venue);
+    if (!venue) return { error: `unknown venue "${input.venue}"` };
+    rule.venue = venue;
+    rule.symbol = input.symbol.toUpperCase();
+  }
+
+  if (!METRICS[rule.metric]) return { error: `metric must be one of ${ALERT_METRICS.join(', ')}` };
+  if (!ALERT_COMPARATORS.includes(rule.comparator)) {
+    return { error: `comparator must be one of ${ALERT_COMPARATORS.join(', ')}` };
+  }
+  if (rule.comparator.startsWith('crosses') && METRICS[rule.metric].change) {
+    return { error: `${rule.comparator} needs a level metric, not ${rule.metric}` };
+  }
+  if (!Number.isFinite(rule.threshold)) return { error: 'threshold must be a number' };
+  if (!Number.isInteger(rule.lookbackMs) || rule.lookbackMs < MIN_LOOKBACK_MS || rule.lookbackMs > MAX_LOOKBACK_MS) {
+    return { error: `lookbackMs must be between ${MIN_LOOKBACK_MS} and ${MAX_LOOKBACK_MS}` };
+  }
+  if (!Number.isInteger(rule.cooldownMs) || rule.cooldownMs < 0) {
+    return { error: 'cooldownMs must be a non-negative integer' };
+  }
+  if (typeof rule.enabled !== 'boolean') return { error: 'enabled must be a boolean' };
+  return { rule };
+}
+
+/**
+ * Checks that a group rule's group belongs to `userId` and copies its name
+ * onto the rule, kept as the label should the group be deleted later.
+ * Returns an error message for a 400, or null.
+ */
+export async function resolveAlertGroup(pool, userId, rule) {
+  if (!rule.groupId) return null;
+  const { rows } = await pool.query('SELECT name FROM groups WHERE user_id = $1 AND id = $2', [userId, rule.groupId]);
+  if (rows.length === 0) return `unknown group "${rule.groupId}"`;
+  rule.groupName = rows[0].name;
+  return null;
+}
+
+/** Column values for INSERT/UPDATE, in the order the routes use ($1…$11). */
+export function alertRuleParams(rule) {
+  return [
+    rule.name, rule.venue, rule.symbol, rule.groupId, rule.groupName,
+    rule.metric, rule.comparator, rule.threshold, rule.lookbackMs, rule.cooldownMs, rule.enabled,
+  ];
+}
+
+// Rules with their group's current name and members (`venue:SYMBOL`, in
+// sidebar order) looked up in the owner's groups
+const RULES_QUERY = `
+  SELECT r.id, r.user_id, r.name, r.venue, r.symbol, r.group_id,
+    coalesce(g.name, r.group_name) AS group_name,
+    ARRAY(
+      SELECT m.venue || ':' || m.symbol FROM group_members m
+      WHERE m.user_id = r.user_id AND m.group_id = r.group_id
+      ORDER BY m.position
+    ) AS members,
+    r.metric, r.comparator, r.threshold, r.lookback_ms, r.cooldown_ms, r.enabled, r.created_at
+  FROM alert_rules r
+  LEFT JOIN groups g ON g.user_id = r.user_id AND g.id = r.group_id`;
+
+/** `userId`'s rules in API shape, or just rule `id` (an empty list if it isn't theirs). */
+export async function readAlertRules(pool, userId, id = null) {
+  const { rows } = await pool.query(
+    `${RULES_QUERY}
+     WHERE r.user_id = $1 AND ($2::int IS NULL OR r.id = $2)
+     ORDER BY r.id`,
+    [userId, id]
+  );
+  return rows.map(toAlertRule);
+}
+
+function ruleTargets(r) {
+  if (r.symbol) return [{ venue: r.venue, symbol: r.symbol }];
+  return (r.members ?? []).map(m => {
+    const sep = m.indexOf(':');
+    return { venue: m.slice(0, sep), symbol: m.slice(sep + 1) };
+  });
+}
+
+function observe(metric, latest, baseline) {
+  const { change } = METRICS[metric];
+  if (!change) return { value: latest, previous: baseline };
+  if (baseline == null) return null;
+  if (change === 'abs') return { value: latest - baseline, previous: null };
+  if (baseline === 0) return null;
+  return { value: ((latest - baseline) / Math.abs(baseline)) * 100, previous: null };
+}
+
+function matches(comparator, threshold, { value, previous }) {
+  switch (comparator) {
+    case 'above': return value > threshold;
+    case 'below': return value < threshold;
+    case 'crosses_above': return previous != null && previous <= threshold && value > threshold;
+    case 'crosses_below': return previous != null && previous >= threshold && value < threshold;
+    default: return false;
+  }
+}
+
+/**
+ * Evaluates every enabled rule against coins whose latest point is at or after
+ * `since` (i.e. that were just ingested). Baselines are the newest point at
+ * or before `latest - lookback`, ignored when older than twice the lookback so
+ * a coin with a gap doesn't compare against week-old data.
+ * Returns the number of events recorded.
+ */
+export async function evaluateAlerts(pool, since) {
+  const { rows: rules } = await pool.query(`${RULES_QUERY} WHERE r.enabled ORDER BY r.id`);
+  let fired = 0;
+
+  for (const rule of rules) {
+    const targets = ruleTargets(rule);
+    if (targets.length === 0) continue;
+    const { column } = METRICS[rule.metric];
+    const lookback = Number(rule.lookback_ms);
+
+    const { rows } = await pool.query(
+      `WITH latest AS (
+         SELECT DISTINCT ON (m.venue, m.symbol) m.venue, m.symbol, m.timestamp, m.${column} AS value
+         FROM market_data m
+         JOIN unnest($1::text[], $2::text[]) AS c(venue, symbol)
+           ON m.venue = c.venue AND m.symbol = c.symbol
+         ORDER BY m.venue, m.symbol, m.timestamp DESC
+       )
+       SELECT l.venue, l.symbol, l.timestamp, l.value, b.value AS baseline
+       FROM latest l
+       LEFT JOIN LATERAL (
+         SELECT ${column} AS value FROM market_data
+         WHERE venue = l.venue AND symbol = l.symbol
+           AND timestamp <= l.timestamp - $4 AND timestamp > l.timestamp - 2 * $4
+         ORDER BY timestamp DESC
+         LIMIT 1
+       ) b ON true
+       WHERE l.timestamp >= $3`,
+      [targets.map(t => t.venue), targets.map(t => t.symbol), since, lookback]
+    );
+
+    for (const r of rows) {
+      const observed = observe(
+        rule.metric,
+        parseFloat(r.value),
+        r.baseline == null ? null : parseFloat(r.baseline)
+      );
+      if (!observed || !matches(rule.comparator, Number(rule.threshold), observed)) continue;
+
+      // Cooldown is per rule per coin; the unique index on point_ts keeps two
+      // evaluators (server + cron) from recording the same point twice.
+      const now = Date.now();
+      const { rowCount } = await pool.query(
+        `INSERT INTO alert_events(
+           rule_id, rule_name, venue, symbol, metric, comparator, threshold, value, point_ts, fired_at, user_id)
+         SELECT $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$12
+         WHERE NOT EXISTS (
+           SELECT 1 FROM alert_events
+           WHERE rule_id = $1 AND venue = $3 AND symbol = $4 AND fired_at > $10 - $11::bigint
+         )
+         ON CONFLICT (rule_id, venue, symbol, point_ts) DO NOTHING`,
+        [
+          rule.id, rule.name, r.venue, r.symbol, rule.metric, rule.comparator,
+          rule.threshold, observed.value, r.timestamp, now, rule.cooldown_ms, rule.user_id,
+        ]
+      );
+      fired += rowCount ?? 0;
+    }
+  }
+  return fired;
+}
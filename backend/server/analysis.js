@@ -0,0 +1,255 @@
+// ── Market analysis ──────────────────────────────────────────────────────────
+//
+// GET /api/analysis/:symbol summarises the last 24h of price, open interest
+// and funding into a compact context object and hands it to an analysis
+// provider, which returns an AIAnalysisResult { sentiment, summary,
+// riskLevel }. Providers share one shape:
+//
+//   id                – stored with each result
+//   model             – model name, or null
+//   analyze(context)  → raw result object (validated here before use)
+//
+// `gemini` calls Google's Gemini API with a JSON response schema; `local`
+// derives the result from the same context with fixed rules, so the panel
+// works offline and in development without an API key. The latest result per
+// coin is kept in `market_analyses` and reused for ANALYSIS_CACHE_TTL.
+
+import { readCandles, readHistory } from './retention.js';
+
+const HOUR = 60 * 60 * 1000;
+const CONTEXT_WINDOW_MS = 24 * HOUR;
+
+// Forced refreshes inside this window return the cached result
+const MIN_REFRESH_MS = 60 * 1000;
+
+const SENTIMENTS = ['bullish', 'bearish', 'neutral'];
+const RISK_LEVELS = ['low', 'medium', 'high'];
+const MAX_SUMMARY_LENGTH = 1200;
+
+const round = (n, digits = 4) => (n == null || !Number.isFinite(n) ? null : Number(n.toFixed(digits)));
+const pctChange = (from, to) => (from ? ((to - from) / Math.abs(from)) * 100 : null);
+
+// ── Context ──────────────────────────────────────────────────────────────────
+
+/**
+ * Builds the provider context for one coin: latest values, % changes over
+ * 1h/4h/24h, funding statistics and an hourly series. Returns null when the
+ * coin has no data yet.
+ */
+export async function buildAnalysisContext(pool, tiers, { venue, symbol }) {
+  const [latest] = await readHistory(pool, tiers, { venue, symbol, limit: 1 });
+  if (!latest) return null;
+
+  const end = latest.timestamp;
+  const candles = await readCandles(pool, tiers, {
+    venue, symbol, interval: HOUR, start: end - CONTEXT_WINDOW_MS, end,
+  });
+
+  // Value `ago` before the latest point: open of the first hourly candle
+  // still running at that time (the oldest one if history is shorter)
+  const valueAgo = (ago, field) => {
+    const c = candles.find(k => k.timestamp + HOUR > end - ago);
+    return c ? c[field].open : null;
+  };
+  const change = ago => ({
+    pricePct: round(pctChange(valueAgo(ago, 'price'), latest.price), 2),
+    openInterestPct: round(pctChange(valueAgo(ago, 'openInterest'), latest.openInterest), 2),
+  });
+
+  const funding = candles.map(c => c.fundingRate.avg);
+  return {
+    venue,
+    symbol,
+    asOf: end,
+    from: candles[0]?.timestamp ?? end,
+    latest: {
+      price: latest.price,
+      openInterest: latest.openInterest,
+      openInterestNotional: round(latest.openInterest * latest.price, 0),
+      fundingRate: latest.fundingRate,
+    },
+    change: { '1h': change(HOUR), '4h': change(4 * HOUR), '24h': change(24 * HOUR) },
+    funding: funding.length === 0 ? null : {
+      avg24h: round(funding.reduce((a, b) => a + b, 0) / funding.length, 6),
+      min24h: round(Math.min(...funding), 6),
+      max24h: round(Math.max(...funding), 6),
+    },
+    hourly: candles.map(c => ({
+      t: c.timestamp,
+      price: c.price.close,
+      openInterest: c.openInterest.close,
+      fundingRate: round(c.fundingRate.avg, 6),
+    })),
+  };
+}
+
+// ── Providers ────────────────────────────────────────────────────────────────
+
+const RESULT_SCHEMA_TEXT =
+  '{"sentiment": "bullish" | "bearish" | "neutral", "summary": string (2-4 sentences), "riskLevel": "low" | "medium" | "high"}';
+
+function buildPrompt(context) {
+  return [
+    `You are a derivatives analyst. Assess the ${context.symbol} perpetual on ${context.venue} from the data below.`,
+    'Focus on how open interest, funding and price interact (e.g. rising OI with rising price, crowded funding, squeezes).',
+    'Funding rates are per 8h settlement as decimals (0.0001 = 0.01%). Open interest is in base-asset units.',
+    `Reply with JSON only: ${RESULT_SCHEMA_TEXT}.`,
+    '',
+    JSON.stringify(context),
+  ].join('\n');
+}
+
+function createGeminiProvider({ apiKey, model }) {
+  let client = null;
+  return {
+    id: 'gemini',
+    model,
+    async analyze(context) {
+      // Loaded on first use so the local provider works without the SDK installed
+      const { GoogleGenAI, Type } = await import('@google/genai');
+      client ??= new GoogleGenAI({ apiKey });
+      const response = await client.models.generateContent({
+        model,
+        contents: buildPrompt(context),
+        config: {
+          temperature: 0.2,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              sentiment: { type: Type.STRING, enum: SENTIMENTS },
+              summary: { type: Type.STRING },
+              riskLevel: { type: Type.STRING, enum: RISK_LEVELS },
+            },
+            required: ['sentiment', 'summary', 'riskLevel'],
+          },
+        },
+      });
+      if (!response.text) throw new Error('Gemini returned an empty response');
+      return JSON.parse(response.text);
+    },
+  };
+}
+
+const fmtPct = n => (n == null ? 'n/a' : `${n > 0 ? '+' : ''}${n.toFixed(2)}%`);
+
+/** Rule-based stand-in: same inputs and output shape, no network. */
+const localProvider = {
+  id: 'local',
+  model: null,
+  async analyze(context) {
+    const { pricePct, openInterestPct } = context.change['24h'];
+    const price = pricePct ?? 0;
+    const oi = openInterestPct ?? 0;
+    const funding = context.latest.fundingRate;
+
+    let sentiment = 'neutral';
+    if (price > 1 && oi >= 0) sentiment = 'bullish';
+    else if (price < -1 && oi >= 0) sentiment = 'bearish';
+
+    let riskLevel = 'low';
+    if (Math.abs(funding) >= 0.001 || Math.abs(oi) >= 20 || Math.abs(price) >= 10) riskLevel = 'high';
+    else if (Math.abs(funding) >= 0.0003 || Math.abs(oi) >= 8 || Math.abs(price) >= 4) riskLevel = 'medium';
+
+    const parts = [
+      `Over 24h price moved ${fmtPct(pricePct)} while open interest moved ${fmtPct(openInterestPct)}.`,
+    ];
+    if (oi > 0 && price > 0) parts.push('New positions are backing the move up.');
+    else if (oi > 0 && price < 0) parts.push('Open interest is building into the decline, suggesting fresh shorts.');
+    else if (oi < 0) parts.push('Falling open interest points to positions being closed rather than opened.');
+    if (funding >= 0.0005) parts.push(`Funding at ${(funding * 100).toFixed(4)}% shows crowded longs paying up.`);
+    else if (funding <= -0.0005) parts.push(`Funding at ${(funding * 100).toFixed(4)}% shows crowded shorts paying up.`);
+    return { sentiment, summary: parts.join(' '), riskLevel };
+  },
+};
+
+/**
+ * Picks the provider from ANALYSIS_PROVIDER (`gemini` | `local`), defaulting
+ * to Gemini when GEMINI_API_KEY is set. Throws on an unknown name or on
+ * `gemini` without a key so misconfiguration fails at startup.
+ */
+export function createAnalysisProvider(env = process.env) {
+  const name = env.ANALYSIS_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'local');
+  if (name === 'local') return localProvider;
+  if (name === 'gemini') {
+    if (!env.GEMINI_API_KEY) throw new Error('ANALYSIS_PROVIDER=gemini needs GEMINI_API_KEY');
+    return createGeminiProvider({ apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL || 'gemini-2.5-flash' });
+  }
+  throw new Error(`unknown ANALYSIS_PROVIDER "${name}"`);
+}
+
+/** Checks a provider's raw output against AIAnalysisResult; throws if it doesn't fit. */
+export function validateAnalysis(raw) {
+  if (!raw || typeof raw !== 'object') throw new Error('analysis is not an object');
+  const sentiment = String(raw.sentiment ?? '').toLowerCase();
+  const riskLevel = String(raw.riskLevel ?? '').toLowerCase();
+  const summary = typeof raw.summary === 'string' ? raw.summary.trim() : '';
+  if (!SENTIMENTS.includes(sentiment)) throw new Error(`invalid sentiment "${raw.sentiment}"`);
+  if (!RISK_LEVELS.includes(riskLevel)) throw new Error(`invalid riskLevel "${raw.riskLevel}"`);
+  if (!summary) throw new Error('empty summary');
+  return { sentiment, summary: summary.slice(0, MAX_SUMMARY_LENGTH), riskLevel };
+}
+
+// ── Cache ────────────────────────────────────────────────────────────────────
+
+function toMarketAnalysis(r, cached) {
+  return {
+    venue: r.venue,
+    symbol: r.symbol,
+    provider: r.provider,
+    model: r.model,
+    result: r.result,
+    dataFrom: Number(r.data_from),
+    dataTo: Number(r.data_to),
+    generatedAt: r.generated_at,
+    cached,
+  };
+}
+
+const pending = new Map(); // `venue:SYMBOL` → in-flight analysis
+
+/**
+ * Returns the cached analysis for a coin while younger than `ttlMs`, otherwise
+ * builds a fresh one (`refresh` skips the cache unless the result is under a
+ * minute old). Concurrent requests for one coin share a provider call.
+ * Resolves to null when the coin has no market data; provider and
+ * validation failures reject with `err.provider` set.
+ */
+export async function getAnalysis(pool, tiers, provider, { venue, symbol, ttlMs, refresh = false }) {
+  const { rows } = await pool.query(
+    `SELECT *, extract(epoch FROM now() - generated_at) * 1000 AS age_ms
+     FROM market_analyses WHERE venue = $1 AND symbol = $2`,
+    [venue, symbol]
+  );
+  const cachedRow = rows[0];
+  if (cachedRow && cachedRow.provider === provider.id) {
+    const age = Number(cachedRow.age_ms);
+    if (age < (refresh ? MIN_REFRESH_MS : ttlMs)) return toMarketAnalysis(cachedRow, true);
+  }
+
+  const key = `${venue}:${symbol}`;
+  if (!pending.has(key)) {
+    pending.set(key, (async () => {
+      const context = await buildAnalysisContext(pool, tiers, { venue, symbol });
+      if (!context) return null;
+      let result;
+      try {
+        result = validateAnalysis(await provider.analyze(context));
+      } catch (e) {
+        // Tagged so the route can answer 502 rather than 500
+        throw Object.assign(e instanceof Error ? e : new Error(String(e)), { provider: provider.id });
+      }
+      const { rows: saved } = await pool.query(
+        `INSERT INTO market_analyses(venue, symbol, provider, model, result, data_from, data_to, generated_at)
+         VALUES($1,$2,$3,$4,$5,$6,$7, now())
+         ON CONFLICT (venue, symbol) DO UPDATE SET
+           provider = EXCLUDED.provider, model = EXCLUDED.model, result = EXCLUDED.result,
+           data_from = EXCLUDED.data_from, data_to = EXCLUDED.data_to, generated_at = now()
+         RETURNING *`,
+        [venue, symbol, provider.id, provider.model, JSON.stringify(result), context.from, context.asOf]
+      );
+      return toMarketAnalysis(saved[0], false);
+    })().finally(() => pending.delete(key)));
+  }
+  return pending.get(key);
+}
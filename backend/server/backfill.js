@@ -0,0 +1,160 @@
+// ── Historical backfill ──────────────────────────────────────────────────────
+//
+// Adding a coin enqueues a row in `backfill_jobs` covering
+// [added_at - lookback, added_at]. Workers claim a job with a short lease,
+// walk it backwards chunk by chunk (newest history first, so the chart fills
+// from the right) and persist the cursor after every chunk — a crashed or
+// timed-out worker simply lets the lease expire and the next run resumes
+// where it stopped. Inserts use ON CONFLICT DO NOTHING, so running alongside
+// the live fetch cycle is safe.
+
+import { getAdapter } from './exchanges.js';
+import { refreshCandles } from './candles.js';
+import { rawCutoff } from './retention.js';
+import { log } from './log.js';
+
+const LEASE = '2 minutes';
+const MAX_ATTEMPTS = 5;
+
+/** Map a backfill_jobs row → API shape with a 0–1 progress fraction */
+export function toBackfillJob(r) {
+  const start = Number(r.start_ts);
+  const end = Number(r.end_ts);
+  const cursor = Number(r.cursor_ts);
+  return {
+    venue: r.venue,
+    symbol: r.symbol,
+    status: r.status,
+    start,
+    end,
+    progress: end > start ? Math.min(1, (end - cursor) / (end - start)) : 1,
+    error: r.error,
+    updatedAt: r.updated_at,
+  };
+}
+
+/**
+ * Queues a backfill for a newly added coin. Returns false when the venue has
+ * no history endpoints (nothing is queued). Re-adding a coin whose job row
+ * survived keeps the existing job.
+ */
+export async function enqueueBackfill(pool, venue, symbol, lookbackMs) {
+  if (!getAdapter(venue)?.fetchHistory || lookbackMs <= 0) return false;
+  const end = Date.now();
+  await pool.query(
+    `INSERT INTO backfill_jobs(venue, symbol, start_ts, end_ts, cursor_ts)
+     VALUES($1,$2,$3,$4,$4)
+     ON CONFLICT (venue, symbol) DO NOTHING`,
+    [venue, symbol, end - lookbackMs, end]
+  );
+  return true;
+}
+
+/** Claims the oldest runnable job (pending, or running with an expired lease). */
+async function claimJob(pool) {
+  const { rows } = await pool.query(
+    `UPDATE backfill_jobs
+     SET status = 'running', locked_until = now() + interval '${LEASE}', updated_at = now()
+     WHERE (venue, symbol) = (
+       SELECT venue, symbol FROM backfill_jobs
+       WHERE status = 'pending' OR (status = 'running' AND locked_until < now())
+       ORDER BY created_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`
+  );
+  return rows[0] ?? null;
+}
+
+/** Inserts history points, skipping timestamps already held. Returns rows stored. */
+export async function storeHistory(pool, venue, symbol, points) {
+  if (points.length === 0) return 0;
+  const valueClauses = [];
+  const params = [];
+  let idx = 1;
+  for (const p of points) {
+    valueClauses.push(`($${idx++},$${idx++},$${idx++},$${idx++},$${idx++},$${idx++})`);
+    params.push(venue, symbol, p.timestamp, p.openInterest, p.fundingRate, p.price);
+  }
+  const { rowCount } = await pool.query(
+    `INSERT INTO market_data(venue, symbol, timestamp, open_interest, funding_rate, price)
+     VALUES ${valueClauses.join(',')}
+     ON CONFLICT (venue, symbol, timestamp) DO NOTHING`,
+    params
+  );
+  return rowCount ?? 0;
+}
+
+/**
+ * Fetches and stores one chunk below the job's cursor, then advances it.
+ * BACKFILL_LOOKBACK may reach past the raw tier, where rollups are only
+ * filled in, never rebuilt from the chunk alone.
+ */
+async function runChunk(pool, job, tiers) {
+  const adapter = getAdapter(job.venue);
+  const chunkEnd = Number(job.cursor_ts);
+  const chunkStart = Math.max(Number(job.start_ts), chunkEnd - adapter.historyChunkMs);
+
+  const points = await adapter.fetchHistory(job.symbol, chunkStart, chunkEnd - 1);
+  await storeHistory(pool, job.venue, job.symbol, points);
+  await refreshCandles(pool, chunkStart, { venue: job.venue, symbol: job.symbol }, { rebuildFrom: rawCutoff(tiers) });
+
+  const done = chunkStart <= Number(job.start_ts);
+  const { rows } = await pool.query(
+    `UPDATE backfill_jobs
+     SET cursor_ts = $3, status = $4, error = NULL, attempts = 0,
+         locked_until = now() + interval '${LEASE}', updated_at = now()
+     WHERE venue = $1 AND symbol = $2
+     RETURNING *`,
+    [job.venue, job.symbol, chunkStart, done ? 'done' : 'running']
+  );
+  return rows[0] ?? null; // null when the coin was removed mid-job (cascade)
+}
+
+async function recordFailure(pool, job, err) {
+  await pool.query(
+    `UPDATE backfill_jobs
+     SET attempts = attempts + 1,
+         status = CASE WHEN attempts + 1 >= $3 THEN 'failed' ELSE 'pending' END,
+         error = $4, locked_until = NULL, updated_at = now()
+     WHERE venue = $1 AND symbol = $2`,
+    [job.venue, job.symbol, MAX_ATTEMPTS, String(err?.message ?? err)]
+  );
+}
+
+/**
+ * Works through queued jobs until none are left or `budgetMs` has elapsed.
+ * At least one chunk always runs, so a budget of 0 means "one chunk".
+ * `tiers` is the parsed RETENTION_TIERS. Returns the number of chunks
+ * processed.
+ */
+export async function runBackfill(pool, { tiers, budgetMs = Infinity }) {
+  const deadline = Date.now() + budgetMs;
+  let chunks = 0;
+  let job = await claimJob(pool);
+  while (job) {
+    try {
+      job = await runChunk(pool, job, tiers);
+      chunks++;
+    } catch (err) {
+      // Leave the retry to the next run rather than hammering a failing endpoint
+      log.error('backfill chunk failed', { venue: job.venue, symbol: job.symbol, err });
+      await recordFailure(pool, job, err);
+      break;
+    }
+    if (Date.now() >= deadline) {
+      // Hand the job back instead of holding the lease until it expires
+      if (job?.status === 'running') {
+        await pool.query(
+          `UPDATE backfill_jobs SET status = 'pending', locked_until = NULL
+           WHERE venue = $1 AND symbol = $2 AND status = 'running'`,
+          [job.venue, job.symbol]
+        );
+      }
+      break;
+    }
+    if (!job || job.status !== 'running') job = await claimJob(pool);
+  }
+  return chunks;
+}
@@ -0,0 +1,167 @@
+// ── Candle rollups ───────────────────────────────────────────────────────────
+//
+// `market_candles` holds pre-aggregated OHLC buckets for price and open
+// interest plus average/last funding, average basis (mark vs index) and the
+// latest funding interval, one row per
+// (venue, symbol, interval_ms, bucket). The ingestion cycle keeps the
+// buckets it touches up to date via refreshCandles(). Which table serves a
+// given range is decided in retention.js.
+
+const MINUTE = 60 * 1000;
+
+/** Intervals maintained as rollups — matches the chart's interval picker. */
+export const CANDLE_INTERVALS_MS = [5 * MINUTE, 15 * MINUTE, 30 * MINUTE, 60 * MINUTE];
+
+/** Hard cap on buckets per request so a tiny interval over a huge range can't OOM us. */
+export const MAX_CANDLES_PER_REQUEST = 5000;
+
+// Aggregate expressions over market_data rows — shared by the rollup upsert
+// and the on-the-fly query so both produce identical candles.
+const CANDLE_AGGREGATES = `
+  (array_agg(price ORDER BY timestamp))[1]              AS price_open,
+  max(price)                                            AS price_high,
+  min(price)                                            AS price_low,
+  (array_agg(price ORDER BY timestamp DESC))[1]         AS price_close,
+  (array_agg(open_interest ORDER BY timestamp))[1]      AS oi_open,
+  max(open_interest)                                    AS oi_high,
+  min(open_interest)                                    AS oi_low,
+  (array_agg(open_interest ORDER BY timestamp DESC))[1] AS oi_close,
+  avg(funding_rate)                                     AS funding_avg,
+  (array_agg(funding_rate ORDER BY timestamp DESC))[1]  AS funding_last,
+  avg((mark_price - index_price) / nullif(index_price, 0)) AS basis_avg,
+  (array_agg(funding_interval_ms ORDER BY timestamp DESC))[1] AS funding_interval_ms,
+  count(*)                                              AS samples`;
+
+/** Map a candle row → frontend-friendly MarketCandle */
+export function toCandle(r) {
+  return {
+    timestamp: Number(r.bucket),
+    price: {
+      open: parseFloat(r.price_open),
+      high: parseFloat(r.price_high),
+      low: parseFloat(r.price_low),
+      close: parseFloat(r.price_close),
+    },
+    openInterest: {
+      open: parseFloat(r.oi_open),
+      high: parseFloat(r.oi_high),
+      low: parseFloat(r.oi_low),
+      close: parseFloat(r.oi_close),
+    },
+    fundingRate: {
+      avg: parseFloat(r.funding_avg),
+      last: parseFloat(r.funding_last),
+    },
+    basis: r.basis_avg == null ? null : parseFloat(r.basis_avg),
+    fundingIntervalMs: r.funding_interval_ms == null ? null : Number(r.funding_interval_ms),
+    samples: Number(r.samples),
+  };
+}
+
+/**
+ * Re-aggregates every rollup bucket that contains a raw point at or after
+ * `since`. Each bucket is rebuilt from its start, so calling this after every
+ * insert keeps the still-open bucket correct. Pass `coin` ({ venue, symbol })
+ * to limit the work to one coin; `since = 0` rebuilds everything.
+ *
+ * Buckets starting before `rebuildFrom` are only created, never overwritten:
+ * pass the raw tier's retention cutoff when writing into the past, since an
+ * older bucket may hold rolled-up data whose raw rows are already pruned.
+ */
+export async function refreshCandles(pool, since, coin = null, { rebuildFrom = 0 } = {}) {
+  const params = [CANDLE_INTERVALS_MS, since];
+  let coinFilter = '';
+  if (coin) {
+    params.push(coin.venue, coin.symbol);
+    coinFilter = `AND m.venue = $${params.length - 1} AND m.symbol = $${params.length}`;
+  }
+  let keepOlder = '';
+  if (rebuildFrom > 0) {
+    params.push(rebuildFrom);
+    keepOlder = `WHERE market_candles.bucket >= $${params.length}`;
+  }
+  await pool.query(
+    `INSERT INTO market_candles(
+       venue, symbol, interval_ms, bucket,
+       price_open, price_high, price_low, price_close,
+       oi_open, oi_high, oi_low, oi_close,
+       funding_avg, funding_last, basis_avg, funding_interval_ms, samples)
+     SELECT m.venue, m.symbol, i.ms, (m.timestamp / i.ms) * i.ms AS bucket, ${CANDLE_AGGREGATES}
+     FROM market_data m
+     CROSS JOIN unnest($1::bigint[]) AS i(ms)
+     WHERE m.timestamp >= ($2::bigint / i.ms) * i.ms ${coinFilter}
+     GROUP BY m.venue, m.symbol, i.ms, bucket
+     ON CONFLICT (venue, symbol, interval_ms, bucket) DO UPDATE SET
+       price_open = EXCLUDED.price_open, price_high = EXCLUDED.price_high,
+       price_low = EXCLUDED.price_low, price_close = EXCLUDED.price_close,
+       oi_open = EXCLUDED.oi_open, oi_high = EXCLUDED.oi_high,
+       oi_low = EXCLUDED.oi_low, oi_close = EXCLUDED.oi_close,
+       funding_avg = EXCLUDED.funding_avg, funding_last = EXCLUDED.funding_last,
+       basis_avg = EXCLUDED.basis_avg, funding_interval_ms = EXCLUDED.funding_interval_ms,
+       samples = EXCLUDED.samples
+     ${keepOlder}`,
+    params
+  );
+}
+
+/**
+ * Candles for one coin with bucket start in [start, end), ascending, grouped
+ * straight from raw market_data rows. Works for any whole-minute interval.
+ */
+export async function queryCandlesFromRaw(pool, { venue, symbol, interval, start, end }) {
+  const { rows } = await pool.query(
+    `SELECT (timestamp / $3::bigint) * $3::bigint AS bucket, ${CANDLE_AGGREGATES}
+     FROM market_data
+     WHERE venue = $1 AND symbol = $2 AND timestamp >= $4 AND timestamp < $5
+     GROUP BY bucket
+     ORDER BY bucket ASC`,
+    [venue, symbol, interval, start, end]
+  );
+  return rows.map(toCandle);
+}
+
+/**
+ * Candles for one coin with bucket start in [start, end), ascending, read from
+ * the `tierInterval` rollup. When `interval` is a multiple of the rollup's
+ * interval the rollup buckets are merged into coarser ones; funding and
+ * basis averages are weighted by each bucket's sample count.
+ */
+export async function queryCandlesFromRollup(pool, { venue, symbol, tierInterval, interval, start, end }) {
+  if (interval === tierInterval) {
+    const { rows } = await pool.query(
+      `SELECT * FROM market_candles
+       WHERE venue = $1 AND symbol = $2 AND interval_ms = $3 AND bucket >= $4 AND bucket < $5
+       ORDER BY bucket ASC`,
+      [venue, symbol, tierInterval, start, end]
+    );
+    return rows.map(toCandle);
+  }
+  const { rows } = await pool.query(
+    `SELECT (bucket / $4::bigint) * $4::bigint AS bucket,
+       (array_agg(price_open ORDER BY bucket))[1]       AS price_open,
+       max(price_high)                                  AS price_high,
+       min(price_low)                                   AS price_low,
+       (array_agg(price_close ORDER BY bucket DESC))[1] AS price_close,
+       (array_agg(oi_open ORDER BY bucket))[1]          AS oi_open,
+       max(oi_high)                                     AS oi_high,
+       min(oi_low)                                      AS oi_low,
+       (array_agg(oi_close ORDER BY bucket DESC))[1]    AS oi_close,
+       sum(funding_avg * samples) / sum(samples)        AS funding_avg,
+       (array_agg(funding_last ORDER BY bucket DESC))[1] AS funding_last,
+       sum(basis_avg * samples) / nullif(sum(samples) FILTER (WHERE basis_avg IS NOT NULL), 0) AS basis_avg,
+       (array_agg(funding_interval_ms ORDER BY bucket DESC))[1] AS funding_interval_ms,
+       sum(samples)                                     AS samples
+     FROM market_candles
+     WHERE venue = $1 AND symbol = $2 AND interval_ms = $3 AND bucket >= $5 AND bucket < $6
+     GROUP BY 1
+     ORDER BY 1 ASC`,
+    [venue, symbol, tierInterval, interval, start, end]
+  );
+  return rows.map(toCandle);
+}
+
+/** Seeds the rollups from existing raw history the first time the table is created. */
+export async function seedCandlesIfEmpty(pool) {
+  const { rows } = await pool.query('SELECT EXISTS (SELECT 1 FROM market_candles) AS seeded');
+  if (!rows[0].seeded) await refreshCandles(pool, 0);
+}
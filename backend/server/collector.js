@@ -0,0 +1,335 @@
+// ── WebSocket collector ──────────────────────────────────────────────────────
+//
+// Long-running alternative to the once-a-minute REST cycle for Binance coins
+// (INGEST_MODE=collector). One WebSocket connection carries a
+// `<symbol>@markPrice@1s` stream per tracked coin; open interest, which has
+// no stream, is polled over REST every `oiIntervalMs`. Every `resolutionMs`
+// the latest tick and OI per coin are written as one point stamped with the
+// resolution boundary, so a 10s resolution gives 6 points per minute.
+//
+// Subscriptions follow the union of users' watchlists: it is re-read every
+// COIN_SYNC_INTERVAL_MS (coins can be added through the serverless API too)
+// and on sync() after local changes, and the diff is sent as
+// SUBSCRIBE/UNSUBSCRIBE requests on the open connection.
+//
+// Price here is the mark price from the stream, funding the predicted rate
+// carried on the same message, along with the index price and the next
+// settlement time. The stream has no interest rate, so it is left null.
+//
+// createLiquidationFeed() is the second, independent connection: the
+// all-market `!forceOrder@arr` stream, filtered to watched Binance coins and
+// written to `liquidations` (see liquidations.js). It runs in both ingest
+// modes, since REST has no liquidation feed to fall back on.
+
+import WebSocket from 'ws';
+import { getAdapter } from './exchanges.js';
+import { notifyNewPoints } from './stream.js';
+import { listWatchedCoins } from './accounts.js';
+import { fundingIntervalMs } from './funding.js';
+import { parseForceOrder, storeLiquidations } from './liquidations.js';
+import { recordIngestion } from './ingestion.js';
+import { log } from './log.js';
+import { ingestionCycles, ingestionDuration } from './metrics.js';
+
+const VENUE = 'binance';
+const DEFAULT_WS_URL = 'wss://fstream.binance.com/ws';
+const DEFAULT_LIQUIDATION_WS_URL = 'wss://fstream.binance.com/ws/!forceOrder@arr';
+
+const COIN_SYNC_INTERVAL_MS = 15 * 1000;
+const RECONNECT_BACKOFF_MS = [1_000, 5_000, 15_000, 30_000];
+// Binance caps incoming control messages per connection; keep requests small
+const SUBSCRIBE_BATCH = 50;
+// Liquidations are buffered and written in one INSERT this often
+const LIQUIDATION_FLUSH_INTERVAL_MS = 2 * 1000;
+// Most orders held while the database is unreachable; the oldest go first
+export const MAX_PENDING_LIQUIDATIONS = 10_000;
+
+const streamName = symbol => `${symbol.toLowerCase()}@markPrice@1s`;
+
+/**
+ * Creates a collector writing Binance points to `pool`. Nothing happens until
+ * start(); isLive() tells the REST cycle which coins it can skip.
+ */
+export function createCollector(pool, { resolutionMs, oiIntervalMs, wsUrl = DEFAULT_WS_URL }) {
+  const adapter = getAdapter(VENUE);
+  const wanted = new Set();       // symbols on any watchlist
+  const subscribed = new Set();   // symbols subscribed on the current connection
+  const ticks = new Map();        // SYMBOL → { price, indexPrice, fundingRate, nextFundingTime, at }
+  const openInterest = new Map(); // SYMBOL → { value, at }
+
+  let ws = null;
+  let requestId = 0;
+  let reconnectAttempt = 0;
+  let stopped = true;
+  let flushTimer = null;
+  let reconnectTimer = null;
+  const intervals = [];
+
+  function send(method, symbols) {
+    if (ws?.readyState !== WebSocket.OPEN) return;
+    for (let i = 0; i < symbols.length; i += SUBSCRIBE_BATCH) {
+      const batch = symbols.slice(i, i + SUBSCRIBE_BATCH);
+      ws.send(JSON.stringify({ method, params: batch.map(streamName), id: ++requestId }));
+      for (const s of batch) (method === 'SUBSCRIBE' ? subscribed.add(s) : subscribed.delete(s));
+    }
+  }
+
+  function reconcile() {
+    send('SUBSCRIBE', [...wanted].filter(s => !subscribed.has(s)));
+    send('UNSUBSCRIBE', [...subscribed].filter(s => !wanted.has(s)));
+  }
+
+  function handleMessage(raw) {
+    let msg;
+    try { msg = JSON.parse(raw); } catch { return; }
+    if (msg.error) {
+      log.error('collector request rejected', { id: msg.id, err: msg.error.msg ?? msg.error });
+      return;
+    }
+    if (msg.e !== 'markPriceUpdate' || !wanted.has(msg.s)) return;
+    ticks.set(msg.s, {
+      price: parseFloat(msg.p),
+      indexPrice: msg.i ? parseFloat(msg.i) : null,
+      fundingRate: parseFloat(msg.r) || 0,
+      nextFundingTime: msg.T || null,
+      at: msg.E ?? Date.now(),
+    });
+  }
+
+  function connect() {
+    if (stopped) return;
+    const socket = new WebSocket(wsUrl);
+    ws = socket;
+
+    socket.on('open', () => {
+      reconnectAttempt = 0;
+      subscribed.clear();
+      log.info('collector connected', { url: wsUrl });
+      reconcile();
+    });
+    socket.on('message', data => handleMessage(data.toString()));
+    socket.on('error', e => log.error('collector socket error', { err: e }));
+    socket.on('close', () => {
+      if (ws !== socket) return;
+      ws = null;
+      subscribed.clear();
+      if (stopped) return;
+      const delay = RECONNECT_BACKOFF_MS[Math.min(reconnectAttempt++, RECONNECT_BACKOFF_MS.length - 1)];
+      log.warn('collector disconnected', { reconnectInSeconds: delay / 1000 });
+      reconnectTimer = setTimeout(connect, delay);
+    });
+  }
+
+  async function pollOpenInterest(symbols = [...wanted]) {
+    const results = await Promise.allSettled(symbols.map(s => adapter.fetchOpenInterest(s)));
+    results.forEach((r, i) => {
+      if (r.status === 'fulfilled') openInterest.set(symbols[i], { value: r.value, at: Date.now() });
+      else log.error('collector OI fetch failed', { symbol: symbols[i], err: r.reason });
+    });
+  }
+
+  /** Re-reads the watched coins and (un)subscribes the difference. */
+  async function sync() {
+    const rows = await listWatchedCoins(pool);
+    const next = new Set(rows.filter(r => r.venue === VENUE).map(r => r.symbol.toUpperCase()));
+    const added = [...next].filter(s => !wanted.has(s));
+    for (const s of wanted) {
+      if (next.has(s)) continue;
+      wanted.delete(s);
+      ticks.delete(s);
+      openInterest.delete(s);
+    }
+    for (const s of added) wanted.add(s);
+    reconcile();
+    if (added.length > 0) await pollOpenInterest(added);
+  }
+
+  /** A coin is live when its stream ticked and its OI was read recently. */
+  function isLive(venue, symbol) {
+    if (venue !== VENUE || ws?.readyState !== WebSocket.OPEN) return false;
+    const now = Date.now();
+    const tick = ticks.get(symbol);
+    const oi = openInterest.get(symbol);
+    return !!tick && !!oi && now - tick.at < 3 * resolutionMs && now - oi.at < 3 * oiIntervalMs;
+  }
+
+  async function flush() {
+    const timestamp = Math.floor(Date.now() / resolutionMs) * resolutionMs;
+    const valueClauses = [];
+    const params = [];
+    const written = [];
+    let idx = 1;
+    for (const symbol of wanted) {
+      if (!isLive(VENUE, symbol)) continue;
+      written.push({ venue: VENUE, symbol });
+      const tick = ticks.get(symbol);
+      valueClauses.push(`(${Array.from({ length: 10 }, () => `$${idx++}`).join(',')})`);
+      params.push(
+        VENUE, symbol, timestamp, openInterest.get(symbol).value, tick.fundingRate, tick.price,
+        tick.price, tick.indexPrice, tick.nextFundingTime, await fundingIntervalMs(VENUE, symbol),
+      );
+    }
+    if (valueClauses.length === 0) return;
+    await pool.query(
+      `INSERT INTO market_data(venue, symbol, timestamp, open_interest, funding_rate, price,
+         mark_price, index_price, next_funding_time, funding_interval_ms)
+       VALUES ${valueClauses.join(',')}
+       ON CONFLICT (venue, symbol, timestamp) DO NOTHING`,
+      params
+    );
+    await notifyNewPoints(pool, timestamp);
+    await recordIngestion(pool, { succeeded: written });
+  }
+
+  function scheduleFlush() {
+    if (stopped) return;
+    // Fire just after each boundary so the point carries the freshest tick
+    const delay = resolutionMs - (Date.now() % resolutionMs) + 50;
+    flushTimer = setTimeout(async () => {
+      const endFlush = ingestionDuration.startTimer({ source: 'collector' });
+      try {
+        await flush();
+        ingestionCycles.inc({ source: 'collector', outcome: 'ok' });
+      } catch (e) {
+        ingestionCycles.inc({ source: 'collector', outcome: 'error' });
+        log.error('collector flush failed', { err: e });
+      }
+      endFlush();
+      scheduleFlush();
+    }, delay);
+  }
+
+  function guarded(fn, label) {
+    return () => fn().catch(e => log.error(`collector ${label} failed`, { err: e }));
+  }
+
+  return {
+    async start() {
+      stopped = false;
+      await sync();
+      connect();
+      intervals.push(setInterval(guarded(sync, 'coin sync'), COIN_SYNC_INTERVAL_MS));
+      intervals.push(setInterval(guarded(() => pollOpenInterest(), 'OI poll'), oiIntervalMs));
+      scheduleFlush();
+    },
+
+    stop() {
+      stopped = true;
+      intervals.splice(0).forEach(clearInterval);
+      clearTimeout(flushTimer);
+      clearTimeout(reconnectTimer);
+      ws?.close();
+      ws = null;
+    },
+
+    sync: guarded(sync, 'coin sync'),
+    isLive,
+  };
+}
+
+/**
+ * Creates the liquidation feed for `pool`. Nothing happens until start();
+ * `wsUrl` points it at a different server, e.g. a local stand-in that
+ * replays recorded `forceOrder` events.
+ */
+export function createLiquidationFeed(pool, { wsUrl = DEFAULT_LIQUIDATION_WS_URL } = {}) {
+  const wanted = new Set(); // symbols on any watchlist
+  let pending = [];         // parsed orders not yet written, oldest first
+  let dropped = 0;          // orders discarded to the cap since the last warning
+
+  let ws = null;
+  let reconnectAttempt = 0;
+  let stopped = true;
+  let reconnectTimer = null;
+  const intervals = [];
+
+  function trimPending() {
+    const excess = pending.length - MAX_PENDING_LIQUIDATIONS;
+    if (excess <= 0) return;
+    pending = pending.slice(excess);
+    dropped += excess;
+  }
+
+  function handleMessage(raw) {
+    let msg;
+    try { msg = JSON.parse(raw); } catch { return; }
+    // Combined-stream endpoints wrap each event as { stream, data }
+    const order = parseForceOrder(msg.data ?? msg);
+    if (!order || !wanted.has(order.symbol)) return;
+    pending.push(order);
+    trimPending();
+  }
+
+  function connect() {
+    if (stopped) return;
+    const socket = new WebSocket(wsUrl);
+    ws = socket;
+
+    socket.on('open', () => {
+      reconnectAttempt = 0;
+      log.info('liquidation feed connected', { url: wsUrl });
+    });
+    socket.on('message', data => handleMessage(data.toString()));
+    socket.on('error', e => log.error('liquidation feed socket error', { err: e }));
+    socket.on('close', () => {
+      if (ws !== socket) return;
+      ws = null;
+      if (stopped) return;
+      const delay = RECONNECT_BACKOFF_MS[Math.min(reconnectAttempt++, RECONNECT_BACKOFF_MS.length - 1)];
+      log.warn('liquidation feed disconnected', { reconnectInSeconds: delay / 1000 });
+      reconnectTimer = setTimeout(connect, delay);
+    });
+  }
+
+  /** Re-reads the watched coins; orders for anything else are dropped. */
+  async function sync() {
+    const rows = await listWatchedCoins(pool);
+    wanted.clear();
+    for (const r of rows) if (r.venue === VENUE) wanted.add(r.symbol.toUpperCase());
+  }
+
+  async function flush() {
+    if (pending.length === 0) return;
+    const orders = pending;
+    pending = [];
+    try {
+      await storeLiquidations(pool, VENUE, orders);
+    } catch (e) {
+      // Keep them for the next flush rather than lose a cascade to a DB blip,
+      // but only up to the cap — a long outage would otherwise grow it forever
+      pending = orders.concat(pending);
+      trimPending();
+      throw e;
+    } finally {
+      if (dropped > 0) {
+        log.warn('liquidation buffer full, dropped oldest orders', { dropped, kept: pending.length });
+        dropped = 0;
+      }
+    }
+  }
+
+  function guarded(fn, label) {
+    return () => fn().catch(e => log.error(`liquidation feed ${label} failed`, { err: e }));
+  }
+
+  return {
+    async start() {
+      stopped = false;
+      await sync();
+      connect();
+      intervals.push(setInterval(guarded(sync, 'coin sync'), COIN_SYNC_INTERVAL_MS));
+      intervals.push(setInterval(guarded(flush, 'flush'), LIQUIDATION_FLUSH_INTERVAL_MS));
+    },
+
+    async stop() {
+      stopped = true;
+      intervals.splice(0).forEach(clearInterval);
+      clearTimeout(reconnectTimer);
+      ws?.close();
+      ws = null;
+      await guarded(flush, 'flush')();
+    },
+
+    sync: guarded(sync, 'coin sync'),
+  };
+}
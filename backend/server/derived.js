@@ -0,0 +1,127 @@
+// ── Derived metrics ──────────────────────────────────────────────────────────
+//
+// Fields computed server-side from stored points, so the sidebar, the charts,
+// the snapshot table and the CSV export all show the same numbers:
+//
+//   openInterestUsd        – open interest × price, in the quote asset (USDT)
+//   fundingRateAnnualized  – funding rate × settlements per year
+//   fundingRate8h          – funding rate scaled to an 8h interval, so coins
+//                            settling every 4h or 1h compare like for like
+//   basis                  – (mark − index) / index, null without both prices
+//   oiChange               – { '1h' | '4h' | '24h': { abs, pct } | null }, open
+//                            interest against its value one window earlier
+//
+// Funding is scaled by the interval stored with the point (funding.js), or
+// DEFAULT_FUNDING_INTERVAL_MS for points stored before intervals were.
+//
+// The earlier open interest is the newest raw row at most RAW_TOLERANCE_MS
+// before the target time, else the close of the finest rollup bucket that
+// ended right before it — so changes stay available once raw rows are pruned.
+// A whole batch of points is resolved in one query.
+
+import { CANDLE_INTERVALS_MS } from './candles.js';
+import { DEFAULT_FUNDING_INTERVAL_MS } from './funding.js';
+
+const HOUR = 60 * 60 * 1000;
+
+export const OI_CHANGE_WINDOWS = { '1h': HOUR, '4h': 4 * HOUR, '24h': 24 * HOUR };
+
+const YEAR = 365 * 24 * HOUR;
+
+// A gap in raw rows longer than this falls through to the rollups
+const RAW_TOLERANCE_MS = 10 * 60 * 1000;
+
+const coinKey = (venue, symbol, ts) => `${venue}:${symbol}:${ts}`;
+
+/** Map of `venue:symbol:ts` → open interest at (or just before) ts. */
+async function openInterestAt(pool, targets) {
+  const unique = [...new Map(targets.map(t => [coinKey(t.venue, t.symbol, t.ts), t])).values()];
+  if (unique.length === 0) return new Map();
+  const { rows } = await pool.query(
+    `SELECT t.venue, t.symbol, t.ts, coalesce(
+       (SELECT m.open_interest FROM market_data m
+        WHERE m.venue = t.venue AND m.symbol = t.symbol
+          AND m.timestamp <= t.ts AND m.timestamp > t.ts - $4
+        ORDER BY m.timestamp DESC LIMIT 1),
+       (SELECT c.oi_close
+        FROM unnest($5::bigint[]) WITH ORDINALITY AS i(ms, n)
+        JOIN market_candles c
+          ON c.venue = t.venue AND c.symbol = t.symbol
+         AND c.interval_ms = i.ms AND c.bucket = (t.ts / i.ms) * i.ms - i.ms
+        ORDER BY i.n LIMIT 1)
+     ) AS open_interest
+     FROM unnest($1::text[], $2::text[], $3::bigint[]) AS t(venue, symbol, ts)`,
+    [
+      unique.map(t => t.venue), unique.map(t => t.symbol), unique.map(t => t.ts),
+      RAW_TOLERANCE_MS, CANDLE_INTERVALS_MS,
+    ]
+  );
+  return new Map(rows
+    .filter(r => r.open_interest != null)
+    .map(r => [coinKey(r.venue, r.symbol, Number(r.ts)), parseFloat(r.open_interest)]));
+}
+
+/** Funding annualized and scaled to 8h, from the interval it settled at. */
+export function scaledFunding(fundingRate, fundingIntervalMs) {
+  const intervalMs = fundingIntervalMs ?? DEFAULT_FUNDING_INTERVAL_MS;
+  return {
+    fundingRateAnnualized: fundingRate * (YEAR / intervalMs),
+    fundingRate8h: fundingRate * (8 * HOUR / intervalMs),
+  };
+}
+
+/**
+ * Returns copies of `points` with the derived fields added. Points carry
+ * their own `venue`/`symbol` (latest-batch, stream) or all belong to `coin`.
+ */
+export async function withDerived(pool, points, coin = null) {
+  const coinOf = p => coin ?? { venue: p.venue, symbol: p.symbol };
+  const targets = points.flatMap(p => Object.values(OI_CHANGE_WINDOWS).map(ms => ({
+    ...coinOf(p), ts: p.timestamp - ms,
+  })));
+  const earlier = await openInterestAt(pool, targets);
+
+  return points.map(p => {
+    const { venue, symbol } = coinOf(p);
+    const oiChange = {};
+    for (const [name, ms] of Object.entries(OI_CHANGE_WINDOWS)) {
+      const before = earlier.get(coinKey(venue, symbol, p.timestamp - ms));
+      oiChange[name] = before == null ? null : {
+        abs: p.openInterest - before,
+        pct: before === 0 ? null : ((p.openInterest - before) / before) * 100,
+      };
+    }
+    return {
+      ...p,
+      openInterestUsd: p.openInterest * p.price,
+      ...scaledFunding(p.fundingRate, p.fundingIntervalMs),
+      // Rollup points carry the bucket's average basis instead of both prices
+      basis: p.markPrice != null && p.indexPrice ? (p.markPrice - p.indexPrice) / p.indexPrice : p.basis ?? null,
+      oiChange,
+    };
+  });
+}
+
+/**
+ * Candles with the derived fields taken at each bucket's close: notional and
+ * OI change from the closing open interest and price, annualized and 8h
+ * funding from the bucket's average rate. `basis` stays the bucket average.
+ */
+export async function candlesWithDerived(pool, candles, coin, interval) {
+  const now = Date.now();
+  const closes = candles.map(c => ({
+    timestamp: Math.min(c.timestamp + interval, now),
+    openInterest: c.openInterest.close,
+    price: c.price.close,
+    fundingRate: c.fundingRate.avg,
+    fundingIntervalMs: c.fundingIntervalMs,
+  }));
+  const derived = await withDerived(pool, closes, coin);
+  return candles.map((c, i) => ({
+    ...c,
+    openInterestUsd: derived[i].openInterestUsd,
+    fundingRateAnnualized: derived[i].fundingRateAnnualized,
+    fundingRate8h: derived[i].fundingRate8h,
+    oiChange: derived[i].oiChange,
+  }));
+}
@@ -0,0 +1,141 @@
+// ── Funding ──────────────────────────────────────────────────────────────────
+//
+// Everything about funding beyond the predicted rate on each point:
+//
+//   • premium-index fields stored alongside every point — mark and index
+//     price, the next settlement time and the interest rate — read back
+//     through fundingFields()
+//   • per-symbol funding intervals (adapter.fetchFundingIntervals), cached
+//     in memory for INTERVAL_CACHE_TTL_MS and stamped on each stored point so
+//     history keeps the interval that applied at the time
+//   • settled funding events in `funding_settlements`, pulled from the
+//     adapter's settlement history by syncSettlements()
+
+import { getAdapter } from './exchanges.js';
+import { log } from './log.js';
+
+const HOUR = 60 * 60 * 1000;
+
+/** What a symbol settles at when the venue doesn't list it otherwise. */
+export const DEFAULT_FUNDING_INTERVAL_MS = 8 * HOUR;
+
+const INTERVAL_CACHE_TTL_MS = HOUR;
+
+// A coin's first sync reaches this far back; later ones resume from the newest stored
+const SETTLEMENT_LOOKBACK_MS = 30 * 24 * HOUR;
+
+/** Columns fundingFields() reads, for SELECT lists over market_data. */
+export const FUNDING_COLUMNS = 'mark_price, index_price, next_funding_time, interest_rate, funding_interval_ms';
+
+const numberOrNull = v => (v == null ? null : parseFloat(v));
+
+/** Premium-index fields of a market_data row; null where the row predates them. */
+export function fundingFields(r) {
+  return {
+    markPrice: numberOrNull(r.mark_price),
+    indexPrice: numberOrNull(r.index_price),
+    nextFundingTime: r.next_funding_time == null ? null : Number(r.next_funding_time),
+    interestRate: numberOrNull(r.interest_rate),
+    fundingIntervalMs: r.funding_interval_ms == null ? null : Number(r.funding_interval_ms),
+  };
+}
+
+const intervalCache = new Map(); // venue → { intervals, fetchedAt, pending }
+
+async function getFundingIntervals(adapter) {
+  const entry = intervalCache.get(adapter.id) ?? { intervals: null, fetchedAt: 0, pending: null };
+  intervalCache.set(adapter.id, entry);
+  if (entry.intervals && Date.now() - entry.fetchedAt < INTERVAL_CACHE_TTL_MS) return entry.intervals;
+
+  entry.pending ??= adapter.fetchFundingIntervals()
+    .then(intervals => {
+      entry.intervals = intervals;
+      entry.fetchedAt = Date.now();
+      return intervals;
+    })
+    .catch(err => {
+      if (!entry.intervals) throw err;
+      log.error('funding interval refresh failed, serving cached list', { venue: adapter.id, err });
+      return entry.intervals;
+    })
+    .finally(() => { entry.pending = null; });
+  return entry.pending;
+}
+
+/**
+ * Funding interval of `symbol` on `venue` in ms, or null when it can't be
+ * known (venue without interval data, or the first lookup failed).
+ */
+export async function fundingIntervalMs(venue, symbol) {
+  const adapter = getAdapter(venue);
+  if (!adapter?.fetchFundingIntervals) return null;
+  try {
+    const intervals = await getFundingIntervals(adapter);
+    return intervals.get(symbol.toUpperCase()) ?? DEFAULT_FUNDING_INTERVAL_MS;
+  } catch (err) {
+    log.error('funding intervals unavailable', { venue, err });
+    return null;
+  }
+}
+
+/**
+ * Stores settlements newer than the latest one held for each coin (or the
+ * last SETTLEMENT_LOOKBACK_MS for a coin with none), paging through the
+ * adapter's history. Coins are synced one at a time and a failing coin is
+ * logged and skipped. Returns the number of settlements stored.
+ */
+export async function syncSettlements(pool, coins) {
+  let stored = 0;
+  for (const { venue, symbol } of coins) {
+    const adapter = getAdapter(venue);
+    if (!adapter?.fetchFundingSettlements) continue;
+    try {
+      const { rows } = await pool.query(
+        'SELECT max(funding_time) AS last FROM funding_settlements WHERE venue = $1 AND symbol = $2',
+        [venue, symbol]
+      );
+      const now = Date.now();
+      let from = rows[0].last != null ? Number(rows[0].last) + 1 : now - SETTLEMENT_LOOKBACK_MS;
+      while (from <= now) {
+        const page = await adapter.fetchFundingSettlements(symbol, from, now);
+        if (page.length === 0) break;
+        const { rowCount } = await pool.query(
+          `INSERT INTO funding_settlements(venue, symbol, funding_time, funding_rate, mark_price)
+           SELECT $1, $2, t.funding_time, t.funding_rate, t.mark_price
+           FROM unnest($3::bigint[], $4::numeric[], $5::numeric[]) AS t(funding_time, funding_rate, mark_price)
+           ON CONFLICT (venue, symbol, funding_time) DO NOTHING`,
+          [venue, symbol, page.map(s => s.time), page.map(s => s.rate), page.map(s => s.markPrice)]
+        );
+        stored += rowCount ?? 0;
+        from = page[page.length - 1].time + 1;
+      }
+    } catch (err) {
+      log.error('settlement sync failed', { venue, symbol, err });
+    }
+  }
+  return stored;
+}
+
+/**
+ * Settlements for one coin in [start, end], ascending, each with the
+ * interval since the previous settlement (null for the first one held).
+ */
+export async function readSettlements(pool, { venue, symbol, start, end }) {
+  const { rows } = await pool.query(
+    `SELECT * FROM (
+       SELECT funding_time, funding_rate, mark_price,
+         funding_time - lag(funding_time) OVER (ORDER BY funding_time) AS interval_ms
+       FROM funding_settlements
+       WHERE venue = $1 AND symbol = $2 AND funding_time <= $4
+     ) s
+     WHERE funding_time >= $3
+     ORDER BY funding_time ASC`,
+    [venue, symbol, start, end]
+  );
+  return rows.map(r => ({
+    fundingTime: Number(r.funding_time),
+    fundingRate: parseFloat(r.funding_rate),
+    markPrice: numberOrNull(r.mark_price),
+    intervalMs: r.interval_ms == null ? null : Number(r.interval_ms),
+  }));
+}
@@ -0,0 +1,224 @@
+// ── Coin groups ──────────────────────────────────────────────────────────────
+//
+// Each user's sidebar: named, coloured groups of watchlist coins, their order
+// and collapsed state. A coin sits in at most one group per user —
+// group_members is keyed on (user_id, venue, symbol) — so putting a coin in a
+// group takes it out of the one it was in, and a drag between groups is a
+// single PATCH of the target. Watchlist coins in no group land in the
+// default group (DEFAULT_GROUP_ID), which always exists and can't be deleted.
+//
+// Every group carries a `version` bumped on each change to its name, colour,
+// order or members. Clients send the version they last saw with a PATCH and
+// get a 409 when another tab got there first. Collapsing doesn't bump it.
+// Mutations answer with the user's full group list so the client can adopt
+// the server's copy of every group a change touched.
+
+import { parseVenue } from './exchanges.js';
+
+export const DEFAULT_GROUP_ID = '__default__';
+const DEFAULT_GROUP = { name: 'All Coins', color: '#3b82f6' };
+
+const GROUP_ID_RE = /^[\w-]{1,64}$/;
+const COLOR_RE = /^#[0-9a-f]{6}$/i;
+
+/** `BTCUSDT` or `bybit:ETHUSDT` → { venue, symbol }, or null */
+function parseMember(entry) {
+  if (typeof entry !== 'string') return null;
+  const sep = entry.indexOf(':');
+  const venue = parseVenue(sep === -1 ? undefined : entry.slice(0, sep));
+  const symbol = entry.slice(sep + 1).trim().toUpperCase();
+  return venue && symbol ? { venue, symbol } : null;
+}
+
+/**
+ * Checks a create (`partial = false`) or patch body. Returns `{ group }` with
+ * only the fields present, or `{ error }` for a 400.
+ */
+export function validateGroup(body, { partial }) {
+  const group = {};
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'name is required' };
+    group.name = body.name.trim().slice(0, 100);
+  }
+  if (!partial || body.color !== undefined) {
+    if (typeof body.color !== 'string' || !COLOR_RE.test(body.color)) return { error: 'color must be #rrggbb' };
+    group.color = body.color;
+  }
+  if (body.coinSymbols !== undefined) {
+    if (!Array.isArray(body.coinSymbols)) return { error: 'coinSymbols must be an array' };
+    const members = body.coinSymbols.map(parseMember);
+    if (members.includes(null)) return { error: 'coinSymbols contains an unknown venue or empty symbol' };
+    const seen = new Set();
+    group.members = members.filter(m => !seen.has(`${m.venue}:${m.symbol}`) && seen.add(`${m.venue}:${m.symbol}`));
+  }
+  if (body.order !== undefined) {
+    if (!Number.isInteger(body.order)) return { error: 'order must be an integer' };
+    group.order = body.order;
+  }
+  if (body.collapsed !== undefined) {
+    if (typeof body.collapsed !== 'boolean') return { error: 'collapsed must be a boolean' };
+    group.collapsed = body.collapsed;
+  }
+  if (!partial && body.id !== undefined) {
+    if (typeof body.id !== 'string' || !GROUP_ID_RE.test(body.id)) return { error: 'id must be 1-64 letters, digits, "_" or "-"' };
+    group.id = body.id;
+  }
+  if (partial && body.version !== undefined) {
+    if (!Number.isInteger(body.version)) return { error: 'version must be an integer' };
+    group.version = body.version;
+  }
+  return { group };
+}
+
+/**
+ * The user's groups ordered by `order`, members in sidebar order as coin
+ * keys (`venue:SYMBOL`). Creates the default group on first use and files
+ * any ungrouped watchlist coins into it.
+ */
+export async function listGroups(db, userId) {
+  await db.query(
+    `INSERT INTO groups(user_id, id, name, color, position) VALUES($1,$2,$3,$4,0)
+     ON CONFLICT DO NOTHING`,
+    [userId, DEFAULT_GROUP_ID, DEFAULT_GROUP.name, DEFAULT_GROUP.color]
+  );
+  await db.query(
+    `INSERT INTO group_members(user_id, group_id, venue, symbol, position)
+     SELECT w.user_id, $2, w.venue, w.symbol,
+            (SELECT coalesce(max(position), -1) FROM group_members WHERE user_id = $1 AND group_id = $2)
+              + row_number() OVER (ORDER BY w.added_at)
+     FROM watchlist_items w
+     WHERE w.user_id = $1
+       AND NOT EXISTS (SELECT 1 FROM group_members m
+                       WHERE m.user_id = w.user_id AND m.venue = w.venue AND m.symbol = w.symbol)
+     ON CONFLICT DO NOTHING`,
+    [userId, DEFAULT_GROUP_ID]
+  );
+  const { rows } = await db.query(
+    `SELECT g.id, g.name, g.color, g.position, g.collapsed, g.version,
+            coalesce(array_agg(m.venue || ':' || m.symbol ORDER BY m.position)
+                     FILTER (WHERE m.symbol IS NOT NULL), '{}') AS members
+     FROM groups g
+     LEFT JOIN group_members m ON m.user_id = g.user_id AND m.group_id = g.id
+     WHERE g.user_id = $1
+     GROUP BY g.user_id, g.id
+     ORDER BY g.position, g.created_at`,
+    [userId]
+  );
+  return rows.map(r => ({
+    id: r.id,
+    name: r.name,
+    color: r.color,
+    coinSymbols: r.members,
+    order: r.position,
+    collapsed: r.collapsed,
+    version: r.version,
+  }));
+}
+
+/**
+ * Makes `members` the group's coins, in order. Coins already in another
+ * group move here (bumping that group's version); coins dropped from this
+ * group fall back to the default group on the next listing.
+ */
+async function setMembers(client, userId, groupId, members) {
+  await client.query(
+    `UPDATE groups SET version = version + 1, updated_at = now()
+     WHERE user_id = $1 AND id <> $2 AND id IN (
+       SELECT m.group_id FROM group_members m
+       JOIN unnest($3::text[], $4::text[]) AS c(venue, symbol) ON m.venue = c.venue AND m.symbol = c.symbol
+       WHERE m.user_id = $1
+     )`,
+    [userId, groupId, members.map(m => m.venue), members.map(m => m.symbol)]
+  );
+  await client.query(
+    `DELETE FROM group_members m
+     WHERE m.user_id = $1 AND m.group_id = $2
+       AND NOT EXISTS (SELECT 1 FROM unnest($3::text[], $4::text[]) AS c(venue, symbol)
+                       WHERE c.venue = m.venue AND c.symbol = m.symbol)`,
+    [userId, groupId, members.map(m => m.venue), members.map(m => m.symbol)]
+  );
+  if (members.length === 0) return;
+  await client.query(
+    `INSERT INTO group_members(user_id, group_id, venue, symbol, position)
+     SELECT $1, $2, c.venue, c.symbol, c.ord - 1
+     FROM unnest($3::text[], $4::text[]) WITH ORDINALITY AS c(venue, symbol, ord)
+     ON CONFLICT (user_id, venue, symbol) DO UPDATE SET group_id = EXCLUDED.group_id, position = EXCLUDED.position`,
+    [userId, groupId, members.map(m => m.venue), members.map(m => m.symbol)]
+  );
+}
+
+async function inTransaction(pool, fn) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query(result.error ? 'ROLLBACK' : 'COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    // A member that isn't on the user's watchlist trips the foreign key
+    if (err.code === '23503') return { status: 400, error: 'coinSymbols must all be on your watchlist' };
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** Resolves to `{ groups }`, or `{ status, error }` for a 400/409. */
+export async function createGroup(pool, userId, group) {
+  return inTransaction(pool, async client => {
+    const id = group.id ?? `group_${Date.now()}`;
+    const { rows } = await client.query(
+      `INSERT INTO groups(user_id, id, name, color, position, collapsed)
+       VALUES($1, $2, $3, $4,
+              coalesce($5, (SELECT coalesce(max(position), 0) + 1 FROM groups WHERE user_id = $1)),
+              coalesce($6, false))
+       ON CONFLICT DO NOTHING RETURNING id`,
+      [userId, id, group.name, group.color, group.order ?? null, group.collapsed ?? null]
+    );
+    if (rows.length === 0) return { status: 409, error: `group "${id}" already exists` };
+    if (group.members) await setMembers(client, userId, id, group.members);
+    return { groups: await listGroups(client, userId) };
+  });
+}
+
+/**
+ * Applies a validated patch. With `version` set, answers 409 (plus the
+ * current groups) unless it matches the stored version.
+ */
+export async function updateGroup(pool, userId, id, patch) {
+  return inTransaction(pool, async client => {
+    const { rows } = await client.query(
+      'SELECT version FROM groups WHERE user_id = $1 AND id = $2 FOR UPDATE',
+      [userId, id]
+    );
+    if (rows.length === 0) return { status: 404, error: 'group not found' };
+    if (patch.version !== undefined && patch.version !== rows[0].version) {
+      return { status: 409, error: 'group was changed elsewhere', groups: await listGroups(client, userId) };
+    }
+
+    const content = patch.name !== undefined || patch.color !== undefined
+      || patch.order !== undefined || patch.members !== undefined;
+    await client.query(
+      `UPDATE groups SET
+         name = coalesce($3, name),
+         color = coalesce($4, color),
+         position = coalesce($5, position),
+         collapsed = coalesce($6, collapsed),
+         version = version + $7,
+         updated_at = now()
+       WHERE user_id = $1 AND id = $2`,
+      [userId, id, patch.name ?? null, patch.color ?? null, patch.order ?? null, patch.collapsed ?? null, content ? 1 : 0]
+    );
+    if (patch.members) await setMembers(client, userId, id, patch.members);
+    return { groups: await listGroups(client, userId) };
+  });
+}
+
+/** Deletes a group; its coins return to the default group. */
+export async function deleteGroup(pool, userId, id) {
+  if (id === DEFAULT_GROUP_ID) return { status: 400, error: 'the default group cannot be deleted' };
+  const { rowCount } = await pool.query('DELETE FROM groups WHERE user_id = $1 AND id = $2', [userId, id]);
+  if (rowCount === 0) return { status: 404, error: 'group not found' };
+  return { groups: await listGroups(pool, userId) };
+}
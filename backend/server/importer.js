@@ -0,0 +1,355 @@
+// ── Bulk import ──────────────────────────────────────────────────────────────
+//
+// Loads historical market data collected elsewhere from one upload, as CSV
+// (header row first) or NDJSON (one object per line). Columns are the ones
+// /api/export writes — venue, symbol, timestamp, price, openInterest,
+// fundingRate and the optional premium-index fields — so an export can be
+// imported again as-is; snake_case names (open_interest) work too and
+// unknown columns are ignored.
+//
+// Every row is checked on its own: types, plausible ranges, and that the coin
+// is tracked (market_data references coins). Rows that pass are inserted
+// IMPORT_BATCH_SIZE at a time, each batch in its own transaction, with
+// ON CONFLICT DO NOTHING — re-importing a file is a no-op. The report counts
+// inserted, skipped (already stored) and rejected rows and lists why each
+// rejected row failed, by line number.
+//
+// Imported rows are rolled up like freshly ingested ones, except that rollup
+// buckets older than the raw tier's retention are only filled in where none
+// exists: their raw rows may be pruned already, so rebuilding them from the
+// imported rows alone would throw away history.
+
+import { refreshCandles } from './candles.js';
+import { parseVenue } from './exchanges.js';
+import { log } from './log.js';
+import { rawCutoff } from './retention.js';
+
+/** Largest upload body accepted (an express/body-parser size string). */
+export const IMPORT_MAX_BYTES = '25mb';
+
+const IMPORT_BATCH_SIZE = 1000;
+const MAX_REPORTED_ERRORS = 1000;
+
+export const IMPORT_CONTENT_TYPES = {
+  csv: ['text/csv'],
+  ndjson: ['application/x-ndjson', 'application/ndjson', 'application/jsonl'],
+};
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Nothing we track predates 2017; later than a few minutes ahead is a clock
+// or unit mistake
+const MIN_TIMESTAMP = Date.UTC(2017, 0, 1);
+const MAX_FUTURE_MS = 5 * MINUTE;
+
+// Far beyond any venue's funding cap, but catches percent-vs-fraction mixups
+const MAX_ABS_RATE = 0.1;
+
+const FIELDS = [
+  'venue', 'symbol', 'timestamp', 'price', 'openInterest', 'fundingRate',
+  'markPrice', 'indexPrice', 'nextFundingTime', 'interestRate', 'fundingIntervalMs',
+];
+const REQUIRED_FIELDS = ['symbol', 'timestamp', 'price', 'openInterest', 'fundingRate'];
+
+// open_interest, OpenInterest, openInterest → openInterest
+const normalizeName = name => name.trim().replace(/_/g, '').toLowerCase();
+const FIELD_BY_NAME = new Map(FIELDS.map(f => [normalizeName(f), f]));
+
+/**
+ * Format of an upload: `requested` (the `format` query param) when given,
+ * otherwise from its Content-Type. Returns 'csv', 'ndjson' or null.
+ */
+export function importFormat(requested, contentType) {
+  if (requested != null) return IMPORT_CONTENT_TYPES[requested] ? requested : null;
+  const type = String(contentType ?? '').split(';')[0].trim().toLowerCase();
+  return Object.keys(IMPORT_CONTENT_TYPES).find(f => IMPORT_CONTENT_TYPES[f].includes(type)) ?? null;
+}
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+/** CSV records as { line, fields }; quoted fields may hold commas, quotes and newlines. */
+function* csvRecords(text) {
+  let record = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      yield { line: start, fields: record };
+      record = [];
+      field = '';
+      start = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    yield { line: start, fields: record };
+  }
+}
+
+const isBlank = fields => fields.length === 1 && fields[0].trim() === '';
+
+/**
+ * Upload → { rows: [{ line, values }] } keyed by canonical field name, or
+ * { error } when the upload as a whole can't be read (no CSV header, a
+ * required column missing).
+ */
+function parseUpload(text, format) {
+  const rows = [];
+  if (format === 'ndjson') {
+    text.split('\n').forEach((raw, i) => {
+      if (raw.trim() === '') return;
+      let parsed;
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        rows.push({ line: i + 1, error: 'invalid JSON' });
+        return;
+      }
+      if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        rows.push({ line: i + 1, error: 'expected a JSON object' });
+        return;
+      }
+      const values = {};
+      for (const [key, value] of Object.entries(parsed)) {
+        const field = FIELD_BY_NAME.get(normalizeName(key));
+        if (field) values[field] = value;
+      }
+      rows.push({ line: i + 1, values });
+    });
+    return { rows };
+  }
+
+  const records = csvRecords(text.replace(/^\uFEFF/, ''));
+  let header = null;
+  for (const record of records) {
+    if (isBlank(record.fields)) continue;
+    if (!header) {
+      header = record.fields.map(name => FIELD_BY_NAME.get(normalizeName(name)) ?? null);
+      const missing = REQUIRED_FIELDS.filter(f => !header.includes(f));
+      if (missing.length > 0) return { error: `CSV header is missing ${missing.join(', ')}` };
+      continue;
+    }
+    if (record.fields.length !== header.length) {
+      rows.push({ line: record.line, error: `expected ${header.length} fields, got ${record.fields.length}` });
+      continue;
+    }
+    const values = {};
+    header.forEach((field, i) => {
+      if (field && record.fields[i] !== '') values[field] = record.fields[i];
+    });
+    rows.push({ line: record.line, values });
+  }
+  if (!header) return { error: 'upload is empty' };
+  return { rows };
+}
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+const NUMERIC_RE = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/** A number from a JSON number or numeric string; null when absent, NaN when not numeric. */
+function toNumber(v) {
+  if (v == null || v === '') return null;
+  if (typeof v === 'number') return v;
+  if (typeof v === 'string' && NUMERIC_RE.test(v.trim())) return Number(v);
+  return NaN;
+}
+
+/** Epoch ms from a number or an ISO-8601 string; null when absent, NaN when unreadable. */
+function toTimestamp(v) {
+  const n = toNumber(v);
+  if (!Number.isNaN(n)) return n;
+  return typeof v === 'string' ? Date.parse(v) : NaN;
+}
+
+function checkTimestamp(name, ts, now) {
+  if (Number.isNaN(ts) || !Number.isInteger(ts)) return `${name} must be epoch milliseconds or an ISO-8601 date`;
+  if (ts < MIN_TIMESTAMP) {
+    return ts > MIN_TIMESTAMP / 1000 ? `${name} looks like seconds — expected milliseconds` : `${name} is before 2017`;
+  }
+  if (name === 'timestamp' && ts > now + MAX_FUTURE_MS) return 'timestamp is in the future';
+  return null;
+}
+
+/**
+ * One row's values → { point } ready to insert, or { error }. `tracked` is
+ * the set of `venue:SYMBOL` keys in the coins table.
+ */
+function validateRow(values, { defaultVenue, tracked, now }) {
+  const venue = values.venue == null ? defaultVenue : parseVenue(values.venue);
+  if (!venue) return { error: `unknown venue "${values.venue}"` };
+  if (typeof values.symbol !== 'string' || !/^[A-Za-z0-9_-]{1,40}$/.test(values.symbol.trim())) {
+    return { error: 'symbol is missing or malformed' };
+  }
+  const symbol = values.symbol.trim().toUpperCase();
+  if (!tracked.has(`${venue}:${symbol}`)) return { error: `${symbol} on ${venue} is not tracked — add the coin first` };
+
+  const timestamp = toTimestamp(values.timestamp);
+  if (timestamp == null) return { error: 'timestamp is required' };
+  const tsError = checkTimestamp('timestamp', timestamp, now);
+  if (tsError) return { error: tsError };
+
+  const n = {};
+  for (const field of ['price', 'openInterest', 'fundingRate', 'markPrice', 'indexPrice', 'interestRate', 'fundingIntervalMs']) {
+    n[field] = toNumber(values[field]);
+    if (Number.isNaN(n[field]) || (n[field] != null && !Number.isFinite(n[field]))) {
+      return { error: `${field} must be a number` };
+    }
+  }
+  for (const field of ['price', 'openInterest', 'fundingRate']) {
+    if (n[field] == null) return { error: `${field} is required` };
+  }
+  if (n.price <= 0) return { error: 'price must be positive' };
+  if (n.openInterest < 0) return { error: 'openInterest must not be negative' };
+  if (Math.abs(n.fundingRate) > MAX_ABS_RATE) return { error: `fundingRate must be within ±${MAX_ABS_RATE} (a fraction, not percent)` };
+  if (n.markPrice != null && n.markPrice <= 0) return { error: 'markPrice must be positive' };
+  if (n.indexPrice != null && n.indexPrice <= 0) return { error: 'indexPrice must be positive' };
+  if (n.interestRate != null && Math.abs(n.interestRate) > MAX_ABS_RATE) {
+    return { error: `interestRate must be within ±${MAX_ABS_RATE}` };
+  }
+  if (n.fundingIntervalMs != null
+    && (n.fundingIntervalMs <= 0 || n.fundingIntervalMs % MINUTE !== 0 || n.fundingIntervalMs > DAY)) {
+    return { error: 'fundingIntervalMs must be a whole number of minutes in ms, at most a day' };
+  }
+
+  const nextFundingTime = toTimestamp(values.nextFundingTime);
+  if (nextFundingTime != null) {
+    const nftError = checkTimestamp('nextFundingTime', nextFundingTime, now);
+    if (nftError) return { error: nftError };
+  }
+
+  return { point: { venue, symbol, timestamp, ...n, nextFundingTime } };
+}
+
+// ── Import ───────────────────────────────────────────────────────────────────
+
+async function insertBatch(client, points) {
+  const valueClauses = [];
+  const params = [];
+  let idx = 1;
+  for (const p of points) {
+    valueClauses.push(`(${Array.from({ length: 11 }, () => `$${idx++}`).join(',')})`);
+    params.push(
+      p.venue, p.symbol, p.timestamp, p.openInterest, p.fundingRate, p.price,
+      p.markPrice, p.indexPrice, p.nextFundingTime, p.interestRate, p.fundingIntervalMs,
+    );
+  }
+  await client.query('BEGIN');
+  try {
+    const { rowCount } = await client.query(
+      `INSERT INTO market_data(venue, symbol, timestamp, open_interest, funding_rate, price,
+         mark_price, index_price, next_funding_time, interest_rate, funding_interval_ms)
+       VALUES ${valueClauses.join(',')}
+       ON CONFLICT (venue, symbol, timestamp) DO NOTHING`,
+      params
+    );
+    await client.query('COMMIT');
+    return rowCount ?? 0;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Imports `text` (see importFormat for `format`). Rows without a venue use
+ * `defaultVenue`; `tiers` (parsed RETENTION_TIERS) bounds which rollup
+ * buckets are rebuilt. Returns { status: 400, error } when the upload can't be
+ * read at all; otherwise the report:
+ *
+ *   { rows, inserted, skipped, rejected, errors: [{ line, error }], errorsTruncated }
+ *
+ * `errors` lists the first MAX_REPORTED_ERRORS rejected rows. A batch the
+ * database refuses (say, its coin was removed mid-import) is rolled back and
+ * its rows reported as rejected; earlier batches stay committed.
+ */
+export async function importMarketData(pool, text, { format, defaultVenue, tiers }) {
+  const parsed = parseUpload(text, format);
+  if (parsed.error) return { status: 400, error: parsed.error };
+
+  const { rows: coins } = await pool.query('SELECT venue, symbol FROM coins');
+  const tracked = new Set(coins.map(c => `${c.venue}:${c.symbol}`));
+  const now = Date.now();
+
+  const errors = [];
+  let rejected = 0;
+  const reject = (line, error) => {
+    rejected++;
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push({ line, error });
+  };
+
+  const valid = [];
+  for (const row of parsed.rows) {
+    if (row.error) {
+      reject(row.line, row.error);
+      continue;
+    }
+    const result = validateRow(row.values, { defaultVenue, tracked, now });
+    if (result.error) reject(row.line, result.error);
+    else valid.push({ line: row.line, point: result.point });
+  }
+
+  let inserted = 0;
+  let stored = 0;
+  const earliest = new Map(); // venue:SYMBOL → { venue, symbol, since } for the candle refresh
+  if (valid.length > 0) {
+    const client = await pool.connect();
+    try {
+      for (let i = 0; i < valid.length; i += IMPORT_BATCH_SIZE) {
+        const batch = valid.slice(i, i + IMPORT_BATCH_SIZE);
+        try {
+          inserted += await insertBatch(client, batch.map(r => r.point));
+        } catch (err) {
+          log.error('bulk import batch failed', { firstLine: batch[0].line, rows: batch.length, err });
+          for (const r of batch) reject(r.line, `not stored: ${err.message}`);
+          continue;
+        }
+        stored += batch.length;
+        for (const { point: p } of batch) {
+          const key = `${p.venue}:${p.symbol}`;
+          const seen = earliest.get(key);
+          if (!seen || p.timestamp < seen.since) earliest.set(key, { venue: p.venue, symbol: p.symbol, since: p.timestamp });
+        }
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  const rebuildFrom = rawCutoff(tiers, now);
+  for (const { venue, symbol, since } of earliest.values()) {
+    await refreshCandles(pool, since, { venue, symbol }, { rebuildFrom });
+  }
+
+  return {
+    rows: parsed.rows.length,
+    inserted,
+    skipped: stored - inserted,
+    rejected,
+    errors,
+    errorsTruncated: rejected > errors.length,
+  };
+}
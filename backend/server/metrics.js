@@ -0,0 +1,213 @@
+// ── Prometheus metrics ───────────────────────────────────────────────────────
+//
+// A minimal in-process registry rendered in the Prometheus text format by
+// GET /api/metrics. Counters and gauges hold one value per label set;
+// histograms keep cumulative bucket counts, _sum and _count. Everything is
+// per process — on the serverless deployment that means per function
+// instance, so rates there are a sample rather than a total.
+//
+// The metrics themselves are declared at the bottom so every module records
+// into the same names:
+//
+//   http_requests_total, http_request_duration_seconds   – per route
+//   binance_requests_total, binance_request_duration_seconds
+//                                                         – per endpoint
+//   binance_rate_limited_total, binance_circuit_open,
+//   binance_used_weight                                   – client state
+//   ingestion_cycle_duration_seconds, ingestion_cycles_total,
+//   ingestion_coins_total                                 – per ingestion pass
+//   prune_duration_seconds, pruned_rows_total             – per retention
+//                                                           pass / table
+//   db_query_duration_seconds                             – per statement kind
+
+import { routeOf } from './log.js';
+
+// Seconds; wide enough for a 50 s SSE stream and a slow backfill chunk
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const registry = [];
+const collectors = [];
+
+const escapeLabel = v => String(v).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function labelKey(labelNames, labels = {}) {
+  return labelNames.map(n => labels[n] ?? '').join('\u0000');
+}
+
+function formatLabels(labelNames, key, extra = '') {
+  const values = key.split('\u0000');
+  const pairs = labelNames.map((n, i) => `${n}="${escapeLabel(values[i])}"`);
+  if (extra) pairs.push(extra);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function define(type, name, help, render) {
+  registry.push({ type, name, help, render });
+}
+
+/** Monotonic counter: `inc(labels, by = 1)`. */
+export function counter(name, help, labelNames = []) {
+  const values = new Map();
+  define('counter', name, help, () =>
+    [...values].map(([key, v]) => `${name}${formatLabels(labelNames, key)} ${v}`));
+  return {
+    inc(labels, by = 1) {
+      const key = labelKey(labelNames, labels);
+      values.set(key, (values.get(key) ?? 0) + by);
+    },
+  };
+}
+
+/** Point-in-time value: `set(labels, value)`. */
+export function gauge(name, help, labelNames = []) {
+  const values = new Map();
+  define('gauge', name, help, () =>
+    [...values].map(([key, v]) => `${name}${formatLabels(labelNames, key)} ${v}`));
+  return {
+    set(labels, value) {
+      values.set(labelKey(labelNames, labels), value);
+    },
+  };
+}
+
+/**
+ * Histogram of seconds: `observe(labels, seconds)`, or `startTimer(labels)`
+ * which returns a function that observes the time elapsed when called.
+ */
+export function histogram(name, help, labelNames = [], buckets = DEFAULT_BUCKETS) {
+  const series = new Map();
+  define('histogram', name, help, () => {
+    const lines = [];
+    for (const [key, s] of series) {
+      buckets.forEach((le, i) => {
+        lines.push(`${name}_bucket${formatLabels(labelNames, key, `le="${le}"`)} ${s.counts[i]}`);
+      });
+      lines.push(`${name}_bucket${formatLabels(labelNames, key, 'le="+Inf"')} ${s.count}`);
+      lines.push(`${name}_sum${formatLabels(labelNames, key)} ${s.sum}`);
+      lines.push(`${name}_count${formatLabels(labelNames, key)} ${s.count}`);
+    }
+    return lines;
+  });
+  const observe = (labels, seconds) => {
+    const key = labelKey(labelNames, labels);
+    let s = series.get(key);
+    if (!s) {
+      s = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+      series.set(key, s);
+    }
+    buckets.forEach((le, i) => { if (seconds <= le) s.counts[i]++; });
+    s.sum += seconds;
+    s.count++;
+  };
+  return {
+    observe,
+    startTimer(labels) {
+      const started = process.hrtime.bigint();
+      return (moreLabels = {}) => {
+        const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+        observe({ ...labels, ...moreLabels }, seconds);
+        return seconds;
+      };
+    },
+  };
+}
+
+/** Registers `fn` to run before each render, to set gauges from live state. */
+export function onCollect(fn) {
+  collectors.push(fn);
+}
+
+/** Every registered metric in the Prometheus text exposition format. */
+export function renderMetrics() {
+  for (const fn of collectors) fn();
+  const out = [];
+  for (const m of registry) {
+    out.push(`# HELP ${m.name} ${m.help}`, `# TYPE ${m.name} ${m.type}`, ...m.render());
+  }
+  return out.join('\n') + '\n';
+}
+
+// ── Metrics ──────────────────────────────────────────────────────────────────
+
+export const httpRequests = counter(
+  'http_requests_total', 'HTTP requests by route and status', ['method', 'route', 'status']
+);
+export const httpDuration = histogram(
+  'http_request_duration_seconds', 'HTTP request duration by route', ['method', 'route']
+);
+
+export const binanceRequests = counter(
+  'binance_requests_total', 'Binance REST attempts by endpoint and outcome (HTTP status or "error")',
+  ['endpoint', 'status']
+);
+export const binanceDuration = histogram(
+  'binance_request_duration_seconds', 'Binance REST attempt duration by endpoint', ['endpoint']
+);
+export const binanceRateLimited = counter(
+  'binance_rate_limited_total', 'Binance 429 and 418 responses'
+);
+export const binanceCircuitOpen = gauge(
+  'binance_circuit_open', '1 while the Binance circuit breaker is open'
+);
+export const binanceUsedWeight = gauge(
+  'binance_used_weight', 'Binance request weight used in the current minute'
+);
+
+export const ingestionDuration = histogram(
+  'ingestion_cycle_duration_seconds', 'Duration of one ingestion pass', ['source']
+);
+export const ingestionCycles = counter(
+  'ingestion_cycles_total', 'Ingestion passes by source and outcome (ok | error)', ['source', 'outcome']
+);
+export const ingestionCoins = counter(
+  'ingestion_coins_total', 'Per-coin ingestion outcomes (stored | failed)', ['venue', 'outcome']
+);
+
+export const pruneDuration = histogram(
+  'prune_duration_seconds', 'Duration of one retention pass', ['source']
+);
+export const prunedRows = counter(
+  'pruned_rows_total', 'Rows deleted by retention, by table', ['table']
+);
+
+export const dbQueryDuration = histogram(
+  'db_query_duration_seconds', 'Postgres query duration by statement kind', ['operation', 'outcome']
+);
+
+// ── Instrumentation ──────────────────────────────────────────────────────────
+
+/** Express middleware: counts and times every request by its route pattern. */
+export function httpMetrics() {
+  return (req, res, next) => {
+    const end = httpDuration.startTimer({ method: req.method });
+    res.on('finish', () => {
+      // Unmatched paths share one series instead of one per probed URL
+      const route = routeOf(req) ?? 'unmatched';
+      end({ route });
+      httpRequests.inc({ method: req.method, route, status: res.statusCode });
+    });
+    next();
+  };
+}
+
+function statementKind(sql) {
+  const word = /^\s*(?:--[^\n]*\n\s*)*(\w+)/.exec(typeof sql === 'string' ? sql : sql?.text ?? '')?.[1];
+  return word ? word.toLowerCase() : 'other';
+}
+
+/**
+ * Wraps pool.query so every query through the pool is timed by its leading
+ * keyword (select, insert, with, …). Clients checked out with pool.connect()
+ * for transactions aren't covered.
+ */
+export function instrumentPool(pool) {
+  const query = pool.query.bind(pool);
+  pool.query = (sql, ...args) => {
+    const end = dbQueryDuration.startTimer({ operation: statementKind(sql) });
+    const pending = query(sql, ...args);
+    // Callback-style calls return undefined; they aren't used in this codebase
+    pending?.then(() => end({ outcome: 'ok' }), () => end({ outcome: 'error' }));
+    return pending;
+  };
+  return pool;
+}
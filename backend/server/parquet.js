@@ -0,0 +1,253 @@
+// ── Parquet writer ───────────────────────────────────────────────────────────
+//
+// Just enough of the Parquet format to stream flat tables out of /api/export
+// without a native dependency:
+//
+//   • every column is OPTIONAL (nulls allowed), PLAIN-encoded, one GZIP data
+//     page per column per row group
+//   • column types: 'string' (UTF8 byte array), 'int' (INT64), 'timestamp'
+//     (INT64 TIMESTAMP_MILLIS) and 'double'
+//   • rows are buffered ROW_GROUP_SIZE at a time, so memory stays bounded
+//     however long the export runs
+//
+// The footer (schema plus each row group's column offsets) is Thrift
+// compact-protocol encoded, written by the small encoder below.
+
+import { gzipSync } from 'zlib';
+
+const MAGIC = Buffer.from('PAR1');
+const ROW_GROUP_SIZE = 50_000;
+
+// parquet.thrift enums
+const Type = { INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 };
+const ConvertedType = { UTF8: 0, TIMESTAMP_MILLIS: 9 };
+const Repetition = { OPTIONAL: 1 };
+const Encoding = { PLAIN: 0, RLE: 3 };
+const Codec = { GZIP: 2 };
+const PageType = { DATA_PAGE: 0 };
+
+const COLUMN_TYPES = {
+  string: { type: Type.BYTE_ARRAY, convertedType: ConvertedType.UTF8 },
+  int: { type: Type.INT64 },
+  timestamp: { type: Type.INT64, convertedType: ConvertedType.TIMESTAMP_MILLIS },
+  double: { type: Type.DOUBLE },
+};
+
+// ── Thrift compact protocol ──────────────────────────────────────────────────
+
+const T = { TRUE: 1, FALSE: 2, I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 };
+const BOOL = 'bool';
+
+function varint(out, n) {
+  let v = BigInt(n);
+  while (v >= 0x80n) {
+    out.push(Number(v & 0x7fn) | 0x80);
+    v >>= 7n;
+  }
+  out.push(Number(v));
+}
+
+const zigzag = n => {
+  const v = BigInt(n);
+  return (v << 1n) ^ (v >> 63n);
+};
+
+function writeValue(out, type, value) {
+  switch (type) {
+    case T.I32:
+    case T.I64:
+      varint(out, zigzag(value));
+      break;
+    case T.BINARY: {
+      const bytes = Buffer.from(value, 'utf8');
+      varint(out, bytes.length);
+      for (const b of bytes) out.push(b);
+      break;
+    }
+    case T.LIST: {
+      const { elemType, items } = value;
+      if (items.length < 15) out.push((items.length << 4) | elemType);
+      else {
+        out.push(0xf0 | elemType);
+        varint(out, items.length);
+      }
+      for (const item of items) writeValue(out, elemType, item);
+      break;
+    }
+    case T.STRUCT:
+      writeStruct(out, value);
+      break;
+    default:
+      throw new Error(`unsupported thrift type ${type}`);
+  }
+}
+
+/** `fields` is a list of [fieldId, type, value], ascending by id; null values are skipped. */
+function writeStruct(out, fields) {
+  let last = 0;
+  for (const [id, type, value] of fields) {
+    if (value == null) continue;
+    const wire = type === BOOL ? (value ? T.TRUE : T.FALSE) : type;
+    const delta = id - last;
+    if (delta > 0 && delta <= 15) out.push((delta << 4) | wire);
+    else {
+      out.push(wire);
+      varint(out, zigzag(id));
+    }
+    last = id;
+    if (type !== BOOL) writeValue(out, type, value);
+  }
+  out.push(0); // stop
+}
+
+const encodeStruct = fields => {
+  const out = [];
+  writeStruct(out, fields);
+  return Buffer.from(out);
+};
+
+const list = (elemType, items) => ({ elemType, items });
+
+// ── Page encoding ────────────────────────────────────────────────────────────
+
+/** Definition levels (1 = present, 0 = null) as RLE runs, length-prefixed. */
+function encodeDefinitionLevels(values) {
+  const out = [];
+  let i = 0;
+  while (i < values.length) {
+    const present = values[i] != null;
+    let run = 1;
+    while (i + run < values.length && (values[i + run] != null) === present) run++;
+    varint(out, run << 1);
+    out.push(present ? 1 : 0);
+    i += run;
+  }
+  const prefix = Buffer.alloc(4);
+  prefix.writeUInt32LE(out.length);
+  return Buffer.concat([prefix, Buffer.from(out)]);
+}
+
+function encodePlain(kind, values) {
+  const present = values.filter(v => v != null);
+  if (kind === 'string') {
+    return Buffer.concat(present.flatMap(v => {
+      const bytes = Buffer.from(String(v), 'utf8');
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(bytes.length);
+      return [length, bytes];
+    }));
+  }
+  const buf = Buffer.alloc(present.length * 8);
+  present.forEach((v, i) => {
+    if (kind === 'double') buf.writeDoubleLE(v, i * 8);
+    else buf.writeBigInt64LE(BigInt(Math.trunc(v)), i * 8);
+  });
+  return buf;
+}
+
+// ── Writer ───────────────────────────────────────────────────────────────────
+
+/**
+ * Streaming writer for `columns` ([{ name, type }], type one of
+ * COLUMN_TYPES). push(row) buffers a row — an object keyed by column name —
+ * and returns the bytes of a finished row group once ROW_GROUP_SIZE rows are
+ * buffered (null otherwise). finish() returns the last row group and the
+ * footer. The first chunk either returns starts with the file's magic bytes.
+ */
+export function createParquetWriter(columns) {
+  for (const c of columns) {
+    if (!COLUMN_TYPES[c.type]) throw new Error(`unsupported parquet column type "${c.type}"`);
+  }
+  let offset = 0;
+  let started = false;
+  let buffered = columns.map(() => []);
+  let bufferedRows = 0;
+  let totalRows = 0;
+  const rowGroups = [];
+
+  function flushRowGroup() {
+    const chunks = [];
+    if (!started) {
+      chunks.push(MAGIC);
+      offset += MAGIC.length;
+      started = true;
+    }
+    if (bufferedRows === 0) return Buffer.concat(chunks);
+
+    const columnChunks = [];
+    let groupBytes = 0;
+    columns.forEach((c, i) => {
+      const values = buffered[i];
+      const page = Buffer.concat([encodeDefinitionLevels(values), encodePlain(c.type, values)]);
+      const compressed = gzipSync(page);
+      const header = encodeStruct([
+        [1, T.I32, PageType.DATA_PAGE],
+        [2, T.I32, page.length],
+        [3, T.I32, compressed.length],
+        [5, T.STRUCT, [
+          [1, T.I32, values.length],
+          [2, T.I32, Encoding.PLAIN],
+          [3, T.I32, Encoding.RLE],
+          [4, T.I32, Encoding.RLE],
+        ]],
+      ]);
+      const pageOffset = offset;
+      chunks.push(header, compressed);
+      offset += header.length + compressed.length;
+      groupBytes += header.length + page.length;
+      columnChunks.push([
+        [2, T.I64, pageOffset],
+        [3, T.STRUCT, [
+          [1, T.I32, COLUMN_TYPES[c.type].type],
+          [2, T.LIST, list(T.I32, [Encoding.PLAIN, Encoding.RLE])],
+          [3, T.LIST, list(T.BINARY, [c.name])],
+          [4, T.I32, Codec.GZIP],
+          [5, T.I64, values.length],
+          [6, T.I64, header.length + page.length],
+          [7, T.I64, header.length + compressed.length],
+          [9, T.I64, pageOffset],
+        ]],
+      ]);
+    });
+    rowGroups.push([
+      [1, T.LIST, list(T.STRUCT, columnChunks)],
+      [2, T.I64, groupBytes],
+      [3, T.I64, bufferedRows],
+    ]);
+    totalRows += bufferedRows;
+    buffered = columns.map(() => []);
+    bufferedRows = 0;
+    return Buffer.concat(chunks);
+  }
+
+  return {
+    push(row) {
+      columns.forEach((c, i) => buffered[i].push(row[c.name] ?? null));
+      bufferedRows++;
+      return bufferedRows >= ROW_GROUP_SIZE ? flushRowGroup() : null;
+    },
+
+    finish() {
+      const last = flushRowGroup();
+      const schema = [
+        [[4, T.BINARY, 'schema'], [5, T.I32, columns.length]],
+        ...columns.map(c => [
+          [1, T.I32, COLUMN_TYPES[c.type].type],
+          [3, T.I32, Repetition.OPTIONAL],
+          [4, T.BINARY, c.name],
+          [6, T.I32, COLUMN_TYPES[c.type].convertedType],
+        ]),
+      ];
+      const footer = encodeStruct([
+        [1, T.I32, 1],
+        [2, T.LIST, list(T.STRUCT, schema)],
+        [3, T.I64, totalRows],
+        [4, T.LIST, list(T.STRUCT, rowGroups)],
+        [6, T.BINARY, 'binance-futures-tracker'],
+      ]);
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(footer.length);
+      return Buffer.concat([last, footer, length, MAGIC]);
+    },
+  };
+}
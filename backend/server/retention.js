@@ -0,0 +1,296 @@
+// ── Tiered retention ─────────────────────────────────────────────────────────
+//
+// Raw 1-minute rows and each candle rollup are kept for their own period,
+// configured through RETENTION_TIERS as `<tier>:<duration>` pairs, e.g.
+//
+//   RETENTION_TIERS=raw:7d,5m:30d,15m:90d,30m:180d,1h:forever
+//
+// `raw` is required; the other tiers must be rollups that candles.js
+// maintains. A rollup left out of the list is kept as long as raw rows.
+// When ARCHIVE_DIR is set, raw rows are written to gzipped NDJSON files
+// there before they are deleted.
+//
+// Reads go through readHistory() / readCandles(), which split the requested
+// range into per-tier segments so old ranges are served from whichever
+// rollup still covers them.
+
+import { createWriteStream, mkdirSync, unlinkSync } from 'fs';
+import { once } from 'events';
+import { createGzip } from 'zlib';
+import path from 'path';
+import {
+  CANDLE_INTERVALS_MS, queryCandlesFromRaw, queryCandlesFromRollup,
+} from './candles.js';
+import { FUNDING_COLUMNS, fundingFields } from './funding.js';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Interval of the raw tier — one row per coin per fetch cycle. */
+export const RAW_INTERVAL_MS = MINUTE;
+
+const DEFAULT_RETENTION_TIERS = 'raw:7d,5m:30d,15m:90d,30m:180d,1h:forever';
+const ARCHIVE_BATCH_SIZE = 5000;
+
+// Upper bound for "no end" in SQL — timestamps are BIGINT milliseconds.
+const END_OF_TIME = Number.MAX_SAFE_INTEGER;
+
+const UNIT_MS = { s: SECOND, m: MINUTE, h: HOUR, d: DAY };
+
+export function parseDuration(text) {
+  if (text === 'forever') return Infinity;
+  const match = /^(\d+)([smhd])$/.exec(text);
+  if (!match) throw new Error(`invalid duration "${text}"`);
+  return Number(match[1]) * UNIT_MS[match[2]];
+}
+
+/**
+ * Parses a RETENTION_TIERS spec into [{ interval, retentionMs }] sorted by
+ * interval ascending (raw first). Throws on malformed specs so a bad config
+ * stops the process at startup rather than silently keeping everything.
+ */
+export function parseRetentionTiers(spec = DEFAULT_RETENTION_TIERS) {
+  const tiers = new Map();
+  for (const entry of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+    const [name, duration] = entry.split(':');
+    const interval = name === 'raw' ? RAW_INTERVAL_MS : parseDuration(name);
+    if (interval !== RAW_INTERVAL_MS && !CANDLE_INTERVALS_MS.includes(interval)) {
+      throw new Error(`retention tier "${name}" has no rollup table`);
+    }
+    tiers.set(interval, parseDuration(duration ?? ''));
+  }
+  if (!tiers.has(RAW_INTERVAL_MS)) throw new Error('retention tiers must include "raw"');
+  for (const interval of CANDLE_INTERVALS_MS) {
+    if (!tiers.has(interval)) tiers.set(interval, tiers.get(RAW_INTERVAL_MS));
+  }
+  return [...tiers]
+    .map(([interval, retentionMs]) => ({ interval, retentionMs }))
+    .sort((a, b) => a.interval - b.interval);
+}
+
+function tierCutoff(tier, now) {
+  return tier.retentionMs === Infinity ? 0 : now - tier.retentionMs;
+}
+
+/**
+ * Oldest timestamp the raw tier still holds (0 when raw rows are kept
+ * forever). Rollup buckets before it may hold data whose raw rows are gone,
+ * so writers into the past pass it to refreshCandles() as `rebuildFrom`.
+ */
+export function rawCutoff(tiers, now = Date.now()) {
+  return tierCutoff(tiers.find(t => t.interval === RAW_INTERVAL_MS), now);
+}
+
+/**
+ * Splits time into [from, to) segments, newest first, each served by the
+ * finest tier that still holds data for it.
+ */
+export function historySegments(tiers, now) {
+  const segments = [];
+  let upper = END_OF_TIME;
+  for (const tier of tiers) {
+    const lower = tierCutoff(tier, now);
+    if (lower < upper) {
+      segments.push({ tier, from: lower, to: upper });
+      upper = lower;
+    }
+  }
+  return segments;
+}
+
+// Rollups keep the bucket's average basis rather than mark and index prices
+function candleToPoint(c) {
+  return {
+    timestamp: c.timestamp,
+    openInterest: c.openInterest.close,
+    fundingRate: c.fundingRate.avg,
+    price: c.price.close,
+    markPrice: null,
+    indexPrice: null,
+    nextFundingTime: null,
+    interestRate: null,
+    fundingIntervalMs: c.fundingIntervalMs,
+    basis: c.basis,
+  };
+}
+
+/**
+ * MarketDataPoints for one coin with timestamp in [start, end], ascending.
+ * Raw rows where raw is still retained, rollup closes beyond that. With
+ * `limit`, returns the newest `limit` points of the range.
+ */
+export async function readHistory(pool, tiers, { venue, symbol, start = 0, end = END_OF_TIME, limit = null }) {
+  const newestFirst = [];
+  for (const segment of historySegments(tiers, Date.now())) {
+    const from = Math.max(segment.from, start);
+    const to = Math.min(segment.to, end + 1);
+    if (from >= to) continue;
+    const remaining = limit == null ? null : limit - newestFirst.length;
+
+    if (segment.tier.interval === RAW_INTERVAL_MS) {
+      const { rows } = await pool.query(
+        `SELECT timestamp, open_interest, funding_rate, price, ${FUNDING_COLUMNS}
+         FROM market_data
+         WHERE venue = $1 AND symbol = $2 AND timestamp >= $3 AND timestamp < $4
+         ORDER BY timestamp DESC
+         LIMIT $5`,
+        [venue, symbol, from, to, remaining]
+      );
+      for (const r of rows) {
+        newestFirst.push({
+          timestamp: Number(r.timestamp),
+          openInterest: parseFloat(r.open_interest),
+          fundingRate: parseFloat(r.funding_rate),
+          price: parseFloat(r.price),
+          ...fundingFields(r),
+        });
+      }
+    } else {
+      const candles = await queryCandlesFromRollup(pool, {
+        venue, symbol,
+        tierInterval: segment.tier.interval,
+        interval: segment.tier.interval,
+        start: from, end: to,
+      });
+      const points = candles.map(candleToPoint).reverse();
+      newestFirst.push(...(remaining == null ? points : points.slice(0, remaining)));
+    }
+
+    if (limit != null && newestFirst.length >= limit) break;
+  }
+  return newestFirst.reverse();
+}
+
+/**
+ * Candles at `interval` for one coin with bucket start in [start, end],
+ * ascending. Each tier segment is served by, in order of preference: the
+ * rollup at exactly `interval` if it covers the segment, the segment's own
+ * tier re-aggregated up to `interval`, or — when that tier is already coarser
+ * than `interval` — the tier's own candles.
+ */
+export async function readCandles(pool, tiers, { venue, symbol, interval, start, end }) {
+  const now = Date.now();
+  const exact = tiers.find(t => t.interval === interval);
+  const seen = new Set();
+  const newestFirst = [];
+
+  for (const segment of historySegments(tiers, now)) {
+    const from = Math.max(segment.from, start);
+    const to = Math.min(segment.to, end + 1);
+    if (from >= to) continue;
+
+    let source = segment.tier;
+    if (exact && tierCutoff(exact, now) <= segment.from) source = exact;
+    const target = interval % source.interval === 0 ? interval : source.interval;
+
+    const candles = source.interval === RAW_INTERVAL_MS
+      ? await queryCandlesFromRaw(pool, { venue, symbol, interval: target, start: from, end: to })
+      : await queryCandlesFromRollup(pool, {
+        venue, symbol, tierInterval: source.interval, interval: target, start: from, end: to,
+      });
+
+    // A bucket straddling a segment boundary shows up twice — keep the newer segment's
+    for (const c of candles.reverse()) {
+      if (seen.has(c.timestamp)) continue;
+      seen.add(c.timestamp);
+      newestFirst.push(c);
+    }
+  }
+  return newestFirst.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Streams raw rows older than `cutoff` into a gzipped NDJSON file, batch by
+ * batch. Returns the highest archived id so the caller deletes exactly what
+ * was written — rows older than the cutoff that land mid-archive are left
+ * for the next run.
+ */
+async function archiveRawRows(pool, cutoff, archiveDir) {
+  mkdirSync(archiveDir, { recursive: true });
+  const file = path.join(archiveDir, `market_data_before_${cutoff}_${Date.now()}.ndjson.gz`);
+  const gzip = createGzip();
+  const out = createWriteStream(file);
+  const finished = new Promise((resolve, reject) => {
+    out.on('finish', resolve);
+    out.on('error', reject);
+    gzip.on('error', reject);
+  });
+  gzip.pipe(out);
+
+  let lastId = 0;
+  let count = 0;
+  for (;;) {
+    const { rows } = await pool.query(
+      `SELECT id, venue, symbol, timestamp, open_interest, funding_rate, price, ${FUNDING_COLUMNS}
+       FROM market_data
+       WHERE timestamp < $1 AND id > $2
+       ORDER BY id
+       LIMIT $3`,
+      [cutoff, lastId, ARCHIVE_BATCH_SIZE]
+    );
+    if (rows.length === 0) break;
+    for (const r of rows) {
+      const line = JSON.stringify({
+        venue: r.venue,
+        symbol: r.symbol,
+        timestamp: Number(r.timestamp),
+        openInterest: parseFloat(r.open_interest),
+        fundingRate: parseFloat(r.funding_rate),
+        price: parseFloat(r.price),
+        ...fundingFields(r),
+      });
+      if (!gzip.write(line + '\n')) await once(gzip, 'drain');
+    }
+    lastId = rows[rows.length - 1].id;
+    count += rows.length;
+  }
+  gzip.end();
+  await finished;
+
+  if (count === 0) unlinkSync(file);
+  return { file: count > 0 ? file : null, count, lastId };
+}
+
+/**
+ * Applies every tier's retention: archives (optionally) and deletes raw rows,
+ * then deletes rollup buckets past their tier's cutoff.
+ * Returns { raw, candles, archive } where archive is the written file or null.
+ */
+export async function pruneTiers(pool, tiers, { archiveDir = null } = {}) {
+  const now = Date.now();
+  const rawTier = tiers.find(t => t.interval === RAW_INTERVAL_MS);
+  let raw = 0;
+  let archive = null;
+
+  if (rawTier.retentionMs !== Infinity) {
+    const cutoff = tierCutoff(rawTier, now);
+    if (archiveDir) {
+      const archived = await archiveRawRows(pool, cutoff, archiveDir);
+      archive = archived.file;
+      if (archived.count > 0) {
+        const { rowCount } = await pool.query(
+          'DELETE FROM market_data WHERE timestamp < $1 AND id <= $2',
+          [cutoff, archived.lastId]
+        );
+        raw = rowCount ?? 0;
+      }
+    } else {
+      const { rowCount } = await pool.query('DELETE FROM market_data WHERE timestamp < $1', [cutoff]);
+      raw = rowCount ?? 0;
+    }
+  }
+
+  let candles = 0;
+  for (const tier of tiers) {
+    if (tier.interval === RAW_INTERVAL_MS || tier.retentionMs === Infinity) continue;
+    const { rowCount } = await pool.query(
+      'DELETE FROM market_candles WHERE interval_ms = $1 AND bucket < $2',
+      [tier.interval, tierCutoff(tier, now)]
+    );
+    candles += rowCount ?? 0;
+  }
+
+  return { raw, candles, archive };
+}
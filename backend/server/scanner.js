@@ -0,0 +1,108 @@
+// ── Market scanner ───────────────────────────────────────────────────────────
+//
+// Ranks a venue's whole perpetual universe — not just tracked coins — by
+// funding, funding change, 24h volume and 24h price change, from the
+// adapter's all-symbol endpoints (fetchMarketOverview). Open interest has no
+// all-symbol endpoint, so OI change is only fetched for the `oiSampleSize`
+// highest-volume contracts and is null for the rest.
+//
+// A scan is cached per venue for SCAN_CACHE_TTL_MS; concurrent callers share
+// one refresh, and a failed refresh serves the previous scan.
+
+import { getAdapter } from './exchanges.js';
+import { getSymbols } from './symbols.js';
+import { log } from './log.js';
+
+const SCAN_CACHE_TTL_MS = 60 * 1000;
+
+// openInterestHist is rate-limited separately — don't fire the whole sample at once
+const OI_CONCURRENCY = 10;
+
+/** Columns a scan can be ranked by. */
+export const SCANNER_SORTS = ['fundingRate', 'fundingChange', 'quoteVolume', 'priceChangePct', 'oiChangePct'];
+
+const cache = new Map(); // venue → { scan, fetchedAt, pending }
+
+export function supportsScanner(venue) {
+  return Boolean(getAdapter(venue)?.fetchMarketOverview);
+}
+
+async function sampleOpenInterest(adapter, rows, lookbackMs) {
+  let failed = 0;
+  for (let i = 0; i < rows.length; i += OI_CONCURRENCY) {
+    const chunk = rows.slice(i, i + OI_CONCURRENCY);
+    const results = await Promise.allSettled(chunk.map(r => adapter.fetchOpenInterestChange(r.symbol, lookbackMs)));
+    results.forEach((outcome, j) => {
+      if (outcome.status === 'fulfilled') chunk[j].oiChangePct = outcome.value;
+      else failed++;
+    });
+  }
+  if (failed > 0) log.error('scanner OI change failed', { failed, symbols: rows.length });
+}
+
+async function runScan(venue, { oiSampleSize, oiLookbackMs }) {
+  const adapter = getAdapter(venue);
+  const [overview, symbols] = await Promise.all([adapter.fetchMarketOverview(), getSymbols(venue)]);
+  const perps = new Map(
+    (symbols ?? [])
+      .filter(s => s.contractType === 'PERPETUAL' && s.status === 'TRADING')
+      .map(s => [s.symbol, s])
+  );
+
+  const rows = overview
+    .filter(r => perps.has(r.symbol))
+    .map(r => ({
+      symbol: r.symbol,
+      baseAsset: perps.get(r.symbol).baseAsset,
+      price: r.price,
+      priceChangePct: r.priceChangePct,
+      quoteVolume: r.quoteVolume,
+      fundingRate: r.fundingRate,
+      // Predicted next rate against the last settled one
+      fundingChange: r.settledFundingRate == null ? null : r.fundingRate - r.settledFundingRate,
+      oiChangePct: null,
+    }));
+
+  const sample = adapter.fetchOpenInterestChange
+    ? [...rows].sort((a, b) => b.quoteVolume - a.quoteVolume).slice(0, oiSampleSize)
+    : [];
+  await sampleOpenInterest(adapter, sample, oiLookbackMs);
+
+  return { venue, generatedAt: Date.now(), oiSampleSize: sample.length, oiLookbackMs, rows };
+}
+
+/** The latest scan for `venue`, refreshed when older than SCAN_CACHE_TTL_MS. */
+export async function getScan(venue, options) {
+  const entry = cache.get(venue) ?? { scan: null, fetchedAt: 0, pending: null };
+  cache.set(venue, entry);
+  if (entry.scan && Date.now() - entry.fetchedAt < SCAN_CACHE_TTL_MS) return entry.scan;
+
+  entry.pending ??= runScan(venue, options)
+    .then(scan => {
+      entry.scan = scan;
+      entry.fetchedAt = Date.now();
+      return scan;
+    })
+    .catch(err => {
+      if (!entry.scan) throw err;
+      log.error('scanner refresh failed, serving previous scan', { venue, err });
+      return entry.scan;
+    })
+    .finally(() => { entry.pending = null; });
+  return entry.pending;
+}
+
+/**
+ * The scan's rows ranked by `sort` (descending unless `order` is 'asc'),
+ * rows without a value last, cut to `limit`. Each row gets its 1-based `rank`.
+ */
+export function rankScan(scan, { sort, order, limit }) {
+  const direction = order === 'asc' ? 1 : -1;
+  const rows = scan.rows
+    .filter(r => r[sort] != null)
+    .sort((a, b) => direction * (a[sort] - b[sort]))
+    .concat(scan.rows.filter(r => r[sort] == null))
+    .slice(0, limit)
+    .map((r, i) => ({ rank: i + 1, ...r }));
+  return { ...scan, total: scan.rows.length, sort, order, rows };
+}
@@ -0,0 +1,65 @@
+// ── Symbol universe ──────────────────────────────────────────────────────────
+//
+// Each venue's contract list (Binance /fapi/v1/exchangeInfo, Bybit
+// instruments-info) cached in memory for SYMBOL_CACHE_TTL_MS. Used to reject
+// coins that don't exist or aren't trading before they're stored, and to feed
+// the searchable list behind GET /api/symbols.
+
+import { getAdapter } from './exchanges.js';
+import { log } from './log.js';
+
+const SYMBOL_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const cache = new Map(); // venue → { symbols, bySymbol, fetchedAt, pending }
+
+/**
+ * Contract list for `venue`, from cache when fresh. Concurrent callers share
+ * one request; if a refresh fails the previous list is served rather than
+ * failing every lookup until the exchange recovers.
+ */
+export async function getSymbols(venue) {
+  const adapter = getAdapter(venue);
+  if (!adapter?.fetchSymbols) return null;
+
+  const entry = cache.get(venue) ?? { symbols: null, bySymbol: null, fetchedAt: 0, pending: null };
+  cache.set(venue, entry);
+  if (entry.symbols && Date.now() - entry.fetchedAt < SYMBOL_CACHE_TTL_MS) return entry.symbols;
+
+  entry.pending ??= adapter.fetchSymbols()
+    .then(symbols => {
+      entry.symbols = symbols;
+      entry.bySymbol = new Map(symbols.map(s => [s.symbol, s]));
+      entry.fetchedAt = Date.now();
+      return symbols;
+    })
+    .catch(err => {
+      if (!entry.symbols) throw err;
+      log.error('symbol refresh failed, serving cached list', { venue, err });
+      return entry.symbols;
+    })
+    .finally(() => { entry.pending = null; });
+  return entry.pending;
+}
+
+/**
+ * Checks that `symbol` is listed and TRADING on `venue`. Returns null when it
+ * is, otherwise `{ status, error }` for the route to send. Venues without a
+ * symbol list are not checked.
+ */
+export async function validateSymbol(venue, symbol) {
+  let symbols;
+  try {
+    symbols = await getSymbols(venue);
+  } catch (err) {
+    log.error('exchange info unavailable', { venue, err });
+    return { status: 503, error: `cannot verify symbols on ${venue} right now — try again shortly` };
+  }
+  if (!symbols) return null;
+
+  const info = cache.get(venue).bySymbol.get(symbol);
+  if (!info) return { status: 400, error: `unknown symbol "${symbol}" on ${venue}` };
+  if (info.status !== 'TRADING') {
+    return { status: 400, error: `${symbol} on ${venue} is not trading (status ${info.status})` };
+  }
+  return null;
+}
@@ -0,0 +1,140 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureBinanceClient } from '../server/binance.js';
+import { createCollector } from '../server/collector.js';
+import { createFakePool, sleep, startRestServer, startStreamServer, waitFor, watching } from './helpers.js';
+
+const RESOLUTION_MS = 200;
+const HOUR = 60 * 60 * 1000;
+
+let rest;
+
+before(async () => {
+  rest = await startRestServer({ openInterest: '1234.5', fundingIntervals: { ETHUSDT: 4 } });
+  configureBinanceClient({ baseUrl: rest.url });
+});
+
+after(() => rest.close());
+
+/** A Binance `<symbol>@markPrice@1s` event. */
+const markPrice = (symbol, price, fundingRate = '0.0001') => ({
+  e: 'markPriceUpdate',
+  E: Date.now(),
+  s: symbol,
+  p: price,
+  i: String(parseFloat(price) - 1),
+  P: price,
+  r: fundingRate,
+  T: 1_700_000_000_000,
+});
+
+/** Starts a collector for `symbols` against a fresh stream stand-in. */
+async function setup(symbols) {
+  const stream = await startStreamServer();
+  const pool = createFakePool(watching(symbols));
+  const collector = createCollector(pool, { resolutionMs: RESOLUTION_MS, oiIntervalMs: 60_000, wsUrl: stream.url });
+  await collector.start();
+  return {
+    stream,
+    pool,
+    collector,
+    inserts: () => pool.matching('INSERT INTO market_data'),
+    async teardown() {
+      collector.stop();
+      await stream.close();
+    },
+  };
+}
+
+const subscribedOn = (stream, connection) => stream.requests
+  .filter(r => r.connection === connection && r.method === 'SUBSCRIBE')
+  .flatMap(r => r.params);
+
+test('subscribes every watched coin and writes one batched insert per resolution', async () => {
+  const t = await setup(['BTCUSDT', 'ETHUSDT']);
+  try {
+    await waitFor(() => subscribedOn(t.stream, 1).length === 2, { label: 'SUBSCRIBE' });
+    assert.deepEqual(subscribedOn(t.stream, 1).sort(), ['btcusdt@markPrice@1s', 'ethusdt@markPrice@1s']);
+
+    // Only the latest tick per coin before the boundary is written
+    t.stream.send(markPrice('BTCUSDT', '60000.5'));
+    t.stream.send(markPrice('ETHUSDT', '3000.25', '-0.0002'));
+    t.stream.send(markPrice('BTCUSDT', '60010.5'));
+    t.stream.send(markPrice('SOLUSDT', '150')); // not watched
+    await waitFor(() => t.collector.isLive('binance', 'BTCUSDT') && t.collector.isLive('binance', 'ETHUSDT'), { label: 'live coins' });
+
+    const before = t.inserts().length;
+    const insert = await waitFor(() => t.inserts()[before], { label: 'INSERT' });
+    assert.match(insert.sql, /ON CONFLICT \(venue, symbol, timestamp\) DO NOTHING/);
+    assert.equal(insert.params.length, 20, 'both coins in one statement');
+
+    const rows = [insert.params.slice(0, 10), insert.params.slice(10)];
+    const bySymbol = Object.fromEntries(rows.map(r => [r[1], r]));
+    assert.deepEqual(Object.keys(bySymbol).sort(), ['BTCUSDT', 'ETHUSDT']);
+
+    const [venue, , timestamp, oi, funding, price, mark, index, nextFunding, interval] = bySymbol.BTCUSDT;
+    assert.equal(venue, 'binance');
+    assert.equal(timestamp % RESOLUTION_MS, 0, 'stamped on the resolution boundary');
+    assert.equal(oi, 1234.5);
+    assert.equal(funding, 0.0001);
+    assert.equal(price, 60010.5);
+    assert.equal(mark, 60010.5);
+    assert.equal(index, 60009.5);
+    assert.equal(nextFunding, 1_700_000_000_000);
+    assert.equal(interval, 8 * HOUR);
+    assert.equal(bySymbol.ETHUSDT[4], -0.0002);
+    assert.equal(bySymbol.ETHUSDT[9], 4 * HOUR);
+
+    // Followed by the stream notification and the per-coin ingestion status
+    await waitFor(() => t.pool.matching('pg_notify').length > 0, { label: 'pg_notify' });
+    const status = await waitFor(() => t.pool.matching('INSERT INTO ingestion_status')[0], { label: 'ingestion status' });
+    assert.deepEqual(status.params[1].sort(), ['BTCUSDT', 'ETHUSDT']);
+  } finally {
+    await t.teardown();
+  }
+});
+
+test('reconnects and resubscribes after the server drops the connection', async () => {
+  const t = await setup(['BTCUSDT', 'ETHUSDT']);
+  try {
+    await waitFor(() => subscribedOn(t.stream, 1).length === 2, { label: 'first SUBSCRIBE' });
+    t.stream.drop();
+
+    // First backoff step is 1 s
+    await waitFor(() => t.stream.connections === 2, { label: 'reconnect', timeoutMs: 4000 });
+    await waitFor(() => subscribedOn(t.stream, 2).length === 2, { label: 'resubscribe' });
+    assert.deepEqual(subscribedOn(t.stream, 2).sort(), ['btcusdt@markPrice@1s', 'ethusdt@markPrice@1s']);
+
+    t.stream.send(markPrice('BTCUSDT', '61000'));
+    const before = t.inserts().length;
+    const insert = await waitFor(() => t.inserts()[before], { label: 'INSERT after reconnect' });
+    assert.equal(insert.params[1], 'BTCUSDT');
+    assert.equal(insert.params[5], 61000);
+  } finally {
+    await t.teardown();
+  }
+});
+
+test('hands coins back to the REST cycle while the socket is down', async () => {
+  const t = await setup(['BTCUSDT']);
+  const ticker = setInterval(() => t.stream.send(markPrice('BTCUSDT', '60000')), 50);
+  try {
+    await waitFor(() => t.collector.isLive('binance', 'BTCUSDT'), { label: 'live' });
+    assert.equal(t.collector.isLive('bybit', 'BTCUSDT'), false, 'other venues always go through REST');
+
+    t.stream.drop();
+    await waitFor(() => !t.collector.isLive('binance', 'BTCUSDT'), { label: 'not live after drop' });
+
+    // Nothing is written from stale ticks before the reconnect (1 s backoff)
+    const before = t.inserts().length;
+    await sleep(3 * RESOLUTION_MS);
+    assert.equal(t.collector.isLive('binance', 'BTCUSDT'), false);
+    assert.equal(t.inserts().length, before, 'no points written while disconnected');
+
+    await waitFor(() => t.collector.isLive('binance', 'BTCUSDT'), { label: 'live after reconnect', timeoutMs: 4000 });
+    await waitFor(() => t.inserts().length > before, { label: 'INSERT after reconnect' });
+  } finally {
+    clearInterval(ticker);
+    await t.teardown();
+  }
+});
@@ -0,0 +1,122 @@
+// Local stand-ins for the collector tests: Binance's REST API and WebSocket
+// streams on 127.0.0.1, and a pool that records queries instead of running
+// them. Nothing here reaches the network.
+
+import http from 'http';
+import { once } from 'events';
+import { WebSocketServer } from 'ws';
+
+/** Resolves once `predicate()` is truthy; rejects after `timeoutMs`. */
+export async function waitFor(predicate, { timeoutMs = 5000, label = 'condition' } = {}) {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = predicate();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error(`timed out waiting for ${label}`);
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+export const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A pool whose query() records every call and answers from `handlers`
+ * (SQL substring → (params) => result, the first match wins); anything
+ * else gets an empty result. A handler may throw to simulate a DB error.
+ * Clients from connect() share the same log and handlers.
+ */
+export function createFakePool(handlers = {}) {
+  const queries = [];
+  const pool = {
+    queries,
+    async query(sql, params = []) {
+      queries.push({ sql, params });
+      for (const [pattern, handler] of Object.entries(handlers)) {
+        if (sql.includes(pattern)) return handler(params);
+      }
+      return { rows: [], rowCount: 0 };
+    },
+    async connect() {
+      return { query: pool.query, release() {} };
+    },
+    /** Recorded calls whose SQL contains `pattern`. */
+    matching(pattern) {
+      return queries.filter(q => q.sql.includes(pattern));
+    },
+  };
+  return pool;
+}
+
+/** Answers listWatchedCoins() with `symbols` on Binance. */
+export const watching = symbols => ({
+  watchlist_items: () => ({ rows: symbols.map(symbol => ({ venue: 'binance', symbol })) }),
+});
+
+/**
+ * Binance futures REST stand-in: open interest is `openInterest` for every
+ * symbol, and `fundingIntervals` (SYMBOL → hours) backs /fapi/v1/fundingInfo.
+ */
+export async function startRestServer({ openInterest = '1234.5', fundingIntervals = {} } = {}) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://127.0.0.1');
+    requests.push(url);
+    let body;
+    if (url.pathname === '/fapi/v1/openInterest') {
+      body = { symbol: url.searchParams.get('symbol'), openInterest, time: Date.now() };
+    } else if (url.pathname === '/fapi/v1/fundingInfo') {
+      body = Object.entries(fundingIntervals).map(([symbol, fundingIntervalHours]) => ({ symbol, fundingIntervalHours }));
+    } else {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ code: -1121, msg: 'Invalid symbol.' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+/**
+ * WebSocket stand-in. Control messages (SUBSCRIBE/UNSUBSCRIBE) are
+ * acknowledged like Binance does and recorded with the number of the
+ * connection they arrived on; send() pushes a frame to every client and
+ * drop() cuts every connection without a close handshake.
+ */
+export async function startStreamServer() {
+  const wss = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+  await once(wss, 'listening');
+  const requests = [];
+  let connections = 0;
+  wss.on('connection', socket => {
+    const connection = ++connections;
+    socket.on('message', data => {
+      const msg = JSON.parse(data.toString());
+      requests.push({ connection, ...msg });
+      socket.send(JSON.stringify({ result: null, id: msg.id }));
+    });
+  });
+  return {
+    url: `ws://127.0.0.1:${wss.address().port}/ws`,
+    requests,
+    get connections() { return connections; },
+    get clients() { return wss.clients.size; },
+    send(frame) {
+      const data = JSON.stringify(frame);
+      for (const client of wss.clients) client.send(data);
+    },
+    drop() {
+      for (const client of wss.clients) client.terminate();
+    },
+    close() {
+      for (const client of wss.clients) client.terminate();
+      return new Promise(resolve => wss.close(resolve));
+    },
+  };
+}
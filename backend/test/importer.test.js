@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { importMarketData } from '../server/importer.js';
+import { parseRetentionTiers } from '../server/retention.js';
+import { createFakePool } from './helpers.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/** A pool tracking BTCUSDT on Binance whose inserts store every row. */
+const trackingPool = () => createFakePool({
+  'FROM coins': () => ({ rows: [{ venue: 'binance', symbol: 'BTCUSDT' }] }),
+  'INSERT INTO market_data': params => ({ rowCount: params.length / 11 }),
+});
+
+const csv = rows => ['symbol,timestamp,price,openInterest,fundingRate', ...rows].join('\n');
+
+test('reports rejected rows by line and inserts the rest', async () => {
+  const pool = trackingPool();
+  const now = Date.now();
+  const report = await importMarketData(pool, csv([
+    `BTCUSDT,${now - HOUR},60000,1000,0.0001`,
+    `ETHUSDT,${now - HOUR},3000,500,0.0001`,
+    `BTCUSDT,${now - 2 * HOUR},-1,1000,0.0001`,
+  ]), { format: 'csv', defaultVenue: 'binance', tiers: parseRetentionTiers() });
+
+  assert.equal(report.rows, 3);
+  assert.equal(report.inserted, 1);
+  assert.equal(report.rejected, 2);
+  assert.deepEqual(report.errors, [
+    { line: 3, error: 'ETHUSDT on binance is not tracked — add the coin first' },
+    { line: 4, error: 'price must be positive' },
+  ]);
+});
+
+test('rollups older than raw retention are only filled in, never rebuilt', async () => {
+  const pool = trackingPool();
+  const now = Date.now();
+  const old = now - 30 * DAY;
+  await importMarketData(pool, csv([
+    `BTCUSDT,${old},60000,1000,0.0001`,
+    `BTCUSDT,${now - HOUR},61000,1000,0.0001`,
+  ]), { format: 'csv', defaultVenue: 'binance', tiers: parseRetentionTiers('raw:7d,1h:forever') });
+
+  const [refresh] = pool.matching('INSERT INTO market_candles');
+  assert.match(refresh.sql, /DO UPDATE SET[\s\S]*WHERE market_candles\.bucket >= \$5/);
+  const [, since, venue, symbol, rebuildFrom] = refresh.params;
+  assert.equal(since, old, 'starts at the oldest imported row');
+  assert.deepEqual([venue, symbol], ['binance', 'BTCUSDT']);
+  assert.ok(Math.abs(rebuildFrom - (now - 7 * DAY)) < 60_000, 'rebuilds from the raw retention cutoff');
+});
+
+test('with raw rows kept forever every touched bucket is rebuilt', async () => {
+  const pool = trackingPool();
+  await importMarketData(pool, csv([`BTCUSDT,${Date.now() - 30 * DAY},60000,1000,0.0001`]), {
+    format: 'csv', defaultVenue: 'binance', tiers: parseRetentionTiers('raw:forever'),
+  });
+
+  const [refresh] = pool.matching('INSERT INTO market_candles');
+  assert.doesNotMatch(refresh.sql, /WHERE market_candles\.bucket/);
+  assert.equal(refresh.params.length, 4);
+});
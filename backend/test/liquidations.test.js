@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLiquidationFeed, MAX_PENDING_LIQUIDATIONS } from '../server/collector.js';
+import { parseForceOrder } from '../server/liquidations.js';
+import { createFakePool, startStreamServer, waitFor, watching } from './helpers.js';
+
+const BASE_TIME = 1_700_000_000_000;
+
+/** A Binance `forceOrder` event as pushed on `!forceOrder@arr`. */
+const forceOrder = (symbol, side, { time = BASE_TIME, price = '100', avgPrice = price, qty = '2', filled = qty } = {}) => ({
+  e: 'forceOrder',
+  E: time + 5,
+  o: { s: symbol, S: side, o: 'LIMIT', f: 'IOC', q: qty, p: price, ap: avgPrice, X: 'FILLED', l: filled, z: filled, T: time },
+});
+
+/** Every order written so far, flattened out of the unnest() arrays. */
+const stored = pool => pool.matching('INSERT INTO liquidations').flatMap(({ params: [venue, symbols, times, sides, prices, quantities] }) =>
+  symbols.map((symbol, i) => ({ venue, symbol, time: times[i], side: sides[i], price: prices[i], quantity: quantities[i] })));
+
+/** Starts a feed watching `symbols` against a fresh stream stand-in. */
+async function setup(symbols, handlers = {}) {
+  const stream = await startStreamServer();
+  const pool = createFakePool({ ...handlers, ...watching(symbols) });
+  const feed = createLiquidationFeed(pool, { wsUrl: stream.url });
+  await feed.start();
+  await waitFor(() => stream.clients === 1, { label: 'connection' });
+  return {
+    stream,
+    pool,
+    feed,
+    async teardown() {
+      await feed.stop();
+      await stream.close();
+    },
+  };
+}
+
+test('parseForceOrder files orders under the liquidated side', () => {
+  assert.deepEqual(parseForceOrder(forceOrder('BTCUSDT', 'SELL', { price: '59000', avgPrice: '59010.5', qty: '0.5' })), {
+    symbol: 'BTCUSDT', time: BASE_TIME, side: 'long', price: 59010.5, quantity: 0.5,
+  });
+  assert.equal(parseForceOrder(forceOrder('BTCUSDT', 'BUY')).side, 'short');
+
+  // Falls back to the order price and quantity when nothing is filled yet
+  const unfilled = parseForceOrder(forceOrder('ETHUSDT', 'BUY', { price: '3000', avgPrice: '0', qty: '4', filled: '0' }));
+  assert.equal(unfilled.price, 3000);
+  assert.equal(unfilled.quantity, 4);
+
+  assert.equal(parseForceOrder({ e: 'markPriceUpdate', s: 'BTCUSDT' }), null);
+  assert.equal(parseForceOrder(forceOrder('BTCUSDT', 'HOLD')), null);
+  assert.equal(parseForceOrder(forceOrder('BTCUSDT', 'SELL', { price: '0', avgPrice: '0' })), null);
+  assert.equal(parseForceOrder(null), null);
+});
+
+test('stores orders for watched coins only, in one insert per flush', async () => {
+  const t = await setup(['BTCUSDT']);
+  try {
+    t.stream.send(forceOrder('BTCUSDT', 'SELL', { time: BASE_TIME, avgPrice: '60000', filled: '0.25' }));
+    t.stream.send(forceOrder('DOGEUSDT', 'SELL', { time: BASE_TIME + 1 })); // not watched
+    // Combined-stream framing
+    t.stream.send({ stream: '!forceOrder@arr', data: forceOrder('BTCUSDT', 'BUY', { time: BASE_TIME + 2, avgPrice: '60100', filled: '1.5' }) });
+    t.stream.send({ result: null, id: 1 }); // not an event
+
+    // Flushed every 2 s
+    const insert = await waitFor(() => t.pool.matching('INSERT INTO liquidations')[0], { label: 'INSERT', timeoutMs: 4000 });
+    assert.match(insert.sql, /JOIN coins c ON c\.venue = \$1 AND c\.symbol = t\.symbol/);
+    assert.deepEqual(stored(t.pool), [
+      { venue: 'binance', symbol: 'BTCUSDT', time: BASE_TIME, side: 'long', price: 60000, quantity: 0.25 },
+      { venue: 'binance', symbol: 'BTCUSDT', time: BASE_TIME + 2, side: 'short', price: 60100, quantity: 1.5 },
+    ]);
+  } finally {
+    await t.teardown();
+  }
+});
+
+test('reconnects after the server drops the connection', async () => {
+  const t = await setup(['BTCUSDT']);
+  try {
+    t.stream.drop();
+
+    // First backoff step is 1 s
+    await waitFor(() => t.stream.connections === 2 && t.stream.clients === 1, { label: 'reconnect', timeoutMs: 4000 });
+    t.stream.send(forceOrder('BTCUSDT', 'BUY', { time: BASE_TIME + 10 }));
+    await waitFor(() => stored(t.pool).length === 1, { label: 'INSERT after reconnect', timeoutMs: 4000 });
+    assert.equal(stored(t.pool)[0].time, BASE_TIME + 10);
+  } finally {
+    await t.teardown();
+  }
+});
+
+test('keeps failed flushes for the next one, dropping the oldest past the cap', async () => {
+  let dbDown = true;
+  const failed = [];
+  const t = await setup(['BTCUSDT'], {
+    'INSERT INTO liquidations': params => {
+      if (!dbDown) return { rowCount: params[1].length };
+      failed.push(params[1].length);
+      throw new Error('connection refused');
+    },
+  });
+  try {
+    const total = MAX_PENDING_LIQUIDATIONS + 50;
+    for (let i = 0; i < total; i++) t.stream.send(forceOrder('BTCUSDT', 'SELL', { time: BASE_TIME + i }));
+
+    // Once everything has arrived a retry carries exactly the cap
+    await waitFor(() => failed.at(-1) === MAX_PENDING_LIQUIDATIONS, { label: 'full failed flush', timeoutMs: 8000 });
+
+    dbDown = false;
+    const attempts = t.pool.matching('INSERT INTO liquidations').length;
+    await t.feed.stop();
+    const [, , times] = t.pool.matching('INSERT INTO liquidations')[attempts].params;
+    assert.equal(times.length, MAX_PENDING_LIQUIDATIONS);
+    assert.equal(times[0], BASE_TIME + 50, 'the oldest orders were dropped');
+    assert.equal(times.at(-1), BASE_TIME + total - 1);
+  } finally {
+    await t.teardown();
+  }
+});
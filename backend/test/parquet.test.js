@@ -0,0 +1,165 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Writable } from 'stream';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { compressors } from 'hyparquet-compressors';
+import { createParquetWriter } from '../server/parquet.js';
+import { streamExport } from '../server/export.js';
+
+const BASE_TIME = 1_700_000_000_000;
+
+/** Reads a whole file with hyparquet (GZIP pages need the extra compressors). */
+async function readParquet(buf) {
+  const file = buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.length);
+  return { metadata: parquetMetadata(file), rows: await parquetReadObjects({ file, compressors }) };
+}
+
+const columnsOf = metadata => metadata.schema.slice(1).map(({ name, type, converted_type, repetition_type }) =>
+  ({ name, type, converted_type, repetition_type }));
+
+test('writer output reads back with a real Parquet reader across row groups', async () => {
+  const writer = createParquetWriter([
+    { name: 'symbol', type: 'string' },
+    { name: 'samples', type: 'int' },
+    { name: 'timestamp', type: 'timestamp' },
+    { name: 'price', type: 'double' },
+  ]);
+  // One past a row group, so the file has two
+  const count = 50_001;
+  const rowAt = i => ({
+    symbol: i % 7 === 0 ? null : `SYM${i % 3}`,
+    samples: i % 5 === 0 ? null : i,
+    timestamp: i % 11 === 0 ? null : BASE_TIME + i * 1000,
+    price: i % 13 === 0 ? null : i + 0.25,
+  });
+
+  const chunks = [];
+  for (let i = 0; i < count; i++) {
+    const chunk = writer.push(rowAt(i));
+    if (chunk) chunks.push(chunk);
+  }
+  assert.equal(chunks.length, 1, 'a full row group is handed back as soon as it is complete');
+  chunks.push(writer.finish());
+
+  const { metadata, rows } = await readParquet(Buffer.concat(chunks));
+  assert.equal(Number(metadata.num_rows), count);
+  assert.deepEqual(metadata.row_groups.map(g => Number(g.num_rows)), [50_000, 1]);
+  assert.deepEqual(columnsOf(metadata), [
+    { name: 'symbol', type: 'BYTE_ARRAY', converted_type: 'UTF8', repetition_type: 'OPTIONAL' },
+    { name: 'samples', type: 'INT64', converted_type: undefined, repetition_type: 'OPTIONAL' },
+    { name: 'timestamp', type: 'INT64', converted_type: 'TIMESTAMP_MILLIS', repetition_type: 'OPTIONAL' },
+    { name: 'price', type: 'DOUBLE', converted_type: undefined, repetition_type: 'OPTIONAL' },
+  ]);
+
+  assert.equal(rows.length, count);
+  for (const i of [0, 1, 2, 7, 10, 11, 13, 49_999, 50_000]) {
+    const expected = rowAt(i);
+    assert.deepEqual(rows[i], {
+      symbol: expected.symbol,
+      samples: expected.samples == null ? null : BigInt(expected.samples),
+      timestamp: expected.timestamp == null ? null : new Date(expected.timestamp),
+      price: expected.price,
+    }, `row ${i}`);
+  }
+});
+
+test('an empty file is still a valid Parquet file', async () => {
+  const writer = createParquetWriter([{ name: 'symbol', type: 'string' }]);
+  const { metadata, rows } = await readParquet(writer.finish());
+  assert.equal(Number(metadata.num_rows), 0);
+  assert.deepEqual(rows, []);
+});
+
+/** A response that collects what is written, with the headers streamExport sets. */
+function createResponse() {
+  const chunks = [];
+  const res = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      res.headersSent = true;
+      callback();
+    },
+  });
+  res.headers = {};
+  res.headersSent = false;
+  res.set = headers => Object.assign(res.headers, headers);
+  res.removeHeader = name => delete res.headers[name];
+  res.body = () => Buffer.concat(chunks);
+  return res;
+}
+
+/** A pool whose client serves `rowsBySymbol` through DECLARE/FETCH, `fetchSize` rows at a time. */
+function createCursorPool(rowsBySymbol, fetchSize = 2) {
+  const queries = [];
+  let cursor = [];
+  const client = {
+    async query(sql, params) {
+      queries.push(sql);
+      if (sql.startsWith('DECLARE')) cursor = [...(rowsBySymbol[params[1]] ?? [])];
+      if (sql.startsWith('FETCH')) return { rows: cursor.splice(0, fetchSize) };
+      return { rows: [] };
+    },
+    release() {},
+  };
+  return { queries, connect: async () => client };
+}
+
+test('a raw parquet export carries the API field names and parsed values', async () => {
+  // node-postgres hands NUMERIC and BIGINT columns over as strings
+  const raw = (symbol, i, price) => ({
+    venue: 'binance', symbol, timestamp: String(BASE_TIME + i * 60_000), price, open_interest: '1000.5',
+    funding_rate: '0.0001', mark_price: price, index_price: null, next_funding_time: String(BASE_TIME + 8 * 3_600_000),
+    interest_rate: null, funding_interval_ms: '28800000',
+  });
+  const pool = createCursorPool({
+    BTCUSDT: [raw('BTCUSDT', 0, '60000.5'), raw('BTCUSDT', 1, '60010'), raw('BTCUSDT', 2, '60020.25')],
+    ETHUSDT: [raw('ETHUSDT', 0, '3000')],
+  });
+  const res = createResponse();
+
+  const written = await streamExport(pool, res, {
+    coins: [{ venue: 'binance', symbol: 'BTCUSDT' }, { venue: 'binance', symbol: 'ETHUSDT' }],
+    start: BASE_TIME,
+    end: BASE_TIME + 3_600_000,
+    interval: null,
+    format: 'parquet',
+  });
+  assert.equal(written, 4);
+  assert.equal(res.headers['Content-Type'], 'application/vnd.apache.parquet');
+  assert.match(res.headers['Content-Disposition'], /filename="market_data_20231114-20231114\.parquet"/);
+  assert.equal(pool.queries.filter(q => q.startsWith('DECLARE')).length, 2, 'one cursor per coin');
+
+  const { metadata, rows } = await readParquet(res.body());
+  assert.deepEqual(columnsOf(metadata).map(c => [c.name, c.type, c.converted_type]), [
+    ['venue', 'BYTE_ARRAY', 'UTF8'],
+    ['symbol', 'BYTE_ARRAY', 'UTF8'],
+    ['timestamp', 'INT64', 'TIMESTAMP_MILLIS'],
+    ['price', 'DOUBLE', undefined],
+    ['openInterest', 'DOUBLE', undefined],
+    ['fundingRate', 'DOUBLE', undefined],
+    ['markPrice', 'DOUBLE', undefined],
+    ['indexPrice', 'DOUBLE', undefined],
+    ['nextFundingTime', 'INT64', 'TIMESTAMP_MILLIS'],
+    ['interestRate', 'DOUBLE', undefined],
+    ['fundingIntervalMs', 'INT64', undefined],
+  ]);
+  assert.deepEqual(rows.map(r => [r.symbol, r.timestamp.getTime(), r.price]), [
+    ['BTCUSDT', BASE_TIME, 60000.5],
+    ['BTCUSDT', BASE_TIME + 60_000, 60010],
+    ['BTCUSDT', BASE_TIME + 120_000, 60020.25],
+    ['ETHUSDT', BASE_TIME, 3000],
+  ]);
+  assert.deepEqual(rows[0], {
+    venue: 'binance',
+    symbol: 'BTCUSDT',
+    timestamp: new Date(BASE_TIME),
+    price: 60000.5,
+    openInterest: 1000.5,
+    fundingRate: 0.0001,
+    markPrice: 60000.5,
+    indexPrice: null,
+    nextFundingTime: new Date(BASE_TIME + 8 * 3_600_000),
+    interestRate: null,
+    fundingIntervalMs: 28_800_000n,
+  });
+});
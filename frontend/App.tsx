@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   LayoutDashboard, Plus, Activity, Trash2, Search, Database,
-  ExternalLink, WifiOff, X, FolderPlus, Edit2, GripVertical, Check, ChevronRight,
+  ExternalLink, WifiOff, X, FolderPlus, Edit2, GripVertical, Check, ChevronRight, Bell, LogOut, GitCompare, Grid3x3, Radar,
+  HeartPulse, Download,
 } from 'lucide-react';
 import {
   DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors,
@@ -13,38 +14,59 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { CoinDetail } from './components/CoinDetail';
+import { ComparisonView } from './components/ComparisonView';
+import { FundingHeatmap } from './components/FundingHeatmap';
+import { ScannerView } from './components/ScannerView';
+import { IngestionBadge, IngestionView } from './components/IngestionView';
 import { AddCoinModal } from './components/AddCoinModal';
-import { dbService } from './services/db';
-import { MarketDataPoint } from './types';
-import { REFRESH_INTERVAL_MS } from './constants';
+import { ExportDialog } from './components/ExportDialog';
+import { AlertsPanel } from './components/AlertsPanel';
+import { LoginScreen } from './components/LoginScreen';
+import { useAuth } from './hooks/useAuth';
+import { DEFAULT_GROUP_ID, useGroups, withMembers } from './hooks/useGroups';
+import { useAlerts } from './hooks/useAlerts';
+import { useBackfillJobs } from './hooks/useBackfillJobs';
+import { useIngestionStatus } from './hooks/useIngestionStatus';
+import { LivePoint, StreamStatus, dbService, parseCoinKey, toCoinKey } from './services/db';
+import { BackfillJob, CoinGroup, CoinGroupPatch, MarketDataPoint, User } from './types';
+import { REFRESH_INTERVAL_MS, VENUE_CHART_URLS } from './constants';
 
 const MAX_POINTS_IN_MEMORY = 120;
 const BACKOFF_STEPS_MS = [5_000, 15_000, 30_000, 60_000];
 
 type SortOption = 'alpha' | 'fr-high' | 'fr-low' | 'recent' | 'manual';
 
-interface CoinGroup {
-  id: string;
-  name: string;
-  color: string;
-  coinSymbols: string[];
-  order: number;
-}
+/** What the main pane shows: the selected coin, the comparison chart, the heatmap, the scanner or ingestion health */
+type MainView = 'coin' | 'compare' | 'heatmap' | 'scanner' | 'ingestion';
+
+const VIEW_TITLES: Record<Exclude<MainView, 'coin'>, string> = {
+  compare: 'Compare',
+  heatmap: 'Heatmap',
+  scanner: 'Scanner',
+  ingestion: 'Ingestion',
+};
 
 const DEFAULT_COLORS = [
   '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6',
   '#ec4899', '#14b8a6', '#f97316', '#06b6d4', '#84cc16',
 ];
 
-const STORAGE_KEY = 'binance-tracker-groups';
-const COLLAPSED_KEY = 'binance-tracker-collapsed';
-const DEFAULT_GROUP_ID = '__default__';
+interface DashboardProps {
+  /** Null while the backend can't confirm the stored session */
+  user: User | null;
+  onSignOut: () => void;
+}
 
-const App: React.FC = () => {
+const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
   const [trackedCoins, setTrackedCoins] = useState<string[]>([]);
   const [selectedCoin, setSelectedCoin] = useState<string | null>(null);
+  const [view, setView] = useState<MainView>('coin');
+  // Coins overlaid in the comparison view; kept while other views are open
+  const [compareKeys, setCompareKeys] = useState<string[]>([]);
   const [marketData, setMarketData] = useState<Record<string, MarketDataPoint[]>>({});
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isConnected, setIsConnected] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
@@ -52,21 +74,18 @@ const App: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<SortOption>('manual');
 
-  const [groups, setGroups] = useState<CoinGroup[]>([]);
+  const {
+    groups, sync: syncGroups, conflict: groupConflict, dismissConflict: dismissGroupConflict,
+  } = useGroups();
   const [isGroupModalOpen, setIsGroupModalOpen] = useState(false);
   const [editingGroup, setEditingGroup] = useState<CoinGroup | null>(null);
 
-  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(() => {
-    try {
-      const stored = localStorage.getItem(COLLAPSED_KEY);
-      return stored ? new Set(JSON.parse(stored)) : new Set();
-    } catch {
-      return new Set();
-    }
-  });
-
   const [activeId, setActiveId] = useState<string | null>(null);
 
+  // Bumped when a coin's backfill finishes so CoinDetail remounts and
+  // re-pages history that didn't exist when it first loaded
+  const [historyVersions, setHistoryVersions] = useState<Record<string, number>>({});
+
   const intervalRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const backoffIndexRef = useRef(0);
   const trackedCoinsRef = useRef<string[]>([]);
@@ -82,62 +101,46 @@ const App: React.FC = () => {
 
   useEffect(() => { trackedCoinsRef.current = trackedCoins; }, [trackedCoins]);
 
-  useEffect(() => {
-    localStorage.setItem(COLLAPSED_KEY, JSON.stringify([...collapsedGroups]));
-  }, [collapsedGroups]);
+  // ── Backfill: reload a coin's history as exchange history lands ─────────────
+  const onBackfillProgress = useCallback((coinKey: string, done: boolean) => {
+    if (!trackedCoinsRef.current.includes(coinKey)) return;
+    dbService.getMarketData(coinKey, MAX_POINTS_IN_MEMORY)
+      .then(history => setMarketData(prev => ({ ...prev, [coinKey]: history })))
+      .catch(() => { /* keep what we have — the next poll tops it up */ });
+    if (done) setHistoryVersions(prev => ({ ...prev, [coinKey]: (prev[coinKey] ?? 0) + 1 }));
+  }, []);
 
-  const toggleCollapsed = (groupId: string) => {
-    setCollapsedGroups(prev => {
-      const next = new Set(prev);
-      next.has(groupId) ? next.delete(groupId) : next.add(groupId);
-      return next;
-    });
-  };
+  const { jobs: backfillJobs, refresh: refreshBackfillJobs } = useBackfillJobs(onBackfillProgress);
 
-  useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try { setGroups(JSON.parse(stored)); }
-      catch { console.error('Failed to parse stored groups'); }
-    }
-  }, []);
+  // Per-coin ingestion health for the sidebar badges and the ingestion view
+  const ingestion = useIngestionStatus();
 
-  useEffect(() => {
-    if (groups.length > 0) localStorage.setItem(STORAGE_KEY, JSON.stringify(groups));
-  }, [groups]);
+  const alerts = useAlerts();
 
-  useEffect(() => {
-    if (trackedCoins.length > 0 && groups.length === 0) {
-      setGroups([{
-        id: DEFAULT_GROUP_ID,
-        name: 'All Coins',
-        color: DEFAULT_COLORS[0],
-        coinSymbols: [...trackedCoins],
-        order: 0,
-      }]);
-    }
-  }, [trackedCoins, groups.length]);
+  const activeBackfill = (coinKey: string): BackfillJob | null => {
+    const job = backfillJobs[coinKey];
+    return job && (job.status === 'pending' || job.status === 'running') ? job : null;
+  };
 
-  useEffect(() => {
-    if (trackedCoins.length === 0 || groups.length === 0) return;
-    const allGroupedCoins = new Set<string>();
-    groups.forEach(g => g.coinSymbols.forEach(s => allGroupedCoins.add(s)));
-    const ungroupedCoins = trackedCoins.filter(c => !allGroupedCoins.has(c));
-    if (ungroupedCoins.length > 0 && groups.find(g => g.id === DEFAULT_GROUP_ID)) {
-      setGroups(prev => prev.map(g =>
-        g.id === DEFAULT_GROUP_ID
-          ? { ...g, coinSymbols: [...g.coinSymbols, ...ungroupedCoins] }
-          : g
-      ));
-    }
-  }, [trackedCoins, groups]);
+  // ── Groups: optimistic locally, then synced through /api/groups ─────────────
+  const patchGroup = (next: CoinGroup[], groupId: string, patch: CoinGroupPatch) =>
+    syncGroups(next, versionOf => dbService.updateGroup(groupId, patch, versionOf(groupId)));
+
+  // Collapsing isn't an edit other tabs need to be protected from — no version
+  const toggleCollapsed = (groupId: string) => {
+    const collapsed = !groups.find(g => g.id === groupId)?.collapsed;
+    syncGroups(
+      groups.map(g => g.id === groupId ? { ...g, collapsed } : g),
+      () => dbService.updateGroup(groupId, { collapsed }),
+    );
+  };
 
   // ── Init: lazy startup — only load the first coin's history ─────────────────
   useEffect(() => {
     const init = async () => {
       try {
         const storedCoins = await dbService.getCoins();
-        const symbols = storedCoins.map(c => c.symbol);
+        const symbols = storedCoins.map(c => toCoinKey(c.venue, c.symbol));
         setTrackedCoins(symbols);
 
         // Seed all coins with empty arrays immediately so the UI can render
@@ -158,13 +161,14 @@ const App: React.FC = () => {
         }
 
         setIsConnected(true);
+        refreshBackfillJobs();
       } catch (err) {
         console.error('Failed to initialise:', err);
         setIsConnected(false);
       }
     };
     init();
-  }, []);
+  }, [refreshBackfillJobs]);
 
   // ── Lazy-load history when user selects a coin for the first time ───────────
   useEffect(() => {
@@ -176,9 +180,63 @@ const App: React.FC = () => {
       .catch(() => { /* leave as [] */ });
   }, [selectedCoin]);
 
-  // ── Poll: N+1 requests → 1 request via latest-batch ─────────────────────────
+  // Appends live points (stream or poll) to each coin's in-memory window
+  const mergeLatest = useCallback((points: LivePoint[]) => {
+    setMarketData(prev => {
+      const next = { ...prev };
+      for (const point of points) {
+        const sym = toCoinKey(point.venue, point.symbol);
+        const existing = next[sym] ?? [];
+        if (!existing.some(p => p.timestamp === point.timestamp)) {
+          next[sym] = [...existing, point]
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .slice(-MAX_POINTS_IN_MEMORY);
+        }
+      }
+      return next;
+    });
+  }, []);
+
+  // ── Live stream: points pushed over SSE as soon as the server stores them ────
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('connecting');
+  const streamOpenRef = useRef(false);
+  const lastStreamedRef = useRef<number | undefined>(undefined);
+  const trackedKey = trackedCoins.join(',');
+
+  useEffect(() => {
+    if (!trackedKey) return;
+    const unsubscribe = dbService.subscribe(
+      trackedKey.split(','),
+      point => {
+        lastStreamedRef.current = Math.max(lastStreamedRef.current ?? 0, point.timestamp);
+        mergeLatest([point]);
+        setLastUpdated(new Date());
+      },
+      {
+        // Re-subscribing after the coin list changes resumes where we were
+        since: lastStreamedRef.current,
+        onStatus: status => {
+          streamOpenRef.current = status === 'open';
+          setStreamStatus(status);
+          if (status === 'open') setIsConnected(true);
+        },
+      },
+    );
+    return () => {
+      unsubscribe();
+      streamOpenRef.current = false;
+    };
+  }, [trackedKey, mergeLatest]);
+
+  // ── Poll (fallback): N+1 requests → 1 request via latest-batch ──────────────
+  // Only does work while the stream is down; otherwise it just re-arms.
   const poll = useCallback(async () => {
     const coins = trackedCoinsRef.current;
+    if (streamOpenRef.current) {
+      backoffIndexRef.current = 0;
+      intervalRef.current = setTimeout(poll, REFRESH_INTERVAL_MS);
+      return;
+    }
     try {
       if (coins.length === 0) {
         // Nothing to poll — still do a health check so the status indicator works
@@ -188,21 +246,7 @@ const App: React.FC = () => {
       }
 
       // Single HTTP request, single DB query (DISTINCT ON) for ALL coins
-      const latestPoints = await dbService.getLatestBatch(coins);
-
-      setMarketData(prev => {
-        const next = { ...prev };
-        for (const point of latestPoints) {
-          const sym = point.symbol;
-          const existing = next[sym] ?? [];
-          if (!existing.some(p => p.timestamp === point.timestamp)) {
-            next[sym] = [...existing, point]
-              .sort((a, b) => a.timestamp - b.timestamp)
-              .slice(-MAX_POINTS_IN_MEMORY);
-          }
-        }
-        return next;
-      });
+      mergeLatest(await dbService.getLatestBatch(coins));
 
       setIsConnected(true);
       setLastUpdated(new Date());
@@ -214,7 +258,7 @@ const App: React.FC = () => {
       setIsConnected(false);
       intervalRef.current = setTimeout(poll, delay);
     }
-  }, []);
+  }, [mergeLatest]);
 
   useEffect(() => {
     intervalRef.current = setTimeout(poll, REFRESH_INTERVAL_MS);
@@ -225,11 +269,13 @@ const App: React.FC = () => {
     if (trackedCoins.includes(symbol)) return;
     await dbService.addCoin(symbol);
     setTrackedCoins(prev => [...prev, symbol]);
+    refreshBackfillJobs();
     if (!selectedCoin) setSelectedCoin(symbol);
-    setGroups(prev => prev.map(g =>
-      g.id === DEFAULT_GROUP_ID
-        ? { ...g, coinSymbols: [...g.coinSymbols, symbol] } : g
-    ));
+    // The server files new coins into the default group
+    syncGroups(
+      groups.map(g => g.id === DEFAULT_GROUP_ID ? { ...g, coinSymbols: [...g.coinSymbols, symbol] } : g),
+      () => dbService.getGroups(),
+    );
     // Fetch and cache history for the newly added coin right away
     try {
       const history = await dbService.getMarketData(symbol, MAX_POINTS_IN_MEMORY);
@@ -248,33 +294,57 @@ const App: React.FC = () => {
     setMarketData(prev => { const n = { ...prev }; delete n[symbol]; return n; });
     loadedCoinsRef.current.delete(symbol);
     if (selectedCoin === symbol) setSelectedCoin(next[0] ?? null);
-    setGroups(prev => prev.map(g => ({ ...g, coinSymbols: g.coinSymbols.filter(c => c !== symbol) })));
+    setCompareKeys(prev => prev.filter(c => c !== symbol));
+    // Memberships go with the watchlist entry server-side
+    syncGroups(
+      groups.map(g => ({ ...g, coinSymbols: g.coinSymbols.filter(c => c !== symbol) })),
+      () => dbService.getGroups(),
+    );
+  };
+
+  const openCoin = (key: string) => {
+    setSelectedCoin(key);
+    setView('coin');
+  };
+
+  // Seeds an empty comparison with the coin being viewed
+  const toggleCompare = () => {
+    if (view === 'compare') return setView('coin');
+    if (compareKeys.length === 0 && selectedCoin) setCompareKeys([selectedCoin]);
+    setView('compare');
   };
 
   const createGroup = (name: string, color: string, coinSymbols: string[]) => {
-    setGroups(prev => [...prev, {
+    const group: CoinGroup = {
       id: `group_${Date.now()}`,
-      name, color, coinSymbols,
-      order: prev.length,
-    }]);
+      name, color, coinSymbols: [],
+      order: Math.max(0, ...groups.map(g => g.order)) + 1,
+      collapsed: false,
+      version: 1,
+    };
+    syncGroups(
+      withMembers([...groups, group], group.id, coinSymbols),
+      () => dbService.createGroup({ id: group.id, name, color, coinSymbols, order: group.order }),
+    );
   };
 
-  const updateGroup = (groupId: string, updates: Partial<CoinGroup>) => {
-    setGroups(prev => prev.map(g => g.id === groupId ? { ...g, ...updates } : g));
+  const updateGroup = (groupId: string, updates: CoinGroupPatch) => {
+    const next = groups.map(g => g.id === groupId ? { ...g, ...updates } : g);
+    patchGroup(updates.coinSymbols ? withMembers(next, groupId, updates.coinSymbols) : next, groupId, updates);
   };
 
   const deleteGroup = (groupId: string) => {
     if (groupId === DEFAULT_GROUP_ID) return;
     const deletedGroup = groups.find(g => g.id === groupId);
-    setGroups(prev => {
-      const filtered = prev.filter(g => g.id !== groupId);
-      if (!deletedGroup?.coinSymbols.length) return filtered;
-      return filtered.map(g =>
+    const filtered = groups.filter(g => g.id !== groupId);
+    syncGroups(
+      !deletedGroup?.coinSymbols.length ? filtered : filtered.map(g =>
         g.id === DEFAULT_GROUP_ID
           ? { ...g, coinSymbols: [...g.coinSymbols, ...deletedGroup.coinSymbols.filter(s => !g.coinSymbols.includes(s))] }
           : g
-      );
-    });
+      ),
+      () => dbService.deleteGroup(groupId),
+    );
   };
 
   const handleDragStart = (event: DragStartEvent) => setActiveId(event.active.id as string);
@@ -289,14 +359,17 @@ const App: React.FC = () => {
     const sourceGroup = groups.find(g => g.coinSymbols.includes(coinSymbol));
     if (!sourceGroup) return;
 
+    // Every move is one PATCH of the group the coin lands in; the server
+    // takes it out of the group it came from
+    const moveInto = (targetId: string, coinSymbols: string[]) =>
+      patchGroup(withMembers(groups, targetId, coinSymbols), targetId, { coinSymbols });
+
     const isGroupTarget = overId.startsWith('group_') || overId === DEFAULT_GROUP_ID;
     if (isGroupTarget) {
       if (sourceGroup.id === overId) return;
-      setGroups(prev => prev.map(g => {
-        if (g.id === sourceGroup.id) return { ...g, coinSymbols: g.coinSymbols.filter(s => s !== coinSymbol) };
-        if (g.id === overId && !g.coinSymbols.includes(coinSymbol)) return { ...g, coinSymbols: [...g.coinSymbols, coinSymbol] };
-        return g;
-      }));
+      const target = groups.find(g => g.id === overId);
+      if (!target || target.coinSymbols.includes(coinSymbol)) return;
+      moveInto(target.id, [...target.coinSymbols, coinSymbol]);
       return;
     }
 
@@ -307,23 +380,12 @@ const App: React.FC = () => {
       const oldIndex = sourceGroup.coinSymbols.indexOf(coinSymbol);
       const newIndex = sourceGroup.coinSymbols.indexOf(overId);
       if (oldIndex !== newIndex) {
-        setGroups(prev => prev.map(g =>
-          g.id === sourceGroup.id
-            ? { ...g, coinSymbols: arrayMove(g.coinSymbols, oldIndex, newIndex) }
-            : g
-        ));
+        moveInto(sourceGroup.id, arrayMove(sourceGroup.coinSymbols, oldIndex, newIndex));
       }
     } else {
-      const insertIndex = targetGroup.coinSymbols.indexOf(overId);
-      setGroups(prev => prev.map(g => {
-        if (g.id === sourceGroup.id) return { ...g, coinSymbols: g.coinSymbols.filter(s => s !== coinSymbol) };
-        if (g.id === targetGroup.id) {
-          const updated = [...g.coinSymbols];
-          updated.splice(insertIndex, 0, coinSymbol);
-          return { ...g, coinSymbols: updated };
-        }
-        return g;
-      }));
+      const updated = [...targetGroup.coinSymbols];
+      updated.splice(updated.indexOf(overId), 0, coinSymbol);
+      moveInto(targetGroup.id, updated);
     }
   };
 
@@ -366,12 +428,14 @@ const App: React.FC = () => {
       id: symbol,
       data: { groupId },
     });
+    const latest = marketData[symbol]?.at(-1);
+    const oiChange24h = latest?.oiChange?.['24h']?.pct;
 
     return (
       <div
         ref={setNodeRef}
         style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.5 : 1 }}
-        onClick={() => setSelectedCoin(symbol)}
+        onClick={() => openCoin(symbol)}
         className={`group flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors ${
           selectedCoin === symbol
             ? 'bg-slate-800 text-white border border-slate-700'
@@ -383,10 +447,24 @@ const App: React.FC = () => {
             <GripVertical size={14} />
           </div>
           <div className="flex flex-col overflow-hidden">
-            <span className="font-medium text-sm truncate">{symbol}</span>
-            {marketData[symbol]?.length > 0 && (
-              <span className={`text-xs ${marketData[symbol].at(-1)!.fundingRate > 0 ? 'text-green-500' : 'text-red-500'}`}>
-                FR: {(marketData[symbol].at(-1)!.fundingRate * 100).toFixed(4)}%
+            <div className="flex items-center gap-1.5">
+              <CoinLabel coinKey={symbol} />
+              <IngestionBadge status={ingestion.statuses[symbol]} />
+            </div>
+            {activeBackfill(symbol) ? (
+              <span className="text-xs text-blue-400">
+                Backfilling {Math.round(activeBackfill(symbol)!.progress * 100)}%
+              </span>
+            ) : latest && (
+              <span className="text-xs">
+                <span className={latest.fundingRate > 0 ? 'text-green-500' : 'text-red-500'}>
+                  FR: {(latest.fundingRate * 100).toFixed(4)}%
+                </span>
+                {oiChange24h != null && (
+                  <span className="text-slate-500">
+                    {' · OI 24h '}{(oiChange24h > 0 ? '+' : '') + oiChange24h.toFixed(1)}%
+                  </span>
+                )}
               </span>
             )}
           </div>
@@ -406,7 +484,7 @@ const App: React.FC = () => {
 
   const DroppableGroup: React.FC<DroppableGroupProps> = ({ group }) => {
     const { setNodeRef, isOver } = useDroppable({ id: group.id });
-    const isCollapsed = collapsedGroups.has(group.id);
+    const isCollapsed = group.collapsed;
 
     return (
       <div className="mb-1">
@@ -431,7 +509,8 @@ const App: React.FC = () => {
           <button
             onClick={e => {
               e.stopPropagation();
-              setEditingGroup(group);
+              // `group` is the filtered display copy; edit the full member list
+              setEditingGroup(groups.find(g => g.id === group.id) ?? group);
               setIsGroupModalOpen(true);
             }}
             className="ml-1 p-1 text-slate-600 hover:text-slate-400 transition-colors flex-shrink-0 rounded"
@@ -521,6 +600,14 @@ const App: React.FC = () => {
           )}
 
           <div className="flex-1 overflow-y-auto px-2 py-2">
+            {groupConflict && (
+              <div className="mx-2 mb-2 px-3 py-2 rounded-lg bg-amber-950/50 border border-amber-800/50 text-xs text-amber-400 flex items-start gap-2">
+                <span className="flex-1">Groups were changed in another tab — showing the latest version.</span>
+                <button onClick={dismissGroupConflict} className="text-amber-500 hover:text-amber-300">
+                  <X size={12} />
+                </button>
+              </div>
+            )}
             {trackedCoins.length === 0 ? (
               <div className="text-center py-8 px-4 text-slate-500 text-sm">
                 <Database className="w-8 h-8 mx-auto mb-2 opacity-30" />
@@ -571,10 +658,12 @@ const App: React.FC = () => {
               <LayoutDashboard size={20} />
             </button>
             <div className="flex items-center gap-3">
-              <h2 className="text-xl font-semibold text-white">{selectedCoin ?? 'Dashboard'}</h2>
-              {selectedCoin && (
+              <h2 className="text-xl font-semibold text-white">
+                {view !== 'coin' ? VIEW_TITLES[view] : selectedCoin ? <CoinLabel coinKey={selectedCoin} className="" /> : 'Dashboard'}
+              </h2>
+              {view === 'coin' && selectedCoin && VENUE_CHART_URLS[parseCoinKey(selectedCoin).venue] && (
                 <a
-                  href={`https://www.binance.com/en/futures/${selectedCoin}`}
+                  href={VENUE_CHART_URLS[parseCoinKey(selectedCoin).venue](parseCoinKey(selectedCoin).symbol)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="flex items-center gap-1.5 px-3 py-1 bg-[#1E2026] hover:bg-[#2B2F36] text-[#FCD535] rounded-full border border-slate-700/50 transition-all text-xs font-medium group"
@@ -585,10 +674,60 @@ const App: React.FC = () => {
               )}
             </div>
           </div>
-          <div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setView(view === 'scanner' ? 'coin' : 'scanner')}
+              title="Market scanner"
+              className={`p-2 rounded-lg transition-colors ${view === 'scanner' ? 'bg-slate-800 text-blue-400' : 'text-slate-400 hover:bg-slate-800'}`}
+            >
+              <Radar size={18} />
+            </button>
+            <button
+              onClick={() => setView(view === 'heatmap' ? 'coin' : 'heatmap')}
+              title="Funding heatmap"
+              className={`p-2 rounded-lg transition-colors ${view === 'heatmap' ? 'bg-slate-800 text-blue-400' : 'text-slate-400 hover:bg-slate-800'}`}
+            >
+              <Grid3x3 size={18} />
+            </button>
+            <button
+              onClick={() => setView(view === 'ingestion' ? 'coin' : 'ingestion')}
+              title="Ingestion health"
+              className={`p-2 rounded-lg transition-colors ${view === 'ingestion' ? 'bg-slate-800 text-blue-400' : 'text-slate-400 hover:bg-slate-800'}`}
+            >
+              <HeartPulse size={18} />
+            </button>
+            <button
+              onClick={toggleCompare}
+              title="Compare coins"
+              className={`p-2 rounded-lg transition-colors ${view === 'compare' ? 'bg-slate-800 text-blue-400' : 'text-slate-400 hover:bg-slate-800'}`}
+            >
+              <GitCompare size={18} />
+            </button>
+            <button
+              onClick={() => setIsExportOpen(true)}
+              title="Export data"
+              className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 transition-colors"
+            >
+              <Download size={18} />
+            </button>
+            <button
+              onClick={() => { setIsAlertsOpen(true); alerts.markSeen(); }}
+              title="Alerts"
+              className="relative p-2 hover:bg-slate-800 rounded-lg text-slate-400 transition-colors"
+            >
+              <Bell size={18} />
+              {alerts.unreadCount > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-amber-500 text-[10px] font-bold text-slate-950 flex items-center justify-center">
+                  {alerts.unreadCount}
+                </span>
+              )}
+            </button>
             {isConnected ? (
-              <div className="px-3 py-1 bg-slate-800 rounded-full border border-slate-700 text-xs text-slate-400 flex items-center gap-2">
-                <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+              <div
+                title={streamStatus === 'open' ? 'Live stream connected' : 'Live stream down — polling every minute'}
+                className="px-3 py-1 bg-slate-800 rounded-full border border-slate-700 text-xs text-slate-400 flex items-center gap-2"
+              >
+                <div className={`w-2 h-2 rounded-full animate-pulse ${streamStatus === 'open' ? 'bg-green-500' : 'bg-amber-500'}`} />
                 {lastUpdated ? `Updated ${lastUpdated.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false })}` : 'Live Sync'}
               </div>
             ) : (
@@ -596,20 +735,60 @@ const App: React.FC = () => {
                 <WifiOff size={12} /> Backend unreachable — retrying…
               </div>
             )}
+            <button
+              onClick={onSignOut}
+              title="Sign out"
+              className="flex items-center gap-2 px-2 py-1.5 hover:bg-slate-800 rounded-lg text-xs text-slate-400 hover:text-white transition-colors"
+            >
+              {user && <span>{user.username}</span>}
+              <LogOut size={16} />
+            </button>
           </div>
         </header>
 
         <div className="flex-1 overflow-y-auto p-6 bg-slate-950">
-          {selectedCoin ? (
+          {view === 'scanner' ? (
+            <ScannerView trackedCoins={trackedCoins} onTrack={addCoin} onSelectCoin={openCoin} />
+          ) : view === 'heatmap' ? (
+            <FundingHeatmap groups={groups} onSelectCoin={openCoin} />
+          ) : view === 'ingestion' ? (
+            <IngestionView
+              statuses={ingestion.statuses}
+              loadedAt={ingestion.loadedAt}
+              onRefresh={ingestion.refresh}
+              trackedCoins={trackedCoins}
+              onSelectCoin={openCoin}
+            />
+          ) : view === 'compare' ? (
+            <ComparisonView
+              trackedCoins={trackedCoins}
+              keys={compareKeys}
+              onChange={setCompareKeys}
+              liveData={marketData}
+            />
+          ) : selectedCoin ? (
             marketData[selectedCoin]?.length > 0 ? (
-              <CoinDetail symbol={selectedCoin} data={marketData[selectedCoin]} />
+              <>
+                {activeBackfill(selectedCoin) && (
+                  <BackfillBanner job={activeBackfill(selectedCoin)!} />
+                )}
+                <CoinDetail
+                  key={`${selectedCoin}:${historyVersions[selectedCoin] ?? 0}`}
+                  symbol={selectedCoin}
+                  data={marketData[selectedCoin]}
+                />
+              </>
             ) : (
               <div className="h-full flex flex-col items-center justify-center text-slate-500 space-y-4">
                 {isConnected ? (
                   <>
                     <div className="animate-spin text-blue-500"><Activity size={32} /></div>
                     <p>Waiting for first data point for {selectedCoin}…</p>
-                    <p className="text-xs text-slate-600">Backend fetches Binance every 60 seconds</p>
+                    {activeBackfill(selectedCoin) ? (
+                      <BackfillBanner job={activeBackfill(selectedCoin)!} />
+                    ) : (
+                      <p className="text-xs text-slate-600">Backend fetches Binance every 60 seconds</p>
+                    )}
                   </>
                 ) : (
                   <>
@@ -630,6 +809,23 @@ const App: React.FC = () => {
       </main>
 
       <AddCoinModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onAdd={addCoin} trackedSymbols={trackedCoins} />
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        trackedCoins={trackedCoins}
+        initialCoins={view === 'coin' && selectedCoin ? [selectedCoin] : []}
+      />
+      <AlertsPanel
+        isOpen={isAlertsOpen}
+        onClose={() => { setIsAlertsOpen(false); alerts.markSeen(); }}
+        rules={alerts.rules}
+        events={alerts.events}
+        trackedCoins={trackedCoins}
+        groups={groups}
+        onCreate={alerts.createRule}
+        onUpdate={alerts.updateRule}
+        onDelete={alerts.deleteRule}
+      />
       <GroupModal
         isOpen={isGroupModalOpen}
         onClose={() => { setIsGroupModalOpen(false); setEditingGroup(null); }}
@@ -644,6 +840,42 @@ const App: React.FC = () => {
   );
 };
 
+// ── BackfillBanner ────────────────────────────────────────────────────────────
+// Progress of the selected coin's history backfill
+const BackfillBanner: React.FC<{ job: BackfillJob }> = ({ job }) => {
+  const days = Math.round((job.end - job.start) / 86_400_000);
+  return (
+    <div className="mb-4 w-full max-w-md mx-auto px-4 py-3 bg-slate-900 border border-slate-800 rounded-lg text-xs text-slate-400">
+      <div className="flex justify-between mb-2">
+        <span>Backfilling {days}d of exchange history…</span>
+        <span className="text-slate-300">{Math.round(job.progress * 100)}%</span>
+      </div>
+      <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-500 transition-all" style={{ width: `${job.progress * 100}%` }} />
+      </div>
+      {job.error && <p className="mt-2 text-amber-500">Retrying after error: {job.error}</p>}
+    </div>
+  );
+};
+
+// ── CoinLabel ─────────────────────────────────────────────────────────────────
+// Symbol plus a small venue tag for anything that isn't on Binance
+const CoinLabel: React.FC<{ coinKey: string; className?: string }> = ({
+  coinKey, className = 'font-medium text-sm truncate',
+}) => {
+  const { venue, symbol } = parseCoinKey(coinKey);
+  return (
+    <span className={className}>
+      {symbol}
+      {venue !== 'binance' && (
+        <span className="ml-1.5 px-1 py-px rounded bg-slate-700/70 text-[9px] uppercase tracking-wider text-slate-400 align-middle">
+          {venue}
+        </span>
+      )}
+    </span>
+  );
+};
+
 // ── GroupModal ────────────────────────────────────────────────────────────────
 const GroupModal: React.FC<{
   isOpen: boolean;
@@ -652,7 +884,7 @@ const GroupModal: React.FC<{
   trackedCoins: string[];
   groups: CoinGroup[];
   onCreate: (name: string, color: string, coinSymbols: string[]) => void;
-  onUpdate: (id: string, updates: Partial<CoinGroup>) => void;
+  onUpdate: (id: string, updates: CoinGroupPatch) => void;
   onDelete: (id: string) => void;
 }> = ({ isOpen, onClose, editingGroup, trackedCoins, onCreate, onUpdate, onDelete }) => {
   const [name, setName] = useState('');
@@ -772,7 +1004,7 @@ const GroupModal: React.FC<{
                         <span className={`w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 transition-colors ${checked ? 'bg-blue-600 border-blue-600' : 'border-slate-600'}`}>
                           {checked && <Check size={10} className="text-white" />}
                         </span>
-                        <span className="font-medium truncate">{symbol}</span>
+                        <CoinLabel coinKey={symbol} className="font-medium truncate" />
                       </button>
                     );
                   })}
@@ -815,4 +1047,19 @@ const GroupModal: React.FC<{
   );
 };
 
+// ── App ───────────────────────────────────────────────────────────────────────
+// Login gate; the dashboard is remounted per user so no state leaks between accounts
+const App: React.FC = () => {
+  const { user, status, signIn, signOut } = useAuth();
+  if (status === 'checking') {
+    return (
+      <div className="flex h-screen items-center justify-center bg-slate-950 text-blue-500">
+        <Activity size={32} className="animate-spin" />
+      </div>
+    );
+  }
+  if (status === 'signed-out') return <LoginScreen onSubmit={signIn} />;
+  return <Dashboard key={user?.id ?? 'offline'} user={user} onSignOut={signOut} />;
+};
+
 export default App;
\ No newline at end of file
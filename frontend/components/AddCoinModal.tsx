@@ -1,44 +1,150 @@
-import React, { useState } from 'react';
-import { X, Search, Plus, Globe } from 'lucide-react';
-import { POPULAR_COINS } from '../constants';
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Search, Plus, Globe, Loader2 } from 'lucide-react';
+import { DEFAULT_VENUE, dbService, toCoinKey } from '../services/db';
+import { SymbolInfo, Venue } from '../types';
 
 interface AddCoinModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAdd: (symbol: string) => void;
+  /** Receives a coin key (see `toCoinKey`); rejects with the server's message */
+  onAdd: (coinKey: string) => Promise<void>;
+  /** Coin keys already on the list */
   trackedSymbols: string[];
 }
 
+const FALLBACK_VENUES: Venue[] = [{ id: DEFAULT_VENUE, label: 'Binance' }];
+const MAX_RESULTS = 50;
+const RECENT_LISTINGS = 15;
+
+/** True when every character of `query` appears in `text` in order. */
+function isSubsequence(query: string, text: string) {
+  let i = 0;
+  for (const ch of text) if (ch === query[i]) i++;
+  return i === query.length;
+}
+
+/**
+ * Ranks a contract against the search: exact symbol, exact base asset,
+ * prefix, substring, then loose subsequence ("moodng" → MOODENGUSDT).
+ * Lower is better; null means no match.
+ */
+function matchRank(query: string, s: SymbolInfo): number | null {
+  if (s.symbol === query) return 0;
+  if (s.baseAsset === query) return 1;
+  if (s.symbol.startsWith(query) || s.baseAsset.startsWith(query)) return 2;
+  if (s.symbol.includes(query)) return 3;
+  if (isSubsequence(query, s.symbol)) return 4;
+  return null;
+}
+
+const formatOnboard = (ms: number | null) =>
+  ms ? new Date(ms).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' }) : null;
+
 export const AddCoinModal: React.FC<AddCoinModalProps> = ({ isOpen, onClose, onAdd, trackedSymbols }) => {
   const [search, setSearch] = useState('');
+  const [venues, setVenues] = useState<Venue[]>(FALLBACK_VENUES);
+  const [venue, setVenue] = useState(DEFAULT_VENUE);
+  const [symbolsByVenue, setSymbolsByVenue] = useState<Record<string, SymbolInfo[]>>({});
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [adding, setAdding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
-  if (!isOpen) return null;
+  useEffect(() => {
+    if (!isOpen) return;
+    dbService.getVenues()
+      .then(list => { if (list.length > 0) setVenues(list); })
+      .catch(() => { /* keep the Binance-only fallback */ });
+  }, [isOpen]);
+
+  // The list barely changes, so it's fetched once per venue per session
+  useEffect(() => {
+    if (!isOpen || symbolsByVenue[venue]) return;
+    setLoadFailed(false);
+    dbService.getSymbols(venue)
+      .then(list => setSymbolsByVenue(prev => ({ ...prev, [venue]: list })))
+      .catch(() => setLoadFailed(true));
+  }, [isOpen, venue, symbolsByVenue]);
 
   const normalizedSearch = search.toUpperCase().trim();
+  const symbols = symbolsByVenue[venue];
+  const isTracked = (coin: string) => trackedSymbols.includes(toCoinKey(venue, coin));
 
-  const availableCoins = POPULAR_COINS.filter(
-    coin => !trackedSymbols.includes(coin) && coin.includes(normalizedSearch)
-  );
+  const results = useMemo(() => {
+    if (!symbols) return [];
+    if (!normalizedSearch) {
+      return [...symbols]
+        .filter(s => s.contractType === 'PERPETUAL')
+        .sort((a, b) => (b.onboardDate ?? 0) - (a.onboardDate ?? 0))
+        .slice(0, RECENT_LISTINGS);
+    }
+    return symbols
+      .map(s => ({ s, rank: matchRank(normalizedSearch, s) }))
+      .filter((m): m is { s: SymbolInfo; rank: number } => m.rank !== null)
+      .sort((a, b) => a.rank - b.rank || a.s.symbol.length - b.s.symbol.length || a.s.symbol.localeCompare(b.s.symbol))
+      .slice(0, MAX_RESULTS)
+      .map(m => m.s);
+  }, [symbols, normalizedSearch]);
+
+  if (!isOpen) return null;
+
+  const venueLabel = venues.find(v => v.id === venue)?.label ?? venue;
 
-  const isExactMatch = availableCoins.includes(normalizedSearch);
-  const isAlreadyTracked = trackedSymbols.includes(normalizedSearch);
+  const close = () => {
+    onClose();
+    setSearch('');
+    setError(null);
+  };
+
+  const add = async (coin: string) => {
+    setAdding(coin);
+    setError(null);
+    try {
+      await onAdd(toCoinKey(venue, coin));
+      close();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      // request() errors look like `HTTP 400: {"error":"…"}` — show just the reason
+      const match = /"error":"([^"]+)"/.exec(message);
+      setError(match ? match[1] : message);
+    } finally {
+      setAdding(null);
+    }
+  };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
       <div className="bg-slate-800 border border-slate-700 w-full max-w-md rounded-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
         <div className="flex items-center justify-between p-4 border-b border-slate-700 bg-slate-900/50">
           <h2 className="text-lg font-semibold text-white">Track New Coin</h2>
-          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+          <button onClick={close} className="text-slate-400 hover:text-white transition-colors">
             <X size={20} />
           </button>
         </div>
-        
+
         <div className="p-4">
+          {venues.length > 1 && (
+            <div className="flex gap-1 mb-3">
+              {venues.map(v => (
+                <button
+                  key={v.id}
+                  onClick={() => setVenue(v.id)}
+                  className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                    venue === v.id
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-slate-900 text-slate-400 hover:bg-slate-700 hover:text-slate-200'
+                  }`}
+                >
+                  {v.label}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className="relative mb-4">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
             <input
               type="text"
-              placeholder="Search or enter symbol (e.g. MOODENGUSDT)"
+              placeholder="Search symbol or asset (e.g. SOL, moodeng)"
               className="w-full bg-slate-900 border border-slate-700 rounded-lg py-2 pl-10 pr-4 text-sm text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 uppercase placeholder:normal-case"
               value={search}
               onChange={(e) => setSearch(e.target.value)}
@@ -46,15 +152,15 @@ export const AddCoinModal: React.FC<AddCoinModalProps> = ({ isOpen, onClose, onA
             />
           </div>
 
+          {error && (
+            <div className="mb-3 px-3 py-2 rounded-lg bg-red-950/60 border border-red-800/50 text-xs text-red-400">{error}</div>
+          )}
+
           <div className="max-h-[300px] overflow-y-auto space-y-2 custom-scrollbar">
-            {/* Custom Add Button */}
-            {normalizedSearch.length > 0 && !isExactMatch && !isAlreadyTracked && (
+            {/* Symbol list unavailable — fall back to free text, the server still validates it */}
+            {loadFailed && normalizedSearch.length > 0 && !isTracked(normalizedSearch) && (
                <button
-                  onClick={() => {
-                    onAdd(normalizedSearch);
-                    onClose();
-                    setSearch('');
-                  }}
+                  onClick={() => add(normalizedSearch)}
                   className="w-full flex items-center justify-between p-3 rounded-lg bg-blue-500/10 hover:bg-blue-500/20 border border-blue-500/50 transition-all group"
                 >
                   <div className="flex items-center gap-3">
@@ -63,50 +169,74 @@ export const AddCoinModal: React.FC<AddCoinModalProps> = ({ isOpen, onClose, onA
                     </div>
                     <div className="text-left">
                         <span className="block font-bold text-blue-400 text-sm">Add "{normalizedSearch}"</span>
-                        <span className="block text-xs text-blue-300/60">Custom Symbol</span>
+                        <span className="block text-xs text-blue-300/60">Symbol list unavailable · {venueLabel}</span>
                     </div>
                   </div>
                   <Plus size={18} className="text-blue-400" />
                 </button>
             )}
 
-            {/* Predefined List */}
-            {availableCoins.map(coin => (
-              <button
-                key={coin}
-                onClick={() => {
-                  onAdd(coin);
-                  onClose();
-                  setSearch('');
-                }}
-                className="w-full flex items-center justify-between p-3 rounded-lg bg-slate-700/30 hover:bg-slate-700 transition-colors group"
-              >
-                <div className="flex items-center gap-3">
-                     <div className="w-8 h-8 rounded-full bg-slate-600/50 flex items-center justify-center text-slate-400 font-bold text-[10px]">
-                        {coin.substring(0, 3)}
-                     </div>
-                     <span className="font-medium text-slate-200">{coin}</span>
-                </div>
-                <Plus size={18} className="text-blue-400 opacity-0 group-hover:opacity-100 transition-opacity" />
-              </button>
-            ))}
+            {!symbols && !loadFailed && (
+              <div className="flex items-center justify-center gap-2 py-8 text-slate-500 text-sm">
+                <Loader2 size={16} className="animate-spin" /> Loading {venueLabel} contracts…
+              </div>
+            )}
+
+            {symbols && !normalizedSearch && results.length > 0 && (
+              <div className="text-xs text-slate-500 px-1">Recently listed on {venueLabel}</div>
+            )}
+
+            {results.map(s => {
+              const tracked = isTracked(s.symbol);
+              return (
+                <button
+                  key={s.symbol}
+                  onClick={() => add(s.symbol)}
+                  disabled={tracked || adding !== null}
+                  className="w-full flex items-center justify-between p-3 rounded-lg bg-slate-700/30 hover:bg-slate-700 disabled:hover:bg-slate-700/30 disabled:opacity-60 transition-colors group"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="w-8 h-8 flex-shrink-0 rounded-full bg-slate-600/50 flex items-center justify-center text-slate-400 font-bold text-[10px]">
+                      {s.baseAsset.substring(0, 3)}
+                    </div>
+                    <div className="text-left min-w-0">
+                      <span className="block font-medium text-slate-200 truncate">
+                        {s.symbol}
+                        {s.contractType !== 'PERPETUAL' && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-600/60 text-[10px] text-slate-300 align-middle">{s.contractType}</span>
+                        )}
+                      </span>
+                      <span className="block text-xs text-slate-500">
+                        {s.baseAsset}/{s.quoteAsset}
+                        {formatOnboard(s.onboardDate) && ` · listed ${formatOnboard(s.onboardDate)}`}
+                      </span>
+                    </div>
+                  </div>
+                  {tracked ? (
+                    <span className="text-xs text-slate-500 italic flex-shrink-0">tracked</span>
+                  ) : adding === s.symbol ? (
+                    <Loader2 size={18} className="text-blue-400 animate-spin flex-shrink-0" />
+                  ) : (
+                    <Plus size={18} className="text-blue-400 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" />
+                  )}
+                </button>
+              );
+            })}
 
             {/* Empty State */}
-            {normalizedSearch.length === 0 && availableCoins.length === 0 && (
+            {symbols && normalizedSearch.length > 0 && results.length === 0 && (
               <div className="text-center py-8 text-slate-500 text-sm">
-                Start typing to search or add a custom coin.
+                No {venueLabel} contract matches "{normalizedSearch}".
               </div>
             )}
-            
-            {/* Already Tracked Message */}
-            {isAlreadyTracked && (
-                <div className="text-center py-4 text-slate-500 text-sm italic">
-                    {normalizedSearch} is already on your list.
-                </div>
+            {loadFailed && normalizedSearch.length === 0 && (
+              <div className="text-center py-8 text-slate-500 text-sm">
+                Couldn't load the {venueLabel} symbol list — type a symbol to add it anyway.
+              </div>
             )}
           </div>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
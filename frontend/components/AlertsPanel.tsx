@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { X, Bell, Plus, Trash2, Power } from 'lucide-react';
+import { AlertComparator, AlertEvent, AlertMetric, AlertRule, AlertRuleInput, CoinGroup } from '../types';
+import { DEFAULT_VENUE, parseCoinKey, toCoinKey } from '../services/db';
+
+interface AlertsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rules: AlertRule[];
+  events: AlertEvent[];
+  /** Coin keys on the watch list */
+  trackedCoins: string[];
+  groups: CoinGroup[];
+  onCreate: (input: AlertRuleInput) => Promise<void>;
+  onUpdate: (id: number, patch: Partial<AlertRuleInput>) => Promise<void>;
+  onDelete: (id: number) => Promise<void>;
+}
+
+// `scale` converts what the user types into what the server stores:
+// funding rates are entered in percent but stored as raw rates.
+const METRICS: { id: AlertMetric; label: string; unit: string; scale: number; isChange: boolean }[] = [
+  { id: 'price', label: 'Price', unit: '', scale: 1, isChange: false },
+  { id: 'open_interest', label: 'Open interest', unit: 'coins', scale: 1, isChange: false },
+  { id: 'funding_rate', label: 'Funding rate', unit: '%', scale: 0.01, isChange: false },
+  { id: 'price_change_pct', label: 'Price change', unit: '%', scale: 1, isChange: true },
+  { id: 'open_interest_change_pct', label: 'OI change', unit: '%', scale: 1, isChange: true },
+  { id: 'funding_rate_change', label: 'Funding change', unit: '% pts', scale: 0.01, isChange: true },
+];
+
+const COMPARATORS: { id: AlertComparator; label: string }[] = [
+  { id: 'above', label: 'is above' },
+  { id: 'below', label: 'is below' },
+  { id: 'crosses_above', label: 'crosses above' },
+  { id: 'crosses_below', label: 'crosses below' },
+];
+
+const DURATIONS = [
+  { label: '5m', ms: 5 * 60_000 },
+  { label: '15m', ms: 15 * 60_000 },
+  { label: '1h', ms: 60 * 60_000 },
+  { label: '4h', ms: 4 * 60 * 60_000 },
+  { label: '24h', ms: 24 * 60 * 60_000 },
+];
+
+const metricInfo = (id: AlertMetric) => METRICS.find(m => m.id === id)!;
+
+const formatDuration = (ms: number) =>
+  DURATIONS.find(d => d.ms === ms)?.label ?? `${Math.round(ms / 60_000)}m`;
+
+/** Threshold / observed value in the units the form uses */
+const formatValue = (metric: AlertMetric, value: number) => {
+  const { unit, scale } = metricInfo(metric);
+  const shown = value / scale;
+  return `${Number(shown.toPrecision(6))}${unit ? ` ${unit}` : ''}`;
+};
+
+/** e.g. "OI change is above 10 %" — shared by rules and the events they fired */
+const describeCondition = ({ metric, comparator, threshold }: Pick<AlertRule, 'metric' | 'comparator' | 'threshold'>) =>
+  `${metricInfo(metric).label} ${COMPARATORS.find(c => c.id === comparator)?.label ?? comparator} ${formatValue(metric, threshold)}`;
+
+const describeRule = (rule: AlertRule) =>
+  metricInfo(rule.metric).isChange || rule.comparator.startsWith('crosses')
+    ? `${describeCondition(rule)} over ${formatDuration(rule.lookbackMs)}`
+    : describeCondition(rule);
+
+const ruleTarget = (rule: AlertRule) => rule.groupId
+  ? `Group: ${rule.groupName ?? rule.groupId} (${rule.members.length})`
+  : toCoinKey(rule.venue ?? DEFAULT_VENUE, rule.symbol ?? '');
+
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({
+  isOpen, onClose, rules, events, trackedCoins, groups, onCreate, onUpdate, onDelete,
+}) => {
+  const [tab, setTab] = useState<'rules' | 'history'>('rules');
+  const [target, setTarget] = useState('');
+  const [name, setName] = useState('');
+  const [metric, setMetric] = useState<AlertMetric>('open_interest_change_pct');
+  const [comparator, setComparator] = useState<AlertComparator>('above');
+  const [threshold, setThreshold] = useState('10');
+  const [lookbackMs, setLookbackMs] = useState(DURATIONS[2].ms);
+  const [cooldownMs, setCooldownMs] = useState(DURATIONS[2].ms);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && !target && trackedCoins.length > 0) setTarget(`coin:${trackedCoins[0]}`);
+  }, [isOpen, target, trackedCoins]);
+
+  // Crossing needs a level to cross — fall back to above/below for change metrics
+  useEffect(() => {
+    if (metricInfo(metric).isChange && comparator.startsWith('crosses')) setComparator('above');
+  }, [metric, comparator]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(threshold);
+    if (!Number.isFinite(value)) { setError('Threshold must be a number'); return; }
+    if (!target) { setError('Pick a coin or group'); return; }
+
+    const input: AlertRuleInput = {
+      name: name.trim() || null,
+      metric, comparator,
+      threshold: value * metricInfo(metric).scale,
+      lookbackMs, cooldownMs,
+    };
+    if (target.startsWith('group:')) {
+      const group = groups.find(g => g.id === target.slice('group:'.length));
+      if (!group) { setError('Group no longer exists'); return; }
+      input.groupId = group.id;
+    } else {
+      Object.assign(input, parseCoinKey(target.slice('coin:'.length)));
+    }
+
+    try {
+      await onCreate(input);
+      setError(null);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const selectClass = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 w-full max-w-2xl rounded-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-slate-700 bg-slate-900/50">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2"><Bell size={18} /> Alerts</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-1 px-4 pt-3">
+          {(['rules', 'history'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium capitalize transition-colors ${
+                tab === t ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 hover:bg-slate-700 hover:text-slate-200'
+              }`}
+            >
+              {t}{t === 'history' && events.length > 0 ? ` (${events.length})` : ''}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'rules' ? (
+          <div className="p-4 space-y-4">
+            <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-2 p-3 bg-slate-900/50 border border-slate-700 rounded-lg">
+              <select value={target} onChange={e => setTarget(e.target.value)} className={selectClass}>
+                <optgroup label="Coins">
+                  {trackedCoins.map(c => <option key={c} value={`coin:${c}`}>{c}</option>)}
+                </optgroup>
+                {groups.length > 0 && (
+                  <optgroup label="Groups">
+                    {groups.map(g => <option key={g.id} value={`group:${g.id}`}>{g.name}</option>)}
+                  </optgroup>
+                )}
+              </select>
+              <input
+                type="text"
+                placeholder="Name (optional)"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                className={selectClass}
+              />
+              <select value={metric} onChange={e => setMetric(e.target.value as AlertMetric)} className={selectClass}>
+                {METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+              <div className="flex gap-2">
+                <select value={comparator} onChange={e => setComparator(e.target.value as AlertComparator)} className={`${selectClass} flex-1`}>
+                  {COMPARATORS
+                    .filter(c => !metricInfo(metric).isChange || !c.id.startsWith('crosses'))
+                    .map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  value={threshold}
+                  onChange={e => setThreshold(e.target.value)}
+                  className={`${selectClass} w-24`}
+                />
+                <span className="self-center text-xs text-slate-500 w-10">{metricInfo(metric).unit}</span>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                Lookback
+                <select value={lookbackMs} onChange={e => setLookbackMs(Number(e.target.value))} className={`${selectClass} flex-1`}>
+                  {DURATIONS.map(d => <option key={d.ms} value={d.ms}>{d.label}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                Cooldown
+                <select value={cooldownMs} onChange={e => setCooldownMs(Number(e.target.value))} className={`${selectClass} flex-1`}>
+                  <option value={0}>none</option>
+                  {DURATIONS.map(d => <option key={d.ms} value={d.ms}>{d.label}</option>)}
+                </select>
+              </label>
+              {error && <p className="col-span-2 text-xs text-red-400">{error}</p>}
+              <button
+                type="submit"
+                disabled={trackedCoins.length === 0}
+                className="col-span-2 flex items-center justify-center gap-2 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                <Plus size={16} /> Add rule
+              </button>
+            </form>
+
+            <div className="max-h-[300px] overflow-y-auto space-y-2 custom-scrollbar">
+              {rules.length === 0 && (
+                <div className="text-center py-6 text-slate-500 text-sm">No alert rules yet.</div>
+              )}
+              {rules.map(rule => (
+                <div key={rule.id} className={`flex items-center justify-between p-3 rounded-lg bg-slate-700/30 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <div className="min-w-0">
+                    <div className="text-sm text-slate-200 truncate">
+                      {rule.name ? <span className="font-medium">{rule.name} · </span> : null}
+                      {ruleTarget(rule)}
+                    </div>
+                    <div className="text-xs text-slate-400">
+                      {describeRule(rule)}
+                      {rule.cooldownMs > 0 && <span className="text-slate-500"> · cooldown {formatDuration(rule.cooldownMs)}</span>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => onUpdate(rule.id, { enabled: !rule.enabled })}
+                      title={rule.enabled ? 'Disable' : 'Enable'}
+                      className={`p-1.5 rounded-md transition-colors ${rule.enabled ? 'text-green-400 hover:bg-green-500/20' : 'text-slate-500 hover:bg-slate-600'}`}
+                    >
+                      <Power size={14} />
+                    </button>
+                    <button
+                      onClick={() => onDelete(rule.id)}
+                      title="Delete"
+                      className="p-1.5 text-slate-500 hover:bg-red-500/20 hover:text-red-400 rounded-md transition-colors"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 max-h-[480px] overflow-y-auto space-y-2 custom-scrollbar">
+            {events.length === 0 && (
+              <div className="text-center py-8 text-slate-500 text-sm">No alerts have fired yet.</div>
+            )}
+            {events.map(e => (
+              <div key={e.id} className="p-3 rounded-lg bg-slate-700/30">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-slate-200">
+                    {toCoinKey(e.venue, e.symbol)}
+                    {e.ruleName && <span className="text-slate-400 font-normal"> · {e.ruleName}</span>}
+                  </span>
+                  <span className="text-xs text-slate-500">{new Date(e.firedAt).toLocaleString()}</span>
+                </div>
+                <div className="text-xs text-slate-400">
+                  {describeCondition(e)}
+                  <span className="text-amber-400"> — was {formatValue(e.metric, e.value)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Sparkles, RefreshCw, Clock } from 'lucide-react';
+import { AIAnalysisResult, MarketAnalysis } from '../types';
+import { dbService } from '../services/db';
+
+interface AnalysisPanelProps {
+  /** Coin key (see `toCoinKey`) */
+  symbol: string;
+}
+
+const SENTIMENT_STYLES: Record<AIAnalysisResult['sentiment'], string> = {
+  bullish: 'bg-green-950/60 border-green-800/60 text-green-400',
+  bearish: 'bg-red-950/60 border-red-800/60 text-red-400',
+  neutral: 'bg-gray-800 border-gray-700 text-gray-300',
+};
+
+const RISK_STYLES: Record<AIAnalysisResult['riskLevel'], string> = {
+  low: 'text-green-400',
+  medium: 'text-amber-400',
+  high: 'text-red-400',
+};
+
+const formatTime = (ts: number | string) =>
+  new Date(ts).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+
+/** request() errors look like `HTTP 502: {"error":"…"}` — show just the reason */
+const errorMessage = (err: unknown) => {
+  const message = err instanceof Error ? err.message : String(err);
+  const match = /"error":"([^"]+)"/.exec(message);
+  return match ? match[1] : message;
+};
+
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ symbol }) => {
+  const [analysis, setAnalysis] = useState<MarketAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (refresh: boolean) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setAnalysis(await dbService.getAnalysis(symbol, refresh));
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [symbol]);
+
+  useEffect(() => {
+    setAnalysis(null);
+    load(false);
+  }, [load]);
+
+  const result = analysis?.result;
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Sparkles size={14} className="text-blue-400" />
+          <span className="text-sm font-medium text-white">Market Analysis</span>
+          {analysis && (
+            <span className="text-xs text-gray-600">
+              {analysis.provider}{analysis.model ? ` · ${analysis.model}` : ''}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => load(true)}
+          disabled={isLoading}
+          className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <RefreshCw size={12} className={isLoading ? 'animate-spin' : ''} />
+          {isLoading ? 'Analysing…' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 px-3 py-2 rounded-lg bg-red-950/60 border border-red-800/50 text-xs text-red-400">{error}</div>
+      )}
+
+      {result ? (
+        <>
+          <div className="flex items-center gap-3 mb-2">
+            <span className={`px-2 py-0.5 rounded-full border text-xs font-medium capitalize ${SENTIMENT_STYLES[result.sentiment]}`}>
+              {result.sentiment}
+            </span>
+            <span className="text-xs text-gray-500">
+              Risk: <span className={`font-medium capitalize ${RISK_STYLES[result.riskLevel]}`}>{result.riskLevel}</span>
+            </span>
+          </div>
+          <p className="text-sm text-gray-300 leading-relaxed">{result.summary}</p>
+          <p className="text-xs text-gray-600 mt-3 flex items-center gap-1">
+            <Clock size={11} />
+            Generated {formatTime(analysis.generatedAt)}
+            {analysis.cached && ' (cached)'}
+            {' · '}data {formatTime(analysis.dataFrom)} – {formatTime(analysis.dataTo)}
+          </p>
+        </>
+      ) : (
+        !error && <div className="text-center py-4 text-gray-600 text-sm">{isLoading ? 'Analysing recent OI, funding and price…' : 'No analysis yet'}</div>
+      )}
+    </div>
+  );
+};
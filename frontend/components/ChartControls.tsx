@@ -0,0 +1,139 @@
+import React from 'react';
+import { Clock, ChevronLeft, ChevronRight, Radio } from 'lucide-react';
+import { CHART_INTERVALS, ChartInterval } from '../hooks/useChartViewport';
+
+// Full format for tooltip and header range display
+export const formatDateTime = (ts: number) => {
+  const d = new Date(ts);
+  const today = new Date();
+  const isToday =
+    d.getFullYear() === today.getFullYear() &&
+    d.getMonth() === today.getMonth() &&
+    d.getDate() === today.getDate();
+  if (isToday) {
+    return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+  }
+  return (
+    d.toLocaleDateString([], { month: 'short', day: 'numeric' }) +
+    ' ' +
+    d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })
+  );
+};
+
+// For X-axis ticks: show date only on first tick of a new day
+export const formatAxisTick = (ts: number) => {
+  const d = new Date(ts);
+  const today = new Date();
+  const isToday =
+    d.getFullYear() === today.getFullYear() &&
+    d.getMonth() === today.getMonth() &&
+    d.getDate() === today.getDate();
+
+  // Show "Apr 7" only at midnight boundary (within 5 min window)
+  const minuteOfDay = d.getHours() * 60 + d.getMinutes();
+  if (!isToday && minuteOfDay < 5) {
+    return d.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  }
+  return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+};
+
+interface ViewportHeaderProps {
+  isLive: boolean;
+  onSnapToLive: () => void;
+  isLoadingOlder: boolean;
+  hasOlder: boolean;
+  viewStart: number;
+  viewEnd: number;
+}
+
+/** LIVE badge (or "Back to Live"), history loading state and the visible range */
+export const ViewportHeader: React.FC<ViewportHeaderProps> = ({
+  isLive, onSnapToLive, isLoadingOlder, hasOlder, viewStart, viewEnd,
+}) => (
+  <div className="flex items-center justify-between">
+    <div className="flex items-center gap-2">
+      {isLive ? (
+        <span className="flex items-center gap-1.5 text-xs text-green-400 font-medium">
+          <Radio size={11} className="animate-pulse" /> LIVE
+        </span>
+      ) : (
+        <button
+          onClick={onSnapToLive}
+          className="flex items-center gap-1.5 text-xs text-blue-400 hover:text-blue-300 transition-colors border border-blue-800 hover:border-blue-600 rounded-full px-2 py-0.5"
+        >
+          <Radio size={11} /> Back to Live
+        </button>
+      )}
+      {isLoadingOlder && <span className="text-xs text-gray-500 animate-pulse">Loading older data…</span>}
+      {!hasOlder && !isLive && <span className="text-xs text-gray-600">No more history</span>}
+    </div>
+    <span className="text-xs text-gray-500 flex items-center gap-1">
+      <Clock size={11} />
+      {formatDateTime(viewStart)} – {formatDateTime(viewEnd)}
+    </span>
+  </div>
+);
+
+interface IntervalSelectorProps {
+  selected: ChartInterval;
+  onSelect: (interval: ChartInterval) => void;
+  pointCount: number;
+}
+
+export const IntervalSelector: React.FC<IntervalSelectorProps> = ({ selected, onSelect, pointCount }) => (
+  <>
+    <div className="flex items-center justify-between gap-3 bg-gray-900 rounded-xl p-3 border border-gray-800">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-500">Chart Interval:</span>
+        <div className="flex gap-1">
+          {CHART_INTERVALS.map(interval => (
+            <button
+              key={interval.value}
+              onClick={() => onSelect(interval)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${selected.value === interval.value
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-gray-300'
+                }`}
+            >
+              {interval.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <span className="text-xs text-gray-600">
+        Window: {selected.window / 3600000}h · ~{pointCount} points
+      </span>
+    </div>
+
+    <p className="text-xs text-gray-600 text-center select-none">
+      ← Drag to pan through history · {selected.window / 3600000}h window
+    </p>
+  </>
+);
+
+interface PanControlsProps {
+  stepLabel: string;
+  onBack: () => void;
+  onForward: () => void;
+  canGoBack: boolean;
+  canGoForward: boolean;
+}
+
+export const PanControls: React.FC<PanControlsProps> = ({ stepLabel, onBack, onForward, canGoBack, canGoForward }) => (
+  <div className="flex justify-between items-center px-1">
+    <button
+      disabled={!canGoBack}
+      onClick={onBack}
+      className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+    >
+      <ChevronLeft size={14} /> {stepLabel} back
+    </button>
+    <button
+      disabled={!canGoForward}
+      onClick={onForward}
+      className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+    >
+      {stepLabel} forward <ChevronRight size={14} />
+    </button>
+  </div>
+);
@@ -1,14 +1,26 @@
-import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import {
-  AreaChart, Area, XAxis, YAxis, Tooltip,
+  AreaChart, Area, Bar, ComposedChart, Line, XAxis, YAxis, Tooltip,
   ResponsiveContainer, CartesianGrid, ReferenceLine,
 } from 'recharts';
 import {
-  TrendingUp, TrendingDown, Clock, ChevronLeft, ChevronRight,
-  Radio, ChevronDown, ChevronUp, Download, RefreshCw,
+  TrendingUp, TrendingDown, Clock, ChevronDown, ChevronUp, Download, RefreshCw,
 } from 'lucide-react';
-import { MarketDataPoint } from '../types';
+import {
+  FundingSettlement, IndicatorSource, LiquidationBucket, MarketDataPoint, OiChangeWindow, SnapshotRow,
+} from '../types';
 import { dbService } from '../services/db';
+import { INDICATOR_SPECS, indicatorLines, indicatorWarmup, withIndicators } from '../indicators';
+import { useCandleSeries } from '../hooks/useCandleSeries';
+import { useChartViewport } from '../hooks/useChartViewport';
+import { useFundingSettlements } from '../hooks/useFundingSettlements';
+import { useIndicators } from '../hooks/useIndicators';
+import { useLiquidations } from '../hooks/useLiquidations';
+import { usePositioningSeries } from '../hooks/usePositioningSeries';
+import { AnalysisPanel } from './AnalysisPanel';
+import { IndicatorBar, IndicatorPane } from './Indicators';
+import { PositioningPanes } from './PositioningPanes';
+import { IntervalSelector, PanControls, ViewportHeader, formatAxisTick, formatDateTime } from './ChartControls';
 
 interface CoinDetailProps {
   symbol: string;
@@ -19,15 +31,6 @@ const ONE_MINUTE = 60 * 1000;
 const LOAD_BUFFER = 10 * 60 * 1000;
 const HISTORICAL_FETCH_LIMIT = 180;
 
-// Chart interval options - each shows ~60 data points
-const CHART_INTERVALS = [
-  { label: '1 min', value: 1 * 60 * 1000, window: 1 * 60 * 60 * 1000 },   // 1 min → 1 hr
-  { label: '5 min', value: 5 * 60 * 1000, window: 5 * 60 * 60 * 1000 },   // 5 min → 5 hr
-  { label: '15 min', value: 15 * 60 * 1000, window: 15 * 60 * 60 * 1000 }, // 15 min → 15 hr
-  { label: '30 min', value: 30 * 60 * 1000, window: 30 * 60 * 60 * 1000 }, // 30 min → 30 hr
-  { label: '1 hour', value: 60 * 60 * 1000, window: 60 * 60 * 60 * 1000 }, // 1 hr → 60 hr (2.5 days)
-];
-
 // Snapshot table interval options
 const PERIOD_OPTIONS = [
   { label: '1 Hour', value: 1 * 60 * 60 * 1000 },
@@ -45,24 +48,55 @@ const INTERVAL_OPTIONS = [
   { label: '1 hour', value: 60 * 60 * 1000 },
 ];
 
-interface SnapshotRow {
-  timestamp: number;
-  openInterest: number;
-  fundingRate: number;
-  oiChange?: number;
-  frChange?: number;
-}
+/** Open interest in contracts' base coin or as USDT notional (openInterestUsd) */
+type OiUnit = 'coins' | 'usd';
+
+const OI_UNIT_KEY = 'binance-tracker-oi-unit';
+const OI_CHANGE_WINDOWS: OiChangeWindow[] = ['1h', '4h', '24h'];
+
+/** Funding as stored, or scaled to an 8h interval so 4h/1h coins compare with the rest */
+type FundingMode = 'raw' | '8h';
+
+const HOUR = 60 * 60 * 1000;
+
+const formatPrice = (val: number) => '$' + val.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+
+const formatNotional = (val: number) => {
+  if (val >= 1_000_000) return '$' + (val / 1_000_000).toFixed(2) + 'M';
+  if (val >= 1_000) return '$' + (val / 1_000).toFixed(1) + 'K';
+  return '$' + val.toFixed(0);
+};
+
+const formatCountdown = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return `${h}h ${String(m).padStart(2, '0')}m ${String(s).padStart(2, '0')}s`;
+};
+
+/** Green/red/grey for a signed change; dim when there is none (first row) */
+const changeClass = (v: number | null) =>
+  v === null ? 'text-gray-600' : v > 0 ? 'text-green-400' : v < 0 ? 'text-red-400' : 'text-gray-500';
+
+/** Ticks every second until `nextFundingTime` */
+const FundingCountdown: React.FC<{ nextFundingTime: number }> = ({ nextFundingTime }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+  return <>{nextFundingTime > now ? formatCountdown(nextFundingTime - now) : 'settling…'}</>;
+};
 
 export const CoinDetail: React.FC<CoinDetailProps> = ({ symbol, data }) => {
-  const [viewOffset, setViewOffset] = useState(0);
+  const viewport = useChartViewport();
+  const { chartInterval: selectedChartInterval, viewStart, viewEnd, isLive } = viewport;
   const [historicalData, setHistoricalData] = useState<MarketDataPoint[]>([]);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(true);
   const [earliestFetched, setEarliestFetched] = useState<number | null>(null);
 
-  // Chart interval selector
-  const [selectedChartInterval, setSelectedChartInterval] = useState(CHART_INTERVALS[0]); // Default: 1 min
-
   // Snapshot table state
   const [isTableOpen, setIsTableOpen] = useState(false);
   const [selectedPeriod, setSelectedPeriod] = useState(PERIOD_OPTIONS[0].value);
@@ -70,8 +104,23 @@ export const CoinDetail: React.FC<CoinDetailProps> = ({ symbol, data }) => {
   const [snapshots, setSnapshots] = useState<SnapshotRow[]>([]);
   const [isGeneratingSnapshots, setIsGeneratingSnapshots] = useState(false);
 
+  const [oiUnit, setOiUnit] = useState<OiUnit>(() => (localStorage.getItem(OI_UNIT_KEY) === 'usd' ? 'usd' : 'coins'));
+  const oiKey = oiUnit === 'usd' ? 'openInterestUsd' : 'openInterest';
+  const [fundingMode, setFundingMode] = useState<FundingMode>('raw');
+  const fundingKey = fundingMode === '8h' ? 'fundingRate8h' : 'fundingRate';
+  const changeOiUnit = (unit: OiUnit) => {
+    setOiUnit(unit);
+    localStorage.setItem(OI_UNIT_KEY, unit);
+  };
+
+  const { indicators, add: addIndicator, update: updateIndicator, remove: removeIndicator } = useIndicators(symbol);
+  const overlayIndicators = indicators.filter(i => INDICATOR_SPECS[i.kind].placement === 'overlay');
+  const paneIndicators = indicators.filter(i => INDICATOR_SPECS[i.kind].placement === 'pane');
+  // Points of history the indicators need before the first point in view
+  const warmupSamples = Math.max(0, ...indicators.map(indicatorWarmup));
+
   useEffect(() => {
-    setViewOffset(0);
+    viewport.setViewOffset(0);
     setHistoricalData([]);
     setIsLoadingMore(false);
     setHasMore(true);
@@ -92,48 +141,67 @@ export const CoinDetail: React.FC<CoinDetailProps> = ({ symbol, data }) => {
       .sort((a, b) => a.timestamp - b.timestamp);
   }, [data, historicalData]);
 
-  const now = Date.now();
-  const viewEnd = now - viewOffset;
-  const viewStart = viewEnd - selectedChartInterval.window;
-
-  // Sample data at the selected interval
-  const displayData = useMemo(() => {
-    const filtered = allData.filter(d => d.timestamp >= viewStart && d.timestamp <= viewEnd);
+  // Anything coarser than 1 minute is bucketed server-side
+  const isCandleMode = selectedChartInterval.value > ONE_MINUTE;
+  const candles = useCandleSeries(
+    symbol,
+    selectedChartInterval.value,
+    selectedChartInterval.window,
+    viewStart - warmupSamples * selectedChartInterval.value,
+    data[data.length - 1]?.timestamp,
+    isCandleMode,
+  );
 
-    // If interval is 1 minute, return raw data
-    if (selectedChartInterval.value === ONE_MINUTE) {
-      return filtered;
-    }
+  // Indicators run over the whole loaded series before it is cut to the view,
+  // so points in view always have their full lookback behind them
+  const indicatorData = useMemo(
+    () => withIndicators(isCandleMode ? candles.points : allData, indicators, { price: 'price', oi: oiKey, funding: fundingKey }),
+    [isCandleMode, candles.points, allData, indicators, oiKey, fundingKey],
+  );
 
-    // Otherwise, sample at the selected interval
-    const sampled: MarketDataPoint[] = [];
-    const intervalMs = selectedChartInterval.value;
+  const displayData = useMemo(
+    () => indicatorData.filter(d => d.timestamp >= viewStart && d.timestamp <= viewEnd),
+    [indicatorData, viewStart, viewEnd],
+  );
 
-    // Create time buckets
-    const buckets = new Map<number, MarketDataPoint[]>();
-    for (const point of filtered) {
-      const bucketKey = Math.floor(point.timestamp / intervalMs) * intervalMs;
-      if (!buckets.has(bucketKey)) {
-        buckets.set(bucketKey, []);
-      }
-      buckets.get(bucketKey)!.push(point);
+  // The x axis is categorical, so each settlement is pinned to the first
+  // point at or after it; several settlements inside one bucket share a marker
+  const settlements = useFundingSettlements(symbol, viewStart, viewEnd);
+  const settlementMarkers = useMemo(() => {
+    const markers = new Map<number, FundingSettlement>();
+    let i = 0;
+    for (const s of settlements) {
+      while (i < displayData.length && displayData[i].timestamp < s.fundingTime) i++;
+      if (i === displayData.length) break;
+      markers.set(displayData[i].timestamp, s);
     }
-
-    // Average each bucket
-    for (const [bucketTime, points] of buckets.entries()) {
-      const avg = {
-        timestamp: bucketTime,
-        openInterest: points.reduce((sum, p) => sum + p.openInterest, 0) / points.length,
-        fundingRate: points.reduce((sum, p) => sum + p.fundingRate, 0) / points.length,
-        price: points.reduce((sum, p) => sum + p.price, 0) / points.length,
-      };
-      sampled.push(avg);
+    return markers;
+  }, [settlements, displayData]);
+
+  // Liquidation buckets are pinned to points the same way, then merged into
+  // the OI chart's rows as bars on their own hidden axis
+  const liquidations = useLiquidations(symbol, selectedChartInterval.value, viewStart, viewEnd);
+  const oiChartData = useMemo(() => {
+    const byPoint = new Map<number, Pick<LiquidationBucket, 'longNotional' | 'shortNotional'>>();
+    let i = 0;
+    for (const b of liquidations) {
+      while (i < displayData.length && displayData[i].timestamp < b.timestamp) i++;
+      if (i === displayData.length) break;
+      const ts = displayData[i].timestamp;
+      const prev = byPoint.get(ts);
+      byPoint.set(ts, {
+        longNotional: (prev?.longNotional ?? 0) + b.longNotional,
+        shortNotional: (prev?.shortNotional ?? 0) + b.shortNotional,
+      });
     }
+    if (byPoint.size === 0) return displayData;
+    return displayData.map(d => {
+      const liq = byPoint.get(d.timestamp);
+      return liq ? { ...d, liqLong: liq.longNotional || undefined, liqShort: liq.shortNotional || undefined } : d;
+    });
+  }, [liquidations, displayData]);
 
-    return sampled.sort((a, b) => a.timestamp - b.timestamp);
-  }, [allData, viewStart, viewEnd, selectedChartInterval]);
-
-  const isLive = viewOffset < 30_000;
+  const positioning = usePositioningSeries(symbol, selectedChartInterval.value, viewStart, viewEnd);
 
   const loadMore = useCallback(async () => {
     if (isLoadingMore || !hasMore) return;
@@ -164,212 +232,152 @@ export const CoinDetail: React.FC<CoinDetailProps> = ({ symbol, data }) => {
   }, [isLoadingMore, hasMore, earliestFetched, allData, symbol]);
 
   useEffect(() => {
-    if (!allData.length || !hasMore) return;
+    if (isCandleMode || !allData.length || !hasMore) return;
     const earliestAvailable = allData[0].timestamp;
-    if (viewStart < earliestAvailable + LOAD_BUFFER) {
+    const firstInView = allData.findIndex(d => d.timestamp >= viewStart);
+    const lead = firstInView === -1 ? allData.length : firstInView;
+    if (viewStart < earliestAvailable + LOAD_BUFFER || lead < warmupSamples) {
       loadMore();
     }
-  }, [viewStart, allData, hasMore, loadMore]);
-
-  const chartContainerRef = useRef<HTMLDivElement>(null);
-  const dragState = useRef<{ startX: number; startOffset: number } | null>(null);
-
-  const onDragStart = useCallback((clientX: number) => {
-    dragState.current = { startX: clientX, startOffset: viewOffset };
-  }, [viewOffset]);
-
-  const onDragMove = useCallback((clientX: number) => {
-    if (!dragState.current || !chartContainerRef.current) return;
-    const chartWidth = chartContainerRef.current.offsetWidth;
-    if (chartWidth === 0) return;
-    const pixelDelta = clientX - dragState.current.startX;
-    const timeDelta = (pixelDelta / chartWidth) * selectedChartInterval.window;
-    const newOffset = Math.max(0, dragState.current.startOffset - timeDelta);
-    setViewOffset(newOffset);
-  }, [selectedChartInterval.window]);
-
-  const onDragEnd = useCallback(() => {
-    dragState.current = null;
-  }, []);
+  }, [isCandleMode, viewStart, allData, hasMore, loadMore, warmupSamples]);
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    e.preventDefault();
-    onDragStart(e.clientX);
-    window.addEventListener('mousemove', handleWindowMouseMove);
-    window.addEventListener('mouseup', handleWindowMouseUp);
-  };
-  const handleWindowMouseMove = useCallback((e: MouseEvent) => onDragMove(e.clientX), [onDragMove]);
-  const handleWindowMouseUp = useCallback(() => {
-    onDragEnd();
-    window.removeEventListener('mousemove', handleWindowMouseMove);
-    window.removeEventListener('mouseup', handleWindowMouseUp);
-  }, [onDragEnd, handleWindowMouseMove]);
-
-  const handleTouchStart = (e: React.TouchEvent) => onDragStart(e.touches[0].clientX);
-  const handleTouchMove = (e: React.TouchEvent) => onDragMove(e.touches[0].clientX);
-  const handleTouchEnd = () => onDragEnd();
-
-  const snapToLive = () => setViewOffset(0);
-
-  // Full format for tooltip and header range display
-  const formatDateTime = (ts: number) => {
-    const d = new Date(ts);
-    const today = new Date();
-    const isToday =
-      d.getFullYear() === today.getFullYear() &&
-      d.getMonth() === today.getMonth() &&
-      d.getDate() === today.getDate();
-    if (isToday) {
-      return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
-    }
-    return (
-      d.toLocaleDateString([], { month: 'short', day: 'numeric' }) +
-      ' ' +
-      d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })
-    );
-  };
-
-  // For X-axis ticks: show date only on first tick of a new day
-  const seenDays = new Set<string>();
-  const formatAxisTick = (ts: number) => {
-    const d = new Date(ts);
-    const today = new Date();
-    const isToday =
-      d.getFullYear() === today.getFullYear() &&
-      d.getMonth() === today.getMonth() &&
-      d.getDate() === today.getDate();
-
-    // Show "Apr 7" only at midnight boundary (within 5 min window)
-    const minuteOfDay = d.getHours() * 60 + d.getMinutes();
-    if (!isToday && minuteOfDay < 5) {
-      return d.toLocaleDateString([], { month: 'short', day: 'numeric' });
-    }
-    return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
-  };
+  // Pan-back state of whichever source is feeding the chart
+  const isLoadingOlder = isCandleMode ? candles.isLoading : isLoadingMore;
+  const hasOlder = isCandleMode ? candles.hasMore : hasMore;
 
   const formatOI = (val: number) => {
-    if (val >= 1_000_000) return (val / 1_000_000).toFixed(3) + 'M';
-    if (val >= 1_000) return (val / 1_000).toFixed(3) + 'K';
-    return val.toFixed(0);
+    const prefix = (val < 0 ? '-' : '') + (oiUnit === 'usd' ? '$' : '');
+    const abs = Math.abs(val);
+    if (abs >= 1_000_000_000) return prefix + (abs / 1_000_000_000).toFixed(3) + 'B';
+    if (abs >= 1_000_000) return prefix + (abs / 1_000_000).toFixed(3) + 'M';
+    if (abs >= 1_000) return prefix + (abs / 1_000).toFixed(3) + 'K';
+    return prefix + abs.toFixed(0);
   };
 
   const getDomain = (key: keyof MarketDataPoint) => {
-    if (!displayData.length) return ['dataMin', 'dataMax'];
-    const vals = displayData.map(d => d[key] as number);
+    const vals = displayData.map(d => d[key] as number | null).filter((v): v is number => v != null);
+    if (!vals.length) return ['dataMin', 'dataMax'];
     const min = Math.min(...vals);
     const max = Math.max(...vals);
     if (min === max) return [min * 0.9999, max * 1.0001];
     return ['dataMin', 'dataMax'];
   };
 
+  const formatSourceValue = (source: IndicatorSource, val: number) =>
+    source === 'price' ? formatPrice(val) : source === 'oi' ? formatOI(val) : (val * 100).toFixed(6) + '%';
+
+  // Tooltip label and source of each overlay line, by dataKey
+  const overlaySeries = new Map<string, { label: string; source: IndicatorSource }>(overlayIndicators.flatMap(c =>
+    indicatorLines(c).map(line => [`ind.${line.key}`, { label: line.label, source: c.source }] as const)));
+
+  const overlayLines = (source: IndicatorSource) => overlayIndicators
+    .filter(c => c.source === source)
+    .flatMap(c => indicatorLines(c).map(line => (
+      <Line
+        key={line.key}
+        type="monotone"
+        dataKey={`ind.${line.key}`}
+        name={line.label}
+        stroke={c.color}
+        strokeWidth={1.25}
+        strokeDasharray={line.dashed ? '4 3' : undefined}
+        dot={false}
+        isAnimationActive={false}
+      />
+    )));
+
+  const indicatorPanes = (source: IndicatorSource) => paneIndicators
+    .filter(c => c.source === source)
+    .map(c => <IndicatorPane key={c.id} config={c} data={displayData} />);
+
   const CustomTooltip = ({ active, payload }: any) => {
     if (!active || !payload?.length) return null;
     const d = payload[0].payload as MarketDataPoint;
+    const settlement = settlementMarkers.get(d.timestamp);
     return (
       <div className="bg-gray-900/95 border border-gray-700 rounded-lg p-3 shadow-xl backdrop-blur text-xs">
         <p className="text-gray-400 mb-2 flex items-center gap-1">
           <Clock size={10} /> {formatDateTime(d.timestamp)}
         </p>
-        {payload.map((p: any) => (
-          <div key={p.name} className="flex justify-between gap-4">
-            <span className="text-gray-500">
-              {p.name === 'openInterest' ? 'Open Interest' : 'Funding Rate'}
-            </span>
-            <span style={{ color: p.color }} className="font-mono">
-              {p.name === 'openInterest'
-                ? formatOI(p.value)
-                : (p.value * 100).toFixed(6) + '%'}
-            </span>
+        {payload.filter((p: any) => p.value != null).map((p: any) => {
+          const overlay = overlaySeries.get(p.dataKey);
+          return (
+            <div key={p.dataKey} className="flex justify-between gap-4">
+              <span className="text-gray-500">
+                {overlay ? overlay.label
+                  : p.name === 'price' ? 'Price'
+                    : p.name === oiKey ? 'Open Interest'
+                      : p.name === 'basis' ? 'Basis'
+                        : p.name === 'liqLong' ? 'Longs liquidated'
+                          : p.name === 'liqShort' ? 'Shorts liquidated'
+                            : fundingMode === '8h' ? 'Funding (8h)' : 'Funding Rate'}
+              </span>
+              <span style={{ color: p.color }} className="font-mono">
+                {overlay
+                  ? formatSourceValue(overlay.source, p.value)
+                  : p.name === 'price'
+                    ? formatPrice(p.value)
+                    : p.name === oiKey
+                      ? formatOI(p.value)
+                      : p.name === 'liqLong' || p.name === 'liqShort'
+                        ? formatNotional(p.value)
+                        : p.name === 'basis'
+                          ? (p.value * 100).toFixed(4) + '%'
+                          : (p.value * 100).toFixed(6) + '%'}
+              </span>
+            </div>
+          );
+        })}
+        {settlement && (
+          <div className="flex justify-between gap-4 mt-1 pt-1 border-t border-gray-800">
+            <span className="text-gray-500">Settled {formatDateTime(settlement.fundingTime)}</span>
+            <span className="font-mono text-amber-300">{(settlement.fundingRate * 100).toFixed(6)}%</span>
           </div>
-        ))}
+        )}
       </div>
     );
   };
 
+  // Computed server-side (GET /api/snapshots) for any period, not from chart data
   const generateSnapshots = useCallback(async () => {
     setIsGeneratingSnapshots(true);
     try {
-      const endTime = Date.now();
-      const startTime = endTime - selectedPeriod;
-
-      const earliestAvailable = allData[0]?.timestamp ?? endTime;
-      let dataToUse = allData;
-
-      if (earliestAvailable > startTime) {
-        console.log(`[Snapshots] Fetching missing data from ${new Date(startTime)} to ${new Date(endTime)}`);
-        const rangeData = await dbService.getMarketDataRange(symbol, startTime, endTime);
-
-        const combined = [...rangeData, ...allData];
-        const seen = new Set<number>();
-        dataToUse = combined
-          .filter(d => {
-            if (seen.has(d.timestamp)) return false;
-            seen.add(d.timestamp);
-            return true;
-          })
-          .sort((a, b) => a.timestamp - b.timestamp);
-
-        setHistoricalData(prev => {
-          const merged = [...rangeData, ...prev];
-          const s = new Set<number>();
-          return merged
-            .filter(d => {
-              if (s.has(d.timestamp)) return false;
-              s.add(d.timestamp);
-              return true;
-            })
-            .sort((a, b) => a.timestamp - b.timestamp);
-        });
-      }
-
-      const periodData = dataToUse.filter(d => d.timestamp >= startTime && d.timestamp <= endTime);
-
-      if (periodData.length === 0) {
-        setSnapshots([]);
-        return;
-      }
-
-      const slots: number[] = [];
-      for (let t = startTime; t <= endTime; t += selectedInterval) {
-        slots.push(t);
-      }
-
-      const rows: SnapshotRow[] = slots.map(slotTime => {
-        const closest = periodData.reduce((prev, curr) =>
-          Math.abs(curr.timestamp - slotTime) < Math.abs(prev.timestamp - slotTime) ? curr : prev
-        );
-        return {
-          timestamp: slotTime,
-          openInterest: closest.openInterest,
-          fundingRate: closest.fundingRate,
-        };
-      });
-
-      for (let i = 1; i < rows.length; i++) {
-        rows[i].oiChange = rows[i].openInterest - rows[i - 1].openInterest;
-        rows[i].frChange = rows[i].fundingRate - rows[i - 1].fundingRate;
-      }
-
-      setSnapshots(rows);
+      setSnapshots(await dbService.getSnapshots(symbol, selectedPeriod, selectedInterval));
     } catch (err) {
       console.error('[Snapshots] Generation failed:', err);
       alert('Failed to generate snapshots. Check console for details.');
     } finally {
       setIsGeneratingSnapshots(false);
     }
-  }, [allData, selectedPeriod, selectedInterval, symbol]);
+  }, [selectedPeriod, selectedInterval, symbol]);
+
+  // In the selected unit, so the table follows the toggle without regenerating
+  const snapshotOiChange = (row: SnapshotRow) => (oiUnit === 'usd' ? row.oiUsdChange : row.oiChange);
 
   const exportCSV = () => {
     if (snapshots.length === 0) return;
-    const header = 'Timestamp,Date & Time,Open Interest,OI Change,Funding Rate (%),FR Change (%)';
-    const rows = snapshots.map(s => {
-      const dt = new Date(s.timestamp).toLocaleString();
-      const oi = s.openInterest.toFixed(2);
-      const oiChg = s.oiChange !== undefined ? s.oiChange.toFixed(2) : '-';
-      const fr = (s.fundingRate * 100).toFixed(6);
-      const frChg = s.frChange !== undefined ? (s.frChange * 100).toFixed(6) : '-';
-      return `${s.timestamp},"${dt}",${oi},${oiChg},${fr},${frChg}`;
-    });
+    const fixed = (v: number | null, digits: number, scale = 1) => (v == null ? '-' : (v * scale).toFixed(digits));
+    const header = 'Timestamp,Date & Time,Sampled At,Price,Price Change,Price Change (%),'
+      + 'Open Interest,Open Interest (USDT),OI Change,OI Change (USDT),OI Change (%),'
+      + 'Funding Rate (%),Funding Rate 8h (%),Funding Rate Annualized (%),FR Change (%),Cumulative Funding (%)';
+    const rows = snapshots.map(s => [
+      s.timestamp,
+      `"${new Date(s.timestamp).toLocaleString()}"`,
+      s.sampledAt,
+      s.price,
+      fixed(s.priceChange, 6),
+      fixed(s.priceChangePct, 4),
+      s.openInterest.toFixed(2),
+      s.openInterestUsd.toFixed(2),
+      fixed(s.oiChange, 2),
+      fixed(s.oiUsdChange, 2),
+      fixed(s.oiChangePct, 4),
+      fixed(s.fundingRate, 6, 100),
+      fixed(s.fundingRate8h, 6, 100),
+      fixed(s.fundingRateAnnualized, 2, 100),
+      fixed(s.fundingChange, 6, 100),
+      fixed(s.cumulativeFunding, 6, 100),
+    ].join(','));
     const csv = [header, ...rows].join('\n');
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
@@ -394,38 +402,17 @@ export const CoinDetail: React.FC<CoinDetailProps> = ({ symbol, data }) => {
     );
   }
 
-  // Pan step is 1/4 of the window
-  const panStep = selectedChartInterval.window / 4;
-  const panStepLabel = selectedChartInterval.window < 4 * 60 * 60 * 1000
-    ? `${Math.round(panStep / 60000)} min`
-    : `${Math.round(panStep / 3600000)} hr`;
-
   return (
     <div className="space-y-4">
 
-      {/* Header row */}
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          {isLive ? (
-            <span className="flex items-center gap-1.5 text-xs text-green-400 font-medium">
-              <Radio size={11} className="animate-pulse" /> LIVE
-            </span>
-          ) : (
-            <button
-              onClick={snapToLive}
-              className="flex items-center gap-1.5 text-xs text-blue-400 hover:text-blue-300 transition-colors border border-blue-800 hover:border-blue-600 rounded-full px-2 py-0.5"
-            >
-              <Radio size={11} /> Back to Live
-            </button>
-          )}
-          {isLoadingMore && <span className="text-xs text-gray-500 animate-pulse">Loading older data…</span>}
-          {!hasMore && !isLive && <span className="text-xs text-gray-600">No more history</span>}
-        </div>
-        <span className="text-xs text-gray-500 flex items-center gap-1">
-          <Clock size={11} />
-          {formatDateTime(viewStart)} – {formatDateTime(viewEnd)}
-        </span>
-      </div>
+      <ViewportHeader
+        isLive={isLive}
+        onSnapToLive={viewport.snapToLive}
+        isLoadingOlder={isLoadingOlder}
+        hasOlder={hasOlder}
+        viewStart={viewStart}
+        viewEnd={viewEnd}
+      />
 
       {/* Metric Cards */}
       <div className="grid grid-cols-3 gap-3">
@@ -440,56 +427,73 @@ export const CoinDetail: React.FC<CoinDetailProps> = ({ symbol, data }) => {
           </p>
         </div>
         <div className="bg-gray-900 rounded-xl p-3 border border-gray-800">
-          <p className="text-xs text-gray-500 mb-1">Open Interest</p>
-          <p className="text-base font-semibold font-mono text-white">{formatOI(current.openInterest)}</p>
-          <p className="text-xs text-gray-600 mt-0.5">Coins</p>
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-xs text-gray-500">Open Interest</p>
+            <div className="flex gap-0.5">
+              {(['coins', 'usd'] as const).map(unit => (
+                <button
+                  key={unit}
+                  onClick={() => changeOiUnit(unit)}
+                  className={`px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors ${oiUnit === unit ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {unit === 'usd' ? 'USD' : 'Coins'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-base font-semibold font-mono text-white">{formatOI(current[oiKey])}</p>
+          <div className="flex gap-2 text-xs mt-0.5">
+            {OI_CHANGE_WINDOWS.map(w => {
+              const change = current.oiChange?.[w];
+              return (
+                <span key={w} className={change?.pct == null ? 'text-gray-600' : change.pct > 0 ? 'text-green-400' : change.pct < 0 ? 'text-red-400' : 'text-gray-500'}>
+                  {w} {change?.pct == null ? '—' : (change.pct > 0 ? '+' : '') + change.pct.toFixed(2) + '%'}
+                </span>
+              );
+            })}
+          </div>
         </div>
         <div className="bg-gray-900 rounded-xl p-3 border border-gray-800">
           <p className="text-xs text-gray-500 mb-1">Funding Rate</p>
           <p className={`text-base font-semibold font-mono ${current.fundingRate > 0 ? 'text-green-400' : 'text-red-400'}`}>
             {(current.fundingRate * 100).toFixed(6)}%
           </p>
-          <p className="text-xs text-gray-600 mt-0.5">Predicted</p>
+          <p className="text-xs text-gray-600 mt-0.5">
+            Predicted · {(current.fundingRateAnnualized * 100).toFixed(2)}% APR
+            {current.fundingIntervalMs != null && current.fundingIntervalMs !== 8 * HOUR && (
+              <> · {(current.fundingRate8h * 100).toFixed(6)}% / 8h</>
+            )}
+          </p>
+          {current.nextFundingTime != null && (
+            <p className="text-xs text-gray-500 mt-0.5">
+              Settles in <span className="font-mono"><FundingCountdown nextFundingTime={current.nextFundingTime} /></span>
+              {current.fundingIntervalMs != null && <> · every {current.fundingIntervalMs / HOUR}h</>}
+            </p>
+          )}
         </div>
       </div>
 
-      {/* Chart Interval Selector */}
-      <div className="flex items-center justify-between gap-3 bg-gray-900 rounded-xl p-3 border border-gray-800">
-        <div className="flex items-center gap-2">
-          <span className="text-xs text-gray-500">Chart Interval:</span>
-          <div className="flex gap-1">
-            {CHART_INTERVALS.map(interval => (
-              <button
-                key={interval.value}
-                onClick={() => setSelectedChartInterval(interval)}
-                className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${selectedChartInterval.value === interval.value
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-gray-300'
-                  }`}
-              >
-                {interval.label}
-              </button>
-            ))}
-          </div>
-        </div>
-        <span className="text-xs text-gray-600">
-          Window: {selectedChartInterval.window / 3600000}h · ~{displayData.length} points
-        </span>
-      </div>
+      <AnalysisPanel symbol={symbol} />
+
+      <IntervalSelector
+        selected={selectedChartInterval}
+        onSelect={viewport.setChartInterval}
+        pointCount={displayData.length}
+      />
 
-      <p className="text-xs text-gray-600 text-center select-none">
-        ← Drag to pan through history · {selectedChartInterval.window / 3600000}h window
-      </p>
+      <IndicatorBar
+        indicators={indicators}
+        onAdd={addIndicator}
+        onUpdate={updateIndicator}
+        onRemove={removeIndicator}
+      />
 
       {/* Charts */}
       <div
-        ref={chartContainerRef}
+        ref={viewport.containerRef}
         className="space-y-4 select-none"
-        style={{ cursor: dragState.current ? 'grabbing' : 'grab' }}
-        onMouseDown={handleMouseDown}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
+        style={{ cursor: viewport.isDragging ? 'grabbing' : 'grab' }}
+        {...viewport.dragHandlers}
       >
         <svg width="0" height="0">
           <defs>
@@ -505,12 +509,41 @@ export const CoinDetail: React.FC<CoinDetailProps> = ({ symbol, data }) => {
         </svg>
 
         <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
-          <p className="text-xs text-gray-500 mb-3 font-medium">Open Interest Trend</p>
+          <p className="text-xs text-gray-500 mb-3 font-medium">Price</p>
           {displayData.length === 0 ? (
             <div className="h-[160px] flex items-center justify-center text-gray-600 text-sm">No data in this window</div>
           ) : (
             <ResponsiveContainer width="100%" height={160}>
-              <AreaChart data={displayData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+              <ComposedChart data={displayData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+                <defs>
+                  <linearGradient id="priceGradChart" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#10b981" stopOpacity={0.2} />
+                    <stop offset="95%" stopColor="#10b981" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="timestamp" tickFormatter={formatAxisTick} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} minTickGap={70} />
+                <YAxis tickFormatter={formatPrice} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} domain={getDomain('price')} width={72} />
+                <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#10b981', strokeWidth: 1, strokeDasharray: '4 4' }} />
+                <Area type="monotone" dataKey="price" stroke="#10b981" strokeWidth={1.5} fill="url(#priceGradChart)" dot={false} isAnimationActive={false} />
+                {overlayLines('price')}
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        {indicatorPanes('price')}
+
+        <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
+          <p className="text-xs text-gray-500 mb-3 font-medium">
+            Open Interest Trend
+            {oiChartData !== displayData && <span className="text-gray-600 font-normal"> · bars show liquidated longs (red) and shorts (green)</span>}
+          </p>
+          {displayData.length === 0 ? (
+            <div className="h-[160px] flex items-center justify-center text-gray-600 text-sm">No data in this window</div>
+          ) : (
+            <ResponsiveContainer width="100%" height={160}>
+              <ComposedChart data={oiChartData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
                 <defs>
                   <linearGradient id="oiGradChart" x1="0" y1="0" x2="0" y2="1">
                     <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.25} />
@@ -519,21 +552,44 @@ export const CoinDetail: React.FC<CoinDetailProps> = ({ symbol, data }) => {
                 </defs>
                 <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
                 <XAxis dataKey="timestamp" tickFormatter={formatAxisTick} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} minTickGap={70} />
-                <YAxis tickFormatter={formatOI} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} domain={getDomain('openInterest')} width={55} />
+                <YAxis tickFormatter={formatOI} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} domain={getDomain(oiKey)} width={55} />
                 <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#3b82f6', strokeWidth: 1, strokeDasharray: '4 4' }} />
-                <Area type="monotone" dataKey="openInterest" stroke="#3b82f6" strokeWidth={1.5} fill="url(#oiGradChart)" dot={false} isAnimationActive={false} />
-              </AreaChart>
+                {/* Bars keep to the bottom quarter so they don't hide the OI line */}
+                <YAxis yAxisId="liq" hide domain={[0, (dataMax: number) => dataMax * 4]} />
+                <Bar yAxisId="liq" dataKey="liqLong" stackId="liq" fill="#ef4444" fillOpacity={0.7} isAnimationActive={false} />
+                <Bar yAxisId="liq" dataKey="liqShort" stackId="liq" fill="#22c55e" fillOpacity={0.7} isAnimationActive={false} />
+                <Area type="monotone" dataKey={oiKey} stroke="#3b82f6" strokeWidth={1.5} fill="url(#oiGradChart)" dot={false} isAnimationActive={false} />
+                {overlayLines('oi')}
+              </ComposedChart>
             </ResponsiveContainer>
           )}
         </div>
 
+        {indicatorPanes('oi')}
+
         <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
-          <p className="text-xs text-gray-500 mb-3 font-medium">Funding Rate Trend</p>
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-xs text-gray-500 font-medium">
+              Funding Rate Trend
+              {settlementMarkers.size > 0 && <span className="text-gray-600 font-normal"> · dashed lines mark settlements</span>}
+            </p>
+            <div className="flex gap-0.5" onMouseDown={e => e.stopPropagation()}>
+              {(['raw', '8h'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setFundingMode(mode)}
+                  className={`px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors ${fundingMode === mode ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {mode === '8h' ? '8h-normalized' : 'Raw'}
+                </button>
+              ))}
+            </div>
+          </div>
           {displayData.length === 0 ? (
             <div className="h-[160px] flex items-center justify-center text-gray-600 text-sm">No data in this window</div>
           ) : (
             <ResponsiveContainer width="100%" height={160}>
-              <AreaChart data={displayData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+              <ComposedChart data={displayData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
                 <defs>
                   <linearGradient id="frGradChart" x1="0" y1="0" x2="0" y2="1">
                     <stop offset="5%" stopColor="#f59e0b" stopOpacity={0.25} />
@@ -542,34 +598,64 @@ export const CoinDetail: React.FC<CoinDetailProps> = ({ symbol, data }) => {
                 </defs>
                 <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
                 <XAxis dataKey="timestamp" tickFormatter={formatAxisTick} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} minTickGap={70} />
-                <YAxis tickFormatter={(v) => (v * 100).toFixed(4) + '%'} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} domain={getDomain('fundingRate')} width={72} />
+                <YAxis tickFormatter={(v) => (v * 100).toFixed(4) + '%'} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} domain={getDomain(fundingKey)} width={72} />
                 <ReferenceLine y={0} stroke="#374151" strokeDasharray="3 3" />
+                {[...settlementMarkers.keys()].map(ts => (
+                  <ReferenceLine key={ts} x={ts} stroke="#fcd34d" strokeOpacity={0.5} strokeDasharray="2 4" />
+                ))}
                 <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#f59e0b', strokeWidth: 1, strokeDasharray: '4 4' }} />
-                <Area type="monotone" dataKey="fundingRate" stroke="#f59e0b" strokeWidth={1.5} fill="url(#frGradChart)" dot={false} isAnimationActive={false} />
+                <Area type="monotone" dataKey={fundingKey} stroke="#f59e0b" strokeWidth={1.5} fill="url(#frGradChart)" dot={false} isAnimationActive={false} />
+                {overlayLines('funding')}
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        {indicatorPanes('funding')}
+
+        <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
+          <p className="text-xs text-gray-500 mb-3 font-medium">Basis (Mark vs Index)</p>
+          {displayData.every(d => d.basis == null) ? (
+            <div className="h-[120px] flex items-center justify-center text-gray-600 text-sm">No mark/index prices in this window</div>
+          ) : (
+            <ResponsiveContainer width="100%" height={120}>
+              <AreaChart data={displayData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+                <defs>
+                  <linearGradient id="basisGradChart" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#a855f7" stopOpacity={0.25} />
+                    <stop offset="95%" stopColor="#a855f7" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="timestamp" tickFormatter={formatAxisTick} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} minTickGap={70} />
+                <YAxis tickFormatter={(v) => (v * 100).toFixed(3) + '%'} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} domain={getDomain('basis')} width={72} />
+                <ReferenceLine y={0} stroke="#374151" strokeDasharray="3 3" />
+                {[...settlementMarkers.keys()].map(ts => (
+                  <ReferenceLine key={ts} x={ts} stroke="#fcd34d" strokeOpacity={0.5} strokeDasharray="2 4" />
+                ))}
+                <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#a855f7', strokeWidth: 1, strokeDasharray: '4 4' }} />
+                <Area type="monotone" dataKey="basis" stroke="#a855f7" strokeWidth={1.5} fill="url(#basisGradChart)" dot={false} connectNulls isAnimationActive={false} />
               </AreaChart>
             </ResponsiveContainer>
           )}
         </div>
-      </div>
 
-      {/* Pan controls */}
-      <div className="flex justify-between items-center px-1">
-        <button
-          disabled={!hasMore || isLoadingMore}
-          onClick={() => setViewOffset(v => v + panStep)}
-          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-        >
-          <ChevronLeft size={14} /> {panStepLabel} back
-        </button>
-        <button
-          disabled={isLive}
-          onClick={() => setViewOffset(v => Math.max(0, v - panStep))}
-          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-        >
-          {panStepLabel} forward <ChevronRight size={14} />
-        </button>
+        <PositioningPanes
+          points={positioning.points}
+          unavailable={positioning.unavailable}
+          viewStart={viewStart}
+          viewEnd={viewEnd}
+        />
       </div>
 
+      <PanControls
+        stepLabel={viewport.panStepLabel}
+        onBack={viewport.panBack}
+        onForward={viewport.panForward}
+        canGoBack={hasOlder && !isLoadingOlder}
+        canGoForward={!isLive}
+      />
+
       {/* Snapshot Table Section */}
       <div className="bg-gray-900 rounded-xl border border-gray-800 overflow-hidden">
         <button onClick={() => setIsTableOpen(!isTableOpen)} className="w-full flex items-center justify-between p-4 hover:bg-gray-800/50 transition-colors">
@@ -616,32 +702,49 @@ export const CoinDetail: React.FC<CoinDetailProps> = ({ symbol, data }) => {
                   <thead>
                     <tr className="border-b border-gray-800">
                       <th className="text-left py-2 px-3 text-gray-500 font-medium">Time</th>
-                      <th className="text-right py-2 px-3 text-gray-500 font-medium">Open Interest</th>
+                      <th className="text-right py-2 px-3 text-gray-500 font-medium">Price</th>
+                      <th className="text-right py-2 px-3 text-gray-500 font-medium">Price Δ</th>
+                      <th className="text-right py-2 px-3 text-gray-500 font-medium">Open Interest{oiUnit === 'usd' ? ' (USD)' : ''}</th>
                       <th className="text-right py-2 px-3 text-gray-500 font-medium">OI Δ</th>
+                      <th className="text-right py-2 px-3 text-gray-500 font-medium">OI Δ%</th>
+                      <th className="text-right py-2 px-3 text-gray-500 font-medium">Notional</th>
                       <th className="text-right py-2 px-3 text-gray-500 font-medium">Funding Rate</th>
                       <th className="text-right py-2 px-3 text-gray-500 font-medium">FR Δ</th>
+                      <th className="text-right py-2 px-3 text-gray-500 font-medium">Cum. Funding</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {snapshots.map((row, idx) => (
-                      <tr key={idx} className="border-b border-gray-800/50 hover:bg-gray-800/30">
-                        <td className="py-2 px-3 text-gray-400 font-mono text-xs">
-                          {new Date(row.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false })}
-                        </td>
-                        <td className="py-2 px-3 text-right font-mono text-white">{formatOI(row.openInterest)}</td>
-                        <td className={`py-2 px-3 text-right font-mono text-xs ${row.oiChange === undefined ? 'text-gray-600' : row.oiChange > 0 ? 'text-green-400' : row.oiChange < 0 ? 'text-red-400' : 'text-gray-500'
-                          }`}>
-                          {row.oiChange === undefined ? '—' : row.oiChange > 0 ? `+${formatOI(row.oiChange)}` : formatOI(row.oiChange)}
-                        </td>
-                        <td className={`py-2 px-3 text-right font-mono ${row.fundingRate > 0 ? 'text-green-400' : 'text-red-400'}`}>
-                          {(row.fundingRate * 100).toFixed(6)}%
-                        </td>
-                        <td className={`py-2 px-3 text-right font-mono text-xs ${row.frChange === undefined ? 'text-gray-600' : row.frChange > 0 ? 'text-green-400' : row.frChange < 0 ? 'text-red-400' : 'text-gray-500'
-                          }`}>
-                          {row.frChange === undefined ? '—' : row.frChange > 0 ? `+${(row.frChange * 100).toFixed(6)}%` : `${(row.frChange * 100).toFixed(6)}%`}
-                        </td>
-                      </tr>
-                    ))}
+                    {snapshots.map(row => {
+                      const oiChange = snapshotOiChange(row);
+                      return (
+                        <tr key={row.timestamp} className="border-b border-gray-800/50 hover:bg-gray-800/30">
+                          <td className="py-2 px-3 text-gray-400 font-mono text-xs" title={`Sampled ${formatDateTime(row.sampledAt)}`}>
+                            {new Date(row.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false })}
+                          </td>
+                          <td className="py-2 px-3 text-right font-mono text-white">{row.price.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                          <td className={`py-2 px-3 text-right font-mono text-xs ${changeClass(row.priceChangePct)}`}>
+                            {row.priceChangePct === null ? '—' : `${row.priceChangePct > 0 ? '+' : ''}${row.priceChangePct.toFixed(2)}%`}
+                          </td>
+                          <td className="py-2 px-3 text-right font-mono text-white">{formatOI(row[oiKey])}</td>
+                          <td className={`py-2 px-3 text-right font-mono text-xs ${changeClass(oiChange)}`}>
+                            {oiChange === null ? '—' : oiChange > 0 ? `+${formatOI(oiChange)}` : formatOI(oiChange)}
+                          </td>
+                          <td className={`py-2 px-3 text-right font-mono text-xs ${changeClass(row.oiChangePct)}`}>
+                            {row.oiChangePct === null ? '—' : `${row.oiChangePct > 0 ? '+' : ''}${row.oiChangePct.toFixed(2)}%`}
+                          </td>
+                          <td className="py-2 px-3 text-right font-mono text-gray-300">{formatNotional(row.openInterestUsd)}</td>
+                          <td className={`py-2 px-3 text-right font-mono ${row.fundingRate > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {(row.fundingRate * 100).toFixed(6)}%
+                          </td>
+                          <td className={`py-2 px-3 text-right font-mono text-xs ${changeClass(row.fundingChange)}`}>
+                            {row.fundingChange === null ? '—' : row.fundingChange > 0 ? `+${(row.fundingChange * 100).toFixed(6)}%` : `${(row.fundingChange * 100).toFixed(6)}%`}
+                          </td>
+                          <td className={`py-2 px-3 text-right font-mono text-xs ${changeClass(row.cumulativeFunding)}`}>
+                            {(row.cumulativeFunding * 100).toFixed(4)}%
+                          </td>
+                        </tr>
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
@@ -0,0 +1,286 @@
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, Tooltip,
+  ResponsiveContainer, CartesianGrid, ReferenceLine,
+} from 'recharts';
+import { Clock, Plus, X } from 'lucide-react';
+import { MarketDataPoint } from '../types';
+import { useChartViewport } from '../hooks/useChartViewport';
+import { useComparisonSeries } from '../hooks/useComparisonSeries';
+import { IntervalSelector, PanControls, ViewportHeader, formatAxisTick, formatDateTime } from './ChartControls';
+
+interface ComparisonViewProps {
+  /** Coin keys (see `toCoinKey`) that can be added to the comparison */
+  trackedCoins: string[];
+  /** Coin keys currently overlaid, in legend order */
+  keys: string[];
+  onChange: (keys: string[]) => void;
+  /** Live points per coin key, used to refresh the newest bucket */
+  liveData: Record<string, MarketDataPoint[]>;
+}
+
+type ComparisonMetric = 'price' | 'openInterest' | 'oiNotional' | 'fundingRate';
+type Normalization = 'pct' | 'zscore' | 'raw';
+
+const MAX_COMPARED_COINS = 8;
+
+const SERIES_COLORS = [
+  '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316',
+];
+
+const formatCompact = (val: number) => {
+  const abs = Math.abs(val);
+  if (abs >= 1_000_000_000) return (val / 1_000_000_000).toFixed(2) + 'B';
+  if (abs >= 1_000_000) return (val / 1_000_000).toFixed(3) + 'M';
+  if (abs >= 1_000) return (val / 1_000).toFixed(3) + 'K';
+  return val.toFixed(abs < 10 ? 4 : 2);
+};
+
+const METRICS: { id: ComparisonMetric; label: string; value: (p: MarketDataPoint) => number; format: (v: number) => string }[] = [
+  { id: 'price', label: 'Price', value: p => p.price, format: v => '$' + formatCompact(v) },
+  { id: 'openInterest', label: 'Open Interest', value: p => p.openInterest, format: formatCompact },
+  { id: 'oiNotional', label: 'OI Notional', value: p => p.openInterestUsd, format: v => '$' + formatCompact(v) },
+  { id: 'fundingRate', label: 'Funding (8h)', value: p => p.fundingRate8h, format: v => (v * 100).toFixed(4) + '%' },
+];
+
+const NORMALIZATIONS: { id: Normalization; label: string; title: string }[] = [
+  { id: 'pct', label: '% change', title: 'Percent change from the first point in view' },
+  { id: 'zscore', label: 'Z-score', title: 'Standard deviations from the mean of the points in view' },
+  { id: 'raw', label: 'Raw', title: 'Actual values' },
+];
+
+interface ComparisonRow {
+  timestamp: number;
+  /** Normalized value per coin key (missing where the coin has no point) */
+  values: Record<string, number>;
+  raw: Record<string, number>;
+}
+
+/**
+ * Rescales one coin's visible values. Percent change is taken against the
+ * first point in view (relative to its magnitude, so it stays meaningful for
+ * negative funding); a zero baseline or flat series leaves nothing to plot.
+ */
+function normalize(values: number[], mode: Normalization): (number | null)[] {
+  if (mode === 'raw' || values.length === 0) return values;
+  if (mode === 'pct') {
+    const base = values[0];
+    return values.map(v => (base === 0 ? null : ((v - base) / Math.abs(base)) * 100));
+  }
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const std = Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / values.length);
+  return values.map(v => (std === 0 ? 0 : (v - mean) / std));
+}
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({
+  trackedCoins, keys, onChange, liveData,
+}) => {
+  const [metric, setMetric] = useState<ComparisonMetric>('openInterest');
+  const [normalization, setNormalization] = useState<Normalization>('pct');
+  const viewport = useChartViewport();
+  const { chartInterval, viewStart, viewEnd, isLive } = viewport;
+
+  const metricDef = METRICS.find(m => m.id === metric)!;
+
+  const latestTimestamp = useMemo(() => {
+    const latest = keys.map(k => liveData[k]?.at(-1)?.timestamp).filter((t): t is number => t != null);
+    return latest.length ? Math.max(...latest) : undefined;
+  }, [keys, liveData]);
+
+  const { series, isLoading, hasMore } = useComparisonSeries(
+    keys,
+    chartInterval.value,
+    chartInterval.window,
+    viewStart,
+    latestTimestamp,
+  );
+
+  // One row per bucket; raw 1-minute rows are snapped to the minute so coins
+  // sampled a few seconds apart line up on the same x
+  const rows = useMemo(() => {
+    const byTs = new Map<number, ComparisonRow>();
+    for (const key of keys) {
+      const visible = (series[key] ?? []).filter(p => p.timestamp >= viewStart && p.timestamp <= viewEnd);
+      const raw = visible.map(metricDef.value);
+      const normalized = normalize(raw, normalization);
+      visible.forEach((p, i) => {
+        const value = normalized[i];
+        if (value == null || !Number.isFinite(value)) return;
+        const ts = Math.floor(p.timestamp / chartInterval.value) * chartInterval.value;
+        let row = byTs.get(ts);
+        if (!row) byTs.set(ts, row = { timestamp: ts, values: {}, raw: {} });
+        row.values[key] = value;
+        row.raw[key] = raw[i];
+      });
+    }
+    return [...byTs.values()].sort((a, b) => a.timestamp - b.timestamp);
+  }, [keys, series, viewStart, viewEnd, metricDef, normalization, chartInterval.value]);
+
+  const formatValue = (v: number) => {
+    if (normalization === 'pct') return (v > 0 ? '+' : '') + v.toFixed(2) + '%';
+    if (normalization === 'zscore') return v.toFixed(2) + 'σ';
+    return metricDef.format(v);
+  };
+
+  const colorOf = (key: string) => SERIES_COLORS[keys.indexOf(key) % SERIES_COLORS.length];
+  const addable = trackedCoins.filter(k => !keys.includes(k));
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const row = payload[0].payload as ComparisonRow;
+    return (
+      <div className="bg-gray-900/95 border border-gray-700 rounded-lg p-3 shadow-xl backdrop-blur text-xs">
+        <p className="text-gray-400 mb-2 flex items-center gap-1">
+          <Clock size={10} /> {formatDateTime(row.timestamp)}
+        </p>
+        {payload.map((p: any) => (
+          <div key={p.name} className="flex justify-between gap-4">
+            <span style={{ color: p.color }}>{p.name}</span>
+            <span className="font-mono text-gray-200">
+              {formatValue(p.value)}
+              {normalization !== 'raw' && (
+                <span className="text-gray-500 ml-2">{metricDef.format(row.raw[p.name])}</span>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const toggleClass = (active: boolean) => `px-3 py-1 rounded-lg text-xs font-medium transition-colors ${active
+    ? 'bg-blue-600 text-white'
+    : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-gray-300'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      <ViewportHeader
+        isLive={isLive}
+        onSnapToLive={viewport.snapToLive}
+        isLoadingOlder={isLoading}
+        hasOlder={hasMore}
+        viewStart={viewStart}
+        viewEnd={viewEnd}
+      />
+
+      {/* Coins */}
+      <div className="flex flex-wrap items-center gap-2 bg-gray-900 rounded-xl p-3 border border-gray-800">
+        <span className="text-xs text-gray-500">Coins:</span>
+        {keys.map(key => (
+          <span
+            key={key}
+            className="flex items-center gap-1.5 pl-2 pr-1 py-0.5 rounded-full border border-gray-700 bg-gray-800 text-xs text-gray-200"
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(key) }} />
+            {key}
+            <button onClick={() => onChange(keys.filter(k => k !== key))} className="p-0.5 text-gray-500 hover:text-white rounded-full">
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        {keys.length < MAX_COMPARED_COINS && addable.length > 0 && (
+          <label className="flex items-center gap-1 text-xs text-gray-400">
+            <Plus size={12} />
+            <select
+              value=""
+              onChange={e => e.target.value && onChange([...keys, e.target.value])}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-600"
+            >
+              <option value="">Add coin…</option>
+              {addable.map(k => <option key={k} value={k}>{k}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {/* Metric and normalization */}
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-900 rounded-xl p-3 border border-gray-800">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Metric:</span>
+          <div className="flex gap-1">
+            {METRICS.map(m => (
+              <button key={m.id} onClick={() => setMetric(m.id)} className={toggleClass(metric === m.id)}>
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Scale:</span>
+          <div className="flex gap-1">
+            {NORMALIZATIONS.map(n => (
+              <button key={n.id} title={n.title} onClick={() => setNormalization(n.id)} className={toggleClass(normalization === n.id)}>
+                {n.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <IntervalSelector
+        selected={chartInterval}
+        onSelect={viewport.setChartInterval}
+        pointCount={rows.length}
+      />
+
+      <div
+        ref={viewport.containerRef}
+        className="bg-gray-900 rounded-xl p-4 border border-gray-800 select-none"
+        style={{ cursor: viewport.isDragging ? 'grabbing' : 'grab' }}
+        {...viewport.dragHandlers}
+      >
+        <p className="text-xs text-gray-500 mb-3 font-medium">
+          {metricDef.label} · {NORMALIZATIONS.find(n => n.id === normalization)!.label}
+        </p>
+        {keys.length === 0 ? (
+          <div className="h-[320px] flex items-center justify-center text-gray-600 text-sm">Add coins to compare</div>
+        ) : rows.length === 0 ? (
+          <div className="h-[320px] flex items-center justify-center text-gray-600 text-sm">
+            {isLoading ? 'Loading…' : 'No data in this window'}
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={320}>
+            <LineChart data={rows} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                domain={[viewStart, viewEnd]}
+                tickFormatter={formatAxisTick}
+                tick={{ fill: '#6b7280', fontSize: 10 }}
+                axisLine={false}
+                tickLine={false}
+                minTickGap={70}
+              />
+              <YAxis tickFormatter={formatValue} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={72} />
+              {normalization !== 'raw' && <ReferenceLine y={0} stroke="#374151" strokeDasharray="3 3" />}
+              <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#6b7280', strokeWidth: 1, strokeDasharray: '4 4' }} />
+              {keys.map(key => (
+                <Line
+                  key={key}
+                  name={key}
+                  type="monotone"
+                  dataKey={(row: ComparisonRow) => row.values[key]}
+                  stroke={colorOf(key)}
+                  strokeWidth={1.5}
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <PanControls
+        stepLabel={viewport.panStepLabel}
+        onBack={viewport.panBack}
+        onForward={viewport.panForward}
+        canGoBack={hasMore && !isLoading}
+        canGoForward={!isLive}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download, Check, Search } from 'lucide-react';
+import { dbService, parseCoinKey } from '../services/db';
+import { ExportFormat } from '../types';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Coin keys on the watchlist */
+  trackedCoins: string[];
+  /** Coin keys ticked when the dialog opens (the coin being viewed, if any) */
+  initialCoins: string[];
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const RANGES = [
+  { label: '24h', ms: DAY },
+  { label: '7d', ms: 7 * DAY },
+  { label: '30d', ms: 30 * DAY },
+  { label: '90d', ms: 90 * DAY },
+] as const;
+
+// Raw rows, or one of the server's candle rollups (CANDLE_INTERVALS_MS)
+const INTERVALS: { label: string; value: number | undefined }[] = [
+  { label: 'Raw', value: undefined },
+  { label: '5m', value: 5 * 60 * 1000 },
+  { label: '15m', value: 15 * 60 * 1000 },
+  { label: '30m', value: 30 * 60 * 1000 },
+  { label: '1h', value: HOUR },
+];
+
+const FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'csv', label: 'CSV', hint: 'spreadsheets' },
+  { value: 'ndjson', label: 'NDJSON', hint: 'one JSON object per line' },
+  { value: 'parquet', label: 'Parquet', hint: 'pandas, polars, DuckDB' },
+];
+
+// <input type="datetime-local"> works in local time without seconds
+const toLocalInput = (ms: number) => {
+  const d = new Date(ms - new Date(ms).getTimezoneOffset() * 60 * 1000);
+  return d.toISOString().slice(0, 16);
+};
+
+const segmentClass = (active: boolean) =>
+  `px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+    active ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-slate-300'
+  }`;
+
+/**
+ * Picks coins, a time range, raw rows or a candle interval and a file format,
+ * then hands the browser a GET /api/export link so the file streams straight
+ * to disk.
+ */
+export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, trackedCoins, initialCoins }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [coinSearch, setCoinSearch] = useState('');
+  const [range, setRange] = useState<number | 'custom'>(RANGES[1].ms);
+  const [customStart, setCustomStart] = useState('');
+  const [customEnd, setCustomEnd] = useState('');
+  const [resolution, setResolution] = useState<number | undefined>(undefined);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+
+  // initialCoins is read once per opening, not tracked
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(new Set(initialCoins.filter(c => trackedCoins.includes(c))));
+    setCoinSearch('');
+    const now = Date.now();
+    setCustomStart(toLocalInput(now - RANGES[1].ms));
+    setCustomEnd(toLocalInput(now));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const toggleCoin = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      next.has(key) ? next.delete(key) : next.add(key);
+      return next;
+    });
+  };
+
+  const bounds = (): { start: number; end: number } | null => {
+    if (range !== 'custom') {
+      const end = Date.now();
+      return { start: end - range, end };
+    }
+    const start = new Date(customStart).getTime();
+    const end = new Date(customEnd).getTime();
+    return Number.isFinite(start) && Number.isFinite(end) && start < end ? { start, end } : null;
+  };
+
+  const filteredCoins = trackedCoins.filter(c => c.toLowerCase().includes(coinSearch.toLowerCase()));
+  const validRange = bounds() !== null;
+  const canExport = selected.size > 0 && validRange;
+
+  const download = () => {
+    const b = bounds();
+    if (!b || selected.size === 0) return;
+    const coins = trackedCoins.filter(c => selected.has(c)); // keep sidebar order
+    const a = document.createElement('a');
+    a.href = dbService.exportUrl(coins, b.start, b.end, format, resolution);
+    a.download = ''; // the server names the file
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 w-full max-w-md rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-slate-700 bg-slate-900/50">
+          <h2 className="text-lg font-semibold text-white">Export Data</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5 overflow-y-auto flex-1">
+          <div>
+            <label className="text-xs text-slate-500 mb-2 block">
+              Coins
+              {selected.size > 0 && <span className="ml-2 text-blue-400">{selected.size} selected</span>}
+            </label>
+            {trackedCoins.length > 6 && (
+              <div className="relative mb-2">
+                <Search size={13} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+                <input
+                  type="text"
+                  placeholder="Filter coins..."
+                  value={coinSearch}
+                  onChange={e => setCoinSearch(e.target.value)}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg pl-8 pr-3 py-1.5 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-blue-600"
+                />
+              </div>
+            )}
+            <div className="max-h-40 overflow-y-auto space-y-1 rounded-lg border border-slate-700 bg-slate-900/50 p-2">
+              {filteredCoins.length === 0 ? (
+                <p className="text-xs text-slate-500 text-center py-3">No coins found</p>
+              ) : filteredCoins.map(key => {
+                const { venue, symbol } = parseCoinKey(key);
+                const checked = selected.has(key);
+                return (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => toggleCoin(key)}
+                    className={`w-full flex items-center gap-2 px-2.5 py-1.5 rounded-md text-sm transition-colors ${
+                      checked ? 'bg-blue-600/20 text-blue-300' : 'text-slate-400 hover:bg-slate-700 hover:text-slate-200'
+                    }`}
+                  >
+                    <span className={`w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 transition-colors ${checked ? 'bg-blue-600 border-blue-600' : 'border-slate-600'}`}>
+                      {checked && <Check size={10} className="text-white" />}
+                    </span>
+                    <span className="font-medium truncate">{symbol}</span>
+                    {venue !== 'binance' && (
+                      <span className="px-1 py-px rounded bg-slate-700/70 text-[9px] uppercase tracking-wider text-slate-400">{venue}</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="flex gap-2 mt-1">
+              <button type="button" onClick={() => setSelected(new Set(trackedCoins))} className="text-xs text-slate-500 hover:text-slate-300 transition-colors">Select all</button>
+              <span className="text-slate-700">·</span>
+              <button type="button" onClick={() => setSelected(new Set())} className="text-xs text-slate-500 hover:text-slate-300 transition-colors">Clear</button>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-500 mb-2 block">Range</label>
+            <div className="flex gap-1 flex-wrap">
+              {RANGES.map(r => (
+                <button key={r.label} type="button" onClick={() => setRange(r.ms)} className={segmentClass(range === r.ms)}>
+                  Last {r.label}
+                </button>
+              ))}
+              <button type="button" onClick={() => setRange('custom')} className={segmentClass(range === 'custom')}>
+                Custom
+              </button>
+            </div>
+            {range === 'custom' && (
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                <input
+                  type="datetime-local"
+                  value={customStart}
+                  onChange={e => setCustomStart(e.target.value)}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-blue-600"
+                />
+                <input
+                  type="datetime-local"
+                  value={customEnd}
+                  onChange={e => setCustomEnd(e.target.value)}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-blue-600"
+                />
+                {!validRange && <p className="col-span-2 text-xs text-red-400">Start must be before end</p>}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-500 mb-2 block">Resolution</label>
+            <div className="flex gap-1 flex-wrap">
+              {INTERVALS.map(i => (
+                <button key={i.label} type="button" onClick={() => setResolution(i.value)} className={segmentClass(resolution === i.value)}>
+                  {i.label}
+                </button>
+              ))}
+            </div>
+            {resolution === undefined && (
+              <p className="text-xs text-slate-500 mt-1.5">Raw rows only go back as far as raw retention keeps them; candles go further.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-500 mb-2 block">Format</label>
+            <div className="grid grid-cols-3 gap-1">
+              {FORMATS.map(f => (
+                <button
+                  key={f.value}
+                  type="button"
+                  onClick={() => setFormat(f.value)}
+                  className={`px-2 py-1.5 rounded-lg text-left transition-colors ${
+                    format === f.value ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 hover:bg-slate-700 hover:text-slate-300'
+                  }`}
+                >
+                  <span className="block text-xs font-medium">{f.label}</span>
+                  <span className={`block text-[10px] ${format === f.value ? 'text-blue-100' : 'text-slate-500'}`}>{f.hint}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex gap-2">
+          <button type="button" onClick={onClose} className="flex-1 bg-slate-700 hover:bg-slate-600 text-slate-300 px-4 py-2 rounded-lg text-sm font-medium transition-colors">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={download}
+            disabled={!canExport}
+            className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            <Download size={16} /> Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Clock, RefreshCw } from 'lucide-react';
+import { CoinGroup, FundingHeatmap as HeatmapData, HeatmapRow } from '../types';
+import { dbService, toCoinKey } from '../services/db';
+import { DEFAULT_GROUP_ID } from '../hooks/useGroups';
+import { REFRESH_INTERVAL_MS } from '../constants';
+import { formatAxisTick, formatDateTime } from './ChartControls';
+
+interface FundingHeatmapProps {
+  groups: CoinGroup[];
+  /** Opens the coin's detail view */
+  onSelectCoin: (key: string) => void;
+}
+
+type HeatmapMetric = 'fundingRate' | 'oiChangePct';
+
+const HOUR = 60 * 60 * 1000;
+
+const RANGE_OPTIONS = [
+  { label: '24h · 1h', interval: HOUR, count: 24 },
+  { label: '3d · 1h', interval: HOUR, count: 72 },
+  { label: '7d · 4h', interval: 4 * HOUR, count: 42 },
+  { label: '30d · 8h', interval: 8 * HOUR, count: 90 },
+  { label: '90d · 1d', interval: 24 * HOUR, count: 90 },
+];
+
+const METRICS: { id: HeatmapMetric; label: string; format: (v: number) => string }[] = [
+  { id: 'fundingRate', label: 'Funding Rate', format: v => (v * 100).toFixed(4) + '%' },
+  { id: 'oiChangePct', label: 'OI Change', format: v => (v > 0 ? '+' : '') + v.toFixed(2) + '%' },
+];
+
+// Label every n-th column so the header stays readable at any width
+const LABEL_EVERY = 6;
+
+/**
+ * Full colour at the 95th percentile of |value| rather than the maximum, so
+ * one extreme coin doesn't wash everything else out.
+ */
+function colorScale(values: number[]) {
+  const sorted = values.map(Math.abs).sort((a, b) => a - b);
+  return Math.max(sorted[Math.floor(sorted.length * 0.95)] ?? 0, 1e-12);
+}
+
+function cellColor(value: number | null, scale: number) {
+  if (value == null) return undefined;
+  const alpha = 0.12 + 0.88 * Math.min(1, Math.abs(value) / scale);
+  return value >= 0 ? `rgba(34, 197, 94, ${alpha})` : `rgba(239, 68, 68, ${alpha})`;
+}
+
+interface HoveredCell {
+  key: string;
+  index: number;
+  x: number;
+  y: number;
+}
+
+export const FundingHeatmap: React.FC<FundingHeatmapProps> = ({ groups, onSelectCoin }) => {
+  const [range, setRange] = useState(RANGE_OPTIONS[0]);
+  const [metric, setMetric] = useState<HeatmapMetric>('fundingRate');
+  const [data, setData] = useState<HeatmapData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<HoveredCell | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setData(await dbService.getHeatmap(range.interval, range.count));
+      setError(null);
+    } catch (err) {
+      console.error('[FundingHeatmap] load failed:', err);
+      setError('Failed to load the heatmap.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const rowsByKey = useMemo(
+    () => new Map((data?.coins ?? []).map(r => [toCoinKey(r.venue, r.symbol), r])),
+    [data],
+  );
+
+  // Same order as the sidebar: custom groups by `order`, then the default group
+  const sections = useMemo(() => {
+    const ordered = [
+      ...groups.filter(g => g.id !== DEFAULT_GROUP_ID).sort((a, b) => a.order - b.order),
+      ...groups.filter(g => g.id === DEFAULT_GROUP_ID),
+    ];
+    return ordered
+      .map(group => ({
+        group,
+        rows: group.coinSymbols
+          .map(key => ({ key, row: rowsByKey.get(key) }))
+          .filter((r): r is { key: string; row: HeatmapRow } => r.row !== undefined),
+      }))
+      .filter(s => s.rows.length > 0);
+  }, [groups, rowsByKey]);
+
+  const metricDef = METRICS.find(m => m.id === metric)!;
+  const scale = useMemo(
+    () => colorScale((data?.coins ?? []).flatMap(r => r[metric]).filter((v): v is number => v != null)),
+    [data, metric],
+  );
+
+  const hoveredRow = hovered ? rowsByKey.get(hovered.key) : undefined;
+  const toggleClass = (active: boolean) => `px-3 py-1 rounded-lg text-xs font-medium transition-colors ${active
+    ? 'bg-blue-600 text-white'
+    : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-gray-300'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-900 rounded-xl p-3 border border-gray-800">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Metric:</span>
+          <div className="flex gap-1">
+            {METRICS.map(m => (
+              <button key={m.id} onClick={() => setMetric(m.id)} className={toggleClass(metric === m.id)}>
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Range:</span>
+          <div className="flex gap-1">
+            {RANGE_OPTIONS.map(r => (
+              <button key={r.label} onClick={() => setRange(r)} className={toggleClass(range.label === r.label)}>
+                {r.label}
+              </button>
+            ))}
+          </div>
+          <button onClick={load} title="Refresh" className="p-1.5 text-gray-500 hover:text-white transition-colors">
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 rounded-lg bg-red-950/60 border border-red-800/50 text-xs text-red-400">{error}</div>
+      )}
+
+      <div className="bg-gray-900 rounded-xl p-4 border border-gray-800 overflow-x-auto">
+        {!data ? (
+          <div className="h-40 flex items-center justify-center text-gray-600 text-sm">Loading…</div>
+        ) : sections.length === 0 ? (
+          <div className="h-40 flex items-center justify-center text-gray-600 text-sm">No coins on your watchlist</div>
+        ) : (
+          <div className="min-w-[480px] space-y-3" onMouseLeave={() => setHovered(null)}>
+            {/* Column times */}
+            <div className="flex items-end">
+              <div className="w-32 flex-shrink-0" />
+              <div className="flex-1 flex">
+                {data.buckets.map((ts, i) => (
+                  <div key={ts} className="flex-1 min-w-[6px] relative h-4">
+                    {i % LABEL_EVERY === 0 && (
+                      <span className="absolute left-0 bottom-0 text-[10px] text-gray-500 whitespace-nowrap">
+                        {formatAxisTick(ts)}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {sections.map(({ group, rows }) => (
+              <div key={group.id} className="space-y-px">
+                <div className="flex items-center gap-2 text-xs text-gray-400 mb-1">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: group.color }} />
+                  {group.name}
+                </div>
+                {rows.map(({ key, row }) => (
+                  <div key={key} className="flex items-center">
+                    <button
+                      onClick={() => onSelectCoin(key)}
+                      className="w-32 flex-shrink-0 pr-2 text-left text-xs text-gray-300 hover:text-white truncate"
+                    >
+                      {key}
+                    </button>
+                    <div className="flex-1 flex gap-px">
+                      {row[metric].map((value, i) => (
+                        <div
+                          key={data.buckets[i]}
+                          onClick={() => onSelectCoin(key)}
+                          onMouseMove={e => setHovered({ key, index: i, x: e.clientX, y: e.clientY })}
+                          className={`flex-1 min-w-[6px] h-5 cursor-pointer rounded-[2px] ${value == null ? 'bg-gray-800/40' : ''} ${
+                            hovered?.key === key && hovered.index === i ? 'ring-1 ring-white/70' : ''
+                          }`}
+                          style={{ backgroundColor: cellColor(value, scale) }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {hovered && hoveredRow && data && (
+        <div
+          className="fixed z-50 pointer-events-none bg-gray-900/95 border border-gray-700 rounded-lg p-3 shadow-xl backdrop-blur text-xs"
+          style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+        >
+          <p className="text-white font-medium mb-1">{hovered.key}</p>
+          <p className="text-gray-400 mb-2 flex items-center gap-1">
+            <Clock size={10} /> {formatDateTime(data.buckets[hovered.index])} – {formatDateTime(data.buckets[hovered.index] + data.interval)}
+          </p>
+          {METRICS.map(m => {
+            const value = hoveredRow[m.id][hovered.index];
+            return (
+              <div key={m.id} className="flex justify-between gap-4">
+                <span className="text-gray-500">{m.label}</span>
+                <span className={`font-mono ${value == null ? 'text-gray-600' : value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-gray-300'}`}>
+                  {value == null ? '—' : m.format(value)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-600 text-center">
+        {metricDef.label} per {range.label.split(' · ')[1]} bucket · full colour at ±{metricDef.format(scale).replace('+', '')} · click a coin to open it
+      </p>
+    </div>
+  );
+};
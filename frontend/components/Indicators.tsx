@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, Tooltip,
+  ResponsiveContainer, CartesianGrid, ReferenceLine,
+} from 'recharts';
+import { Clock, Plus, X, SlidersHorizontal } from 'lucide-react';
+import { IndicatorConfig, IndicatorKind, IndicatorSource } from '../types';
+import {
+  DEFAULT_STD_DEV, INDICATOR_COLORS, INDICATOR_SOURCE_LABELS, INDICATOR_SPECS, IndicatorPoint,
+  MAX_PERIOD, MAX_STD_DEV, MIN_PERIOD, MIN_STD_DEV, indicatorLabel, rocMode,
+} from '../indicators';
+import { formatDateTime } from './ChartControls';
+
+type IndicatorPatch = Partial<Pick<IndicatorConfig, 'period' | 'stdDev' | 'color'>>;
+
+interface IndicatorBarProps {
+  indicators: IndicatorConfig[];
+  onAdd: (kind: IndicatorKind, source: IndicatorSource) => void;
+  onUpdate: (id: string, patch: IndicatorPatch) => void;
+  onRemove: (id: string) => void;
+}
+
+const SOURCES: IndicatorSource[] = ['price', 'oi', 'funding'];
+
+/** Number field that only reports values inside [min, max]; anything else stays a red draft. */
+const ParamInput: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (v: number) => void;
+}> = ({ label, value, min, max, step, onChange }) => {
+  const [draft, setDraft] = useState(String(value));
+  const accepts = (text: string) => {
+    const v = Number(text);
+    return text !== '' && v >= min && v <= max && (step < 1 || Number.isInteger(v));
+  };
+  return (
+    <label className="flex items-center gap-1.5 text-xs text-gray-500">
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={draft}
+        onChange={e => {
+          setDraft(e.target.value);
+          if (accepts(e.target.value)) onChange(Number(e.target.value));
+        }}
+        onBlur={() => setDraft(String(value))}
+        className={`w-16 bg-gray-800 border rounded px-2 py-0.5 text-xs text-white font-mono focus:outline-none ${accepts(draft) ? 'border-gray-700 focus:border-blue-600' : 'border-red-500'}`}
+      />
+    </label>
+  );
+};
+
+/**
+ * The coin view's indicator list: a chip per indicator, an editor for the
+ * selected one and a menu to add more, grouped by the series they study.
+ */
+export const IndicatorBar: React.FC<IndicatorBarProps> = ({ indicators, onAdd, onUpdate, onRemove }) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editing = indicators.find(i => i.id === editingId);
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-3 border border-gray-800 space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-xs text-gray-500 flex items-center gap-1">
+          <SlidersHorizontal size={12} /> Indicators:
+        </span>
+        {indicators.length === 0 && <span className="text-xs text-gray-600">none</span>}
+        {indicators.map(i => (
+          <span
+            key={i.id}
+            className={`flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-lg text-xs border transition-colors ${i.id === editingId ? 'border-blue-600 bg-gray-800' : 'border-gray-700 hover:bg-gray-800'}`}
+          >
+            <button onClick={() => setEditingId(i.id === editingId ? null : i.id)} className="flex items-center gap-1.5 text-gray-300">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: i.color }} />
+              {indicatorLabel(i)}
+              <span className="text-gray-600">· {INDICATOR_SOURCE_LABELS[i.source]}</span>
+            </button>
+            <button
+              onClick={() => {
+                onRemove(i.id);
+                if (i.id === editingId) setEditingId(null);
+              }}
+              className="text-gray-600 hover:text-red-400 transition-colors"
+              title="Remove indicator"
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        <div className="relative">
+          <button
+            onClick={() => setIsMenuOpen(!isMenuOpen)}
+            className="flex items-center gap-1 px-2 py-0.5 rounded-lg text-xs font-medium bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-gray-300 transition-colors"
+          >
+            <Plus size={12} /> Add
+          </button>
+          {isMenuOpen && (
+            <div className="absolute left-0 top-full mt-1 z-20 w-64 bg-gray-900 border border-gray-700 rounded-lg shadow-xl p-2 space-y-2">
+              {SOURCES.map(source => (
+                <div key={source}>
+                  <p className="text-[10px] uppercase tracking-wider text-gray-600 px-1 mb-0.5">{INDICATOR_SOURCE_LABELS[source]}</p>
+                  {(Object.keys(INDICATOR_SPECS) as IndicatorKind[])
+                    .filter(kind => INDICATOR_SPECS[kind].sources.includes(source))
+                    .map(kind => (
+                      <button
+                        key={kind}
+                        onClick={() => {
+                          onAdd(kind, source);
+                          setIsMenuOpen(false);
+                        }}
+                        className="w-full flex justify-between px-2 py-1 rounded text-xs text-gray-300 hover:bg-gray-800 transition-colors"
+                      >
+                        <span>{INDICATOR_SPECS[kind].label}</span>
+                        <span className="text-gray-600">{INDICATOR_SPECS[kind].placement === 'pane' ? 'pane' : 'overlay'}</span>
+                      </button>
+                    ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <div key={editing.id} className="flex items-center gap-4 flex-wrap pt-2 border-t border-gray-800">
+          <span className="text-xs text-gray-400">{INDICATOR_SPECS[editing.kind].label}</span>
+          <ParamInput
+            label="Period"
+            value={editing.period}
+            min={MIN_PERIOD}
+            max={MAX_PERIOD}
+            step={1}
+            onChange={period => onUpdate(editing.id, { period })}
+          />
+          {editing.kind === 'bollinger' && (
+            <ParamInput
+              label="Std dev"
+              value={editing.stdDev ?? DEFAULT_STD_DEV}
+              min={MIN_STD_DEV}
+              max={MAX_STD_DEV}
+              step={0.5}
+              onChange={stdDev => onUpdate(editing.id, { stdDev })}
+            />
+          )}
+          <div className="flex items-center gap-1">
+            {INDICATOR_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => onUpdate(editing.id, { color })}
+                className={`w-4 h-4 rounded-full border-2 ${editing.color === color ? 'border-white' : 'border-transparent'}`}
+                style={{ backgroundColor: color }}
+                title={color}
+              />
+            ))}
+          </div>
+          <span className="text-xs text-gray-600">Period counts chart points at the selected interval</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Formats an oscillator value: RSI as 0–100, ROC in percent or, for funding, in rate. */
+const formatOscillator = (c: IndicatorConfig, v: number) => {
+  if (c.kind === 'rsi') return v.toFixed(1);
+  return rocMode(c.source) === 'diff'
+    ? (v > 0 ? '+' : '') + (v * 100).toFixed(6) + '%'
+    : (v > 0 ? '+' : '') + v.toFixed(2) + '%';
+};
+
+interface IndicatorPaneProps {
+  config: IndicatorConfig;
+  data: IndicatorPoint[];
+}
+
+/**
+ * An oscillator (RSI, ROC) in its own short pane. It plots the same rows as
+ * the charts above on the same categorical axis, so the points line up.
+ */
+export const IndicatorPane: React.FC<IndicatorPaneProps> = ({ config, data }) => {
+  const label = indicatorLabel(config);
+  const isRsi = config.kind === 'rsi';
+
+  const PaneTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length || payload[0].value == null) return null;
+    const d = payload[0].payload as IndicatorPoint;
+    return (
+      <div className="bg-gray-900/95 border border-gray-700 rounded-lg p-3 shadow-xl backdrop-blur text-xs">
+        <p className="text-gray-400 mb-2 flex items-center gap-1">
+          <Clock size={10} /> {formatDateTime(d.timestamp)}
+        </p>
+        <div className="flex justify-between gap-4">
+          <span className="text-gray-500">{label}</span>
+          <span style={{ color: config.color }} className="font-mono">{formatOscillator(config, payload[0].value)}</span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
+      <p className="text-xs text-gray-500 mb-2 font-medium">
+        <span style={{ color: config.color }}>{label}</span> · {INDICATOR_SOURCE_LABELS[config.source]}
+      </p>
+      {data.every(d => d.ind[config.id] == null) ? (
+        <div className="h-[90px] flex items-center justify-center text-gray-600 text-sm">Not enough history in this window for {label}</div>
+      ) : (
+        <ResponsiveContainer width="100%" height={90}>
+          <LineChart data={data} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+            <XAxis dataKey="timestamp" hide />
+            <YAxis
+              tickFormatter={v => (isRsi ? String(v) : formatOscillator(config, v))}
+              tick={{ fill: '#6b7280', fontSize: 10 }}
+              axisLine={false}
+              tickLine={false}
+              domain={isRsi ? [0, 100] : ['auto', 'auto']}
+              ticks={isRsi ? [30, 70] : undefined}
+              width={72}
+            />
+            {isRsi
+              ? [30, 70].map(y => <ReferenceLine key={y} y={y} stroke="#374151" strokeDasharray="3 3" />)
+              : <ReferenceLine y={0} stroke="#374151" strokeDasharray="3 3" />}
+            <Tooltip content={<PaneTooltip />} cursor={{ stroke: config.color, strokeWidth: 1, strokeDasharray: '4 4' }} />
+            <Line type="monotone" dataKey={`ind.${config.id}`} stroke={config.color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { IngestionGap, IngestionHealth, IngestionStatus } from '../types';
+import { formatDateTime } from './ChartControls';
+
+interface IngestionViewProps {
+  statuses: Record<string, IngestionStatus>;
+  loadedAt: number | null;
+  onRefresh: () => void;
+  /** Coin keys on the user's watchlist; others are listed but not clickable */
+  trackedCoins: string[];
+  onSelectCoin: (key: string) => void;
+}
+
+/** "45s", "12m", "3h", "2d" */
+export const formatAge = (ms: number) => {
+  const s = Math.max(0, Math.round(ms / 1000));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m`;
+  if (s < 86400) return `${Math.floor(s / 3600)}h`;
+  return `${Math.floor(s / 86400)}d`;
+};
+
+const HEALTH_STYLES: Record<IngestionHealth, string> = {
+  ok: 'bg-green-500/10 text-green-400 border-green-500/30',
+  stale: 'bg-amber-500/10 text-amber-400 border-amber-500/30',
+  failing: 'bg-red-500/10 text-red-400 border-red-500/30',
+};
+
+/**
+ * Compact health pill for the sidebar: nothing while a coin is healthy,
+ * "stale 7m" or "failing" otherwise, with the last error on hover.
+ */
+export const IngestionBadge: React.FC<{ status: IngestionStatus | undefined }> = ({ status }) => {
+  if (!status || status.health === 'ok') return null;
+  const age = status.lastPointAt == null ? 'no data' : formatAge(Date.now() - status.lastPointAt);
+  const title = [
+    status.lastPointAt == null ? 'Nothing stored yet' : `Last point ${formatDateTime(status.lastPointAt)}`,
+    status.consecutiveFailures > 0 && `${status.consecutiveFailures} failed fetch(es) in a row`,
+    status.lastError && `Last error: ${status.lastError}`,
+  ].filter(Boolean).join('\n');
+  return (
+    <span title={title} className={`px-1.5 py-px rounded border text-[10px] font-medium ${HEALTH_STYLES[status.health]}`}>
+      {status.health === 'failing' ? 'failing' : `stale ${age}`}
+    </span>
+  );
+};
+
+const gapSummary = (gaps: IngestionGap[]) =>
+  gaps.map(g => `${formatDateTime(g.start)} → ${formatDateTime(g.end)}: ${g.status}` +
+    (g.status === 'repaired' ? ` (+${g.pointsAdded ?? 0} points)` : g.error ? ` (${g.error})` : '')).join('\n');
+
+/** Per-coin ingestion health: freshness, failure streaks and the last day's gaps */
+export const IngestionView: React.FC<IngestionViewProps> = ({ statuses, loadedAt, onRefresh, trackedCoins, onSelectCoin }) => {
+  // Worst first, then by coin
+  const rank: Record<IngestionHealth, number> = { failing: 0, stale: 1, ok: 2 };
+  const rows = (Object.entries(statuses) as [string, IngestionStatus][])
+    .sort(([a, sa], [b, sb]) => rank[sa.health] - rank[sb.health] || a.localeCompare(b));
+  const count = (health: IngestionHealth) => rows.filter(([, s]) => s.health === health).length;
+  const now = Date.now();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-900 rounded-xl p-3 border border-gray-800">
+        <div className="flex items-center gap-2 text-xs">
+          {(['ok', 'stale', 'failing'] as const).map(h => (
+            <span key={h} className={`px-2 py-0.5 rounded border ${HEALTH_STYLES[h]}`}>{count(h)} {h}</span>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          <span>Gaps over the last 24h · repaired from exchange history every 15 min</span>
+          {loadedAt && (
+            <span>{new Date(loadedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}</span>
+          )}
+          <button onClick={onRefresh} title="Refresh" className="p-1.5 text-gray-500 hover:text-white transition-colors">
+            <RefreshCw size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-gray-900 rounded-xl border border-gray-800 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-800">
+              <th className="text-left py-2 px-3 text-gray-500 font-medium">Coin</th>
+              <th className="text-left py-2 px-3 text-gray-500 font-medium">Health</th>
+              <th className="text-right py-2 px-3 text-gray-500 font-medium">Last point</th>
+              <th className="text-right py-2 px-3 text-gray-500 font-medium">Last success</th>
+              <th className="text-right py-2 px-3 text-gray-500 font-medium">Failures</th>
+              <th className="text-left py-2 px-3 text-gray-500 font-medium">Last error</th>
+              <th className="text-right py-2 px-3 text-gray-500 font-medium">Gaps (open / repaired)</th>
+              <th className="text-right py-2 px-3 text-gray-500 font-medium">Missing min</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([key, s]) => {
+              const repaired = s.gaps.filter(g => g.status === 'repaired').length;
+              return (
+                <tr key={key} className="border-b border-gray-800/50 hover:bg-gray-800/30">
+                  <td className="py-2 px-3">
+                    {trackedCoins.includes(key) ? (
+                      <button onClick={() => onSelectCoin(key)} className="text-white font-medium hover:text-blue-400 transition-colors">
+                        {key}
+                      </button>
+                    ) : (
+                      <span className="text-gray-300 font-medium">{key}</span>
+                    )}
+                  </td>
+                  <td className="py-2 px-3">
+                    <span className={`px-1.5 py-px rounded border text-[10px] font-medium ${HEALTH_STYLES[s.health]}`}>{s.health}</span>
+                  </td>
+                  <td className="py-2 px-3 text-right font-mono text-xs text-gray-300">
+                    {s.lastPointAt == null ? '—' : `${formatAge(now - s.lastPointAt)} ago`}
+                  </td>
+                  <td className="py-2 px-3 text-right font-mono text-xs text-gray-400">
+                    {s.lastSuccessAt == null ? '—' : formatDateTime(s.lastSuccessAt)}
+                  </td>
+                  <td className={`py-2 px-3 text-right font-mono text-xs ${s.consecutiveFailures > 0 ? 'text-red-400' : 'text-gray-600'}`}>
+                    {s.consecutiveFailures}
+                  </td>
+                  <td className="py-2 px-3 text-xs text-gray-400 max-w-xs truncate" title={s.lastError ?? undefined}>
+                    {s.lastError
+                      ? <>{s.lastErrorAt != null && <span className="text-gray-600">{formatAge(now - s.lastErrorAt)} ago · </span>}{s.lastError}</>
+                      : <span className="text-gray-600">—</span>}
+                  </td>
+                  <td className="py-2 px-3 text-right font-mono text-xs text-gray-300" title={gapSummary(s.gaps) || undefined}>
+                    <span className={s.openGaps > 0 ? 'text-amber-400' : ''}>{s.openGaps}</span>
+                    <span className="text-gray-600"> / </span>
+                    {repaired}
+                  </td>
+                  <td className="py-2 px-3 text-right font-mono text-xs text-gray-300">{s.missingMinutes}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <div className="text-center py-8 text-gray-600 text-sm">{loadedAt ? 'No coins are being ingested' : 'Loading…'}</div>
+        )}
+      </div>
+    </div>
+  );
+};
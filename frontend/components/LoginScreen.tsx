@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Activity, Loader2 } from 'lucide-react';
+
+interface LoginScreenProps {
+  /** Rejects with the server's message on bad credentials or a taken name */
+  onSubmit: (username: string, password: string, register: boolean) => Promise<void>;
+}
+
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onSubmit }) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(username, password, mode === 'register');
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      // request() errors look like `HTTP 401: {"error":"…"}` — show just the reason
+      const match = /"error":"([^"]+)"/.exec(message);
+      setError(match ? match[1] : 'Cannot reach the backend server.');
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-slate-950 text-slate-200 font-sans p-4">
+      <form onSubmit={submit} className="bg-slate-800 border border-slate-700 w-full max-w-sm rounded-xl shadow-2xl p-6 space-y-4">
+        <div className="flex items-center gap-2 mb-2">
+          <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center text-white shadow-lg shadow-blue-500/20">
+            <Activity size={18} strokeWidth={2.5} />
+          </div>
+          <span className="font-bold text-lg tracking-tight">Binance Tracker</span>
+        </div>
+        <p className="text-sm text-slate-400">
+          {mode === 'login' ? 'Sign in to see your watchlist.' : 'Create an account with its own watchlist.'}
+        </p>
+
+        <div>
+          <label className="text-xs text-slate-400 mb-1 block">Username</label>
+          <input
+            type="text"
+            autoComplete="username"
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            className={inputClass}
+            autoFocus
+          />
+        </div>
+        <div>
+          <label className="text-xs text-slate-400 mb-1 block">Password</label>
+          <input
+            type="password"
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className={inputClass}
+          />
+          {mode === 'register' && <p className="mt-1 text-xs text-slate-500">At least 8 characters.</p>}
+        </div>
+
+        {error && (
+          <div className="px-3 py-2 rounded-lg bg-red-950/60 border border-red-800/50 text-xs text-red-400">{error}</div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !username || !password}
+          className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-800 disabled:cursor-not-allowed text-white px-4 py-2.5 rounded-lg text-sm font-medium transition-colors"
+        >
+          {isSubmitting && <Loader2 size={16} className="animate-spin" />}
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+          className="w-full text-xs text-slate-400 hover:text-white transition-colors"
+        >
+          {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useMemo } from 'react';
+import {
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip,
+  ResponsiveContainer, CartesianGrid, ReferenceLine,
+} from 'recharts';
+import { Clock } from 'lucide-react';
+import { PositioningPoint } from '../types';
+import { formatAxisTick, formatDateTime } from './ChartControls';
+
+interface PositioningPanesProps {
+  points: PositioningPoint[];
+  unavailable: boolean;
+  viewStart: number;
+  viewEnd: number;
+}
+
+const formatVolume = (val: number) => {
+  const abs = Math.abs(val);
+  if (abs >= 1_000_000) return (val / 1_000_000).toFixed(2) + 'M';
+  if (abs >= 1_000) return (val / 1_000).toFixed(2) + 'K';
+  return val.toFixed(0);
+};
+
+const formatRatio = (v: number | null) => (v == null ? '—' : v.toFixed(3));
+const formatShare = (v: number | null) => (v == null ? '—' : (v * 100).toFixed(1) + '%');
+
+const PositioningTooltip = ({ active, payload }: any) => {
+  if (!active || !payload?.length) return null;
+  const p = payload[0].payload.point as PositioningPoint;
+  const rows: [string, string][] = [
+    ['Accounts L/S', `${formatRatio(p.globalLongShortRatio)} (${formatShare(p.globalLongAccount)} long)`],
+    ['Top traders L/S', `${formatRatio(p.topLongShortRatio)} (${formatShare(p.topLongAccount)} long)`],
+    ['Taker buy', p.takerBuyVolume == null ? '—' : formatVolume(p.takerBuyVolume)],
+    ['Taker sell', p.takerSellVolume == null ? '—' : formatVolume(p.takerSellVolume)],
+    ['Taker buy/sell', formatRatio(p.takerBuySellRatio)],
+  ];
+  return (
+    <div className="bg-gray-900/95 border border-gray-700 rounded-lg p-3 shadow-xl backdrop-blur text-xs">
+      <p className="text-gray-400 mb-2 flex items-center gap-1">
+        <Clock size={10} /> {formatDateTime(p.timestamp)}
+      </p>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="text-gray-500">{label}</span>
+          <span className="font-mono text-gray-200">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Long/short ratio and taker volume panes for CoinDetail. The x axis is
+ * numeric over [viewStart, viewEnd] so the panes line up with the charts
+ * above even though positioning comes in 5-minute periods.
+ */
+export const PositioningPanes: React.FC<PositioningPanesProps> = ({ points, unavailable, viewStart, viewEnd }) => {
+  const data = useMemo(
+    () => points
+      .filter(p => p.timestamp >= viewStart && p.timestamp <= viewEnd)
+      .map(p => ({
+        timestamp: p.timestamp,
+        globalLongShortRatio: p.globalLongShortRatio,
+        topLongShortRatio: p.topLongShortRatio,
+        // Sell volume is drawn below zero so buying and selling mirror each other
+        takerBuyVolume: p.takerBuyVolume,
+        takerSellVolume: p.takerSellVolume == null ? null : -p.takerSellVolume,
+        point: p,
+      })),
+    [points, viewStart, viewEnd],
+  );
+
+  if (unavailable) {
+    return (
+      <div className="bg-gray-900 rounded-xl p-4 border border-gray-800 text-center text-gray-600 text-sm">
+        Long/short and taker volume aren't available for this venue
+      </div>
+    );
+  }
+
+  const xAxis = (
+    <XAxis
+      dataKey="timestamp" type="number" domain={[viewStart, viewEnd]} tickFormatter={formatAxisTick}
+      tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} minTickGap={70}
+    />
+  );
+  const empty = (
+    <div className="h-[120px] flex items-center justify-center text-gray-600 text-sm">No data in this window</div>
+  );
+
+  return (
+    <>
+      <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-xs text-gray-500 font-medium">Long/Short Ratio</p>
+          <div className="flex gap-3 text-[10px] text-gray-500">
+            <span className="flex items-center gap-1"><span className="w-2 h-0.5 bg-sky-400" /> Accounts</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-0.5 bg-pink-400" /> Top traders</span>
+          </div>
+        </div>
+        {data.length === 0 ? empty : (
+          <ResponsiveContainer width="100%" height={120}>
+            <LineChart data={data} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+              {xAxis}
+              <YAxis tickFormatter={v => v.toFixed(2)} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} domain={['auto', 'auto']} width={55} />
+              <ReferenceLine y={1} stroke="#374151" strokeDasharray="3 3" />
+              <Tooltip content={<PositioningTooltip />} cursor={{ stroke: '#38bdf8', strokeWidth: 1, strokeDasharray: '4 4' }} />
+              <Line type="monotone" dataKey="globalLongShortRatio" stroke="#38bdf8" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+              <Line type="monotone" dataKey="topLongShortRatio" stroke="#f472b6" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="bg-gray-900 rounded-xl p-4 border border-gray-800">
+        <p className="text-xs text-gray-500 mb-3 font-medium">Taker Buy / Sell Volume</p>
+        {data.length === 0 ? empty : (
+          <ResponsiveContainer width="100%" height={120}>
+            <BarChart data={data} stackOffset="sign" margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+              {xAxis}
+              <YAxis tickFormatter={formatVolume} tick={{ fill: '#6b7280', fontSize: 10 }} axisLine={false} tickLine={false} width={55} />
+              <ReferenceLine y={0} stroke="#374151" />
+              <Tooltip content={<PositioningTooltip />} cursor={{ fill: '#1f2937' }} />
+              <Bar dataKey="takerBuyVolume" stackId="taker" fill="#22c55e" isAnimationActive={false} />
+              <Bar dataKey="takerSellVolume" stackId="taker" fill="#ef4444" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Loader2, Plus, RefreshCw, Search } from 'lucide-react';
+import { MarketScan, ScannerRow, ScannerSort } from '../types';
+import { dbService, toCoinKey } from '../services/db';
+import { REFRESH_INTERVAL_MS } from '../constants';
+
+interface ScannerViewProps {
+  /** Coin keys already on the watchlist */
+  trackedCoins: string[];
+  /** Adds a coin to the watchlist; rejects with the server's reason */
+  onTrack: (key: string) => Promise<void>;
+  onSelectCoin: (key: string) => void;
+}
+
+const formatCompact = (val: number) => {
+  if (val >= 1_000_000_000) return (val / 1_000_000_000).toFixed(2) + 'B';
+  if (val >= 1_000_000) return (val / 1_000_000).toFixed(2) + 'M';
+  if (val >= 1_000) return (val / 1_000).toFixed(2) + 'K';
+  return val.toFixed(0);
+};
+
+const formatSignedPct = (v: number) => (v > 0 ? '+' : '') + v.toFixed(2) + '%';
+const formatFunding = (v: number) => (v * 100).toFixed(4) + '%';
+const signClass = (v: number | null) =>
+  v == null ? 'text-gray-600' : v > 0 ? 'text-green-400' : v < 0 ? 'text-red-400' : 'text-gray-400';
+
+const COLUMNS: { sort: ScannerSort; label: string; render: (r: ScannerRow) => React.ReactNode }[] = [
+  {
+    sort: 'priceChangePct', label: '24h Change',
+    render: r => <span className={signClass(r.priceChangePct)}>{formatSignedPct(r.priceChangePct)}</span>,
+  },
+  {
+    sort: 'quoteVolume', label: '24h Volume',
+    render: r => <span className="text-gray-300">${formatCompact(r.quoteVolume)}</span>,
+  },
+  {
+    sort: 'fundingRate', label: 'Funding',
+    render: r => <span className={signClass(r.fundingRate)}>{formatFunding(r.fundingRate)}</span>,
+  },
+  {
+    sort: 'fundingChange', label: 'Funding Δ',
+    render: r => r.fundingChange == null
+      ? <span className="text-gray-600">—</span>
+      : <span className={signClass(r.fundingChange)}>{(r.fundingChange > 0 ? '+' : '') + formatFunding(r.fundingChange)}</span>,
+  },
+  {
+    sort: 'oiChangePct', label: 'OI Δ',
+    render: r => r.oiChangePct == null
+      ? <span className="text-gray-600">—</span>
+      : <span className={signClass(r.oiChangePct)}>{formatSignedPct(r.oiChangePct)}</span>,
+  },
+];
+
+/** request() errors look like `HTTP 400: {"error":"…"}` — show just the reason */
+const errorMessage = (err: unknown) => {
+  const message = err instanceof Error ? err.message : String(err);
+  const match = /"error":"([^"]+)"/.exec(message);
+  return match ? match[1] : message;
+};
+
+export const ScannerView: React.FC<ScannerViewProps> = ({ trackedCoins, onTrack, onSelectCoin }) => {
+  const [sort, setSort] = useState<ScannerSort>('fundingRate');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [scan, setScan] = useState<MarketScan | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [pending, setPending] = useState<Set<string>>(new Set());
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setScan(await dbService.getScanner(sort, order));
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sort, order]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const sortBy = (column: ScannerSort) => {
+    if (column === sort) setOrder(order === 'desc' ? 'asc' : 'desc');
+    else { setSort(column); setOrder('desc'); }
+  };
+
+  const track = async (key: string) => {
+    setPending(prev => new Set(prev).add(key));
+    try {
+      await onTrack(key);
+    } catch (err) {
+      setError(`Could not track ${key}: ${errorMessage(err)}`);
+    } finally {
+      setPending(prev => { const next = new Set(prev); next.delete(key); return next; });
+    }
+  };
+
+  const q = query.trim().toUpperCase();
+  const rows = (scan?.rows ?? []).filter(r => !q || r.symbol.includes(q) || r.baseAsset.includes(q));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-900 rounded-xl p-3 border border-gray-800">
+        <div className="relative">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Filter symbols…"
+            className="bg-gray-800 border border-gray-700 rounded-lg pl-8 pr-3 py-1.5 text-xs text-white focus:outline-none focus:border-blue-600"
+          />
+        </div>
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          {scan && (
+            <span>
+              {scan.total} perpetuals · OI Δ over {Math.round(scan.oiLookbackMs / 3_600_000)}h for the top {scan.oiSampleSize} by volume
+              · {new Date(scan.generatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
+            </span>
+          )}
+          <button onClick={load} title="Refresh" className="p-1.5 text-gray-500 hover:text-white transition-colors">
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 rounded-lg bg-red-950/60 border border-red-800/50 text-xs text-red-400">{error}</div>
+      )}
+
+      <div className="bg-gray-900 rounded-xl border border-gray-800 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-800">
+              <th className="text-left py-2 px-3 text-gray-500 font-medium w-10">#</th>
+              <th className="text-left py-2 px-3 text-gray-500 font-medium">Symbol</th>
+              <th className="text-right py-2 px-3 text-gray-500 font-medium">Price</th>
+              {COLUMNS.map(c => (
+                <th key={c.sort} className="text-right py-2 px-3 font-medium">
+                  <button
+                    onClick={() => sortBy(c.sort)}
+                    className={`inline-flex items-center gap-1 transition-colors ${sort === c.sort ? 'text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+                  >
+                    {c.label}
+                    {sort === c.sort && (order === 'desc' ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+                  </button>
+                </th>
+              ))}
+              <th className="py-2 px-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => {
+              const key = toCoinKey(scan!.venue, r.symbol);
+              const isTracked = trackedCoins.includes(key);
+              return (
+                <tr key={r.symbol} className="border-b border-gray-800/50 hover:bg-gray-800/30">
+                  <td className="py-2 px-3 text-gray-600 font-mono text-xs">{r.rank}</td>
+                  <td className="py-2 px-3">
+                    {isTracked ? (
+                      <button onClick={() => onSelectCoin(key)} className="text-white font-medium hover:text-blue-400 transition-colors">
+                        {r.symbol}
+                      </button>
+                    ) : (
+                      <span className="text-gray-300 font-medium">{r.symbol}</span>
+                    )}
+                  </td>
+                  <td className="py-2 px-3 text-right font-mono text-gray-300">{r.price.toLocaleString(undefined, { maximumSignificantDigits: 6 })}</td>
+                  {COLUMNS.map(c => (
+                    <td key={c.sort} className="py-2 px-3 text-right font-mono text-xs">{c.render(r)}</td>
+                  ))}
+                  <td className="py-2 px-3 text-right">
+                    {isTracked ? (
+                      <span className="inline-flex items-center gap-1 text-xs text-gray-500"><Check size={12} /> Tracked</span>
+                    ) : (
+                      <button
+                        onClick={() => track(key)}
+                        disabled={pending.has(key)}
+                        className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:bg-blue-800 text-white text-xs font-medium transition-colors"
+                      >
+                        {pending.has(key) ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+                        Track
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <div className="text-center py-8 text-gray-600 text-sm">{scan ? 'No matching perpetuals' : 'Scanning…'}</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,9 @@
-export const POPULAR_COINS = [
-  'BTCUSDT',
-  'ETHUSDT',
-  'SOLUSDT',
-  'BNBUSDT',
-  'XRPUSDT',
-  'DOGEUSDT',
-  'ADAUSDT',
-  'AVAXUSDT',
-  'TRXUSDT',
-  'DOTUSDT',
-  'LINKUSDT',
-  'MATICUSDT',
-  'LTCUSDT',
-  'PEPEUSDT',
-  'WIFUSDT'
-];
-
 // Using a CORS proxy to allow browser-based requests to Binance API
 // constants that might still be useful in the future
 export const REFRESH_INTERVAL_MS = 60000; // 1 minute, used by the client polling loop (server also polls independently)
+
+// Exchange-side chart page per venue, used by the "Open Chart" header link
+export const VENUE_CHART_URLS: Record<string, (symbol: string) => string> = {
+  binance: symbol => `https://www.binance.com/en/futures/${symbol}`,
+  bybit: symbol => `https://www.bybit.com/trade/usdt/${symbol}`,
+};
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertEvent, AlertRule, AlertRuleInput } from '../types';
+import { dbService, toCoinKey } from '../services/db';
+
+const POLL_MS = 30_000;
+const SEEN_KEY = 'binance-tracker-alerts-seen';
+
+/**
+ * Alert rules plus recent alert history. Events are polled every POLL_MS;
+ * firings newer than the last time the panel was opened count as unread and
+ * raise a browser notification when the user has allowed them.
+ */
+export function useAlerts() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [lastSeen, setLastSeen] = useState<number>(() => Number(localStorage.getItem(SEEN_KEY)) || 0);
+  const newestRef = useRef<number | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try { setRules(await dbService.getAlertRules()); }
+    catch (err) { console.error('[useAlerts] failed to load rules:', err); }
+  }, []);
+
+  const pollEvents = useCallback(async () => {
+    try {
+      const list = await dbService.getAlertEvents();
+      const newest = newestRef.current;
+      // The first load only establishes a baseline — don't replay old firings
+      if (newest != null && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+        for (const e of list.filter(e => e.firedAt > newest).reverse()) {
+          new Notification(`${toCoinKey(e.venue, e.symbol)} · ${e.ruleName ?? 'Alert'}`, {
+            body: `${e.metric} ${e.comparator.replace('_', ' ')} ${e.threshold} (now ${e.value.toPrecision(4)})`,
+            tag: `alert-${e.id}`,
+          });
+        }
+      }
+      newestRef.current = list[0]?.firedAt ?? newest ?? 0;
+      setEvents(list);
+    } catch {
+      // Backend unreachable — the main poll loop already reports that
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+    pollEvents();
+    const id = setInterval(pollEvents, POLL_MS);
+    return () => clearInterval(id);
+  }, [loadRules, pollEvents]);
+
+  const createRule = useCallback(async (input: AlertRuleInput) => {
+    const rule = await dbService.createAlertRule(input);
+    setRules(prev => [...prev, rule]);
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => { /* in-app history still works */ });
+    }
+  }, []);
+
+  const updateRule = useCallback(async (id: number, patch: Partial<AlertRuleInput>) => {
+    const rule = await dbService.updateAlertRule(id, patch);
+    setRules(prev => prev.map(r => r.id === id ? rule : r));
+  }, []);
+
+  const deleteRule = useCallback(async (id: number) => {
+    await dbService.deleteAlertRule(id);
+    setRules(prev => prev.filter(r => r.id !== id));
+  }, []);
+
+  const markSeen = useCallback(() => {
+    const now = Date.now();
+    localStorage.setItem(SEEN_KEY, String(now));
+    setLastSeen(now);
+  }, []);
+
+  const unreadCount = events.filter(e => e.firedAt > lastSeen).length;
+
+  return { rules, events, unreadCount, createRule, updateRule, deleteRule, markSeen };
+}
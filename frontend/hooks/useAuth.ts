@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { User } from '../types';
+import { dbService, getAuthToken, setAuthToken, setUnauthorizedHandler } from '../services/db';
+
+export type AuthStatus = 'checking' | 'signed-out' | 'signed-in';
+
+/**
+ * The signed-in user. A stored token is checked against /api/auth/me on
+ * mount; any later 401 (expired or revoked token) signs the user out.
+ */
+export function useAuth() {
+  const [user, setUser] = useState<User | null>(null);
+  const [status, setStatus] = useState<AuthStatus>(getAuthToken() ? 'checking' : 'signed-out');
+
+  const signOutLocally = useCallback(() => {
+    setAuthToken(null);
+    setUser(null);
+    setStatus('signed-out');
+  }, []);
+
+  useEffect(() => {
+    setUnauthorizedHandler(signOutLocally);
+    return () => setUnauthorizedHandler(null);
+  }, [signOutLocally]);
+
+  useEffect(() => {
+    if (!getAuthToken()) return;
+    dbService.getMe()
+      .then(me => { setUser(me); setStatus('signed-in'); })
+      .catch(() => {
+        // A 401 already signed us out; otherwise the backend is down — keep
+        // the token and let the dashboard show its connection error
+        if (getAuthToken()) setStatus('signed-in');
+      });
+  }, []);
+
+  const signIn = useCallback(async (username: string, password: string, register: boolean) => {
+    const session = register
+      ? await dbService.register(username, password)
+      : await dbService.login(username, password);
+    setAuthToken(session.token);
+    setUser(session.user);
+    setStatus('signed-in');
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try { await dbService.logout(); }
+    catch { /* the token is dropped locally either way */ }
+    signOutLocally();
+  }, [signOutLocally]);
+
+  return { user, status, signIn, signOut };
+}
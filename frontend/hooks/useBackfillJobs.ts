@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BackfillJob } from '../types';
+import { dbService, toCoinKey } from '../services/db';
+
+const POLL_MS = 5_000;
+
+const isActive = (job: BackfillJob) => job.status === 'pending' || job.status === 'running';
+
+/**
+ * Backfill jobs keyed by coin key. Polls /api/backfill only while some job is
+ * pending or running; call `refresh()` after adding a coin to start watching.
+ * `onProgress` fires for every job whose cursor moved, with `done` set when
+ * the job just finished.
+ */
+export function useBackfillJobs(onProgress: (coinKey: string, done: boolean) => void) {
+  const [jobs, setJobs] = useState<Record<string, BackfillJob>>({});
+  const jobsRef = useRef<Record<string, BackfillJob>>({});
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onProgressRef = useRef(onProgress);
+  useEffect(() => { onProgressRef.current = onProgress; }, [onProgress]);
+
+  const refresh = useCallback(async () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    try {
+      const list = await dbService.getBackfillJobs();
+      const next: Record<string, BackfillJob> = {};
+      for (const job of list) next[toCoinKey(job.venue, job.symbol)] = job;
+
+      const prev = jobsRef.current;
+      for (const [key, job] of Object.entries(next)) {
+        const before = prev[key];
+        if (before && isActive(before) && job.progress > before.progress) {
+          onProgressRef.current(key, job.status === 'done');
+        }
+      }
+      jobsRef.current = next;
+      setJobs(next);
+
+      if (list.some(isActive)) timerRef.current = setTimeout(refresh, POLL_MS);
+    } catch {
+      // Backend unreachable — the main poll loop reports that; try again later
+      timerRef.current = setTimeout(refresh, POLL_MS);
+    }
+  }, []);
+
+  useEffect(() => () => { if (timerRef.current) clearTimeout(timerRef.current); }, []);
+
+  return { jobs, refresh };
+}
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MarketDataPoint } from '../types';
+import { dbService } from '../services/db';
+
+// Each request covers this many chart windows so a normal pan doesn't refetch
+const CHUNK_WINDOWS = 2;
+
+/** Merge `incoming` into `prev` by timestamp; incoming wins (the open bucket changes). */
+function mergeByTimestamp(prev: MarketDataPoint[], incoming: MarketDataPoint[]) {
+  const byTs = new Map(prev.map(p => [p.timestamp, p]));
+  for (const p of incoming) byTs.set(p.timestamp, p);
+  return [...byTs.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Server-side candles for the chart at any interval above 1 minute.
+ *
+ * Loads the most recent CHUNK_WINDOWS windows on mount / symbol / interval
+ * change, pages further back as `viewStart` approaches the oldest loaded
+ * bucket (mirroring CoinDetail's raw `loadMore`), and re-reads the open
+ * bucket whenever a new live point arrives.
+ */
+export function useCandleSeries(
+  symbol: string,
+  interval: number,
+  windowMs: number,
+  viewStart: number,
+  latestTimestamp: number | undefined,
+  enabled: boolean,
+) {
+  const [points, setPoints] = useState<MarketDataPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+
+  const loadedFromRef = useRef<number | null>(null);
+  const loadingRef = useRef(false);
+  // Bumped on every reset so responses for a previous symbol/interval are dropped
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    const generation = ++generationRef.current;
+    setPoints([]);
+    setHasMore(true);
+    loadedFromRef.current = null;
+    loadingRef.current = false;
+    if (!enabled) return;
+
+    const end = Date.now();
+    const start = end - CHUNK_WINDOWS * windowMs;
+    loadingRef.current = true;
+    setIsLoading(true);
+    dbService.getSeries(symbol, interval, start, end)
+      .then(series => {
+        if (generation !== generationRef.current) return;
+        loadedFromRef.current = start;
+        setPoints(series);
+      })
+      .catch(err => console.error('[useCandleSeries] initial load failed:', err))
+      .finally(() => {
+        if (generation !== generationRef.current) return;
+        loadingRef.current = false;
+        setIsLoading(false);
+      });
+  }, [symbol, interval, windowMs, enabled]);
+
+  const loadOlder = useCallback(async () => {
+    const loadedFrom = loadedFromRef.current;
+    if (loadingRef.current || loadedFrom == null) return;
+    const generation = generationRef.current;
+    const start = loadedFrom - CHUNK_WINDOWS * windowMs;
+    loadingRef.current = true;
+    setIsLoading(true);
+    try {
+      const older = await dbService.getSeries(symbol, interval, start, loadedFrom - 1);
+      if (generation !== generationRef.current) return;
+      loadedFromRef.current = start;
+      if (older.length === 0) setHasMore(false);
+      else setPoints(prev => mergeByTimestamp(older, prev));
+    } catch (err) {
+      console.error('[useCandleSeries] loadOlder failed:', err);
+    } finally {
+      if (generation === generationRef.current) {
+        loadingRef.current = false;
+        setIsLoading(false);
+      }
+    }
+  }, [symbol, interval, windowMs]);
+
+  useEffect(() => {
+    if (!enabled || !hasMore || loadedFromRef.current == null) return;
+    if (viewStart < loadedFromRef.current + windowMs / 4) loadOlder();
+  }, [enabled, hasMore, viewStart, windowMs, loadOlder]);
+
+  // A new live point only ever changes the newest bucket — re-read just that
+  useEffect(() => {
+    if (!enabled || latestTimestamp == null || loadedFromRef.current == null) return;
+    const generation = generationRef.current;
+    const start = Math.floor(latestTimestamp / interval) * interval;
+    dbService.getSeries(symbol, interval, start, Date.now())
+      .then(latest => {
+        if (generation !== generationRef.current) return;
+        setPoints(prev => mergeByTimestamp(prev, latest));
+      })
+      .catch(err => console.error('[useCandleSeries] live refresh failed:', err));
+  }, [enabled, latestTimestamp, symbol, interval]);
+
+  return { points, isLoading, hasMore };
+}
@@ -0,0 +1,94 @@
+import React, { useCallback, useRef, useState } from 'react';
+
+export interface ChartInterval {
+  label: string;
+  value: number;  // bucket size (ms)
+  window: number; // visible time span (ms)
+}
+
+// Chart interval options - each shows ~60 data points
+export const CHART_INTERVALS: ChartInterval[] = [
+  { label: '1 min', value: 1 * 60 * 1000, window: 1 * 60 * 60 * 1000 },   // 1 min → 1 hr
+  { label: '5 min', value: 5 * 60 * 1000, window: 5 * 60 * 60 * 1000 },   // 5 min → 5 hr
+  { label: '15 min', value: 15 * 60 * 1000, window: 15 * 60 * 60 * 1000 }, // 15 min → 15 hr
+  { label: '30 min', value: 30 * 60 * 1000, window: 30 * 60 * 60 * 1000 }, // 30 min → 30 hr
+  { label: '1 hour', value: 60 * 60 * 1000, window: 60 * 60 * 60 * 1000 }, // 1 hr → 60 hr (2.5 days)
+];
+
+/**
+ * The visible time window of a chart: the selected interval plus how far it
+ * has been panned back from now. Spread `dragHandlers` onto the element that
+ * wraps the charts (and give it `containerRef`) to pan by dragging.
+ */
+export function useChartViewport(initial: ChartInterval = CHART_INTERVALS[0]) {
+  const [chartInterval, setChartInterval] = useState(initial);
+  const [viewOffset, setViewOffset] = useState(0);
+
+  const now = Date.now();
+  const viewEnd = now - viewOffset;
+  const viewStart = viewEnd - chartInterval.window;
+  const isLive = viewOffset < 30_000;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragState = useRef<{ startX: number; startOffset: number } | null>(null);
+
+  const onDragStart = useCallback((clientX: number) => {
+    dragState.current = { startX: clientX, startOffset: viewOffset };
+  }, [viewOffset]);
+
+  const onDragMove = useCallback((clientX: number) => {
+    if (!dragState.current || !containerRef.current) return;
+    const chartWidth = containerRef.current.offsetWidth;
+    if (chartWidth === 0) return;
+    const pixelDelta = clientX - dragState.current.startX;
+    const timeDelta = (pixelDelta / chartWidth) * chartInterval.window;
+    const newOffset = Math.max(0, dragState.current.startOffset - timeDelta);
+    setViewOffset(newOffset);
+  }, [chartInterval.window]);
+
+  const onDragEnd = useCallback(() => {
+    dragState.current = null;
+  }, []);
+
+  const handleWindowMouseMove = useCallback((e: MouseEvent) => onDragMove(e.clientX), [onDragMove]);
+  const handleWindowMouseUp = useCallback(() => {
+    onDragEnd();
+    window.removeEventListener('mousemove', handleWindowMouseMove);
+    window.removeEventListener('mouseup', handleWindowMouseUp);
+  }, [onDragEnd, handleWindowMouseMove]);
+
+  const dragHandlers = {
+    onMouseDown: (e: React.MouseEvent) => {
+      e.preventDefault();
+      onDragStart(e.clientX);
+      window.addEventListener('mousemove', handleWindowMouseMove);
+      window.addEventListener('mouseup', handleWindowMouseUp);
+    },
+    onTouchStart: (e: React.TouchEvent) => onDragStart(e.touches[0].clientX),
+    onTouchMove: (e: React.TouchEvent) => onDragMove(e.touches[0].clientX),
+    onTouchEnd: () => onDragEnd(),
+  };
+
+  // Pan step is 1/4 of the window
+  const panStep = chartInterval.window / 4;
+  const panStepLabel = chartInterval.window < 4 * 60 * 60 * 1000
+    ? `${Math.round(panStep / 60000)} min`
+    : `${Math.round(panStep / 3600000)} hr`;
+
+  return {
+    chartInterval,
+    setChartInterval,
+    viewOffset,
+    setViewOffset,
+    viewStart,
+    viewEnd,
+    isLive,
+    isDragging: dragState.current !== null,
+    snapToLive: () => setViewOffset(0),
+    panBack: () => setViewOffset(v => v + panStep),
+    panForward: () => setViewOffset(v => Math.max(0, v - panStep)),
+    panStepLabel,
+    containerRef,
+    dragHandlers,
+  };
+}
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MarketDataPoint } from '../types';
+import { dbService } from '../services/db';
+
+// Each request covers this many chart windows so a normal pan doesn't refetch
+const CHUNK_WINDOWS = 2;
+
+type SeriesByCoin = Record<string, MarketDataPoint[]>;
+
+/** Merge `incoming` into `prev` by timestamp; incoming wins (the open bucket changes). */
+function mergeByTimestamp(prev: MarketDataPoint[], incoming: MarketDataPoint[]) {
+  const byTs = new Map(prev.map(p => [p.timestamp, p]));
+  for (const p of incoming) byTs.set(p.timestamp, p);
+  return [...byTs.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Fetches the same range for every coin at once. */
+async function fetchAll(keys: string[], interval: number, start: number, end: number): Promise<SeriesByCoin> {
+  const series = await Promise.all(keys.map(key => dbService.getSeries(key, interval, start, end)));
+  return Object.fromEntries(keys.map((key, i) => [key, series[i]]));
+}
+
+function mergeAll(prev: SeriesByCoin, incoming: SeriesByCoin): SeriesByCoin {
+  const next = { ...prev };
+  for (const [key, points] of Object.entries(incoming)) next[key] = mergeByTimestamp(prev[key] ?? [], points);
+  return next;
+}
+
+/**
+ * `useCandleSeries` for several coins side by side: raw rows at 1 minute,
+ * server-side candles above it, every coin loaded over the same range so the
+ * overlays share one time axis. Pages back as `viewStart` approaches the
+ * oldest loaded point and re-reads the open bucket when `latestTimestamp`
+ * moves. Changing the coin list reloads from scratch.
+ */
+export function useComparisonSeries(
+  keys: string[],
+  interval: number,
+  windowMs: number,
+  viewStart: number,
+  latestTimestamp: number | undefined,
+) {
+  const [series, setSeries] = useState<SeriesByCoin>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+
+  const loadedFromRef = useRef<number | null>(null);
+  const loadingRef = useRef(false);
+  // Bumped on every reset so responses for a previous selection are dropped
+  const generationRef = useRef(0);
+  const keysId = keys.join(',');
+
+  useEffect(() => {
+    const generation = ++generationRef.current;
+    setSeries({});
+    setHasMore(true);
+    loadedFromRef.current = null;
+    loadingRef.current = false;
+    if (keys.length === 0) return;
+
+    const end = Date.now();
+    const start = end - CHUNK_WINDOWS * windowMs;
+    loadingRef.current = true;
+    setIsLoading(true);
+    fetchAll(keys, interval, start, end)
+      .then(loaded => {
+        if (generation !== generationRef.current) return;
+        loadedFromRef.current = start;
+        setSeries(loaded);
+      })
+      .catch(err => console.error('[useComparisonSeries] initial load failed:', err))
+      .finally(() => {
+        if (generation !== generationRef.current) return;
+        loadingRef.current = false;
+        setIsLoading(false);
+      });
+  }, [keysId, interval, windowMs]);
+
+  const loadOlder = useCallback(async () => {
+    const loadedFrom = loadedFromRef.current;
+    if (loadingRef.current || loadedFrom == null) return;
+    const generation = generationRef.current;
+    const start = loadedFrom - CHUNK_WINDOWS * windowMs;
+    loadingRef.current = true;
+    setIsLoading(true);
+    try {
+      const older = await fetchAll(keys, interval, start, loadedFrom - 1);
+      if (generation !== generationRef.current) return;
+      loadedFromRef.current = start;
+      if (Object.values(older).every(points => points.length === 0)) setHasMore(false);
+      else setSeries(prev => mergeAll(prev, older));
+    } catch (err) {
+      console.error('[useComparisonSeries] loadOlder failed:', err);
+    } finally {
+      if (generation === generationRef.current) {
+        loadingRef.current = false;
+        setIsLoading(false);
+      }
+    }
+  }, [keysId, interval, windowMs]);
+
+  useEffect(() => {
+    if (!hasMore || loadedFromRef.current == null) return;
+    if (viewStart < loadedFromRef.current + windowMs / 4) loadOlder();
+  }, [hasMore, viewStart, windowMs, loadOlder]);
+
+  // A new live point only ever changes the newest bucket — re-read just that
+  useEffect(() => {
+    if (latestTimestamp == null || loadedFromRef.current == null || keys.length === 0) return;
+    const generation = generationRef.current;
+    const start = Math.floor(latestTimestamp / interval) * interval;
+    fetchAll(keys, interval, start, Date.now())
+      .then(latest => {
+        if (generation !== generationRef.current) return;
+        setSeries(prev => mergeAll(prev, latest));
+      })
+      .catch(err => console.error('[useComparisonSeries] live refresh failed:', err));
+  }, [latestTimestamp, keysId, interval]);
+
+  return { series, isLoading, hasMore };
+}
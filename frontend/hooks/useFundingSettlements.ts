@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { FundingSettlement } from '../types';
+import { dbService } from '../services/db';
+import { REFRESH_INTERVAL_MS } from '../constants';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Settled funding events covering [viewStart, viewEnd]. The range is widened
+ * to whole hours so dragging and live updates only refetch when it crosses
+ * an hour boundary; it is also re-read every REFRESH_INTERVAL_MS because the
+ * server syncs new settlements a few minutes after they happen.
+ */
+export function useFundingSettlements(symbol: string, viewStart: number, viewEnd: number) {
+  const [settlements, setSettlements] = useState<FundingSettlement[]>([]);
+  const start = Math.floor(viewStart / HOUR) * HOUR;
+  const end = Math.ceil(viewEnd / HOUR) * HOUR;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      dbService.getFundingSettlements(symbol, start, end)
+        .then(rows => { if (!cancelled) setSettlements(rows); })
+        .catch(err => console.error('[useFundingSettlements] load failed:', err));
+    };
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [symbol, start, end]);
+
+  return settlements;
+}
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CoinGroup } from '../types';
+import { dbService } from '../services/db';
+
+export const DEFAULT_GROUP_ID = '__default__';
+
+// Where groups lived before they were stored server-side; imported once
+const LEGACY_GROUPS_KEY = 'binance-tracker-groups';
+const LEGACY_COLLAPSED_KEY = 'binance-tracker-collapsed';
+
+type Send = (versionOf: (groupId: string) => number | undefined) => Promise<CoinGroup[]>;
+
+/**
+ * Makes `coinSymbols` the members of group `id`, mirroring the server: the
+ * coins leave whatever group they were in and coins dropped from a custom
+ * group fall back to the default group.
+ */
+export function withMembers(groups: CoinGroup[], id: string, coinSymbols: string[]): CoinGroup[] {
+  const moving = new Set(coinSymbols);
+  const dropped = id === DEFAULT_GROUP_ID
+    ? []
+    : (groups.find(g => g.id === id)?.coinSymbols ?? []).filter(s => !moving.has(s));
+  return groups.map(g => {
+    if (g.id === id) return { ...g, coinSymbols: [...coinSymbols] };
+    const kept = g.coinSymbols.filter(s => !moving.has(s));
+    return g.id === DEFAULT_GROUP_ID ? { ...g, coinSymbols: [...kept, ...dropped] } : { ...g, coinSymbols: kept };
+  });
+}
+
+/** Uploads groups saved in localStorage before the server kept them, then forgets them. */
+async function importLegacyGroups(current: CoinGroup[]): Promise<CoinGroup[]> {
+  const stored = localStorage.getItem(LEGACY_GROUPS_KEY);
+  if (!stored) return current;
+  let list = current;
+  // Only into an untouched sidebar — never over groups made since
+  if (!current.some(g => g.id !== DEFAULT_GROUP_ID)) {
+    const legacy: CoinGroup[] = JSON.parse(stored);
+    const collapsed = new Set<string>(JSON.parse(localStorage.getItem(LEGACY_COLLAPSED_KEY) ?? '[]'));
+    const watched = new Set(current.flatMap(g => g.coinSymbols));
+    for (const g of legacy) {
+      const coinSymbols = g.coinSymbols.filter(s => watched.has(s));
+      if (g.id === DEFAULT_GROUP_ID) {
+        list = await dbService.updateGroup(g.id, { collapsed: collapsed.has(g.id) });
+      } else {
+        list = await dbService.createGroup({
+          id: g.id, name: g.name, color: g.color, order: g.order, coinSymbols, collapsed: collapsed.has(g.id),
+        });
+      }
+    }
+  }
+  localStorage.removeItem(LEGACY_GROUPS_KEY);
+  localStorage.removeItem(LEGACY_COLLAPSED_KEY);
+  return list;
+}
+
+/**
+ * The signed-in user's sidebar groups, stored server-side.
+ *
+ * `sync(next, send)` shows `next` immediately and queues `send`; requests go
+ * out one at a time so each carries the version the previous one returned.
+ * Once the queue drains the server's list replaces the optimistic one. If a
+ * request fails — a 409 because another tab changed the group first, or
+ * anything else — the rest of the queue is dropped and the list reloaded;
+ * `conflict` is set so the UI can say why the sidebar jumped.
+ */
+export function useGroups() {
+  const [groups, setGroups] = useState<CoinGroup[]>([]);
+  const [conflict, setConflict] = useState(false);
+  const confirmedRef = useRef<CoinGroup[]>([]);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingRef = useRef(0);
+  const failedRef = useRef(false);
+
+  const reload = useCallback(async () => {
+    try {
+      const list = await dbService.getGroups();
+      confirmedRef.current = list;
+      if (pendingRef.current === 0) setGroups(list);
+    } catch (err) {
+      console.error('Failed to load groups:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    dbService.getGroups()
+      .then(importLegacyGroups)
+      .then(list => { confirmedRef.current = list; setGroups(list); })
+      .catch(err => console.error('Failed to load groups:', err));
+  }, []);
+
+  // Pick up edits made in other tabs or browsers when coming back to this one
+  useEffect(() => {
+    const onFocus = () => { if (pendingRef.current === 0) reload(); };
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, [reload]);
+
+  const sync = useCallback((next: CoinGroup[], send: Send) => {
+    setGroups(next);
+    pendingRef.current++;
+    queueRef.current = queueRef.current.then(async () => {
+      try {
+        if (failedRef.current) return;
+        confirmedRef.current = await send(id => confirmedRef.current.find(g => g.id === id)?.version);
+      } catch (err) {
+        failedRef.current = true;
+        if (err instanceof Error && err.message.startsWith('HTTP 409')) setConflict(true);
+        else console.error('Failed to save groups:', err);
+      } finally {
+        if (--pendingRef.current === 0) {
+          if (failedRef.current) {
+            failedRef.current = false;
+            await reload();
+          } else {
+            setGroups(confirmedRef.current);
+          }
+        }
+      }
+    });
+  }, [reload]);
+
+  const dismissConflict = useCallback(() => setConflict(false), []);
+
+  return { groups, sync, reload, conflict, dismissConflict };
+}
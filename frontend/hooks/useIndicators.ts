@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { IndicatorConfig, IndicatorKind, IndicatorSource } from '../types';
+import { DEFAULT_STD_DEV, INDICATOR_COLORS, INDICATOR_SPECS, sanitizeIndicators } from '../indicators';
+
+const STORAGE_PREFIX = 'binance-tracker-indicators:';
+
+function loadIndicators(symbol: string): IndicatorConfig[] {
+  try {
+    return sanitizeIndicators(JSON.parse(localStorage.getItem(STORAGE_PREFIX + symbol) ?? '[]'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The coin view's indicators for `symbol` (a coin key), kept in
+ * localStorage per coin so each one reopens with its own studies.
+ */
+export function useIndicators(symbol: string) {
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>(() => loadIndicators(symbol));
+
+  useEffect(() => {
+    setIndicators(loadIndicators(symbol));
+  }, [symbol]);
+
+  const save = useCallback((next: IndicatorConfig[]) => {
+    setIndicators(next);
+    if (next.length > 0) localStorage.setItem(STORAGE_PREFIX + symbol, JSON.stringify(next));
+    else localStorage.removeItem(STORAGE_PREFIX + symbol);
+  }, [symbol]);
+
+  const add = (kind: IndicatorKind, source: IndicatorSource) => {
+    const used = new Set(indicators.map(i => i.color));
+    save([...indicators, {
+      id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+      kind,
+      source,
+      period: INDICATOR_SPECS[kind].defaultPeriod,
+      ...(kind === 'bollinger' ? { stdDev: DEFAULT_STD_DEV } : {}),
+      color: INDICATOR_COLORS.find(c => !used.has(c)) ?? INDICATOR_COLORS[indicators.length % INDICATOR_COLORS.length],
+    }]);
+  };
+
+  const update = (id: string, patch: Partial<Pick<IndicatorConfig, 'period' | 'stdDev' | 'color'>>) => {
+    save(sanitizeIndicators(indicators.map(i => (i.id === id ? { ...i, ...patch } : i))));
+  };
+
+  const remove = (id: string) => save(indicators.filter(i => i.id !== id));
+
+  return { indicators, add, update, remove };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { IngestionStatus } from '../types';
+import { dbService, toCoinKey } from '../services/db';
+import { REFRESH_INTERVAL_MS } from '../constants';
+
+/**
+ * Ingestion status keyed by coin key, re-read every REFRESH_INTERVAL_MS (the
+ * server records an outcome per coin once a minute). `refresh()` reloads now.
+ */
+export function useIngestionStatus() {
+  const [statuses, setStatuses] = useState<Record<string, IngestionStatus>>({});
+  const [loadedAt, setLoadedAt] = useState<number | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const list = await dbService.getIngestionStatus();
+      const next: Record<string, IngestionStatus> = {};
+      for (const s of list) next[toCoinKey(s.venue, s.symbol)] = s;
+      setStatuses(next);
+      setLoadedAt(Date.now());
+    } catch (err) {
+      // Backend unreachable — the main poll loop reports that
+      console.error('[useIngestionStatus] load failed:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  return { statuses, loadedAt, refresh };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { LiquidationBucket } from '../types';
+import { dbService } from '../services/db';
+import { REFRESH_INTERVAL_MS } from '../constants';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Liquidated notional covering [viewStart, viewEnd] in buckets of the chart's
+ * interval (at least a minute, the server's smallest bucket). The range is
+ * widened to whole hours and re-read every REFRESH_INTERVAL_MS, like
+ * useFundingSettlements.
+ */
+export function useLiquidations(symbol: string, chartInterval: number, viewStart: number, viewEnd: number) {
+  const [buckets, setBuckets] = useState<LiquidationBucket[]>([]);
+  const interval = Math.max(chartInterval, MINUTE);
+  const start = Math.floor(viewStart / HOUR) * HOUR;
+  const end = Math.ceil(viewEnd / HOUR) * HOUR;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      dbService.getLiquidations(symbol, interval, start, end)
+        .then(rows => { if (!cancelled) setBuckets(rows); })
+        .catch(err => console.error('[useLiquidations] load failed:', err));
+    };
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [symbol, interval, start, end]);
+
+  return buckets;
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { PositioningPoint } from '../types';
+import { dbService } from '../services/db';
+import { REFRESH_INTERVAL_MS } from '../constants';
+
+const HOUR = 60 * 60 * 1000;
+
+// The venue publishes positioning in 5-minute periods; finer charts use those
+const POSITIONING_PERIOD_MS = 5 * 60 * 1000;
+
+/**
+ * Long/short ratios and taker volume covering [viewStart, viewEnd] at the
+ * chart's interval (never finer than the 5-minute source). Like
+ * useFundingSettlements the range is widened to whole hours and re-read every
+ * REFRESH_INTERVAL_MS. `unavailable` is set when the venue has no positioning
+ * data (the server answers 400).
+ */
+export function usePositioningSeries(symbol: string, chartInterval: number, viewStart: number, viewEnd: number) {
+  const [points, setPoints] = useState<PositioningPoint[]>([]);
+  const [unavailable, setUnavailable] = useState(false);
+  const interval = Math.max(chartInterval, POSITIONING_PERIOD_MS);
+  const start = Math.floor(viewStart / HOUR) * HOUR;
+  const end = Math.ceil(viewEnd / HOUR) * HOUR;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      dbService.getPositioning(symbol, interval, start, end)
+        .then(rows => {
+          if (cancelled) return;
+          setPoints(rows);
+          setUnavailable(false);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          if (String(err?.message).startsWith('HTTP 400')) setUnavailable(true);
+          else console.error('[usePositioningSeries] load failed:', err);
+        });
+    };
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [symbol, interval, start, end]);
+
+  return { points, unavailable };
+}
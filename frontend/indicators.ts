@@ -0,0 +1,301 @@
+import { IndicatorConfig, IndicatorKind, IndicatorSource, MarketDataPoint } from './types';
+
+// Technical indicators for the coin view's charts. Everything here is a pure
+// function of the whole series feeding the chart (raw points or candles), not
+// of the visible window, and a value only depends on the samples before it.
+// SMA, Bollinger bands, OI-VWAP and ROC look back a fixed window, so their
+// values stay the same however the view is panned or extended with older
+// history. EMA and RSI carry state from their seed onwards: they shift a
+// little when older history is added and converge after the warm-up that
+// indicatorWarmup() asks for. Periods count samples, like bars on a trading
+// chart.
+
+export interface IndicatorSpec {
+  label: string;
+  /** Prefix of the indicator's legend, e.g. EMA(21) */
+  short: string;
+  /** Drawn over its source chart, or in a pane of its own */
+  placement: 'overlay' | 'pane';
+  sources: IndicatorSource[];
+  defaultPeriod: number;
+}
+
+export const INDICATOR_SPECS: Record<IndicatorKind, IndicatorSpec> = {
+  sma: { label: 'Simple moving average', short: 'SMA', placement: 'overlay', sources: ['price', 'oi', 'funding'], defaultPeriod: 20 },
+  ema: { label: 'Exponential moving average', short: 'EMA', placement: 'overlay', sources: ['price', 'oi', 'funding'], defaultPeriod: 21 },
+  bollinger: { label: 'Bollinger bands', short: 'BB', placement: 'overlay', sources: ['price'], defaultPeriod: 20 },
+  // Points carry no traded volume, so open interest stands in as the weight
+  vwap: { label: 'OI-weighted average (VWAP-style)', short: 'OI-VWAP', placement: 'overlay', sources: ['price'], defaultPeriod: 60 },
+  rsi: { label: 'Relative strength index', short: 'RSI', placement: 'pane', sources: ['price', 'oi', 'funding'], defaultPeriod: 14 },
+  roc: { label: 'Rate of change', short: 'ROC', placement: 'pane', sources: ['price', 'oi', 'funding'], defaultPeriod: 12 },
+};
+
+export const INDICATOR_SOURCE_LABELS: Record<IndicatorSource, string> = {
+  price: 'Price',
+  oi: 'Open Interest',
+  funding: 'Funding',
+};
+
+export const MIN_PERIOD = 2;
+export const MAX_PERIOD = 500;
+export const DEFAULT_STD_DEV = 2;
+export const MIN_STD_DEV = 0.5;
+export const MAX_STD_DEV = 5;
+
+export const INDICATOR_COLORS = ['#f472b6', '#22d3ee', '#a3e635', '#fb923c', '#c084fc', '#facc15', '#2dd4bf', '#f87171'];
+
+/** A chart point with its indicator values, keyed by IndicatorLine.key */
+export type IndicatorPoint = MarketDataPoint & { ind: Record<string, number | null> };
+
+export interface IndicatorLine {
+  key: string;
+  label: string;
+  dashed: boolean;
+}
+
+export const indicatorLabel = (c: IndicatorConfig) =>
+  c.kind === 'bollinger'
+    ? `${INDICATOR_SPECS[c.kind].short}(${c.period}, ${c.stdDev ?? DEFAULT_STD_DEV})`
+    : `${INDICATOR_SPECS[c.kind].short}(${c.period})`;
+
+/** The lines an indicator draws: Bollinger bands three, everything else one. */
+export function indicatorLines(c: IndicatorConfig): IndicatorLine[] {
+  const label = indicatorLabel(c);
+  if (c.kind !== 'bollinger') return [{ key: c.id, label, dashed: false }];
+  return [
+    { key: `${c.id}_upper`, label: `${label} upper`, dashed: true },
+    { key: c.id, label: `${label} mid`, dashed: false },
+    { key: `${c.id}_lower`, label: `${label} lower`, dashed: true },
+  ];
+}
+
+/**
+ * Samples of history an indicator wants before the first point in view.
+ * EMA and RSI are recursive and never fully forget their seed, so they get
+ * three periods of lead for the seed to fade; the rest need one window.
+ */
+export const indicatorWarmup = (c: IndicatorConfig) =>
+  c.kind === 'ema' || c.kind === 'rsi' ? 3 * c.period : c.period;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+/** Drops anything in a stored indicator list this version can't draw, and clamps parameters. */
+export function sanitizeIndicators(raw: unknown): IndicatorConfig[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((c): IndicatorConfig[] => {
+    const spec = INDICATOR_SPECS[c?.kind as IndicatorKind];
+    if (!spec || !spec.sources.includes(c.source) || typeof c.id !== 'string') return [];
+    const period = Number.isFinite(c.period) ? Math.round(c.period) : spec.defaultPeriod;
+    return [{
+      id: c.id,
+      kind: c.kind,
+      source: c.source,
+      period: clamp(period, MIN_PERIOD, MAX_PERIOD),
+      ...(c.kind === 'bollinger'
+        ? { stdDev: clamp(Number.isFinite(c.stdDev) ? c.stdDev : DEFAULT_STD_DEV, MIN_STD_DEV, MAX_STD_DEV) }
+        : {}),
+      color: typeof c.color === 'string' ? c.color : INDICATOR_COLORS[0],
+    }];
+  });
+}
+
+// ── Calculations ─────────────────────────────────────────────────────────────
+//
+// Each takes the source values in time order and returns one value per
+// sample, null until a full window is available. A null (missing) sample
+// restarts the window, so no value is ever computed across a hole.
+
+type Series = (number | null)[];
+
+export function sma(values: Series, period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  let sum = 0;
+  let run = 0;
+  values.forEach((v, i) => {
+    if (v == null) {
+      sum = 0;
+      run = 0;
+      return;
+    }
+    sum += v;
+    run++;
+    if (run > period) sum -= values[i - period] as number;
+    if (run >= period) out[i] = sum / period;
+  });
+  return out;
+}
+
+/** Seeded with the SMA of the first `period` samples, then smoothed by 2 / (period + 1). */
+export function ema(values: Series, period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  const alpha = 2 / (period + 1);
+  let prev: number | null = null;
+  let seed = 0;
+  let run = 0;
+  values.forEach((v, i) => {
+    if (v == null) {
+      prev = null;
+      seed = 0;
+      run = 0;
+      return;
+    }
+    run++;
+    if (prev == null) {
+      seed += v;
+      if (run === period) prev = seed / period;
+    } else {
+      prev = prev + alpha * (v - prev);
+    }
+    out[i] = prev;
+  });
+  return out;
+}
+
+/** Middle band is the SMA; upper and lower are `stdDev` population standard deviations away. */
+export function bollinger(values: Series, period: number, stdDev: number) {
+  const mid = sma(values, period);
+  const upper: Series = new Array(values.length).fill(null);
+  const lower: Series = new Array(values.length).fill(null);
+  mid.forEach((m, i) => {
+    if (m == null) return;
+    let squares = 0;
+    for (let j = i - period + 1; j <= i; j++) squares += ((values[j] as number) - m) ** 2;
+    const width = stdDev * Math.sqrt(squares / period);
+    upper[i] = m + width;
+    lower[i] = m - width;
+  });
+  return { mid, upper, lower };
+}
+
+/** Rolling Σ(value × weight) / Σweight over `period` samples; null where the weights sum to zero. */
+export function weightedAverage(values: Series, weights: Series, period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  let sumVW = 0;
+  let sumW = 0;
+  let run = 0;
+  values.forEach((v, i) => {
+    const w = weights[i];
+    if (v == null || w == null) {
+      sumVW = 0;
+      sumW = 0;
+      run = 0;
+      return;
+    }
+    sumVW += v * w;
+    sumW += w;
+    run++;
+    if (run > period) {
+      const oldW = weights[i - period] as number;
+      sumVW -= (values[i - period] as number) * oldW;
+      sumW -= oldW;
+    }
+    if (run >= period && sumW > 0) out[i] = sumVW / sumW;
+  });
+  return out;
+}
+
+/** Wilder's RSI, 0–100: averages seeded with the mean of the first `period` changes. */
+export function rsi(values: Series, period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  let avgGain = 0;
+  let avgLoss = 0;
+  let changes = 0;
+  values.forEach((v, i) => {
+    const prev = i > 0 ? values[i - 1] : null;
+    if (v == null || prev == null) {
+      avgGain = 0;
+      avgLoss = 0;
+      changes = 0;
+      return;
+    }
+    const gain = Math.max(v - prev, 0);
+    const loss = Math.max(prev - v, 0);
+    changes++;
+    if (changes <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+      if (changes < period) return;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+    out[i] = avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss);
+  });
+  return out;
+}
+
+/**
+ * Change against the sample `period` back: in percent, or as a plain
+ * difference for series that cross zero (funding), where percent is
+ * meaningless.
+ */
+export function roc(values: Series, period: number, mode: 'pct' | 'diff'): Series {
+  let run = 0;
+  return values.map((v, i) => {
+    run = v == null ? 0 : run + 1;
+    if (v == null || run <= period) return null;
+    const base = values[i - period] as number;
+    if (mode === 'diff') return v - base;
+    return base === 0 ? null : ((v - base) / Math.abs(base)) * 100;
+  });
+}
+
+/** ROC of funding is a difference in rate; everything else is a percentage. */
+export const rocMode = (source: IndicatorSource) => (source === 'funding' ? 'diff' : 'pct');
+
+/**
+ * Adds every indicator's values to `points` (ascending, no duplicate
+ * timestamps) as `ind`. `fields` picks the point field each source reads,
+ * so OI and funding follow the chart's unit toggles.
+ */
+export function withIndicators(
+  points: MarketDataPoint[],
+  configs: IndicatorConfig[],
+  fields: Record<IndicatorSource, keyof MarketDataPoint>,
+): IndicatorPoint[] {
+  const sources = new Map<IndicatorSource, Series>();
+  const series = (source: IndicatorSource) => {
+    let values = sources.get(source);
+    if (!values) {
+      values = points.map(p => {
+        const v = p[fields[source]];
+        return typeof v === 'number' && Number.isFinite(v) ? v : null;
+      });
+      sources.set(source, values);
+    }
+    return values;
+  };
+
+  const columns: [string, Series][] = [];
+  for (const c of configs) {
+    const values = series(c.source);
+    switch (c.kind) {
+      case 'sma':
+        columns.push([c.id, sma(values, c.period)]);
+        break;
+      case 'ema':
+        columns.push([c.id, ema(values, c.period)]);
+        break;
+      case 'bollinger': {
+        const bands = bollinger(values, c.period, c.stdDev ?? DEFAULT_STD_DEV);
+        columns.push([c.id, bands.mid], [`${c.id}_upper`, bands.upper], [`${c.id}_lower`, bands.lower]);
+        break;
+      }
+      case 'vwap':
+        columns.push([c.id, weightedAverage(values, points.map(p => p.openInterest), c.period)]);
+        break;
+      case 'rsi':
+        columns.push([c.id, rsi(values, c.period)]);
+        break;
+      case 'roc':
+        columns.push([c.id, roc(values, c.period, rocMode(c.source))]);
+        break;
+    }
+  }
+
+  return points.map((p, i) => {
+    const ind: Record<string, number | null> = {};
+    for (const [key, values] of columns) ind[key] = values[i];
+    return { ...p, ind };
+  });
+}
@@ -1,13 +1,39 @@
-import { MarketDataPoint } from '../types';
+import {
+  AlertEvent, AlertRule, AlertRuleInput, AuthSession, BackfillJob, CoinGroup, CoinGroupPatch, ExportFormat, FundingHeatmap, FundingSettlement, IngestionStatus,
+  LiquidationBucket, MarketAnalysis, MarketCandle, MarketDataPoint, MarketScan, PositioningPoint, ScannerSort, SnapshotRow, SymbolInfo, User, Venue,
+} from '../types';
 
 const API_BASE =
   (((import.meta as any).env || {}) as Record<string, unknown>).VITE_API_BASE as string || '';
 
+const AUTH_TOKEN_KEY = 'binance-tracker-auth-token';
+
+let authToken: string | null = localStorage.getItem(AUTH_TOKEN_KEY);
+let onUnauthorized: (() => void) | null = null;
+
+/** Stores (or clears) the bearer token sent with every request. */
+export function setAuthToken(token: string | null) {
+  authToken = token;
+  if (token) localStorage.setItem(AUTH_TOKEN_KEY, token);
+  else localStorage.removeItem(AUTH_TOKEN_KEY);
+}
+
+export const getAuthToken = () => authToken;
+
+/** Called when the server rejects the stored token (expired or revoked). */
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  onUnauthorized = handler;
+}
+
 async function request<T>(path: string, opts: RequestInit = {}): Promise<T> {
   const res = await fetch(`${API_BASE}${path}`, {
-    headers: { 'Content-Type': 'application/json' },
+    headers: {
+      'Content-Type': 'application/json',
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+    },
     ...opts,
   });
+  if (res.status === 401 && authToken) onUnauthorized?.();
   if (!res.ok) {
     const text = await res.text();
     throw new Error(`HTTP ${res.status}: ${text}`);
@@ -20,34 +46,200 @@ async function request<T>(path: string, opts: RequestInit = {}): Promise<T> {
   }
 }
 
+export const DEFAULT_VENUE = 'binance';
+
+const ONE_MINUTE = 60 * 1000;
+
+// Reconnect delays for the live stream; resets once a connection opens
+const STREAM_BACKOFF_MS = [1_000, 5_000, 15_000, 30_000];
+
+export type LivePoint = MarketDataPoint & { venue: string; symbol: string };
+
+export type StreamStatus = 'connecting' | 'open' | 'reconnecting' | 'unsupported';
+
+interface SubscribeOptions {
+  /** Replay points at or after this timestamp before going live */
+  since?: number;
+  onStatus?: (status: StreamStatus) => void;
+}
+
+/**
+ * Coins are identified client-side by a single string key: the bare symbol
+ * for Binance (so groups saved before venues existed keep working) and
+ * `venue:SYMBOL` for every other exchange. The server accepts the same format
+ * in `latest-batch`.
+ */
+export function toCoinKey(venue: string, symbol: string): string {
+  return venue === DEFAULT_VENUE ? symbol : `${venue}:${symbol}`;
+}
+
+export function parseCoinKey(key: string): { venue: string; symbol: string } {
+  const sep = key.indexOf(':');
+  return sep === -1
+    ? { venue: DEFAULT_VENUE, symbol: key }
+    : { venue: key.slice(0, sep), symbol: key.slice(sep + 1) };
+}
+
+/** The server lists group members as `venue:SYMBOL`; the UI keys coins with toCoinKey */
+function fromServerGroups(groups: CoinGroup[]): CoinGroup[] {
+  return groups.map(g => ({
+    ...g,
+    coinSymbols: g.coinSymbols.map(m => { const { venue, symbol } = parseCoinKey(m); return toCoinKey(venue, symbol); }),
+  }));
+}
+
+/** `symbol=…&venue=…` query fragment for a coin key */
+function coinQuery(key: string): string {
+  const { venue, symbol } = parseCoinKey(key);
+  return `symbol=${encodeURIComponent(symbol)}&venue=${encodeURIComponent(venue)}`;
+}
+
 export const dbService = {
   /** Lightweight connectivity check — called once before any per-coin requests. */
   async healthCheck(): Promise<void> {
     await request<{ ok: boolean }>('/api/health');
   },
 
-  async addCoin(symbol: string) {
+  async register(username: string, password: string) {
+    return request<AuthSession>('/api/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    });
+  },
+
+  async login(username: string, password: string) {
+    return request<AuthSession>('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    });
+  },
+
+  async logout() {
+    return request('/api/auth/logout', { method: 'POST' });
+  },
+
+  async getMe() {
+    return request<User>('/api/auth/me');
+  },
+
+  async getVenues() {
+    return request<Venue[]>('/api/venues');
+  },
+
+  /** Tradable contracts on `venue`, as validated by POST /api/coins. */
+  async getSymbols(venue: string) {
+    return request<SymbolInfo[]>(`/api/symbols?venue=${encodeURIComponent(venue)}`);
+  },
+
+  /** Every perpetual on `venue` ranked by `sort`; cached server-side for a minute. */
+  async getScanner(sort: ScannerSort, order: 'asc' | 'desc', limit = 200, venue = DEFAULT_VENUE) {
+    return request<MarketScan>(
+      `/api/scanner?venue=${encodeURIComponent(venue)}&sort=${sort}&order=${order}&limit=${limit}`
+    );
+  },
+
+  async addCoin(key: string) {
     return request('/api/coins', {
       method: 'POST',
-      body: JSON.stringify({ symbol }),
+      body: JSON.stringify(parseCoinKey(key)),
+    });
+  },
+
+  async removeCoin(key: string) {
+    const { venue, symbol } = parseCoinKey(key);
+    return request(`/api/coins/${encodeURIComponent(symbol)}?venue=${encodeURIComponent(venue)}`, {
+      method: 'DELETE',
     });
   },
 
-  async removeCoin(symbol: string) {
-    return request(`/api/coins/${encodeURIComponent(symbol)}`, {
+  /** Every group call answers with the user's full group list. */
+  async getGroups() {
+    return fromServerGroups(await request<CoinGroup[]>('/api/groups'));
+  },
+
+  async createGroup(group: CoinGroupPatch & { id: string; name: string; color: string }) {
+    return fromServerGroups(await request<CoinGroup[]>('/api/groups', {
+      method: 'POST',
+      body: JSON.stringify(group),
+    }));
+  },
+
+  /** `version` is the one last seen; a stale one gets a 409. */
+  async updateGroup(id: string, patch: CoinGroupPatch, version?: number) {
+    return fromServerGroups(await request<CoinGroup[]>(`/api/groups/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ ...patch, version }),
+    }));
+  },
+
+  async deleteGroup(id: string) {
+    return fromServerGroups(await request<CoinGroup[]>(`/api/groups/${encodeURIComponent(id)}`, {
       method: 'DELETE',
+    }));
+  },
+
+  async getBackfillJobs() {
+    return request<BackfillJob[]>('/api/backfill');
+  },
+
+  /** Ingestion health, failures and recent gaps for every watched coin */
+  async getIngestionStatus() {
+    return request<IngestionStatus[]>('/api/ingestion/status');
+  },
+
+  async getAlertRules() {
+    return request<AlertRule[]>('/api/alerts/rules');
+  },
+
+  async createAlertRule(input: AlertRuleInput) {
+    return request<AlertRule>('/api/alerts/rules', {
+      method: 'POST',
+      body: JSON.stringify(input),
     });
   },
 
+  async updateAlertRule(id: number, patch: Partial<AlertRuleInput>) {
+    return request<AlertRule>(`/api/alerts/rules/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(patch),
+    });
+  },
+
+  async deleteAlertRule(id: number) {
+    return request(`/api/alerts/rules/${id}`, { method: 'DELETE' });
+  },
+
+  /** Alert history, newest first; `since` limits it to later firings. */
+  async getAlertEvents(since?: number, limit = 100) {
+    let url = `/api/alerts/events?limit=${limit}`;
+    if (since !== undefined) url += `&since=${since}`;
+    return request<AlertEvent[]>(url);
+  },
+
+  /** Cached server-side; `refresh` asks for a new one (at most once a minute). */
+  async getAnalysis(key: string, refresh = false) {
+    const { venue, symbol } = parseCoinKey(key);
+    let url = `/api/analysis/${encodeURIComponent(symbol)}?venue=${encodeURIComponent(venue)}`;
+    if (refresh) url += '&refresh=1';
+    return request<MarketAnalysis>(url);
+  },
+
+  /** Funding and OI change for the whole watchlist, `count` buckets of `interval` ms up to now. */
+  async getHeatmap(interval: number, count: number) {
+    const end = Date.now();
+    return request<FundingHeatmap>(`/api/heatmap?interval=${interval}&start=${end - count * interval}&end=${end}`);
+  },
+
+  /** The signed-in user's watchlist */
   async getCoins() {
-    return request<{ symbol: string; added_at: string }[]>('/api/coins');
+    return request<{ venue: string; symbol: string; added_at: string }[]>('/api/coins');
   },
 
-  async addMarketData(symbol: string, data: MarketDataPoint) {
+  async addMarketData(key: string, data: MarketDataPoint) {
     return request('/api/market-data', {
       method: 'POST',
       body: JSON.stringify({
-        symbol,
+        ...parseCoinKey(key),
         timestamp: data.timestamp,
         openInterest: data.openInterest,
         fundingRate: data.fundingRate,
@@ -56,35 +248,170 @@ export const dbService = {
     });
   },
 
-  async fetchAndStore(symbol: string) {
+  async fetchAndStore(key: string) {
     return request<MarketDataPoint>('/api/market-data/fetch', {
       method: 'POST',
-      body: JSON.stringify({ symbol }),
+      body: JSON.stringify(parseCoinKey(key)),
     });
   },
 
-  async getMarketData(symbol: string, limit = 100, before?: number) {
-    let url = `/api/market-data?symbol=${encodeURIComponent(symbol)}&limit=${limit}`;
+  async getMarketData(key: string, limit = 100, before?: number) {
+    let url = `/api/market-data?${coinQuery(key)}&limit=${limit}`;
     if (before !== undefined) url += `&before=${before}`;
     return request<MarketDataPoint[]>(url);
   },
 
-  async getMarketDataRange(symbol: string, start: number, end: number) {
-    const url = `/api/market-data/range?symbol=${encodeURIComponent(symbol)}&start=${start}&end=${end}`;
+  async getMarketDataRange(key: string, start: number, end: number) {
+    const url = `/api/market-data/range?${coinQuery(key)}&start=${start}&end=${end}`;
     return request<MarketDataPoint[]>(url);
   },
 
+  /** OHLC buckets computed server-side; `interval` is in ms (whole minutes). */
+  async getCandles(key: string, interval: number, start: number, end: number) {
+    const url = `/api/market-data/candles?${coinQuery(key)}&interval=${interval}&start=${start}&end=${end}`;
+    return request<MarketCandle[]>(url);
+  },
+
+  /**
+   * Chart series at `interval`: raw rows at 1 minute, server-side candles
+   * (close price/OI, average funding) for anything coarser, so the browser
+   * never downloads raw minutes just to bucket them.
+   */
+  async getSeries(key: string, interval: number, start: number, end: number): Promise<MarketDataPoint[]> {
+    if (interval <= ONE_MINUTE) return dbService.getMarketDataRange(key, start, end);
+    const candles = await dbService.getCandles(key, interval, start, end);
+    return candles.map(c => ({
+      timestamp: c.timestamp,
+      openInterest: c.openInterest.close,
+      fundingRate: c.fundingRate.avg,
+      price: c.price.close,
+      markPrice: null,
+      indexPrice: null,
+      nextFundingTime: null,
+      interestRate: null,
+      fundingIntervalMs: c.fundingIntervalMs,
+      openInterestUsd: c.openInterestUsd,
+      fundingRateAnnualized: c.fundingRateAnnualized,
+      fundingRate8h: c.fundingRate8h,
+      basis: c.basis,
+      oiChange: c.oiChange,
+    }));
+  },
+
+  /** Snapshot table over the last `period` ms, a row every `interval` ms, computed server-side. */
+  async getSnapshots(key: string, period: number, interval: number) {
+    return request<SnapshotRow[]>(`/api/snapshots?${coinQuery(key)}&period=${period}&interval=${interval}`);
+  },
+
+  /** Long/short ratios and taker volume in `interval` buckets (a multiple of 5 minutes) */
+  async getPositioning(key: string, interval: number, start: number, end: number) {
+    const url = `/api/market-data/positioning?${coinQuery(key)}&interval=${interval}&start=${start}&end=${end}`;
+    return request<PositioningPoint[]>(url);
+  },
+
+  /** Liquidated notional per `interval` bucket; buckets without liquidations are omitted */
+  async getLiquidations(key: string, interval: number, start: number, end: number) {
+    const url = `/api/market-data/liquidations?${coinQuery(key)}&interval=${interval}&start=${start}&end=${end}`;
+    return request<LiquidationBucket[]>(url);
+  },
+
+  /** Settled funding events in [start, end], ascending */
+  async getFundingSettlements(key: string, start: number, end: number) {
+    return request<FundingSettlement[]>(`/api/funding/settlements?${coinQuery(key)}&start=${start}&end=${end}`);
+  },
+
   /**
    * Fetches the most-recent data point for ALL given symbols in a single
    * HTTP request → single DB query (DISTINCT ON).
    *
    * Replaces the old poll pattern of N parallel getMarketData(sym, 1) calls.
-   * Each item in the returned array includes a `symbol` field alongside the
-   * standard MarketDataPoint fields.
+   * Takes coin keys; each item in the returned array includes `venue` and
+   * `symbol` fields alongside the standard MarketDataPoint fields.
+   */
+  async getLatestBatch(keys: string[]): Promise<LivePoint[]> {
+    if (keys.length === 0) return [];
+    const url = `/api/market-data/latest-batch?symbols=${keys.map(encodeURIComponent).join(',')}`;
+    return request<LivePoint[]>(url);
+  },
+
+  /**
+   * Download link for GET /api/export: raw rows, or candles when `interval`
+   * (ms) is set. A link rather than a request so the browser streams the
+   * file to disk instead of holding it in memory; a link can't carry the
+   * Authorization header, so the session token goes in the query.
+   */
+  exportUrl(keys: string[], start: number, end: number, format: ExportFormat, interval?: number) {
+    let url = `${API_BASE}/api/export?symbols=${keys.map(encodeURIComponent).join(',')}`
+      + `&start=${start}&end=${end}&format=${format}`;
+    if (interval !== undefined) url += `&interval=${interval}`;
+    if (authToken) url += `&access_token=${encodeURIComponent(authToken)}`;
+    return url;
+  },
+
+  /**
+   * Streams newly stored points for `keys` from /api/stream (Server-Sent
+   * Events). Reconnects with backoff whenever the connection drops and
+   * resumes from the oldest of the coins' last received timestamps, so a coin
+   * that lags the others misses nothing stored in between; points replayed
+   * for the coins that were ahead are dropped here. Returns an unsubscribe
+   * function.
    */
-  async getLatestBatch(symbols: string[]): Promise<(MarketDataPoint & { symbol: string })[]> {
-    if (symbols.length === 0) return [];
-    const url = `/api/market-data/latest-batch?symbols=${symbols.map(encodeURIComponent).join(',')}`;
-    return request<(MarketDataPoint & { symbol: string })[]>(url);
+  subscribe(keys: string[], onPoint: (point: LivePoint) => void, { since, onStatus }: SubscribeOptions = {}) {
+    if (typeof EventSource === 'undefined') {
+      onStatus?.('unsupported');
+      return () => {};
+    }
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let closed = false;
+    // Newest timestamp received per coin key
+    const lastTimestamps = new Map<string, number>();
+
+    const resumeFrom = () => {
+      const known = keys
+        .map(k => lastTimestamps.get(k) ?? since)
+        .filter((t): t is number => t !== undefined);
+      return known.length > 0 ? Math.min(...known) : undefined;
+    };
+
+    const connect = () => {
+      let url = `${API_BASE}/api/stream?symbols=${keys.map(encodeURIComponent).join(',')}`;
+      const resume = resumeFrom();
+      if (resume !== undefined) url += `&since=${resume}`;
+      onStatus?.(attempt === 0 ? 'connecting' : 'reconnecting');
+      source = new EventSource(url);
+
+      source.onopen = () => {
+        attempt = 0;
+        onStatus?.('open');
+      };
+      source.addEventListener('point', e => {
+        const point = JSON.parse((e as MessageEvent).data) as LivePoint;
+        const key = toCoinKey(point.venue, point.symbol);
+        if ((lastTimestamps.get(key) ?? -Infinity) >= point.timestamp) return;
+        lastTimestamps.set(key, point.timestamp);
+        onPoint(point);
+      });
+      // EventSource would retry on its own, but gives up for good on an HTTP
+      // error and never resends `since` — so always reconnect ourselves
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        if (closed) return;
+        const delay = STREAM_BACKOFF_MS[Math.min(attempt, STREAM_BACKOFF_MS.length - 1)];
+        attempt++;
+        onStatus?.('reconnecting');
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+    };
   },
 };
\ No newline at end of file
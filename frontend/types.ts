@@ -1,8 +1,286 @@
-export interface MarketDataPoint {
+export type OiChangeWindow = '1h' | '4h' | '24h';
+
+/** Open interest against its value one window earlier; null without that much history */
+export type OiChanges = Record<OiChangeWindow, { abs: number; pct: number | null } | null>;
+
+/** Fields the server derives from each point (see backend/server/derived.js) */
+export interface DerivedFields {
+  openInterestUsd: number;       // open interest × price, in USDT
+  fundingRateAnnualized: number; // funding rate × settlements per year
+  fundingRate8h: number;         // funding rate scaled to an 8h interval
+  basis: number | null;          // (mark − index) / index
+  oiChange: OiChanges;
+}
+
+export interface MarketDataPoint extends DerivedFields {
   timestamp: number;
   openInterest: number;
   fundingRate: number;
   price: number;
+  // Premium-index fields; null where the venue doesn't report them or the
+  // point predates them (and on rollup points, which only keep `basis`)
+  markPrice: number | null;
+  indexPrice: number | null;
+  nextFundingTime: number | null;
+  interestRate: number | null;
+  fundingIntervalMs: number | null;
+}
+
+/**
+ * One bucket from /api/market-data/positioning: ratios and long-account
+ * shares (0–1) are averages over the bucket, volumes (base asset) sums.
+ * A field is null when the venue had no data for it.
+ */
+export interface PositioningPoint {
+  timestamp: number;
+  globalLongShortRatio: number | null; // accounts, all users
+  globalLongAccount: number | null;
+  topLongShortRatio: number | null;    // positions, top traders
+  topLongAccount: number | null;
+  takerBuySellRatio: number | null;
+  takerBuyVolume: number | null;
+  takerSellVolume: number | null;
+}
+
+/**
+ * One bucket from /api/market-data/liquidations. Notional is in the quote
+ * currency; "long" is longs that were liquidated (sell orders), "short" the
+ * reverse.
+ */
+export interface LiquidationBucket {
+  timestamp: number;
+  longNotional: number;
+  shortNotional: number;
+  longCount: number;
+  shortCount: number;
+}
+
+/** A settled funding event from /api/funding/settlements */
+export interface FundingSettlement {
+  fundingTime: number;
+  fundingRate: number;
+  markPrice: number | null;
+  intervalMs: number | null; // since the previous settlement
+}
+
+/**
+ * One row of GET /api/snapshots, taken from the sample nearest `timestamp`.
+ * Changes are against the previous row (null on the first); funding rates
+ * are fractions, `cumulativeFunding` the sum settled since the period start.
+ */
+export interface SnapshotRow {
+  timestamp: number;
+  sampledAt: number;
+  price: number;
+  priceChange: number | null;
+  priceChangePct: number | null;
+  openInterest: number;
+  oiChange: number | null;
+  oiChangePct: number | null;
+  openInterestUsd: number;
+  oiUsdChange: number | null;
+  fundingRate: number;
+  fundingChange: number | null;
+  fundingRateAnnualized: number;
+  fundingRate8h: number;
+  fundingIntervalMs: number | null;
+  cumulativeFunding: number;
+}
+
+export type IndicatorKind = 'sma' | 'ema' | 'bollinger' | 'vwap' | 'rsi' | 'roc';
+
+/** Chart series an indicator is computed from, in the unit the chart shows */
+export type IndicatorSource = 'price' | 'oi' | 'funding';
+
+/** One study on the coin view; saved per coin in localStorage */
+export interface IndicatorConfig {
+  id: string;
+  kind: IndicatorKind;
+  source: IndicatorSource;
+  period: number;  // in samples (bars), not time
+  stdDev?: number; // Bollinger band width
+  color: string;
+}
+
+export interface OHLC {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/** One server-side bucket from /api/market-data/candles; derived fields are at its close */
+export interface MarketCandle extends DerivedFields {
+  timestamp: number; // bucket start
+  price: OHLC;
+  openInterest: OHLC;
+  fundingRate: { avg: number; last: number };
+  fundingIntervalMs: number | null;
+  samples: number;   // raw points that went into the bucket
+}
+
+export type BackfillStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/** Historical backfill queued when a coin is added (GET /api/backfill) */
+export interface BackfillJob {
+  venue: string;
+  symbol: string;
+  status: BackfillStatus;
+  start: number;     // oldest timestamp the job will fetch
+  end: number;       // when the coin was added
+  progress: number;  // 0–1
+  error: string | null;
+  updatedAt: string;
+}
+
+export type IngestionHealth = 'ok' | 'stale' | 'failing';
+
+/** Stretch between two stored raw points with nothing in between */
+export interface IngestionGap {
+  start: number;
+  end: number;
+  status: 'open' | 'repaired' | 'failed';
+  pointsAdded: number | null; // history points a repair stored
+  error: string | null;
+}
+
+/** One coin from /api/ingestion/status */
+export interface IngestionStatus {
+  venue: string;
+  symbol: string;
+  health: IngestionHealth;
+  lastPointAt: number | null;
+  lastSuccessAt: number | null;
+  lastAttemptAt: number | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  openGaps: number;
+  missingMinutes: number;  // in gaps not yet repaired
+  gaps: IngestionGap[];    // last 24h, oldest first
+}
+
+/** Sidebar folder of coins; `coinSymbols` holds coin keys */
+export interface CoinGroup {
+  id: string;
+  name: string;
+  color: string;
+  coinSymbols: string[];
+  order: number;
+  collapsed: boolean;
+  /** Bumped by the server on every change; sent back to detect conflicting edits */
+  version: number;
+}
+
+/** File formats GET /api/export can stream */
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+/** Fields of a group PATCH /api/groups/:id can change */
+export type CoinGroupPatch = Partial<Pick<CoinGroup, 'name' | 'color' | 'coinSymbols' | 'order' | 'collapsed'>>;
+
+/** One watchlist coin's row of GET /api/heatmap; arrays align with `buckets` */
+export interface HeatmapRow {
+  venue: string;
+  symbol: string;
+  fundingRate: (number | null)[];  // average over the bucket
+  oiChangePct: (number | null)[];  // bucket open → close, percent
+}
+
+export interface FundingHeatmap {
+  interval: number;
+  buckets: number[];  // column start times
+  coins: HeatmapRow[];
+}
+
+export type ScannerSort = 'fundingRate' | 'fundingChange' | 'quoteVolume' | 'priceChangePct' | 'oiChangePct';
+
+/** One perpetual in GET /api/scanner */
+export interface ScannerRow {
+  rank: number;
+  symbol: string;
+  baseAsset: string;
+  price: number;
+  priceChangePct: number;         // 24h
+  quoteVolume: number;            // 24h, quote asset
+  fundingRate: number;            // predicted
+  fundingChange: number | null;   // predicted minus last settled
+  oiChangePct: number | null;     // only for the highest-volume sample
+}
+
+export interface MarketScan {
+  venue: string;
+  generatedAt: number;
+  total: number;          // perpetuals scanned, before `limit`
+  oiSampleSize: number;
+  oiLookbackMs: number;
+  sort: ScannerSort;
+  order: 'asc' | 'desc';
+  rows: ScannerRow[];
+}
+
+export type AlertMetric =
+  | 'price'
+  | 'open_interest'
+  | 'funding_rate'
+  | 'price_change_pct'
+  | 'open_interest_change_pct'
+  | 'funding_rate_change';
+
+export type AlertComparator = 'above' | 'below' | 'crosses_above' | 'crosses_below';
+
+/** Fields a client sends to create or patch an alert rule */
+export interface AlertRuleInput {
+  name?: string | null;
+  venue?: string;
+  symbol?: string;       // single-coin rule …
+  groupId?: string;      // … or one of the user's CoinGroups
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;     // funding metrics are raw rates, *_pct metrics percent
+  lookbackMs: number;
+  cooldownMs: number;
+  enabled?: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: number;
+  name: string | null;
+  venue: string | null;
+  symbol: string | null;
+  groupId: string | null;
+  groupName: string | null;
+  members: string[];     // `venue:SYMBOL`, the group's coins right now
+  enabled: boolean;
+  createdAt: string;
+}
+
+/** One firing from /api/alerts/events */
+export interface AlertEvent {
+  id: number;
+  ruleId: number | null; // null once the rule is deleted
+  ruleName: string | null;
+  venue: string;
+  symbol: string;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+  value: number;         // observed value that tripped the rule
+  pointTimestamp: number;
+  firedAt: number;
+}
+
+export interface Venue {
+  id: string;    // e.g., 'binance', 'bybit'
+  label: string;
+}
+
+/** A listed contract from GET /api/symbols */
+export interface SymbolInfo {
+  symbol: string;            // e.g. 'BTCUSDT'
+  baseAsset: string;         // e.g. 'BTC'
+  quoteAsset: string;
+  contractType: string;      // 'PERPETUAL' or the venue's delivery type
+  onboardDate: number | null;
 }
 
 export interface CoinConfig {
@@ -37,3 +315,30 @@ export interface AIAnalysisResult {
   summary: string;
   riskLevel: 'low' | 'medium' | 'high';
 }
+
+/** GET /api/analysis/:symbol — an AIAnalysisResult plus where it came from */
+export interface MarketAnalysis {
+  venue: string;
+  symbol: string;
+  /** 'gemini' | 'local' */
+  provider: string;
+  model: string | null;
+  result: AIAnalysisResult;
+  /** Range of market data the analysis was built from (unix ms) */
+  dataFrom: number;
+  dataTo: number;
+  generatedAt: string;
+  cached: boolean;
+}
+
+export interface User {
+  id: number;
+  username: string;
+  createdAt: string;
+}
+
+/** POST /api/auth/login and /register */
+export interface AuthSession {
+  user: User;
+  token: string;
+}